@@ -1,15 +1,21 @@
 import {
 	addEdge,
+	applyNodeChanges,
 	type Connection,
 	type Edge,
 	type Node,
+	type NodeChange,
+	type OnNodesChange,
 	useEdgesState,
 	useNodesState,
 } from "@xyflow/react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { ChatInterface } from "./components/ChatInterface";
 import { DevControlPanel } from "./components/DevControlPanel";
+import { ExportDialog, type ImageExportOptions } from "./components/ExportDialog";
 import { MapsPanel } from "./components/MapsPanel";
+import { MermaidImportDialog } from "./components/MermaidImportDialog";
+import type { PathExportFormat } from "./components/PathsPanel";
 import { ProcessMap } from "./components/ProcessMap";
 import {
 	Sidebar,
@@ -19,10 +25,62 @@ import {
 	SidebarProvider,
 	SidebarRail,
 } from "./components/ui/sidebar";
+import { useGraphStructure } from "./hooks/useGraphStructure";
 import { useHistory } from "./hooks/useHistory";
 import { useKeyboardShortcuts } from "./hooks/useKeyboardShortcuts";
 import { usePersistence } from "./hooks/usePersistence";
-import { getLayoutedElements, LAYOUT_PRESETS } from "./utils/autoLayout";
+import { useSimulation } from "./hooks/useSimulation";
+import type { ProcessGraph, ProcessLane } from "./types/process";
+import {
+	detectLayoutDirection,
+	getLayoutedElements,
+	LAYOUT_PRESETS,
+	type LayoutDirection,
+} from "./utils/autoLayout";
+import { exportBpmn, importBpmn } from "./utils/bpmn";
+import { downloadFile, toFileName } from "./utils/download";
+import { legendKinds, sceneToPdf } from "./utils/exportPdf";
+import { svgToPng } from "./utils/exportPng";
+import { buildScene } from "./utils/exportScene";
+import { sceneToSvg } from "./utils/exportSvg";
+import {
+	acceptChanges,
+	buildOverlay,
+	diffGraphs,
+	hasChanges,
+	summarizeDiff,
+} from "./utils/graphDiff";
+import { analyzeGraph, findingsByNode } from "./utils/graphAnalysis";
+import type { GraphState } from "./utils/graphPatch";
+import {
+	buildLaneNodes,
+	isLaneNode,
+	LANE_NODE_PREFIX,
+	moveStepsWithLanes,
+	reorderLanes,
+	snapToLane,
+} from "./utils/lanes";
+import { analyzeLeadTime, hasTimings, pathLeadHours } from "./utils/leadTime";
+import { applyLintFixes, LINT_RULE_SETS, type LintIssue, type LintRuleSetId, lintGraph } from "./utils/lint";
+import { withWaitLabels } from "./utils/metrics";
+import {
+	childGraphOf,
+	composeRoot,
+	type DrillFrame,
+	isSubprocess,
+	toSubprocess,
+	withChildGraph,
+} from "./utils/subprocess";
+import { exportMermaid, importMermaid } from "./utils/mermaid";
+import {
+	DEFAULT_MAX_LOOPS,
+	enumeratePaths,
+	highlightPath,
+	pathsToCsv,
+	pathsToGherkin,
+	pathTitle,
+} from "./utils/paths";
+import type { SimulationOptions } from "./utils/simulation";
 import { TEST_EDGES, TEST_NODES } from "./utils/testData";
 import "./index.css";
 
@@ -41,15 +99,39 @@ export function App() {
 	const [fitViewFn, setFitViewFn] = useState<(() => void) | null>(null);
 	const [layoutPresetName, setLayoutPresetName] = useState<string | null>(null);
 	const layoutPresetIndex = useRef(0);
+	const [layoutDirection, setLayoutDirection] = useState<LayoutDirection>(
+		detectLayoutDirection(initialNodes),
+	);
+	const [lanes, setLanes] = useState<ProcessLane[]>([]);
+	// Lane header being dragged: the lane's live start across the flow
+	const [laneDrag, setLaneDrag] = useState<{ laneId: string; cross: number } | null>(null);
+	// Subprocess levels opened above the root map, outermost first
+	const [frames, setFrames] = useState<DrillFrame[]>([]);
+	// Set while drilling across linked maps, so loading them keeps the breadcrumbs
+	const drillingRef = useRef(false);
+	const [mermaidDialogOpen, setMermaidDialogOpen] = useState(false);
+	const [exportDialogOpen, setExportDialogOpen] = useState(false);
+	const [lintRuleSet, setLintRuleSet] = useState<LintRuleSetId>("standards");
+	const [pathLoops, setPathLoops] = useState(DEFAULT_MAX_LOOPS);
+	const [highlightedPath, setHighlightedPath] = useState<string | null>(null);
+	const [showCriticalPath, setShowCriticalPath] = useState(false);
+	const simulation = useSimulation();
 	// Key to reset ChatInterface when creating a new map
 	const [chatKey, setChatKey] = useState(0);
+	// Staging: AI changes land in a proposal until accepted
+	const [previewChanges, setPreviewChanges] = useState(false);
+	const [proposal, setProposal] = useState<GraphState | null>(null);
 
 	// Persistence hook for auto-save and map management
 	const persistence = usePersistence({
 		autoSaveDelay: 2000,
 		onLoad: (map) => {
+			if (!drillingRef.current) setFrames([]);
+			setProposal(null);
+			setLayoutDirection(detectLayoutDirection(map.nodes));
 			setNodes(map.nodes);
 			setEdges(map.edges);
+			setLanes(map.lanes ?? []);
 			setChatKey((k) => k + 1); // Reset chat when loading a different map
 			setTimeout(() => fitViewFn?.(), 100);
 		},
@@ -68,12 +150,221 @@ export function App() {
 		)
 			return;
 
-		persistence.autoSave(nodes, edges);
-	}, [nodes, edges, persistence.autoSave, persistence.isLoading]);
+		// Inside a subprocess the open level is saved as part of its parent map
+		const root = composeRoot(frames, { nodes, edges, lanes });
+		persistence.autoSave(root.nodes, root.edges, root.lanes);
+	}, [nodes, edges, lanes, frames, persistence.autoSave, persistence.isLoading]);
 
 	// History management for undo/redo
 	const history = useHistory(initialNodes, initialEdges);
 
+	// Ghost overlay for a proposal under review
+	const proposalDiff = useMemo(
+		() => (proposal ? diffGraphs({ nodes, edges }, proposal) : null),
+		[proposal, nodes, edges],
+	);
+	const overlay = useMemo(
+		() =>
+			proposal && proposalDiff
+				? buildOverlay({ nodes, edges }, proposal, proposalDiff)
+				: null,
+		[proposal, proposalDiff, nodes, edges],
+	);
+
+	const horizontal = layoutDirection === "LR";
+
+	// The analyses below only look at steps, edges and their data - not at positions
+	const structure = useGraphStructure(nodes, edges);
+
+	// Mapping-standard violations on the open level
+	const lintIssues = useMemo(
+		() => lintGraph(structure as ProcessGraph, LINT_RULE_SETS[lintRuleSet].rules),
+		[structure, lintRuleSet],
+	);
+
+	// Unreachable steps, dead ends, unused decision outputs... badged on the nodes
+	const analysis = useMemo(() => findingsByNode(analyzeGraph(structure)), [structure]);
+
+	// Start-to-end paths for test scenarios; the highlighted one is picked out on the canvas
+	const pathEnumeration = useMemo(
+		() => enumeratePaths(structure, pathLoops),
+		[structure, pathLoops],
+	);
+	const pathTitles = useMemo(
+		() => pathEnumeration.paths.map((path) => pathTitle(path, structure)),
+		[pathEnumeration, structure],
+	);
+	// Lead time and critical path, once the map has cycle or wait times
+	const leadTime = useMemo(
+		() => (hasTimings(structure) ? analyzeLeadTime(structure) : null),
+		[structure],
+	);
+	const pathLeadTimes = useMemo(
+		() => (leadTime ? pathEnumeration.paths.map((path) => pathLeadHours(path, structure)) : undefined),
+		[leadTime, pathEnumeration, structure],
+	);
+	const canvas = useMemo(() => {
+		const path = showCriticalPath
+			? leadTime?.critical?.path
+			: pathEnumeration.paths.find((p) => p.key === highlightedPath);
+		const shown = overlay ?? (path ? highlightPath({ nodes, edges }, path) : { nodes, edges });
+		return { nodes: shown.nodes, edges: withWaitLabels(shown.edges) };
+	}, [overlay, pathEnumeration, highlightedPath, showCriticalPath, leadTime, nodes, edges]);
+
+	// One highlight at a time: a test path or the critical path
+	const handleHighlightPath = useCallback((key: string | null) => {
+		setHighlightedPath(key);
+		if (key) setShowCriticalPath(false);
+	}, []);
+	const handleShowCriticalPath = useCallback((show: boolean) => {
+		setShowCriticalPath(show);
+		if (show) setHighlightedPath(null);
+	}, []);
+
+	const handleApplyLintFixes = useCallback(
+		(issues: LintIssue[]) => {
+			const fixed = applyLintFixes({ nodes, edges } as ProcessGraph, issues);
+			setNodes(fixed.nodes);
+			setEdges(fixed.edges);
+			console.log(`🩹 Applied ${issues.length} lint fix(es)`);
+		},
+		[nodes, edges, setNodes, setEdges],
+	);
+
+	const handleRenameLane = useCallback((laneId: string, label: string) => {
+		setLanes((ls) => ls.map((l) => (l.id === laneId ? { ...l, label } : l)));
+	}, []);
+
+	// Steps of a removed lane stay where they are; lanes after it close the gap
+	const handleRemoveLane = useCallback(
+		(laneId: string) => {
+			const remaining = lanes.filter((l) => l.id !== laneId);
+			setNodes((nds) =>
+				moveStepsWithLanes(nds, lanes, remaining, horizontal).map((n) => {
+					if (n.data.laneId !== laneId) return n;
+					const { laneId: _, ...data } = n.data;
+					return { ...n, data };
+				}),
+			);
+			setLanes(remaining);
+		},
+		[lanes, horizontal, setNodes],
+	);
+
+	const handleAddLane = useCallback(() => {
+		setLanes((ls) => [
+			...ls,
+			{ id: `lane-${Date.now()}`, label: `Lane ${ls.length + 1}` },
+		]);
+	}, []);
+
+	// Lane backgrounds are derived from the lanes and the steps, never stored
+	const laneNodes = useMemo(() => {
+		const shownLanes = proposal?.lanes ?? lanes;
+		const steps = overlay?.nodes ?? nodes;
+		return buildLaneNodes(shownLanes, steps, horizontal).map((laneNode) => {
+			const dragged = laneDrag && laneNode.id === `${LANE_NODE_PREFIX}${laneDrag.laneId}`;
+			return {
+				...laneNode,
+				position: dragged
+					? horizontal
+						? { x: laneNode.position.x, y: laneDrag.cross }
+						: { x: laneDrag.cross, y: laneNode.position.y }
+					: laneNode.position,
+				draggable: !proposal,
+				data: proposal
+					? laneNode.data
+					: { ...laneNode.data, onRename: handleRenameLane, onRemove: handleRemoveLane },
+			};
+		});
+	}, [
+		proposal,
+		lanes,
+		overlay,
+		nodes,
+		horizontal,
+		laneDrag,
+		handleRenameLane,
+		handleRemoveLane,
+	]);
+
+	// Dropping a lane header reorders the lanes and carries their steps along
+	const handleLaneChanges = useCallback(
+		(changes: NodeChange[]) => {
+			for (const change of changes) {
+				if (change.type !== "position" || !change.position) continue;
+				const laneId = change.id.slice(LANE_NODE_PREFIX.length);
+				const cross = horizontal ? change.position.y : change.position.x;
+				if (change.dragging) {
+					setLaneDrag({ laneId, cross });
+					continue;
+				}
+				const reordered = reorderLanes(lanes, laneId, cross);
+				setNodes((nds) => moveStepsWithLanes(nds, lanes, reordered, horizontal));
+				setLanes(reordered);
+				setLaneDrag(null);
+			}
+		},
+		[lanes, horizontal, setNodes],
+	);
+
+	// While reviewing, only selection changes are applied (to both graphs)
+	const handleNodesChange: OnNodesChange = useCallback(
+		(changes) => {
+			const laneChanges = changes.filter((c) => "id" in c && isLaneNode(c));
+			if (laneChanges.length > 0) {
+				if (!proposal) handleLaneChanges(laneChanges);
+				changes = changes.filter((c) => !laneChanges.includes(c));
+			}
+			if (!proposal) {
+				onNodesChange(changes);
+				// Dropped steps join the lane under them
+				const dropped = new Set(
+					changes.flatMap((c) =>
+						c.type === "position" && c.dragging === false ? [c.id] : [],
+					),
+				);
+				if (lanes.length > 0 && dropped.size > 0) {
+					setNodes((nds) =>
+						nds.map((n) => (dropped.has(n.id) ? snapToLane(n, lanes, horizontal) : n)),
+					);
+				}
+				return;
+			}
+			const selectionChanges = changes.filter((c) => c.type === "select");
+			if (selectionChanges.length === 0) return;
+			onNodesChange(selectionChanges);
+			setProposal((p) =>
+				p && { ...p, nodes: applyNodeChanges(selectionChanges, p.nodes) },
+			);
+		},
+		[proposal, onNodesChange, handleLaneChanges, lanes, horizontal, setNodes],
+	);
+
+	const handleAcceptProposal = useCallback(
+		(selectedOnly: boolean) => {
+			if (!proposal) return;
+			const accepted = acceptChanges(
+				{ nodes, edges, lanes },
+				proposal,
+				selectedOnly ? new Set(selectedNodeIds) : undefined,
+			);
+			console.log(
+				`✅ Accepted AI changes${selectedOnly ? ` for ${selectedNodeIds.length} selected node(s)` : ""}`,
+			);
+			setProposal(null);
+			setNodes(accepted.nodes);
+			setEdges(accepted.edges);
+			if (accepted.lanes) setLanes(accepted.lanes);
+		},
+		[proposal, nodes, edges, lanes, selectedNodeIds, setNodes, setEdges],
+	);
+
+	const handleRejectProposal = useCallback(() => {
+		console.log("↩️ Rejected AI changes");
+		setProposal(null);
+	}, []);
+
 	const onConnect = useCallback(
 		(params: Connection) => setEdges((eds) => addEdge(params, eds)),
 		[setEdges],
@@ -88,8 +379,8 @@ export function App() {
 
 	// Track changes for history
 	useEffect(() => {
-		history.set(nodes, edges);
-	}, [nodes, edges, history.set]);
+		history.set(nodes, edges, lanes);
+	}, [nodes, edges, lanes, history.set]);
 
 	// Undo/Redo handlers
 	const handleUndo = useCallback(() => {
@@ -97,6 +388,7 @@ export function App() {
 		if (previousState) {
 			setNodes(previousState.nodes);
 			setEdges(previousState.edges);
+			setLanes(previousState.lanes);
 		}
 	}, [history, setNodes, setEdges]);
 
@@ -105,11 +397,13 @@ export function App() {
 		if (nextState) {
 			setNodes(nextState.nodes);
 			setEdges(nextState.edges);
+			setLanes(nextState.lanes);
 		}
 	}, [history, setNodes, setEdges]);
 
 	// Delete selected nodes/edges
 	const handleDelete = useCallback(() => {
+		if (proposal) return; // Selection is used for Accept-selected while reviewing
 		if (selectedNodeIds.length > 0) {
 			setNodes((nds) =>
 				nds.filter((node) => !selectedNodeIds.includes(node.id)),
@@ -123,7 +417,7 @@ export function App() {
 			);
 			setSelectedNodeIds([]);
 		}
-	}, [selectedNodeIds, setNodes, setEdges]);
+	}, [proposal, selectedNodeIds, setNodes, setEdges]);
 
 	// Delete a specific node
 	const handleDeleteNode = useCallback(
@@ -174,13 +468,132 @@ export function App() {
 		[setNodes],
 	);
 
+	// Update edge data (metrics)
+	const handleUpdateEdge = useCallback(
+		(edgeId: string, updates: Partial<Edge["data"]>) => {
+			setEdges((eds) =>
+				eds.map((edge) =>
+					edge.id === edgeId
+						? { ...edge, data: { ...edge.data, ...updates } }
+						: edge,
+				),
+			);
+		},
+		[setEdges],
+	);
+
+	const handleRunSimulation = useCallback(
+		(options: SimulationOptions) => simulation.run({ nodes, edges }, options),
+		[simulation.run, nodes, edges],
+	);
+
+	// Flag the steps the simulation found overloaded
+	const handleMarkBottlenecks = useCallback(
+		(nodeIds: string[]) => {
+			setNodes((nds) =>
+				nds.map((node) =>
+					nodeIds.includes(node.id) ? { ...node, data: { ...node.data, status: "bottleneck" } } : node,
+				),
+			);
+			console.log(`🚦 Marked ${nodeIds.length} bottleneck(s)`);
+		},
+		[setNodes],
+	);
+
+	// Turn a step into a subprocess - embedded (built on first open) or linked to a saved map
+	const handleMakeSubprocess = useCallback(
+		(nodeId: string, mapRef?: string) => {
+			setNodes((nds) => nds.map((node) => (node.id === nodeId ? toSubprocess(node, mapRef) : node)));
+		},
+		[setNodes],
+	);
+
+	// Show another level on the canvas (drill-down or breadcrumb navigation)
+	const showLevel = useCallback(
+		(level: GraphState) => {
+			setProposal(null);
+			setLayoutDirection(detectLayoutDirection(level.nodes));
+			setNodes(level.nodes);
+			setEdges(level.edges);
+			setLanes(level.lanes ?? []);
+			history.reset(level.nodes, level.edges, level.lanes);
+			simulation.clear();
+			setTimeout(() => fitViewFn?.(), 100);
+		},
+		[setNodes, setEdges, history.reset, simulation.clear, fitViewFn],
+	);
+
+	const levelName = frames.at(-1)?.label ?? persistence.currentMapName;
+
+	const handleOpenSubprocess = useCallback(
+		async (nodeId: string) => {
+			const node = nodes.find((n) => n.id === nodeId);
+			if (!node || !isSubprocess(node) || proposal) return;
+
+			const frame: DrillFrame = {
+				nodeId,
+				label: String(node.data.label),
+				parentName: levelName,
+				parent: { nodes, edges, lanes },
+			};
+			const mapRef = node.data.mapRef as string | undefined;
+			if (!mapRef) {
+				console.log(`🔽 Opened subprocess "${frame.label}"`);
+				setFrames((fs) => [...fs, frame]);
+				showLevel(childGraphOf(node));
+				return;
+			}
+
+			// Linked map: save this map, then open the other one as the current map
+			const root = composeRoot(frames, frame.parent);
+			const saved = await persistence.saveMap(root.nodes, root.edges, root.lanes);
+			const parentMapId = saved?.id ?? persistence.currentMapId;
+			if (!parentMapId) return;
+			drillingRef.current = true;
+			const map = await persistence.loadMap(mapRef);
+			drillingRef.current = false;
+			if (!map) return;
+			console.log(`🔽 Opened linked map "${map.name}"`);
+			setFrames((fs) => [...fs, { ...frame, parentMapId }]);
+		},
+		[nodes, edges, lanes, frames, proposal, levelName, showLevel, persistence],
+	);
+
+	// Go back up to a breadcrumb level (0 = the top of the map), writing edits back on the way
+	const handleNavigateLevel = useCallback(
+		async (index: number) => {
+			let level: GraphState = { nodes, edges, lanes };
+			for (const frame of frames.slice(index).reverse()) {
+				if (frame.parentMapId === undefined) {
+					level = withChildGraph(frame.parent, frame.nodeId, level);
+					continue;
+				}
+				// Leaving a linked map: save it and reopen the map it was opened from
+				await persistence.saveMap(level.nodes, level.edges, level.lanes);
+				drillingRef.current = true;
+				const map = await persistence.loadMap(frame.parentMapId);
+				drillingRef.current = false;
+				if (!map) return;
+				level = frame.parent;
+			}
+			setFrames(frames.slice(0, index));
+			showLevel(level);
+		},
+		[nodes, edges, lanes, frames, showLevel, persistence],
+	);
+
 	// Auto-layout function - cycles through presets on each press
-	const handleAutoLayout = useCallback(async () => {
+	const applyLayout = useCallback(async (direction: LayoutDirection) => {
 		const preset = LAYOUT_PRESETS[layoutPresetIndex.current] ?? LAYOUT_PRESETS[0];
-		const { nodes: layoutedNodes, edges: layoutedEdges, presetName } =
-			await getLayoutedElements(nodes, edges, "TB", preset);
+		const {
+			nodes: layoutedNodes,
+			edges: layoutedEdges,
+			presetName,
+			lanes: layoutedLanes,
+		} = await getLayoutedElements(nodes, edges, direction, preset, lanes);
 		setNodes(layoutedNodes);
 		setEdges(layoutedEdges);
+		if (layoutedLanes) setLanes(layoutedLanes);
 		setLayoutPresetName(presetName);
 
 		// Log to console for debugging
@@ -193,7 +606,21 @@ export function App() {
 		// Clear the preset name display after 2 seconds
 		setTimeout(() => setLayoutPresetName(null), 2000);
 		setTimeout(() => fitViewFn?.(), 50);
-	}, [nodes, edges, setNodes, setEdges, fitViewFn]);
+	}, [nodes, edges, lanes, setNodes, setEdges, fitViewFn]);
+
+	const handleAutoLayout = useCallback(
+		() => applyLayout(layoutDirection),
+		[applyLayout, layoutDirection],
+	);
+
+	// Switching direction re-lays out the map so the handles and flow agree
+	const handleLayoutDirectionChange = useCallback(
+		(direction: LayoutDirection) => {
+			setLayoutDirection(direction);
+			applyLayout(direction);
+		},
+		[applyLayout],
+	);
 
 	// Load test map
 	const handleLoadTestMap = useCallback(() => {
@@ -221,15 +648,120 @@ export function App() {
 	const handleClearMap = useCallback(() => {
 		setNodes([]);
 		setEdges([]);
+		setLanes([]);
 	}, [setNodes, setEdges]);
 
 	// Export JSON (for DevControlPanel)
 	const handleExportJson = useCallback(() => {
-		const data = { nodes, edges };
+		const data = lanes.length ? { nodes, edges, lanes } : { nodes, edges };
 		const json = JSON.stringify(data, null, 2);
 		navigator.clipboard.writeText(json);
 		console.log("Exported to clipboard:", data);
 		alert("JSON copied to clipboard!");
+	}, [nodes, edges, lanes]);
+
+	// Download the whole map (all subprocess levels) as BPMN 2.0 XML
+	const handleExportBpmn = useCallback(() => {
+		const root = composeRoot(frames, { nodes, edges, lanes });
+		const name = frames[0]?.parentName ?? persistence.currentMapName;
+		const xml = exportBpmn(root as ProcessGraph, name);
+		downloadFile(toFileName(name, "bpmn"), xml, "application/xml");
+		console.log(`📤 Exported BPMN: ${root.nodes.length} nodes, ${root.edges.length} flows`);
+	}, [frames, nodes, edges, lanes, persistence.currentMapName]);
+
+	// Download the current level as an SVG, PNG or PDF file (errors are shown in the dialog)
+	const handleExportImage = useCallback(
+		async (options: ImageExportOptions) => {
+			const graph = { nodes, edges, lanes } as ProcessGraph;
+			const scene = buildScene(graph, { transparent: options.transparent });
+			if (options.format === "svg") {
+				downloadFile(toFileName(levelName, "svg"), sceneToSvg(scene), "image/svg+xml");
+			} else if (options.format === "png") {
+				const png = await svgToPng(sceneToSvg(scene), scene.width, scene.height, options.dpi);
+				downloadFile(toFileName(levelName, "png"), png, "image/png");
+			} else {
+				const pdf = sceneToPdf(scene, {
+					title: options.title.trim() || levelName,
+					pageSize: options.pageSize,
+					legend: options.legend ? legendKinds(graph) : [],
+				});
+				downloadFile(toFileName(levelName, "pdf"), pdf, "application/pdf");
+			}
+			console.log(`📤 Exported ${options.format.toUpperCase()}: ${nodes.length} nodes, ${edges.length} edges`);
+		},
+		[nodes, edges, lanes, levelName],
+	);
+
+	// Download the current level's paths as a CSV table or a Gherkin feature
+	const handleExportPaths = useCallback(
+		(format: PathExportFormat) => {
+			const graph = { nodes, edges } as ProcessGraph;
+			const { paths } = pathEnumeration;
+			if (format === "csv") {
+				downloadFile(toFileName(`${levelName} paths`, "csv"), pathsToCsv(paths, graph), "text/csv");
+			} else {
+				downloadFile(toFileName(levelName, "feature"), pathsToGherkin(paths, graph, levelName), "text/plain");
+			}
+			console.log(`📤 Exported ${paths.length} test paths as ${format === "csv" ? "CSV" : "Gherkin"}`);
+		},
+		[nodes, edges, pathEnumeration, levelName],
+	);
+
+	// Save an imported graph as a new map, then open it
+	const openImportedMap = useCallback(
+		async (graph: ProcessGraph, name: string, format: string, unsupported: string[]) => {
+			const map = await persistence.saveMap(
+				graph.nodes,
+				graph.edges,
+				graph.lanes ?? [],
+				name,
+				true,
+			);
+			if (!map) return;
+			await persistence.loadMap(map.id);
+			console.log(`📥 Imported ${format}: ${graph.nodes.length} nodes, ${graph.edges.length} edges`);
+			if (unsupported.length > 0) {
+				alert(`Imported "${name}". Skipped unsupported elements:\n${unsupported.join("\n")}`);
+			}
+		},
+		[persistence.saveMap, persistence.loadMap],
+	);
+
+	// Import a BPMN file as a new map
+	const handleImportBpmn = useCallback(
+		async (xml: string, fileName: string) => {
+			try {
+				const { name, graph, unsupported } = await importBpmn(xml);
+				if (graph.nodes.length === 0) {
+					alert("The BPMN file has no steps to import.");
+					return;
+				}
+				const mapName = name ?? fileName.replace(/\.(bpmn|xml)$/i, "");
+				await openImportedMap(graph, mapName, "BPMN", unsupported);
+			} catch (error) {
+				console.error("BPMN import failed:", error);
+				alert(`BPMN import failed: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		},
+		[openImportedMap],
+	);
+
+	// Import a pasted Mermaid flowchart as a new map (errors are shown in the dialog)
+	const handleImportMermaid = useCallback(
+		async (text: string) => {
+			const { name, graph, unsupported } = await importMermaid(text);
+			if (graph.nodes.length === 0) throw new Error("The flowchart has no nodes to import.");
+			await openImportedMap(graph, name ?? "Mermaid import", "Mermaid", unsupported);
+		},
+		[openImportedMap],
+	);
+
+	// Copy the open level as a Mermaid flowchart
+	const handleCopyMermaid = useCallback(() => {
+		const mermaid = exportMermaid({ nodes, edges } as ProcessGraph);
+		navigator.clipboard.writeText(mermaid);
+		console.log("📋 Copied Mermaid flowchart:\n", mermaid);
+		alert("Mermaid flowchart copied to clipboard!");
 	}, [nodes, edges]);
 
 	// Show positions in console (for DevControlPanel)
@@ -312,15 +844,19 @@ export function App() {
 	// Handler to create a new empty map
 	const handleNewMap = useCallback(() => {
 		persistence.createNewMap();
+		setFrames([]);
+		setProposal(null);
 		setNodes([]); // Start with blank canvas
 		setEdges([]);
+		setLanes([]);
 		setChatKey((k) => k + 1); // Reset chat interface
 	}, [persistence.createNewMap, setNodes, setEdges]);
 
 	// Handler to manually save
 	const handleSaveNow = useCallback(() => {
-		persistence.saveMap(nodes, edges);
-	}, [persistence.saveMap, nodes, edges]);
+		const root = composeRoot(frames, { nodes, edges, lanes });
+		persistence.saveMap(root.nodes, root.edges, root.lanes);
+	}, [persistence.saveMap, nodes, edges, lanes, frames]);
 
 	return (
 		<SidebarProvider defaultOpen={true}>
@@ -355,6 +891,22 @@ export function App() {
 						onDeleteMap={persistence.deleteMapById}
 						onRename={persistence.renameMap}
 						onSaveNow={handleSaveNow}
+						onExportBpmn={handleExportBpmn}
+						onExportImage={() => setExportDialogOpen(true)}
+						onImportBpmn={handleImportBpmn}
+						onImportMermaid={() => setMermaidDialogOpen(true)}
+						onCopyMermaid={handleCopyMermaid}
+					/>
+					<MermaidImportDialog
+						open={mermaidDialogOpen}
+						onOpenChange={setMermaidDialogOpen}
+						onImport={handleImportMermaid}
+					/>
+					<ExportDialog
+						open={exportDialogOpen}
+						onOpenChange={setExportDialogOpen}
+						mapName={levelName}
+						onExport={handleExportImage}
 					/>
 				</SidebarHeader>
 				<SidebarContent className="p-0">
@@ -362,10 +914,18 @@ export function App() {
 						key={chatKey}
 						currentNodes={nodes}
 						currentEdges={edges}
+						currentLanes={lanes}
 						selectedNodeIds={selectedNodeIds}
-						onGraphUpdate={(newNodes, newEdges) => {
+						onGraphUpdate={(newNodes, newEdges, newLanes) => {
+							if (previewChanges) {
+								const staged = { nodes: newNodes, edges: newEdges, lanes: newLanes };
+								// Nothing to review (e.g. the model repeated the graph) - don't block the chat
+								setProposal(hasChanges({ nodes, edges, lanes }, staged) ? staged : null);
+								return;
+							}
 							setNodes(newNodes);
 							setEdges(newEdges);
+							if (newLanes) setLanes(newLanes);
 						}}
 						onStreamComplete={() => {
 							if (fitViewFn) {
@@ -374,6 +934,13 @@ export function App() {
 						}}
 						onAutoName={persistence.renameMap}
 						currentMapName={persistence.currentMapName}
+						mapId={persistence.currentMapId}
+						previewChanges={previewChanges}
+						onPreviewChangesChange={setPreviewChanges}
+						proposalSummary={proposalDiff ? summarizeDiff(proposalDiff) : null}
+						onAcceptProposal={handleAcceptProposal}
+						onRejectProposal={handleRejectProposal}
+						layoutDirection={layoutDirection}
 					/>
 				</SidebarContent>
 				<SidebarRail />
@@ -381,18 +948,50 @@ export function App() {
 
 			<SidebarInset className="h-screen">
 				<ProcessMap
-					nodes={nodes}
-					edges={edges}
-					onNodesChange={onNodesChange}
+					nodes={[...laneNodes, ...canvas.nodes]}
+					edges={canvas.edges}
+					onNodesChange={handleNodesChange}
 					onEdgesChange={onEdgesChange}
 					onConnect={onConnect}
 					onSelectionChange={handleSelectionChange}
 					onDeleteNode={handleDeleteNode}
 					onDuplicateNode={handleDuplicateNode}
 					onUpdateNode={handleUpdateNode}
+					onUpdateEdge={handleUpdateEdge}
 					onAutoLayout={handleAutoLayout}
+					layoutDirection={layoutDirection}
+					onLayoutDirectionChange={handleLayoutDirectionChange}
+					onAddLane={handleAddLane}
+					onMakeSubprocess={handleMakeSubprocess}
+					onOpenSubprocess={handleOpenSubprocess}
+					linkableMaps={persistence.maps.filter((m) => m.id !== persistence.currentMapId)}
+					breadcrumbs={[...frames.map((f) => f.parentName), levelName]}
+					onNavigateBreadcrumb={handleNavigateLevel}
 					onFitViewReady={(fn) => setFitViewFn(() => fn)}
 					onLoadTestMap={handleLoadTestMap}
+					problems={lintIssues}
+					lintRuleSet={lintRuleSet}
+					onLintRuleSetChange={setLintRuleSet}
+					onApplyLintFixes={handleApplyLintFixes}
+					analysis={analysis}
+					paths={pathEnumeration}
+					pathTitles={pathTitles}
+					maxPathLoops={pathLoops}
+					onMaxPathLoopsChange={setPathLoops}
+					highlightedPath={highlightedPath}
+					onHighlightPath={handleHighlightPath}
+					pathLeadTimes={pathLeadTimes}
+					leadTime={leadTime}
+					showCriticalPath={showCriticalPath}
+					onShowCriticalPathChange={handleShowCriticalPath}
+					simulation={simulation.result}
+					simulationRunning={simulation.running}
+					simulationError={simulation.error}
+					onRunSimulation={handleRunSimulation}
+					onCancelSimulation={simulation.cancel}
+					onMarkBottlenecks={handleMarkBottlenecks}
+					onExportPaths={handleExportPaths}
+					reviewing={proposal !== null}
 				/>
 			</SidebarInset>
 		</SidebarProvider>
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import type { ChatTurn, LLMProvider } from "./providers";
+
+export const DEFAULT_HISTORY_WINDOW = 10; // Turns replayed verbatim
+const MAX_TURN_LENGTH = 4000; // Longer turns are truncated before replay
+const SUMMARY_CACHE_SIZE = 50;
+const SUMMARY_MAX_TOKENS = 1024; // Room for 8 bullet points, with margin
+
+export const ChatTurnSchema = z.object({
+	role: z.enum(["user", "assistant"]),
+	content: z.string(),
+});
+
+export const ConversationHistorySchema = z.array(ChatTurnSchema);
+
+export interface PrepareHistoryOptions {
+	// Most recent turns kept verbatim; older ones are summarized (0 disables history)
+	window?: number;
+	summarize: (turns: ChatTurn[]) => Promise<string>;
+}
+
+/**
+ * Merge consecutive turns from the same role and drop empty ones -
+ * Gemini and Anthropic both require strictly alternating roles
+ */
+export function normalizeTurns(turns: ChatTurn[]): ChatTurn[] {
+	const result: ChatTurn[] = [];
+	for (const turn of turns) {
+		const content = turn.content.trim().substring(0, MAX_TURN_LENGTH);
+		if (!content) continue;
+
+		const last = result.at(-1);
+		if (last?.role === turn.role) {
+			last.content += `\n\n${content}`;
+		} else {
+			result.push({ role: turn.role, content });
+		}
+	}
+	return result;
+}
+
+/**
+ * Fit the client's transcript into the prompt
+ * - The last `window` turns are replayed as-is (starting on a user turn)
+ * - Anything older is condensed into one summary exchange at the front
+ */
+export async function prepareHistory(
+	turns: ChatTurn[],
+	{ window = DEFAULT_HISTORY_WINDOW, summarize }: PrepareHistoryOptions,
+): Promise<ChatTurn[]> {
+	if (window <= 0) return [];
+
+	const normalized = normalizeTurns(turns);
+	// Providers expect the history to open with a user turn
+	while (normalized[0]?.role === "assistant") normalized.shift();
+
+	let split = Math.max(0, normalized.length - window);
+	while (split < normalized.length && normalized[split]?.role !== "user") split++;
+
+	const older = normalized.slice(0, split);
+	const recent = normalized.slice(split);
+	// The new request follows, so the replayed history must end on an assistant turn
+	if (recent.at(-1)?.role === "user") {
+		recent.push({ role: "assistant", content: "(No response.)" });
+	}
+	if (older.length === 0) return recent;
+
+	const summary = await summarize(older);
+	return [
+		{
+			role: "user",
+			content: `Summary of the earlier conversation about this process map:\n${summary}`,
+		},
+		{ role: "assistant", content: "Understood. I'll keep that context in mind." },
+		...recent,
+	];
+}
+
+/**
+ * Fallback when the model can't summarize: list the earlier requests
+ */
+function listRequests(turns: ChatTurn[]): string {
+	return turns
+		.filter((t) => t.role === "user")
+		.map((t) => `- ${t.content.split("\n")[0]?.substring(0, 200)}`)
+		.join("\n");
+}
+
+/**
+ * Summarize older turns with the provider, caching by transcript so a long
+ * session doesn't pay for the same summary on every request
+ */
+export function createHistorySummarizer(provider: LLMProvider) {
+	const cache = new Map<string, string>();
+
+	return async (turns: ChatTurn[]): Promise<string> => {
+		const transcript = turns
+			.map((t) => `${t.role === "user" ? "User" : "Assistant"}: ${t.content}`)
+			.join("\n\n");
+
+		const cached = cache.get(transcript);
+		if (cached) return cached;
+
+		let summary: string;
+		try {
+			summary = (
+				await provider.complete(
+					`Summarize this conversation between a user and a process mapping assistant in at most 8 short bullet points. Keep node names, IDs and the changes that were made or rejected, since later requests may refer back to them. Reply with the bullet points only.\n\n${transcript}`,
+					{ maxTokens: SUMMARY_MAX_TOKENS },
+				)
+			).trim();
+		} catch (error) {
+			console.warn("⚠️  History summarization failed:", error);
+			return listRequests(turns);
+		}
+		if (!summary) return listRequests(turns);
+
+		if (cache.size >= SUMMARY_CACHE_SIZE) {
+			const oldest = cache.keys().next().value;
+			if (oldest !== undefined) cache.delete(oldest);
+		}
+		cache.set(transcript, summary);
+		return summary;
+	};
+}
@@ -0,0 +1,216 @@
+import { readFileSync } from "node:fs";
+import type { LLMProvider, ProviderConfig } from "./providers";
+
+/**
+ * A scripted reply: the first entry whose `match` regex (case-insensitive)
+ * matches the user message is replayed. Entries without `match` always match.
+ */
+export interface FakeScriptEntry {
+	match?: string;
+	response: string | string[];
+}
+
+const CHUNK_SIZE = 40; // Replay in small chunks so clients exercise partial-JSON buffering
+
+const CREATE_RESPONSE = [
+	{ type: "mode", data: "create" },
+	{
+		type: "node",
+		data: {
+			id: "1",
+			type: "oval",
+			position: { x: 220, y: 0 },
+			data: { label: "Start" },
+		},
+	},
+	{
+		type: "node",
+		data: {
+			id: "2",
+			type: "default",
+			position: { x: 225, y: 105 },
+			data: { label: "Review Request" },
+		},
+	},
+	{
+		type: "node",
+		data: {
+			id: "3",
+			type: "diamond",
+			position: { x: 220, y: 215 },
+			data: { label: "Approved?", outputCount: 2 },
+		},
+	},
+	{
+		type: "node",
+		data: {
+			id: "4",
+			type: "default",
+			position: { x: 25, y: 435 },
+			data: { label: "Reject Request" },
+		},
+	},
+	{
+		type: "node",
+		data: {
+			id: "5",
+			type: "default",
+			position: { x: 425, y: 435 },
+			data: { label: "Fulfill Request" },
+		},
+	},
+	{
+		type: "node",
+		data: {
+			id: "6",
+			type: "oval",
+			position: { x: 220, y: 545 },
+			data: { label: "End" },
+		},
+	},
+	{
+		type: "edges",
+		data: [
+			{ id: "e1-2", source: "1", target: "2", type: "straight", markerEnd: { type: "arrowclosed" } },
+			{ id: "e2-3", source: "2", target: "3", type: "straight", markerEnd: { type: "arrowclosed" } },
+			{ id: "e3-4", source: "3", sourceHandle: "left", target: "4", type: "bezier", label: "No", labelStyle: { fill: "#ef4444", fontWeight: 600 }, labelShowBg: true, markerEnd: { type: "arrowclosed" } },
+			{ id: "e3-5", source: "3", sourceHandle: "right", target: "5", type: "bezier", label: "Yes", labelStyle: { fill: "#22c55e", fontWeight: 600 }, labelShowBg: true, markerEnd: { type: "arrowclosed" } },
+			{ id: "e4-6", source: "4", target: "6", type: "straight", markerEnd: { type: "arrowclosed" } },
+			{ id: "e5-6", source: "5", target: "6", type: "straight", markerEnd: { type: "arrowclosed" } },
+		],
+	},
+	{
+		type: "message",
+		data: "I've mapped a simple approval flow: a request is reviewed, then either rejected or fulfilled.",
+	},
+];
+
+const COLOR_WORDS: Record<string, string> = {
+	red: "#ef4444",
+	orange: "#f97316",
+	yellow: "#eab308",
+	green: "#22c55e",
+	blue: "#3b82f6",
+	purple: "#a855f7",
+	pink: "#ec4899",
+	gray: "#6b7280",
+	grey: "#6b7280",
+};
+
+// Node entry of the compact graph context (see graphContext.ts)
+type GraphNode = { id: string; label: string };
+
+/**
+ * Built-in script used when no LLM_FAKE_SCRIPT is configured
+ * - Requests without graph context get a canned approval flow (create mode)
+ * - Requests with graph context edit the selected nodes (update mode):
+ *   color words, "bottleneck"/"issue"/"complete" and "to 'New Label'" are recognised
+ * - Questions (requests ending in "?") get a message-only answer listing the steps
+ */
+export function builtinFakeResponse(message: string): string {
+	// Canned responses are always valid, so there is nothing to repair
+	if (message.startsWith("REPAIR REQUEST")) return "";
+
+	const contextMatch = message.match(/Current Graph Context: (.*)$/m);
+	if (!contextMatch?.[1]) {
+		return toNdjson(CREATE_RESPONSE);
+	}
+
+	let nodes: GraphNode[] = [];
+	try {
+		nodes = JSON.parse(contextMatch[1]).nodes ?? [];
+	} catch {
+		// Unreadable context - fall through with no nodes to edit
+	}
+
+	const request = (message.match(/^User Request: (.*)$/m)?.[1] ?? "").toLowerCase();
+	if (request.trim().endsWith("?")) {
+		const labels = nodes.map((n) => String(n.label));
+		return toNdjson([
+			{
+				type: "message",
+				data: `This process has ${labels.length} steps: ${labels.join(", ")}.`,
+			},
+		]);
+	}
+
+	const selectedIds =
+		message
+			.match(/\(IDs: ([^)]*)\)/)?.[1]
+			?.split(",")
+			.map((id) => id.trim()) ?? [];
+	const targets = nodes.filter((n) => selectedIds.includes(n.id));
+
+	const updates: Record<string, unknown> = {};
+	for (const [word, hex] of Object.entries(COLOR_WORDS)) {
+		if (new RegExp(`\\b${word}\\b`).test(request)) updates.color = hex;
+	}
+	for (const status of ["bottleneck", "issue", "complete"]) {
+		if (request.includes(status)) updates.status = status;
+	}
+	const newLabel = message.match(/to ['"]([^'"]+)['"]/)?.[1];
+	if (newLabel) updates.label = newLabel;
+
+	return toNdjson([
+		{ type: "mode", data: "update" },
+		...targets.map((node) => ({
+			type: "update_node",
+			data: { id: node.id, data: updates },
+		})),
+		{
+			type: "message",
+			data: `Updated ${targets.length} selected node(s).`,
+		},
+	]);
+}
+
+function toNdjson(objects: unknown[]): string {
+	return objects.map((o) => JSON.stringify(o)).join("\n");
+}
+
+function loadScript(path: string): FakeScriptEntry[] {
+	const script = JSON.parse(readFileSync(path, "utf-8"));
+	if (!Array.isArray(script)) {
+		throw new Error(`LLM_FAKE_SCRIPT ${path} must contain a JSON array`);
+	}
+	return script;
+}
+
+/**
+ * Offline provider that replays canned NDJSON - lets the app and the
+ * integration tests run without network access or API keys
+ */
+export function createFakeProvider(config: ProviderConfig): LLMProvider {
+	const script = config.fakeScriptPath ? loadScript(config.fakeScriptPath) : null;
+
+	const respond = (message: string): string => {
+		if (!script) return builtinFakeResponse(message);
+
+		const entry = script.find(
+			(e) => !e.match || new RegExp(e.match, "i").test(message),
+		);
+		if (!entry) return "";
+		return Array.isArray(entry.response)
+			? entry.response.join("\n")
+			: entry.response;
+	};
+
+	return {
+		name: "fake",
+		model: config.model,
+		configError: null,
+
+		async *streamChat({ message, signal }) {
+			const text = respond(message);
+			for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+				if (signal?.aborted) return;
+				if (config.fakeChunkDelayMs) await Bun.sleep(config.fakeChunkDelayMs);
+				yield text.slice(i, i + CHUNK_SIZE);
+			}
+		},
+
+		async complete(prompt) {
+			return script ? respond(prompt) : "Approval Process";
+		},
+	};
+}
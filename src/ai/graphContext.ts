@@ -0,0 +1,250 @@
+import type { ProcessEdge, ProcessGraph } from "../types/process";
+import type { MessageHydrator } from "../utils/streamProtocol";
+
+export const DEFAULT_FOCUS_THRESHOLD = 100; // Larger maps only show the neighborhood of the selection
+const FOCUS_DEPTH = 2; // Hops around the selection kept in a focus window
+const NEW_NODE_GAP = 120; // Vertical spacing for new nodes placed by the server
+const EDGE_METRIC_KEYS = ["waitTime", "probability", "iterations"] as const;
+
+// Visual fields restored from the original edge when the model leaves them out
+const EDGE_STYLE_KEYS = [
+	"type",
+	"style",
+	"markerEnd",
+	"labelStyle",
+	"labelShowBg",
+	"labelBgStyle",
+	"animated",
+] as const;
+
+/** Node as the model sees it: ID, shape and data fields, no layout */
+export interface CompactNode {
+	id: string;
+	type?: string;
+	label: string;
+	[field: string]: unknown;
+}
+
+/** Node outside the focus window, listed only because an edge leads to it */
+export interface OutsideNode {
+	id: string;
+	label: string;
+}
+
+export interface CompactEdge {
+	id: string;
+	source: string;
+	target: string;
+	label?: string;
+	sourceHandle?: string;
+	targetHandle?: string;
+	data?: Pick<NonNullable<ProcessEdge["data"]>, (typeof EDGE_METRIC_KEYS)[number]>;
+}
+
+export interface CompactGraph {
+	nodes: CompactNode[];
+	edges: CompactEdge[];
+	lanes?: { id: string; label: string }[];
+	focus?: {
+		selected: string[];
+		depth: number;
+		outside: OutsideNode[];
+		omittedNodes: number;
+	};
+}
+
+export interface CompactGraphOptions {
+	selectedNodeIds?: string[];
+	// Node count above which only the area around the selection is sent (0 disables)
+	focusThreshold?: number;
+}
+
+function compactNode(node: ProcessGraph["nodes"][number]): CompactNode {
+	const { label, ...data } = node.data;
+	const result: CompactNode = { id: node.id, label: String(label ?? "") };
+	if (node.type && node.type !== "default") result.type = node.type;
+	for (const [key, value] of Object.entries(data)) {
+		if (key === "childGraph" || key === "expanded") continue;
+		if (value !== undefined && value !== null && value !== "") result[key] = value;
+	}
+	// Subprocess contents stay out of the prompt - only their size is listed
+	const child = node.data.childGraph;
+	if (child) result.childSteps = child.nodes.length;
+	return result;
+}
+
+function compactEdge(edge: ProcessGraph["edges"][number]): CompactEdge {
+	const result: CompactEdge = { id: edge.id, source: edge.source, target: edge.target };
+	if (typeof edge.label === "string" && edge.label) result.label = edge.label;
+	if (edge.sourceHandle) result.sourceHandle = edge.sourceHandle;
+	if (edge.targetHandle) result.targetHandle = edge.targetHandle;
+	const metrics = EDGE_METRIC_KEYS.filter((key) => edge.data?.[key] !== undefined);
+	if (metrics.length > 0) {
+		result.data = Object.fromEntries(metrics.map((key) => [key, edge.data?.[key]]));
+	}
+	return result;
+}
+
+/**
+ * Node IDs within `depth` hops of the start nodes, ignoring edge direction
+ */
+export function neighborhood(
+	edges: { source: string; target: string }[],
+	start: Iterable<string>,
+	depth: number,
+): Set<string> {
+	const adjacency = new Map<string, string[]>();
+	for (const { source, target } of edges) {
+		adjacency.set(source, [...(adjacency.get(source) ?? []), target]);
+		adjacency.set(target, [...(adjacency.get(target) ?? []), source]);
+	}
+
+	const visited = new Set(start);
+	let frontier = [...visited];
+	for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+		const next: string[] = [];
+		for (const id of frontier) {
+			for (const neighbor of adjacency.get(id) ?? []) {
+				if (visited.has(neighbor)) continue;
+				visited.add(neighbor);
+				next.push(neighbor);
+			}
+		}
+		frontier = next;
+	}
+	return visited;
+}
+
+/**
+ * Prompt-sized view of the graph: IDs, types, labels, data fields and
+ * adjacency - positions, styles, measured sizes and markers are left out
+ * (createGraphHydrator puts them back). Very large maps with a selection
+ * are cut down to a focus window around the selected nodes.
+ */
+export function compactGraph(
+	graph: ProcessGraph,
+	{ selectedNodeIds = [], focusThreshold = DEFAULT_FOCUS_THRESHOLD }: CompactGraphOptions = {},
+): CompactGraph {
+	const nodeIds = new Set(graph.nodes.map((n) => n.id));
+	const selected = selectedNodeIds.filter((id) => nodeIds.has(id));
+	const lanes = graph.lanes?.length
+		? { lanes: graph.lanes.map(({ id, label }) => ({ id, label })) }
+		: {};
+
+	const focused =
+		focusThreshold > 0 && graph.nodes.length > focusThreshold && selected.length > 0;
+	if (!focused) {
+		return {
+			nodes: graph.nodes.map(compactNode),
+			edges: graph.edges.map(compactEdge),
+			...lanes,
+		};
+	}
+
+	const window = neighborhood(graph.edges, selected, FOCUS_DEPTH);
+	// Edges crossing the window boundary stay, so the model knows what the window connects to
+	const edges = graph.edges.filter((e) => window.has(e.source) || window.has(e.target));
+	const outsideIds = new Set(
+		edges.flatMap((e) => [e.source, e.target]).filter((id) => !window.has(id)),
+	);
+
+	return {
+		nodes: graph.nodes.filter((n) => window.has(n.id)).map(compactNode),
+		edges: edges.map(compactEdge),
+		...lanes,
+		focus: {
+			selected,
+			depth: FOCUS_DEPTH,
+			outside: graph.nodes
+				.filter((n) => outsideIds.has(n.id))
+				.map((n) => ({ id: n.id, label: String(n.data.label ?? "") })),
+			omittedNodes: graph.nodes.length - window.size - outsideIds.size,
+		},
+	};
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Re-hydrate model output written against the compact context
+ * - In update mode, existing nodes keep their position, type and style unless the model sends new ones,
+ *   and subprocesses keep their contents (never sent to the model)
+ * - In update mode, existing edges keep their visual fields (type, marker, label style, ...)
+ * - Create mode builds a new map: reused IDs don't inherit anything from the old one
+ * - New nodes without a position are stacked below the graph (update mode) or
+ *   from the origin (create mode) - the client's layout pass tidies them up
+ */
+export function createGraphHydrator(
+	graph: ProcessGraph,
+	selectedNodeIds: string[] = [],
+): MessageHydrator {
+	const nodes = new Map(graph.nodes.map((n) => [n.id, n]));
+	const edges = new Map(graph.edges.map((e) => [e.id, e]));
+
+	const anchor = selectedNodeIds.map((id) => nodes.get(id)).find(Boolean);
+	const xs = graph.nodes.map((n) => n.position.x);
+	const newX = anchor?.position.x ?? (xs.length ? Math.min(...xs) : 0);
+	let newY = graph.nodes.length
+		? Math.max(...graph.nodes.map((n) => n.position.y)) + NEW_NODE_GAP
+		: 0;
+	let createdY = 0;
+
+	const hydrateNode = (node: unknown, mode: "create" | "update") => {
+		if (!isRecord(node) || typeof node.id !== "string") return node;
+
+		const original = mode === "update" ? nodes.get(node.id) : undefined;
+		if (original) {
+			const childGraph = original.data.childGraph;
+			return {
+				...(original.type ? { type: original.type } : {}),
+				position: original.position,
+				...(original.style ? { style: original.style } : {}),
+				...node,
+				...(childGraph && isRecord(node.data) && node.data.childGraph === undefined
+					? { data: { ...node.data, childGraph } }
+					: {}),
+			};
+		}
+		if (node.position !== undefined) return node;
+		if (mode === "create") {
+			const position = { x: 0, y: createdY };
+			createdY += NEW_NODE_GAP;
+			return { ...node, position };
+		}
+		const position = { x: newX, y: newY };
+		newY += NEW_NODE_GAP;
+		return { ...node, position };
+	};
+
+	const hydrateEdge = (edge: unknown, mode: "create" | "update") => {
+		if (!isRecord(edge) || typeof edge.id !== "string") return edge;
+
+		const original = mode === "update" ? edges.get(edge.id) : undefined;
+		if (!original) return edge;
+		const restored: Record<string, unknown> = {};
+		for (const key of EDGE_STYLE_KEYS) {
+			if (original[key] !== undefined) restored[key] = original[key];
+		}
+		return { ...restored, ...edge };
+	};
+
+	return (json, mode) => {
+		if (!isRecord(json)) return json;
+
+		switch (json.type) {
+			case "node":
+			case "add_node":
+				return { ...json, data: hydrateNode(json.data, mode) };
+			case "add_edge":
+				return { ...json, data: hydrateEdge(json.data, mode) };
+			case "edges":
+				return Array.isArray(json.data)
+					? { ...json, data: json.data.map((edge) => hydrateEdge(edge, mode)) }
+					: json;
+			default:
+				return json;
+		}
+	};
+}
@@ -0,0 +1,250 @@
+import {
+	createJsonObjectSplitter,
+	createStreamError,
+	createStreamValidator,
+	type MessageHydrator,
+	type StreamEdge,
+	type StreamError,
+	type StreamEvent,
+} from "../utils/streamProtocol";
+import type { ChatTurn, LLMProvider } from "./providers";
+
+export const DEFAULT_REPAIR_ATTEMPTS = 1;
+
+export interface MapStreamOptions {
+	provider: LLMProvider;
+	system: string;
+	history?: ChatTurn[];
+	message: string;
+	existingNodeIds: string[];
+	existingEdges: StreamEdge[];
+	// Restores what the compact graph context left out (see graphContext.ts)
+	hydrate?: MessageHydrator;
+	// The model saw only part of the graph - never replace all of it (create mode)
+	updateOnly?: boolean;
+	// Follow-up repair requests allowed after the main response (0 disables repair)
+	maxRepairAttempts?: number;
+	send: (event: StreamEvent) => void;
+	// Client went away - stop reading the model and skip any repair rounds
+	signal?: AbortSignal;
+}
+
+/**
+ * Build the follow-up prompt asking the model to fix what was rejected
+ */
+export function buildRepairPrompt(
+	rejected: StreamError[],
+	danglingEdges: StreamEdge[],
+): string {
+	const sections = ["REPAIR REQUEST: Some of your previous output could not be used."];
+
+	if (rejected.length > 0) {
+		sections.push(
+			[
+				"Rejected lines:",
+				...rejected.map((error) => {
+					const issues = error.issues?.length ? ` - ${error.issues.join("; ")}` : "";
+					const original = error.raw ? `\n  Original: ${error.raw}` : "";
+					return `- ${error.message}${issues}${original}`;
+				}),
+			].join("\n"),
+		);
+	}
+
+	if (danglingEdges.length > 0) {
+		sections.push(
+			[
+				"Edges referencing nodes that were never defined:",
+				...danglingEdges.map((e) => `- ${e.id}: ${e.source} -> ${e.target}`),
+			].join("\n"),
+		);
+	}
+
+	sections.push(`Re-emit ONLY the corrected lines, in the same NDJSON format:
+- {"type":"node","data":{...}} (or "add_node" when updating) for every rejected or missing node (full node; diamonds need outputCount)
+- corrected patch operations (update_node, move_node, add_edge, update_edge, remove_edge) as one line each
+- when creating, at most one {"type":"edges","data":[...]} line containing ONLY the corrected or missing edges
+Do not output a mode line or message lines, and do not repeat lines that were already accepted.
+If a dangling edge should not exist, leave it out.`);
+
+	return sections.join("\n\n");
+}
+
+/**
+ * Drive one /api/generate-map request: stream the model output, validate it
+ * line by line, then run bounded repair rounds for anything that was rejected
+ */
+export async function runMapStream({
+	provider,
+	system,
+	history = [],
+	message,
+	existingNodeIds,
+	existingEdges,
+	hydrate,
+	updateOnly = false,
+	maxRepairAttempts = DEFAULT_REPAIR_ATTEMPTS,
+	send,
+	signal,
+}: MapStreamOptions): Promise<void> {
+	const validator = createStreamValidator(existingNodeIds, existingEdges, hydrate, { updateOnly });
+	// The client only patches its map once it knows the mode - announce it even
+	// if the model leaves the mode line out
+	if (updateOnly) send({ type: "mode", data: "update" });
+
+	// Last complete edge set forwarded to the client (null until the model sends one)
+	let acceptedEdges: StreamEdge[] | null = null;
+	// Edges held back because an endpoint is missing - may be fixed by a repair
+	const pendingEdges = new Map<string, StreamEdge>();
+	// Pending edges that arrived as add_edge operations rather than in an edge list
+	const pendingAddIds = new Set<string>();
+	let rejected: StreamError[] = [];
+	let repairing = false;
+	let repairedEdges: StreamEdge[] = [];
+
+	const handleObject = (raw: string) => {
+		const { message: parsed, errors, dangling } = validator.validate(raw);
+
+		for (const edge of dangling ?? []) {
+			pendingEdges.set(edge.id, edge);
+			if (!parsed) pendingAddIds.add(edge.id);
+		}
+
+		if (parsed?.type === "edges") {
+			if (repairing) {
+				// Merged into the full edge set at the end of the round
+				repairedEdges.push(...parsed.data);
+			} else {
+				acceptedEdges = parsed.data;
+				send(parsed);
+			}
+		} else if (parsed?.type === "message" && repairing) {
+			console.log("💬 Ignoring message line in repair output");
+		} else if (parsed?.type === "mode" && updateOnly) {
+			// Already announced
+		} else if (parsed) {
+			if (parsed.type === "add_edge") {
+				// A corrected edge supersedes the held-back one
+				pendingEdges.delete(parsed.data.id);
+				pendingAddIds.delete(parsed.data.id);
+			}
+			send(parsed);
+		}
+
+		for (const error of errors) {
+			console.warn(`⚠️  ${error.message}:`, error.issues ?? error.raw);
+			if (error.code === "unknown_reference" && dangling) {
+				// Reported again at the end if no repair resolves them
+				if (!repairing) send(error);
+				continue;
+			}
+			rejected.push(error);
+			send(error);
+		}
+	};
+
+	const consume = async (stream: AsyncIterable<string>): Promise<string> => {
+		const splitter = createJsonObjectSplitter();
+		let fullText = "";
+
+		for await (const chunk of stream) {
+			if (signal?.aborted) break;
+			fullText += chunk;
+			for (const raw of splitter.push(chunk)) {
+				handleObject(raw);
+			}
+		}
+
+		// Process any remaining buffer (usually a truncated object)
+		const rest = splitter.flush();
+		if (rest.startsWith("{")) {
+			handleObject(rest);
+		}
+		return fullText;
+	};
+
+	const modelText = await consume(
+		provider.streamChat({ system, history, message, signal }),
+	);
+	if (signal?.aborted) return;
+
+	validator.lockMode();
+	repairing = true;
+	let attemptsMade = 0;
+
+	for (
+		let attempt = 1;
+		attempt <= maxRepairAttempts &&
+		(rejected.length > 0 || pendingEdges.size > 0) &&
+		!signal?.aborted;
+		attempt++
+	) {
+		attemptsMade = attempt;
+		const toRepair = rejected;
+		rejected = [];
+		repairedEdges = [];
+		console.log(
+			`🔧 Repair attempt ${attempt}: ${toRepair.length} rejected line(s), ${pendingEdges.size} dangling edge(s)`,
+		);
+		send({
+			type: "repair",
+			data: { attempt, rejected: toRepair.length + pendingEdges.size },
+		});
+
+		await consume(
+			provider.streamChat({
+				system,
+				history: [
+					...history,
+					{ role: "user", content: message },
+					{ role: "assistant", content: modelText },
+				],
+				message: buildRepairPrompt(toRepair, [...pendingEdges.values()]),
+				signal,
+			}),
+		);
+		if (signal?.aborted) return;
+
+		// Held-back edges whose endpoints now exist are accepted as-is
+		for (const edge of pendingEdges.values()) {
+			if (!validator.hasNode(edge.source) || !validator.hasNode(edge.target)) {
+				continue;
+			}
+			if (pendingAddIds.delete(edge.id)) {
+				pendingEdges.delete(edge.id);
+				send({ type: "add_edge", data: edge });
+			} else {
+				repairedEdges.push(edge);
+			}
+		}
+		for (const edge of repairedEdges) {
+			pendingEdges.delete(edge.id);
+		}
+
+		if (repairedEdges.length > 0) {
+			// Send the full edge set - clients replace edges wholesale
+			const base: StreamEdge[] =
+				acceptedEdges ?? (validator.mode === "update" ? existingEdges : []);
+			const repairedIds = new Set(repairedEdges.map((e) => e.id));
+			acceptedEdges = [
+				...base.filter((e) => !repairedIds.has(e.id)),
+				...repairedEdges,
+			];
+			send({ type: "edges", data: acceptedEdges });
+		}
+	}
+
+	if (attemptsMade > 0 && pendingEdges.size > 0) {
+		send(
+			createStreamError(
+				"unknown_reference",
+				`${pendingEdges.size} edge(s) still reference unknown nodes`,
+				{
+					issues: [...pendingEdges.values()].map(
+						(e) => `${e.id}: ${e.source} -> ${e.target}`,
+					),
+				},
+			),
+		);
+	}
+}
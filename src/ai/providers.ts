@@ -0,0 +1,331 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { createFakeProvider } from "./fakeProvider";
+
+export type ProviderName = "gemini" | "openai" | "anthropic" | "ollama" | "fake";
+
+export const PROVIDER_NAMES: ProviderName[] = [
+	"gemini",
+	"openai",
+	"anthropic",
+	"ollama",
+	"fake",
+];
+
+export interface ChatTurn {
+	role: "user" | "assistant";
+	content: string;
+}
+
+export interface ChatRequest {
+	system: string;
+	history: ChatTurn[];
+	message: string;
+	// Aborted when the client stops the generation - providers stop streaming (and billing)
+	signal?: AbortSignal;
+}
+
+/**
+ * Minimal surface every LLM backend has to implement.
+ * - streamChat yields raw text chunks as they arrive (NDJSON parsing happens in the route)
+ * - complete returns a single completion (map naming, history summaries)
+ */
+export interface LLMProvider {
+	name: ProviderName;
+	model: string;
+	// Human-readable reason the provider can't be used, or null when ready
+	configError: string | null;
+	streamChat(request: ChatRequest): AsyncIterable<string>;
+	complete(prompt: string, options?: CompleteOptions): Promise<string>;
+}
+
+export interface CompleteOptions {
+	// Reply length cap in tokens (unset: the provider's own limit)
+	maxTokens?: number;
+}
+
+export interface ProviderConfig {
+	provider: ProviderName;
+	model: string;
+	apiKey: string;
+	baseUrl: string;
+	fakeScriptPath?: string;
+	fakeChunkDelayMs?: number; // Slows the fake stream down (e.g. to try Stop)
+}
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+	gemini: "gemini-flash-latest",
+	openai: "gpt-4o-mini",
+	anthropic: "claude-3-5-haiku-latest",
+	ollama: "llama3.1",
+	fake: "scripted",
+};
+
+const DEFAULT_BASE_URLS: Record<ProviderName, string> = {
+	gemini: "",
+	openai: "https://api.openai.com/v1",
+	anthropic: "https://api.anthropic.com/v1",
+	ollama: "http://localhost:11434/v1",
+	fake: "",
+};
+
+const DEFAULT_ANTHROPIC_COMPLETE_TOKENS = 64; // complete() without maxTokens: a map name
+
+const API_KEY_VARS: Partial<Record<ProviderName, string>> = {
+	gemini: "GOOGLE_API_KEY",
+	openai: "OPENAI_API_KEY",
+	anthropic: "ANTHROPIC_API_KEY",
+};
+
+/**
+ * Read provider selection from environment variables
+ * - LLM_PROVIDER: gemini (default) | openai | anthropic | ollama | fake
+ * - LLM_MODEL / LLM_BASE_URL / LLM_API_KEY override the per-provider defaults
+ * - LLM_FAKE_SCRIPT: optional JSON script for the fake provider
+ * - LLM_FAKE_DELAY_MS: optional delay between fake stream chunks
+ */
+export function resolveProviderConfig(
+	env: Record<string, string | undefined> = process.env,
+): ProviderConfig {
+	const requested = (env.LLM_PROVIDER || "gemini").toLowerCase();
+	if (!PROVIDER_NAMES.includes(requested as ProviderName)) {
+		throw new Error(
+			`Unknown LLM_PROVIDER "${requested}". Expected one of: ${PROVIDER_NAMES.join(", ")}`,
+		);
+	}
+	const provider = requested as ProviderName;
+	const keyVar = API_KEY_VARS[provider];
+
+	return {
+		provider,
+		model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+		apiKey: env.LLM_API_KEY || (keyVar ? env[keyVar] : undefined) || "",
+		baseUrl: (env.LLM_BASE_URL || DEFAULT_BASE_URLS[provider]).replace(
+			/\/+$/,
+			"",
+		),
+		fakeScriptPath: env.LLM_FAKE_SCRIPT,
+		fakeChunkDelayMs: Number(env.LLM_FAKE_DELAY_MS) || 0,
+	};
+}
+
+/**
+ * Build the provider for a config
+ */
+export function createProvider(config: ProviderConfig): LLMProvider {
+	switch (config.provider) {
+		case "gemini":
+			return createGeminiProvider(config);
+		case "openai":
+		case "ollama":
+			return createOpenAICompatibleProvider(config);
+		case "anthropic":
+			return createAnthropicProvider(config);
+		case "fake":
+			return createFakeProvider(config);
+	}
+}
+
+/**
+ * Google Gemini via @google/generative-ai
+ * The system prompt is replayed as the first user turn, matching the original setup
+ */
+function createGeminiProvider(config: ProviderConfig): LLMProvider {
+	const genAI = new GoogleGenerativeAI(config.apiKey);
+	const model = genAI.getGenerativeModel({
+		model: config.model,
+		// No JSON constraint - we'll use NDJSON for streaming
+	});
+
+	return {
+		name: "gemini",
+		model: config.model,
+		configError: config.apiKey
+			? null
+			: "Google API Key is missing. Please set GOOGLE_API_KEY in your .env file.",
+
+		async *streamChat({ system, history, message, signal }) {
+			const chatSession = model.startChat({
+				history: [
+					{ role: "user", parts: [{ text: system }] },
+					{
+						role: "model",
+						parts: [
+							{
+								text: "I understand. I will output nodes and edges in NDJSON format for streaming.",
+							},
+						],
+					},
+					...history.map((turn) => ({
+						role: turn.role === "assistant" ? "model" : "user",
+						parts: [{ text: turn.content }],
+					})),
+				],
+			});
+
+			const result = await chatSession.sendMessageStream(message, { signal });
+			for await (const chunk of result.stream) {
+				yield chunk.text();
+			}
+		},
+
+		async complete(prompt, { maxTokens } = {}) {
+			const result = await model.generateContent({
+				contents: [{ role: "user", parts: [{ text: prompt }] }],
+				...(maxTokens ? { generationConfig: { maxOutputTokens: maxTokens } } : {}),
+			});
+			return result.response.text();
+		},
+	};
+}
+
+/**
+ * OpenAI Chat Completions API, also used for Ollama, llama.cpp, vLLM and
+ * other servers exposing an OpenAI-compatible /chat/completions endpoint
+ */
+function createOpenAICompatibleProvider(config: ProviderConfig): LLMProvider {
+	// Local servers usually don't need a key; the hosted API does
+	const needsKey = config.baseUrl === DEFAULT_BASE_URLS.openai;
+
+	const post = (body: Record<string, unknown>, signal?: AbortSignal) =>
+		fetch(`${config.baseUrl}/chat/completions`, {
+			method: "POST",
+			signal,
+			headers: {
+				"Content-Type": "application/json",
+				...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+			},
+			body: JSON.stringify({ model: config.model, ...body }),
+		});
+
+	return {
+		name: config.provider,
+		model: config.model,
+		configError:
+			needsKey && !config.apiKey
+				? "OpenAI API Key is missing. Please set OPENAI_API_KEY (or LLM_API_KEY) in your .env file."
+				: null,
+
+		async *streamChat({ system, history, message, signal }) {
+			const response = await post(
+				{
+					stream: true,
+					messages: [
+						{ role: "system", content: system },
+						...history,
+						{ role: "user", content: message },
+					],
+				},
+				signal,
+			);
+			await assertOk(response, config.provider);
+
+			for await (const data of readServerSentData(response)) {
+				if (data === "[DONE]") return;
+				const parsed = JSON.parse(data);
+				const text = parsed.choices?.[0]?.delta?.content;
+				if (text) yield text;
+			}
+		},
+
+		async complete(prompt, { maxTokens } = {}) {
+			const response = await post({
+				...(maxTokens ? { max_tokens: maxTokens } : {}),
+				messages: [{ role: "user", content: prompt }],
+			});
+			await assertOk(response, config.provider);
+			const parsed = await response.json();
+			return parsed.choices?.[0]?.message?.content ?? "";
+		},
+	};
+}
+
+/**
+ * Anthropic Messages API (streaming via server-sent events)
+ */
+function createAnthropicProvider(config: ProviderConfig): LLMProvider {
+	const post = (body: Record<string, unknown>, signal?: AbortSignal) =>
+		fetch(`${config.baseUrl}/messages`, {
+			method: "POST",
+			signal,
+			headers: {
+				"Content-Type": "application/json",
+				"x-api-key": config.apiKey,
+				"anthropic-version": "2023-06-01",
+			},
+			body: JSON.stringify({ model: config.model, max_tokens: 8192, ...body }),
+		});
+
+	return {
+		name: "anthropic",
+		model: config.model,
+		configError: config.apiKey
+			? null
+			: "Anthropic API Key is missing. Please set ANTHROPIC_API_KEY (or LLM_API_KEY) in your .env file.",
+
+		async *streamChat({ system, history, message, signal }) {
+			const response = await post(
+				{
+					stream: true,
+					system,
+					messages: [...history, { role: "user", content: message }],
+				},
+				signal,
+			);
+			await assertOk(response, "anthropic");
+
+			for await (const data of readServerSentData(response)) {
+				const parsed = JSON.parse(data);
+				if (parsed.type === "content_block_delta" && parsed.delta?.text) {
+					yield parsed.delta.text;
+				} else if (parsed.type === "error") {
+					throw new Error(parsed.error?.message || "Anthropic stream error");
+				}
+			}
+		},
+
+		async complete(prompt, { maxTokens = DEFAULT_ANTHROPIC_COMPLETE_TOKENS } = {}) {
+			const response = await post({
+				max_tokens: maxTokens,
+				messages: [{ role: "user", content: prompt }],
+			});
+			await assertOk(response, "anthropic");
+			const parsed = await response.json();
+			return parsed.content?.[0]?.text ?? "";
+		},
+	};
+}
+
+async function assertOk(response: Response, provider: ProviderName) {
+	if (response.ok) return;
+	const detail = await response.text().catch(() => "");
+	throw new Error(
+		`${provider} request failed (${response.status}): ${detail.substring(0, 200)}`,
+	);
+}
+
+/**
+ * Yield the payload of each `data:` line from a server-sent events response
+ */
+async function* readServerSentData(response: Response): AsyncIterable<string> {
+	const reader = response.body?.getReader();
+	if (!reader) throw new Error("No response body");
+
+	const decoder = new TextDecoder();
+	let buffer = "";
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+
+		buffer += decoder.decode(value, { stream: true });
+		const lines = buffer.split("\n");
+		buffer = lines.pop() || ""; // Keep incomplete line in buffer
+
+		for (const line of lines) {
+			if (line.startsWith("data:")) {
+				const data = line.slice(5).trim();
+				if (data) yield data;
+			}
+		}
+	}
+}
@@ -1,104 +1,214 @@
 import type { Edge, Node } from "@xyflow/react";
-import { Loader2, Send } from "lucide-react";
-import { useState } from "react";
+import { Check, Loader2, Send, Square, Undo2, X } from "lucide-react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import type { ProcessEdge, ProcessGraph, ProcessNode } from "../types/process";
+import { type ChatMessage, useChatTranscript } from "../hooks/useChatTranscript";
+import type {
+	ProcessEdge,
+	ProcessGraph,
+	ProcessLane,
+	ProcessNode,
+} from "../types/process";
+import { getLayoutedElements, type LayoutDirection } from "../utils/autoLayout";
+import type { ChangeKind } from "../utils/graphDiff";
+import { applyGraphOperation, type GraphState, streamBaseGraph } from "../utils/graphPatch";
+import {
+	createStreamError,
+	type GraphOperation,
+	isGraphOperation,
+	parseStreamEvent,
+	readStreamPayloads,
+	type StreamError,
+} from "../utils/streamProtocol";
+
+const MAX_LOGGED_OPERATIONS = 30; // Per turn, when replayed as conversation history
+
+// Operations that change the flow's structure - update-mode edits with these are re-laid out
+const STRUCTURAL_OPERATIONS = new Set<GraphOperation["type"]>([
+	"node",
+	"add_node",
+	"remove_node",
+	"edges",
+	"add_edge",
+	"remove_edge",
+	"lanes",
+]);
 
 /**
- * Merge updated nodes with existing nodes
- * - Nodes in updatedNodes replace existing nodes with the same ID
- * - Nodes in nodeIdsToRemove are filtered out
- * - Existing nodes not in either list are preserved
+ * One-line description of a graph operation, replayed to the model as memory
  */
-function mergeNodes(
-	existingNodes: Node[],
-	updatedNodes: Node[],
-	nodeIdsToRemove: Set<string>,
-): Node[] {
-	// Create a map of updated nodes by ID for fast lookup
-	const updatedNodeMap = new Map(updatedNodes.map((n) => [n.id, n]));
-
-	// Start with existing nodes, replacing/filtering as needed
-	const mergedNodes: Node[] = [];
-
-	for (const node of existingNodes) {
-		// Skip if marked for removal
-		if (nodeIdsToRemove.has(node.id)) continue;
-
-		// Use updated version if available, otherwise keep existing
-		const updatedNode = updatedNodeMap.get(node.id);
-		if (updatedNode) {
-			mergedNodes.push(updatedNode);
-			updatedNodeMap.delete(node.id); // Mark as processed
-		} else {
-			mergedNodes.push(node);
-		}
-	}
-
-	// Add any new nodes that weren't replacements
-	for (const node of updatedNodeMap.values()) {
-		mergedNodes.push(node);
+function describeOperation(op: GraphOperation): string {
+	switch (op.type) {
+		case "node":
+		case "add_node":
+			return `added node ${op.data.id} "${op.data.data.label}"`;
+		case "update_node":
+			return `updated node ${op.data.id} (${[
+				...(op.data.type ? ["type"] : []),
+				...Object.keys(op.data.data ?? {}),
+			].join(", ")})`;
+		case "move_node":
+			return `moved node ${op.data.id}`;
+		case "remove_node":
+			return `removed node ${op.data}`;
+		case "edges":
+			return `set ${op.data.length} edges`;
+		case "add_edge":
+			return `added edge ${op.data.id} (${op.data.source} -> ${op.data.target})`;
+		case "update_edge":
+			return `updated edge ${op.data.id}`;
+		case "remove_edge":
+			return `removed edge ${op.data}`;
+		case "lanes":
+			return `set lanes (${op.data.map((l) => l.label).join(", ")})`;
 	}
+}
 
-	return mergedNodes;
+/**
+ * Summarize rejected stream lines for the chat transcript
+ */
+function describeRejections(errors: StreamError[]): string {
+	return errors
+		.map((error) => {
+			const detail = error.issues?.length ? ` (${error.issues.join("; ")})` : "";
+			return `• ${error.message}${detail}`;
+		})
+		.join("\n");
 }
 
-interface Message {
-	id: string;
-	role: "user" | "assistant";
-	content: string;
+const GREETING: ChatMessage = {
+	id: "1",
+	role: "assistant",
+	content:
+		"Hello! I'm your process mapping assistant. Describe a process, and I'll help you map it out.",
+};
+
+/**
+ * Turn the transcript into conversation history for the server
+ */
+function toHistory(messages: ChatMessage[]) {
+	return messages
+		.filter((m) => m !== GREETING)
+		.map((m) => ({
+			role: m.role,
+			content: m.operations?.length
+				? `${m.content}\nGraph changes: ${m.operations.join("; ")}`
+				: m.content,
+		}));
 }
 
 interface ChatInterfaceProps {
 	currentNodes: Node[];
 	currentEdges: Edge[];
+	currentLanes?: ProcessLane[];
 	selectedNodeIds: string[];
-	onGraphUpdate: (nodes: Node[], edges: Edge[]) => void;
+	onGraphUpdate: (nodes: Node[], edges: Edge[], lanes?: ProcessLane[]) => void;
 	onStreamComplete?: () => void;
 	onAutoName?: (name: string) => void;
 	currentMapName?: string;
+	// Saved map the transcript belongs to (null until a new map is first saved)
+	mapId?: string | null;
+	// Staging: stream into a proposal that must be accepted before it's committed
+	previewChanges?: boolean;
+	onPreviewChangesChange?: (enabled: boolean) => void;
+	proposalSummary?: Record<ChangeKind, number> | null;
+	onAcceptProposal?: (selectedOnly: boolean) => void;
+	onRejectProposal?: () => void;
+	// Direction used for the layout pass after AI changes
+	layoutDirection?: LayoutDirection;
 }
 
 export function ChatInterface({
 	currentNodes,
 	currentEdges,
+	currentLanes = [],
 	selectedNodeIds,
 	onGraphUpdate,
 	onStreamComplete,
 	onAutoName,
 	currentMapName,
+	mapId = null,
+	previewChanges = false,
+	onPreviewChangesChange,
+	proposalSummary,
+	onAcceptProposal,
+	onRejectProposal,
+	layoutDirection = "TB",
 }: ChatInterfaceProps) {
-	const [messages, setMessages] = useState<Message[]>([
-		{
-			id: "1",
-			role: "assistant",
-			content:
-				"Hello! I'm your process mapping assistant. Describe a process, and I'll help you map it out.",
-		},
-	]);
+	const { messages, appendMessage } = useChatTranscript(mapId, GREETING);
 	const [inputValue, setInputValue] = useState("");
 	const [isLoading, setIsLoading] = useState(false);
+	// Assistant reply text streamed so far for the in-flight request
+	const [streamingReply, setStreamingReply] = useState("");
+	// Skip the layout pass after update-mode edits so the map doesn't reflow
+	const [keepPositions, setKeepPositions] = useState(false);
+	// A finished proposal is waiting for Accept / Reject
+	const isReviewing = !isLoading && Boolean(proposalSummary);
+	// Aborts the in-flight request when the user presses Stop
+	const abortRef = useRef<AbortController | null>(null);
+	// Graph from before a stopped generation, until the user keeps or reverts the partial result
+	const [stoppedBase, setStoppedBase] = useState<GraphState | null>(null);
+	const isBlocked = isLoading || isReviewing || Boolean(stoppedBase);
+
+	const handleStop = () => {
+		abortRef.current?.abort();
+	};
+
+	const handleKeepPartial = () => {
+		setStoppedBase(null);
+		onStreamComplete?.();
+	};
+
+	const handleRevertPartial = () => {
+		if (!stoppedBase) return;
+		onGraphUpdate(stoppedBase.nodes, stoppedBase.edges, stoppedBase.lanes);
+		setStoppedBase(null);
+	};
 
 	const handleSendMessage = async (e: React.FormEvent) => {
 		e.preventDefault();
-		if (!inputValue.trim() || isLoading) return;
+		if (!inputValue.trim() || isBlocked) return;
 
-		const userMessage: Message = {
+		const userMessage: ChatMessage = {
 			id: Date.now().toString(),
 			role: "user",
 			content: inputValue,
 		};
 
-		setMessages((prev) => [...prev, userMessage]);
+		appendMessage(userMessage);
 		setInputValue("");
 		setIsLoading(true);
 
+		const abort = new AbortController();
+		abortRef.current = abort;
+		// Snapshot for reverting a stopped generation
+		const base: GraphState = {
+			nodes: currentNodes,
+			edges: currentEdges,
+			lanes: currentLanes,
+		};
+
+		// Track update mode: "create" replaces everything, "update" patches the current graph.
+		// Operations before any mode line patch the current graph too
+		let mode: "create" | "update" = "update";
+		// Graph being built by the stream - emptied by a create mode line
+		let working: GraphState = streamBaseGraph(base);
+		// Nodes added or changed by this response (used for auto-naming)
+		const changedNodeIds = new Set<string>();
+		const operations: string[] = [];
+		// Set when nodes or connections were added or removed
+		let restructured = false;
+		// Natural-language reply assembled from message events
+		let reply = "";
+
 		try {
 			// Convert current React Flow nodes/edges to ProcessGraph type
 			const currentGraph: ProcessGraph = {
 				nodes: currentNodes as ProcessNode[],
 				edges: currentEdges as ProcessEdge[],
+				lanes: currentLanes,
 			};
 
 			// Call the server-side API endpoint with streaming
@@ -111,7 +221,9 @@ export function ChatInterface({
 					prompt: userMessage.content,
 					currentGraph,
 					selectedNodeIds,
+					history: toHistory(messages),
 				}),
+				signal: abort.signal,
 			});
 
 			if (!response.ok) {
@@ -119,191 +231,146 @@ export function ChatInterface({
 				throw new Error(errorData.error || "Failed to generate map");
 			}
 
-			// Handle streaming response
-			const reader = response.body?.getReader();
-			const decoder = new TextDecoder();
-
-			if (!reader) {
-				throw new Error("No response body");
-			}
-
-			// Track update mode: "create" replaces everything, "update" merges changes
-			let mode: "create" | "update" = "create";
-
-			// For create mode: collect all new nodes
-			const streamedNodes: Node[] = [];
-			// For update mode: track nodes to modify/add and IDs to remove
-			const nodesToMerge: Node[] = [];
-			const nodeIdsToRemove: Set<string> = new Set();
-
-			let streamedEdges: Edge[] = [];
-
-			// Buffer for accumulating partial JSON across chunks
-			let jsonBuffer = "";
-			let braceCount = 0;
-
-			while (true) {
-				const { done, value } = await reader.read();
-				if (done) break;
-
-				const chunk = decoder.decode(value, { stream: true });
-				const lines = chunk.split("\n");
-
-				for (const line of lines) {
-					let content = line;
+			// Lines the server (or our own schema check) rejected
+			const rejected: StreamError[] = [];
+
+			for await (const payload of readStreamPayloads(response)) {
+				const parsed = parseStreamEvent(payload);
+				if (!parsed.success) {
+					console.warn("Rejected SSE event:", parsed.issues, payload);
+					rejected.push(
+						createStreamError("invalid_message", "Unrecognized stream event", {
+							raw: payload,
+							issues: parsed.issues,
+						}),
+					);
+					continue;
+				}
 
-					// Handle new data line
-					if (line.startsWith("data: ")) {
-						content = line.slice(6); // Remove 'data: ' prefix
+				const data = parsed.event;
+
+				if (data.type === "mode") {
+					// Set the mode for this response
+					mode = data.data;
+					working = streamBaseGraph(base, mode);
+					console.log(`📝 AI mode: ${mode}`);
+				} else if (data.type === "message") {
+					reply = reply ? `${reply}\n${data.data}` : data.data;
+					setStreamingReply(reply);
+				} else if (isGraphOperation(data)) {
+					// In UPDATE mode, preserve existing edges if AI sends empty array
+					// This prevents accidental edge deletion when only updating node properties
+					if (
+						data.type === "edges" &&
+						mode === "update" &&
+						data.data.length === 0
+					) {
+						console.log(
+							"⚠️ UPDATE mode: AI sent empty edges, preserving existing edges",
+						);
+						continue;
 					}
 
-					// Skip empty lines
-					if (!content.trim()) continue;
-
-					// If we're not in the middle of accumulating, and this doesn't look like JSON, skip
-					if (jsonBuffer === "" && !content.startsWith("{")) continue;
-
-					// Accumulate content
-					jsonBuffer += content;
-
-					// Count braces to detect complete JSON
-					for (const char of content) {
-						if (char === "{" || char === "[") braceCount++;
-						else if (char === "}" || char === "]") braceCount--;
+					working = applyGraphOperation(working, data);
+					onGraphUpdate(working.nodes, working.edges, working.lanes);
+					// Moving a step to another lane also needs the layout pass
+					if (
+						STRUCTURAL_OPERATIONS.has(data.type) ||
+						(data.type === "update_node" && data.data.data?.laneId !== undefined)
+					) {
+						restructured = true;
+					}
+					if (operations.length < MAX_LOGGED_OPERATIONS) {
+						operations.push(describeOperation(data));
 					}
 
-					// Only parse when we have a complete JSON object
-					if (braceCount !== 0) continue;
-
-					const jsonStr = jsonBuffer;
-					jsonBuffer = "";
-					braceCount = 0;
-
-					try {
-						const data = JSON.parse(jsonStr);
-
-						if (data.type === "mode") {
-							// Set the mode for this response
-							mode = data.data === "update" ? "update" : "create";
-							console.log(`📝 AI mode: ${mode}`);
-						} else if (data.type === "node") {
-							if (mode === "create") {
-								// Create mode: collect all nodes fresh
-								streamedNodes.push(data.data);
-								onGraphUpdate([...streamedNodes], streamedEdges);
-							} else {
-								// Update mode: track nodes to merge
-								nodesToMerge.push(data.data);
-								// Merge with existing nodes progressively
-								const mergedNodes = mergeNodes(
-									currentNodes,
-									nodesToMerge,
-									nodeIdsToRemove,
-								);
-								// Preserve existing edges during progressive updates
-								const progressiveEdges =
-									streamedEdges.length > 0
-										? streamedEdges
-										: (currentEdges as Edge[]);
-								onGraphUpdate(mergedNodes, progressiveEdges);
-							}
-							// Fit after every node
-							if (onStreamComplete) {
-								setTimeout(() => onStreamComplete(), 10);
-							}
-						} else if (data.type === "remove_node") {
-							// Mark node for removal (update mode only)
-							nodeIdsToRemove.add(data.data);
-							const mergedNodes = mergeNodes(
-								currentNodes,
-								nodesToMerge,
-								nodeIdsToRemove,
-							);
-							// Preserve existing edges when removing nodes
-							const progressiveEdges =
-								streamedEdges.length > 0
-									? streamedEdges
-									: (currentEdges as Edge[]);
-							onGraphUpdate(mergedNodes, progressiveEdges);
-						} else if (data.type === "edges") {
-							// Normalize edge marker types to lowercase (safety net)
-							const normalizedEdges = data.data.map((edge: Edge) => {
-								// Check if markerEnd is an object with a type property
-								const markerEnd = edge.markerEnd;
-								const normalizedMarkerEnd =
-									markerEnd &&
-									typeof markerEnd === "object" &&
-									"type" in markerEnd
-										? {
-												...markerEnd,
-												type: markerEnd.type.toLowerCase(),
-											}
-										: markerEnd;
-
-								return {
-									...edge,
-									markerEnd: normalizedMarkerEnd,
-								};
-							});
-
-							// In UPDATE mode, preserve existing edges if AI sends empty array
-							// This prevents accidental edge deletion when only updating node properties
-							if (mode === "update" && normalizedEdges.length === 0) {
-								console.log(
-									"⚠️ UPDATE mode: AI sent empty edges, preserving existing edges",
-								);
-								// Don't update streamedEdges, keep using currentEdges
-							} else {
-								streamedEdges = normalizedEdges;
-							}
-
-							if (mode === "create") {
-								onGraphUpdate([...streamedNodes], streamedEdges);
-							} else {
-								const mergedNodes = mergeNodes(
-									currentNodes,
-									nodesToMerge,
-									nodeIdsToRemove,
-								);
-								// In update mode, use currentEdges if streamedEdges is still empty
-								const finalEdges =
-									streamedEdges.length > 0 ? streamedEdges : currentEdges;
-								onGraphUpdate(mergedNodes, finalEdges as Edge[]);
-							}
-						} else if (data.type === "complete") {
-							// Stream complete - trigger fitView
-							console.log(
-								`✅ Stream complete (mode: ${mode}, nodes: ${mode === "create" ? streamedNodes.length : nodesToMerge.length} modified)`,
-							);
-							if (onStreamComplete) {
-								// Small delay to ensure DOM is updated
-								setTimeout(() => onStreamComplete(), 50);
-							}
-						} else if (data.type === "error") {
-							throw new Error(data.message);
+					if (data.type === "remove_node") {
+						changedNodeIds.delete(data.data);
+					} else if (data.type === "node" || data.type === "add_node") {
+						changedNodeIds.add(data.data.id);
+						// Fit after every new node
+						if (onStreamComplete) {
+							setTimeout(() => onStreamComplete(), 10);
 						}
-					} catch (_e) {
-						// Skip invalid JSON
-						console.warn("Failed to parse SSE data:", jsonStr);
+					} else if (data.type === "update_node") {
+						changedNodeIds.add(data.data.id);
+					}
+				} else if (data.type === "complete") {
+					// The model only supplies topology - arrange new maps (and restructured
+					// ones, unless positions are kept) with the same layout as Ctrl+L
+					if (
+						operations.length > 0 &&
+						(mode === "create" || (restructured && !keepPositions))
+					) {
+						const layouted = await getLayoutedElements(
+							working.nodes,
+							working.edges,
+							layoutDirection,
+							undefined,
+							working.lanes,
+						);
+						working = {
+							nodes: layouted.nodes,
+							edges: layouted.edges,
+							lanes: layouted.lanes,
+						};
+						onGraphUpdate(working.nodes, working.edges, working.lanes);
+						console.log(`📐 Layout applied after ${mode}`);
+					}
+					// Stream complete - trigger fitView
+					console.log(
+						`✅ Stream complete (mode: ${mode}, nodes: ${changedNodeIds.size} modified)`,
+					);
+					if (onStreamComplete) {
+						// Small delay to ensure DOM is updated
+						setTimeout(() => onStreamComplete(), 50);
 					}
+				} else if (data.type === "repair") {
+					// Server is asking the model to fix the lines rejected so far;
+					// anything still broken afterwards is reported again
+					console.log(
+						`🔧 Repair attempt ${data.data.attempt} for ${data.data.rejected} line(s)`,
+					);
+					rejected.length = 0;
+				} else if (data.type === "error") {
+					if (data.code === "stream_failed") {
+						throw new Error(data.message);
+					}
+					// Rejected line - keep going, report it at the end
+					console.warn(`⚠️ ${data.message}`, data.issues ?? data.raw);
+					rejected.push(data);
 				}
 			}
 
-			const assistantMessage: Message = {
+			// Fall back to a fixed summary when the model didn't explain itself
+			let content =
+				reply.trim() ||
+				(operations.length > 0
+					? "I've updated the process map based on your description."
+					: "I didn't change the process map.");
+			if (previewChanges && operations.length > 0) {
+				content +=
+					"\n\nReview the proposed changes on the canvas, then accept or reject them below.";
+			}
+			if (rejected.length > 0) {
+				content += `\n\nSkipped ${rejected.length} invalid line(s):\n${describeRejections(rejected)}`;
+			}
+			const assistantMessage: ChatMessage = {
 				id: (Date.now() + 1).toString(),
 				role: "assistant",
-				content: "I've updated the process map based on your description.",
+				content,
+				...(operations.length > 0 ? { operations } : {}),
 			};
-			setMessages((prev) => [...prev, assistantMessage]);
+			appendMessage(assistantMessage);
 
 			// Auto-name the map if it's still "Untitled" and we have nodes
 			if (
 				onAutoName &&
 				currentMapName === "Untitled" &&
-				(streamedNodes.length > 0 || nodesToMerge.length > 0)
+				changedNodeIds.size > 0
 			) {
-				const allNodes = streamedNodes.length > 0 ? streamedNodes : nodesToMerge;
-				const labels = allNodes
+				const labels = working.nodes
+					.filter((n) => changedNodeIds.has(n.id))
 					.map((n) => String(n.data?.label || ""))
 					.filter((l) => l.length > 0)
 					.slice(0, 5); // Limit to first 5 labels
@@ -325,8 +392,29 @@ export function ChatInterface({
 				}
 			}
 		} catch (error) {
+			if (abort.signal.aborted) {
+				console.log(`⏹️ Generation stopped after ${operations.length} change(s)`);
+				// Preview mode already stages the partial result as a proposal to review
+				if (operations.length > 0 && !previewChanges) {
+					setStoppedBase(base);
+				}
+				appendMessage({
+					id: (Date.now() + 1).toString(),
+					role: "assistant",
+					content: [
+						reply.trim(),
+						operations.length > 0
+							? "Generation stopped. Keep the partial changes or revert them below."
+							: "Generation stopped before any changes were made.",
+					]
+						.filter(Boolean)
+						.join("\n\n"),
+					...(operations.length > 0 ? { operations } : {}),
+				});
+				return;
+			}
 			console.error(error);
-			const errorMessage: Message = {
+			const errorMessage: ChatMessage = {
 				id: (Date.now() + 1).toString(),
 				role: "assistant",
 				content:
@@ -334,16 +422,45 @@ export function ChatInterface({
 						? `Error: ${error.message}`
 						: "Sorry, I encountered an error while generating the map. Please check your API key and try again.",
 			};
-			setMessages((prev) => [...prev, errorMessage]);
+			appendMessage(errorMessage);
 		} finally {
+			abortRef.current = null;
 			setIsLoading(false);
+			setStreamingReply("");
 		}
 	};
 
 	return (
 		<div className="h-full flex flex-col">
-			<div className="px-4 py-3 border-b">
+			<div className="px-4 py-3 border-b flex items-center justify-between gap-2">
 				<h3 className="text-sm font-medium text-muted-foreground">Process Assistant</h3>
+				<div className="flex items-center gap-3">
+					<Label
+						className="text-xs font-normal text-muted-foreground cursor-pointer"
+						title="Don't re-layout the map after the assistant edits it"
+					>
+						<input
+							type="checkbox"
+							checked={keepPositions}
+							onChange={(e) => setKeepPositions(e.target.checked)}
+							disabled={isLoading}
+							className="accent-primary"
+						/>
+						Keep positions
+					</Label>
+					{onPreviewChangesChange && (
+						<Label className="text-xs font-normal text-muted-foreground cursor-pointer">
+							<input
+								type="checkbox"
+								checked={previewChanges}
+								onChange={(e) => onPreviewChangesChange(e.target.checked)}
+								disabled={isBlocked}
+								className="accent-primary"
+							/>
+							Preview changes
+						</Label>
+					)}
+				</div>
 			</div>
 			<div className="flex-1 flex flex-col overflow-hidden">
 				<div className="flex-1 overflow-y-auto p-4 space-y-4">
@@ -355,26 +472,89 @@ export function ChatInterface({
 							}`}
 						>
 							<div
-								className={`max-w-[80%] rounded-lg px-4 py-2 text-sm ${
+								className={`max-w-[80%] rounded-lg px-4 py-2 text-sm whitespace-pre-wrap ${
 									message.role === "user"
 										? "bg-primary text-primary-foreground"
 										: "bg-muted text-muted-foreground"
 								}`}
 							>
 								{message.content}
+								{message.operations && (
+									<details className="mt-2 text-xs opacity-80">
+										<summary className="cursor-pointer select-none">
+											{message.operations.length} graph change
+											{message.operations.length === 1 ? "" : "s"}
+										</summary>
+										<ul className="mt-1 space-y-0.5 list-disc pl-4">
+											{message.operations.map((op, i) => (
+												<li key={i}>{op}</li>
+											))}
+										</ul>
+									</details>
+								)}
 							</div>
 						</div>
 					))}
 					{isLoading && (
 						<div className="flex justify-start">
-							<div className="bg-muted text-muted-foreground rounded-lg px-4 py-2 text-sm flex items-center gap-2">
-								<Loader2 className="h-4 w-4 animate-spin" />
-								Thinking...
+							<div className="max-w-[80%] bg-muted text-muted-foreground rounded-lg px-4 py-2 text-sm flex items-center gap-2">
+								<Loader2 className="h-4 w-4 animate-spin shrink-0" />
+								{streamingReply ? (
+									<span className="whitespace-pre-wrap">{streamingReply}</span>
+								) : (
+									"Thinking..."
+								)}
 							</div>
 						</div>
 					)}
 				</div>
 				<div className="p-4 border-t bg-background">
+					{/* Proposal review controls */}
+					{isReviewing && proposalSummary && (
+						<div className="mb-3 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 p-3 space-y-2">
+							<div className="text-xs text-amber-900 dark:text-amber-200">
+								Proposed: {proposalSummary.added} added, {proposalSummary.modified}{" "}
+								modified, {proposalSummary.removed} removed
+							</div>
+							<div className="flex flex-wrap gap-2">
+								<Button size="sm" onClick={() => onAcceptProposal?.(false)}>
+									<Check className="h-3 w-3" />
+									Accept
+								</Button>
+								<Button
+									size="sm"
+									variant="outline"
+									onClick={() => onAcceptProposal?.(true)}
+									disabled={selectedNodeIds.length === 0}
+									title="Accept only the changes to the selected nodes"
+								>
+									Accept selected
+								</Button>
+								<Button size="sm" variant="ghost" onClick={() => onRejectProposal?.()}>
+									<X className="h-3 w-3" />
+									Reject
+								</Button>
+							</div>
+						</div>
+					)}
+					{/* Stopped generation: keep or revert the partial changes */}
+					{stoppedBase && (
+						<div className="mb-3 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 p-3 space-y-2">
+							<div className="text-xs text-amber-900 dark:text-amber-200">
+								Generation stopped with partial changes applied
+							</div>
+							<div className="flex flex-wrap gap-2">
+								<Button size="sm" onClick={handleKeepPartial}>
+									<Check className="h-3 w-3" />
+									Keep partial
+								</Button>
+								<Button size="sm" variant="ghost" onClick={handleRevertPartial}>
+									<Undo2 className="h-3 w-3" />
+									Revert
+								</Button>
+							</div>
+						</div>
+					)}
 					{/* Selected Nodes Chips */}
 					{selectedNodeIds.length > 0 && (
 						<div className="mb-3 flex flex-wrap gap-2">
@@ -404,15 +584,40 @@ export function ChatInterface({
 									handleSendMessage(e);
 								}
 							}}
-							placeholder="Describe a process..."
+							placeholder={
+								isReviewing
+									? "Accept or reject the proposed changes first"
+									: stoppedBase
+										? "Keep or revert the partial changes first"
+										: "Describe a process..."
+							}
 							className="flex-1 min-h-[60px] max-h-[120px] resize-none"
-							disabled={isLoading}
+							disabled={isBlocked}
 							rows={2}
 						/>
-						<Button type="submit" size="icon" disabled={isLoading} className="shrink-0">
-							<Send className="h-4 w-4" />
-							<span className="sr-only">Send</span>
-						</Button>
+						{isLoading ? (
+							<Button
+								type="button"
+								size="icon"
+								variant="destructive"
+								onClick={handleStop}
+								className="shrink-0"
+								title="Stop generating"
+							>
+								<Square className="h-4 w-4" />
+								<span className="sr-only">Stop</span>
+							</Button>
+						) : (
+							<Button
+								type="submit"
+								size="icon"
+								disabled={isBlocked}
+								className="shrink-0"
+							>
+								<Send className="h-4 w-4" />
+								<span className="sr-only">Send</span>
+							</Button>
+						)}
 					</form>
 				</div>
 			</div>
@@ -10,6 +10,10 @@ export interface ContextMenuProps {
 	onDuplicate?: () => void;
 	onChangeStatus?: (status: NodeStatus) => void;
 	onChangeColor?: (color: string) => void;
+	onMakeSubprocess?: () => void;
+	// Saved maps a subprocess can point at instead of embedding its contents
+	linkableMaps?: { id: string; name: string }[];
+	onLinkMap?: (mapId: string) => void;
 }
 
 const statusColors = [
@@ -34,6 +38,9 @@ export function ContextMenu({
 	onDuplicate,
 	onChangeStatus,
 	onChangeColor,
+	onMakeSubprocess,
+	linkableMaps = [],
+	onLinkMap,
 }: ContextMenuProps) {
 	const menuRef = useRef<HTMLDivElement>(null);
 
@@ -79,6 +86,42 @@ export function ContextMenu({
 					</button>
 				)}
 
+				{onMakeSubprocess && (
+					<button
+						type="button"
+						className="px-3 py-2 text-sm text-left hover:bg-accent rounded transition-colors"
+						onClick={() => {
+							onMakeSubprocess();
+							onClose();
+						}}
+					>
+						Make subprocess
+					</button>
+				)}
+
+				{onLinkMap && linkableMaps.length > 0 && (
+					<>
+						<div className="px-3 py-1 text-xs font-semibold text-muted-foreground">
+							Subprocess from saved map
+						</div>
+						<div className="max-h-40 overflow-y-auto">
+							{linkableMaps.map((map) => (
+								<button
+									key={map.id}
+									type="button"
+									className="w-full truncate px-3 py-2 text-sm text-left hover:bg-accent rounded transition-colors"
+									onClick={() => {
+										onLinkMap(map.id);
+										onClose();
+									}}
+								>
+									{map.name}
+								</button>
+							))}
+						</div>
+					</>
+				)}
+
 				{onChangeStatus && <div className="border-t border-border my-1" />}
 
 				{onChangeStatus && (
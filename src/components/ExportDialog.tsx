@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import type { PdfPageSize } from "../utils/exportPdf";
+import { PNG_DPI_OPTIONS } from "../utils/exportPng";
+
+export type ImageExportFormat = "svg" | "png" | "pdf";
+
+export interface ImageExportOptions {
+	format: ImageExportFormat;
+	dpi: number; // PNG only
+	pageSize: PdfPageSize; // PDF only
+	title: string; // PDF only
+	legend: boolean; // PDF only
+	transparent: boolean; // No white page behind the map
+}
+
+interface ExportDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	mapName: string;
+	onExport: (options: ImageExportOptions) => Promise<void>; // Rejects with a message to show
+}
+
+/**
+ * Export the whole map (not just the visible part) as an SVG, PNG or PDF file
+ */
+export function ExportDialog({ open, onOpenChange, mapName, onExport }: ExportDialogProps) {
+	const [format, setFormat] = useState<ImageExportFormat>("png");
+	const [dpi, setDpi] = useState<number>(150);
+	const [pageSize, setPageSize] = useState<PdfPageSize>("a4");
+	const [title, setTitle] = useState(mapName);
+	const [legend, setLegend] = useState(true);
+	const [transparent, setTransparent] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [isExporting, setIsExporting] = useState(false);
+
+	// Title defaults to the map name each time the dialog opens
+	useEffect(() => {
+		if (open) setTitle(mapName);
+	}, [open, mapName]);
+
+	const handleOpenChange = (next: boolean) => {
+		if (!next) setError(null);
+		onOpenChange(next);
+	};
+
+	const handleExport = async () => {
+		setIsExporting(true);
+		setError(null);
+		try {
+			await onExport({ format, dpi, pageSize, title, legend, transparent });
+			onOpenChange(false);
+		} catch (e) {
+			setError(e instanceof Error ? e.message : String(e));
+		} finally {
+			setIsExporting(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent className="sm:max-w-md">
+				<DialogHeader>
+					<DialogTitle>Export image</DialogTitle>
+					<DialogDescription>
+						Exports the whole map at the current level, including lanes and edge labels.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="grid gap-4">
+					<div className="grid gap-2">
+						<Label htmlFor="export-format">Format</Label>
+						<Select value={format} onValueChange={(v) => setFormat(v as ImageExportFormat)}>
+							<SelectTrigger id="export-format" className="w-full">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="svg">SVG (vector image)</SelectItem>
+								<SelectItem value="png">PNG (bitmap image)</SelectItem>
+								<SelectItem value="pdf">PDF (printable pages)</SelectItem>
+							</SelectContent>
+						</Select>
+					</div>
+					{format === "png" && (
+						<div className="grid gap-2">
+							<Label htmlFor="export-dpi">Resolution</Label>
+							<Select value={String(dpi)} onValueChange={(v) => setDpi(Number(v))}>
+								<SelectTrigger id="export-dpi" className="w-full">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{PNG_DPI_OPTIONS.map((option) => (
+										<SelectItem key={option} value={String(option)}>
+											{option} DPI{option === 96 ? " (screen)" : option === 300 ? " (print)" : ""}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+					)}
+					{format === "pdf" && (
+						<>
+							<div className="grid gap-2">
+								<Label htmlFor="export-title">Title</Label>
+								<Input id="export-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+							</div>
+							<div className="grid gap-2">
+								<Label htmlFor="export-page-size">Page size</Label>
+								<Select value={pageSize} onValueChange={(v) => setPageSize(v as PdfPageSize)}>
+									<SelectTrigger id="export-page-size" className="w-full">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="a4">A4</SelectItem>
+										<SelectItem value="letter">US Letter</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+							<Label className="font-normal cursor-pointer">
+								<input
+									type="checkbox"
+									checked={legend}
+									onChange={(e) => setLegend(e.target.checked)}
+									className="accent-primary"
+								/>
+								Include legend
+							</Label>
+						</>
+					)}
+					<Label className="font-normal cursor-pointer">
+						<input
+							type="checkbox"
+							checked={transparent}
+							onChange={(e) => setTransparent(e.target.checked)}
+							className="accent-primary"
+						/>
+						Transparent background
+					</Label>
+				</div>
+				{error && <div className="text-sm text-destructive">{error}</div>}
+				<DialogFooter>
+					<Button variant="outline" onClick={() => handleOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button onClick={handleExport} disabled={isExporting}>
+						{isExporting ? "Exporting…" : "Export"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
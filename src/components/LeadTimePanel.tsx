@@ -0,0 +1,61 @@
+import { Panel } from "@xyflow/react";
+import { Clock, Route } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { LeadTimeAnalysis } from "../utils/leadTime";
+import { formatHours } from "../utils/metrics";
+
+interface LeadTimePanelProps {
+	analysis: LeadTimeAnalysis;
+	showCritical: boolean;
+	onShowCriticalChange: (show: boolean) => void;
+}
+
+/**
+ * Summary card of the lead time of the open level: expected, critical
+ * (longest) and shortest path - must be rendered inside <ReactFlow>
+ */
+export function LeadTimePanel({ analysis, showCritical, onShowCriticalChange }: LeadTimePanelProps) {
+	const { expectedHours, critical, shortest, paths, untimedSteps, truncated } = analysis;
+
+	return (
+		<Panel position="top-center">
+			<div className="rounded-md border bg-background/95 px-3 py-2 text-sm shadow-sm">
+				<div className="flex items-center gap-3">
+					<Clock className="size-4 shrink-0" />
+					<span>
+						<span className="text-muted-foreground">Lead time </span>
+						<span className="font-medium">{expectedHours === null ? "never ends" : `≈ ${formatHours(expectedHours)}`}</span>
+					</span>
+					{critical && (
+						<span>
+							<span className="text-muted-foreground">Critical path </span>
+							<span className="font-medium">{formatHours(critical.hours)}</span>
+						</span>
+					)}
+					{critical && (
+						<Button
+							size="sm"
+							variant={showCritical ? "secondary" : "outline"}
+							onClick={() => onShowCriticalChange(!showCritical)}
+							aria-pressed={showCritical}
+						>
+							<Route />
+							{showCritical ? "Hide" : "Show"}
+						</Button>
+					)}
+				</div>
+				<div className="mt-1 text-xs text-muted-foreground">
+					{shortest && paths.length > 1 && <>Shortest {formatHours(shortest.hours)} · </>}
+					{paths.length}
+					{truncated ? "+" : ""} path{paths.length === 1 ? "" : "s"}
+					{untimedSteps.length > 0 && (
+						<span className="text-yellow-600">
+							{" "}
+							· {untimedSteps.length} step{untimedSteps.length === 1 ? "" : "s"} without a cycle time
+						</span>
+					)}
+				</div>
+			</div>
+		</Panel>
+	);
+}
@@ -1,5 +1,17 @@
-import { Check, ChevronDown, FileText, Plus, Save, Trash2 } from "lucide-react";
-import { useState } from "react";
+import {
+	Check,
+	ChevronDown,
+	ClipboardCopy,
+	ClipboardPaste,
+	Download,
+	FileText,
+	ImageDown,
+	Plus,
+	Save,
+	Trash2,
+	Upload,
+} from "lucide-react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
 	DropdownMenu,
@@ -20,6 +32,11 @@ interface MapsPanelProps {
 	onDeleteMap: (id: string) => void;
 	onRename: (name: string) => void;
 	onSaveNow: () => void;
+	onExportBpmn?: () => void;
+	onExportImage?: () => void;
+	onImportBpmn?: (xml: string, fileName: string) => void;
+	onImportMermaid?: () => void;
+	onCopyMermaid?: () => void;
 }
 
 export function MapsPanel({
@@ -32,9 +49,15 @@ export function MapsPanel({
 	onDeleteMap,
 	onRename,
 	onSaveNow,
+	onExportBpmn,
+	onExportImage,
+	onImportBpmn,
+	onImportMermaid,
+	onCopyMermaid,
 }: MapsPanelProps) {
 	const [isEditing, setIsEditing] = useState(false);
 	const [editName, setEditName] = useState(currentMapName);
+	const fileInputRef = useRef<HTMLInputElement>(null);
 
 	const formatDate = (date: Date) => {
 		const now = new Date();
@@ -56,8 +79,23 @@ export function MapsPanel({
 		setIsEditing(false);
 	};
 
+	const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = ""; // Allow picking the same file again
+		if (file) onImportBpmn?.(await file.text(), file.name);
+	};
+
 	return (
 		<div className="flex items-center gap-2">
+			{onImportBpmn && (
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept=".bpmn,.xml"
+					className="hidden"
+					onChange={handleImportFile}
+				/>
+			)}
 			{/* Map name / selector */}
 			<DropdownMenu>
 				<DropdownMenuTrigger asChild>
@@ -91,6 +129,36 @@ export function MapsPanel({
 						<Plus className="h-4 w-4 mr-2" />
 						New Map
 					</DropdownMenuItem>
+					{onExportImage && (
+						<DropdownMenuItem onClick={onExportImage}>
+							<ImageDown className="h-4 w-4 mr-2" />
+							Export SVG / PNG / PDF…
+						</DropdownMenuItem>
+					)}
+					{onExportBpmn && (
+						<DropdownMenuItem onClick={onExportBpmn}>
+							<Download className="h-4 w-4 mr-2" />
+							Export BPMN 2.0
+						</DropdownMenuItem>
+					)}
+					{onImportBpmn && (
+						<DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+							<Upload className="h-4 w-4 mr-2" />
+							Import BPMN 2.0…
+						</DropdownMenuItem>
+					)}
+					{onCopyMermaid && (
+						<DropdownMenuItem onClick={onCopyMermaid}>
+							<ClipboardCopy className="h-4 w-4 mr-2" />
+							Copy as Mermaid
+						</DropdownMenuItem>
+					)}
+					{onImportMermaid && (
+						<DropdownMenuItem onClick={onImportMermaid}>
+							<ClipboardPaste className="h-4 w-4 mr-2" />
+							Paste Mermaid…
+						</DropdownMenuItem>
+					)}
 					<DropdownMenuSeparator />
 					{maps.length === 0 ? (
 						<div className="px-2 py-3 text-sm text-muted-foreground text-center">
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+
+interface MermaidImportDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	onImport: (text: string) => Promise<void>; // Rejects with a message to show
+}
+
+const PLACEHOLDER = `flowchart TD
+    A([Start]) --> B[Review request]
+    B --> C{Approved?}
+    C -->|Yes| D([Done])
+    C -->|No| B`;
+
+/**
+ * Paste a Mermaid flowchart to import it as a new map
+ */
+export function MermaidImportDialog({ open, onOpenChange, onImport }: MermaidImportDialogProps) {
+	const [text, setText] = useState("");
+	const [error, setError] = useState<string | null>(null);
+	const [isImporting, setIsImporting] = useState(false);
+
+	const handleOpenChange = (next: boolean) => {
+		if (!next) setError(null);
+		onOpenChange(next);
+	};
+
+	const handleImport = async () => {
+		setIsImporting(true);
+		setError(null);
+		try {
+			await onImport(text);
+			setText("");
+			onOpenChange(false);
+		} catch (e) {
+			setError(e instanceof Error ? e.message : String(e));
+		} finally {
+			setIsImporting(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent className="sm:max-w-xl">
+				<DialogHeader>
+					<DialogTitle>Import Mermaid flowchart</DialogTitle>
+					<DialogDescription>
+						Paste a <code>flowchart</code> or <code>graph</code> diagram (a markdown code
+						block is fine). It opens as a new map.
+					</DialogDescription>
+				</DialogHeader>
+				<Textarea
+					value={text}
+					onChange={(e) => setText(e.target.value)}
+					placeholder={PLACEHOLDER}
+					className="min-h-48 font-mono text-xs"
+					aria-label="Mermaid flowchart"
+				/>
+				{error && <div className="text-sm text-destructive">{error}</div>}
+				<DialogFooter>
+					<Button variant="outline" onClick={() => handleOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button onClick={handleImport} disabled={!text.trim() || isImporting}>
+						{isImporting ? "Importing…" : "Import"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,123 @@
+import { Panel } from "@xyflow/react";
+import { ChevronDown, ChevronUp, Download, Route } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatHours } from "../utils/metrics";
+import type { PathEnumeration } from "../utils/paths";
+
+export type PathExportFormat = "csv" | "gherkin";
+
+interface PathsPanelProps {
+	enumeration: PathEnumeration;
+	titles: string[]; // One per path
+	maxLoops: number;
+	onMaxLoopsChange: (maxLoops: number) => void;
+	highlighted: string | null; // ProcessPath.key
+	onHighlight: (key: string | null) => void;
+	onExport: (format: PathExportFormat) => void;
+	leadTimes?: number[]; // Hours per path, when the map has timings
+}
+
+const LOOP_LIMIT = 5;
+
+/**
+ * Start-to-end paths of the open level as test scenarios - pick one to
+ * highlight it on the canvas (must be rendered inside <ReactFlow>)
+ */
+export function PathsPanel({
+	enumeration,
+	titles,
+	maxLoops,
+	onMaxLoopsChange,
+	highlighted,
+	onHighlight,
+	onExport,
+	leadTimes,
+}: PathsPanelProps) {
+	const [open, setOpen] = useState(false);
+	const { paths, truncated } = enumeration;
+
+	const toggle = () => {
+		if (open) onHighlight(null);
+		setOpen(!open);
+	};
+
+	return (
+		<Panel position="bottom-center">
+			<div className="w-96 rounded-md border bg-background/95 text-sm shadow-sm">
+				{open && (
+					<div className="border-b">
+						<div className="flex items-center gap-2 px-3 py-2">
+							<Label htmlFor="path-loops" className="font-normal">
+								Loop passes
+							</Label>
+							<Input
+								id="path-loops"
+								type="number"
+								min={0}
+								max={LOOP_LIMIT}
+								value={maxLoops}
+								onChange={(e) =>
+									onMaxLoopsChange(Math.min(LOOP_LIMIT, Math.max(0, Number(e.target.value) || 0)))
+								}
+								className="h-8 w-16"
+							/>
+							<Button size="sm" variant="outline" className="ml-auto" onClick={() => onExport("csv")} disabled={paths.length === 0}>
+								<Download />
+								CSV
+							</Button>
+							<Button size="sm" variant="outline" onClick={() => onExport("gherkin")} disabled={paths.length === 0}>
+								<Download />
+								Gherkin
+							</Button>
+						</div>
+						{paths.length === 0 ? (
+							<div className="px-3 pb-3 text-muted-foreground">No start-to-end paths.</div>
+						) : (
+							<ul className="max-h-64 overflow-y-auto pb-1">
+								{paths.map((path, i) => (
+									<li key={path.key}>
+										<button
+											type="button"
+											onClick={() => onHighlight(highlighted === path.key ? null : path.key)}
+											className={`flex w-full gap-2 px-3 py-1.5 text-left hover:bg-muted ${highlighted === path.key ? "bg-muted font-medium" : ""}`}
+											aria-pressed={highlighted === path.key}
+										>
+											<span className="shrink-0 text-muted-foreground">{i + 1}.</span>
+											<span className="flex-1">{titles[i]}</span>
+											<span className="shrink-0 text-xs text-muted-foreground">
+												{path.nodeIds.length} steps
+												{leadTimes?.[i] !== undefined && ` · ${formatHours(leadTimes[i])}`}
+											</span>
+										</button>
+									</li>
+								))}
+							</ul>
+						)}
+						{truncated && (
+							<div className="px-3 pb-2 text-xs text-muted-foreground">
+								Showing the first {paths.length} paths - lower the loop passes to see all.
+							</div>
+						)}
+					</div>
+				)}
+				<button
+					type="button"
+					onClick={toggle}
+					className="flex w-full items-center gap-2 px-3 py-1.5"
+					aria-expanded={open}
+				>
+					<Route className="size-4" />
+					<span className="font-medium">Test paths</span>
+					<span className="rounded-full bg-muted px-1.5 text-xs text-muted-foreground">
+						{paths.length}
+						{truncated ? "+" : ""}
+					</span>
+					<span className="ml-auto">{open ? <ChevronDown className="size-4" /> : <ChevronUp className="size-4" />}</span>
+				</button>
+			</div>
+		</Panel>
+	);
+}
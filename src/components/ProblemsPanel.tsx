@@ -0,0 +1,111 @@
+import { Panel, useReactFlow } from "@xyflow/react";
+import { ChevronDown, ChevronUp, CircleX, Info, ListChecks, TriangleAlert, Wrench } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { LINT_RULE_SETS, type LintIssue, type LintRuleSetId, type LintSeverity } from "../utils/lint";
+
+interface ProblemsPanelProps {
+	issues: LintIssue[];
+	ruleSet: LintRuleSetId;
+	onRuleSetChange: (ruleSet: LintRuleSetId) => void;
+	onSelectNode: (nodeId: string) => void;
+	onApplyFixes?: (issues: LintIssue[]) => void; // Unset while fixes can't be applied (reviewing)
+}
+
+const SEVERITY_ICONS: Record<LintSeverity, React.ReactNode> = {
+	error: <CircleX className="size-4 shrink-0 text-red-500" aria-label="Error" />,
+	warning: <TriangleAlert className="size-4 shrink-0 text-yellow-500" aria-label="Warning" />,
+	info: <Info className="size-4 shrink-0 text-slate-400" aria-label="Info" />,
+};
+
+/**
+ * Mapping-standard violations on the open level - click one to focus its node
+ * (must be rendered inside <ReactFlow>)
+ */
+export function ProblemsPanel({ issues, ruleSet, onRuleSetChange, onSelectNode, onApplyFixes }: ProblemsPanelProps) {
+	const [open, setOpen] = useState(false);
+	const { fitView } = useReactFlow();
+	const fixable = issues.filter((issue) => issue.fix);
+
+	const focusIssue = (issue: LintIssue) => {
+		onSelectNode(issue.nodeId);
+		fitView({ nodes: [{ id: issue.nodeId }], duration: 500, padding: 0.5, maxZoom: 1.25 });
+	};
+
+	return (
+		<Panel position="top-right">
+			<div className="w-80 rounded-md border bg-background/95 text-sm shadow-sm">
+				<button
+					type="button"
+					onClick={() => setOpen((o) => !o)}
+					className="flex w-full items-center gap-2 px-3 py-1.5"
+					aria-expanded={open}
+				>
+					<ListChecks className="size-4" />
+					<span className="font-medium">Problems</span>
+					<span className="rounded-full bg-muted px-1.5 text-xs text-muted-foreground">{issues.length}</span>
+					<span className="ml-auto">{open ? <ChevronUp className="size-4" /> : <ChevronDown className="size-4" />}</span>
+				</button>
+				{open && (
+					<div className="border-t">
+						<div className="flex items-center gap-2 px-3 py-2">
+							<Select value={ruleSet} onValueChange={(v) => onRuleSetChange(v as LintRuleSetId)}>
+								<SelectTrigger size="sm" className="flex-1" aria-label="Rule set">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{Object.entries(LINT_RULE_SETS).map(([id, set]) => (
+										<SelectItem key={id} value={id}>
+											{set.label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+							{onApplyFixes && fixable.length > 0 && (
+								<Button size="sm" variant="outline" onClick={() => onApplyFixes(fixable)}>
+									<Wrench />
+									Fix all ({fixable.length})
+								</Button>
+							)}
+						</div>
+						{issues.length === 0 ? (
+							<div className="px-3 pb-3 text-muted-foreground">No problems found.</div>
+						) : (
+							<ul className="max-h-80 overflow-y-auto pb-1">
+								{issues.map((issue, index) => (
+									<li
+										key={`${issue.ruleId}-${issue.nodeId}-${issue.edgeId ?? ""}-${index}`}
+										className="flex items-start gap-2 px-3 py-1.5 hover:bg-muted"
+									>
+										{SEVERITY_ICONS[issue.severity]}
+										<button type="button" onClick={() => focusIssue(issue)} className="flex-1 text-left">
+											<div>{issue.message}</div>
+											<div className="text-xs text-muted-foreground">{issue.ruleId}</div>
+										</button>
+										{onApplyFixes && issue.fix && (
+											<button
+												type="button"
+												onClick={() => onApplyFixes([issue])}
+												className="shrink-0 text-xs text-primary hover:underline"
+												title={issue.fix.label}
+											>
+												Fix
+											</button>
+										)}
+									</li>
+								))}
+							</ul>
+						)}
+					</div>
+				)}
+			</div>
+		</Panel>
+	);
+}
@@ -11,25 +11,44 @@ import {
 	type OnEdgesChange,
 	type OnNodesChange,
 	type OnSelectionChangeParams,
+	Panel,
 	ReactFlow,
 	type ReactFlowInstance,
 	SelectionMode,
 } from "@xyflow/react";
 import { useCallback, useMemo, useState } from "react";
 import "@xyflow/react/dist/style.css";
-import type { NodeStatus, ProcessNode } from "../types/process";
+import type { NodeStatus, ProcessEdge, ProcessNode } from "../types/process";
+import type { LayoutDirection } from "../utils/autoLayout";
+import type { GraphFinding } from "../utils/graphAnalysis";
+import { findLoopBacks, type LeadTimeAnalysis } from "../utils/leadTime";
+import { isLaneNode } from "../utils/lanes";
+import type { LintIssue, LintRuleSetId } from "../utils/lint";
+import type { PathEnumeration } from "../utils/paths";
+import type { SimulationOptions, SimulationResult } from "../utils/simulation";
+import { isSubprocess } from "../utils/subprocess";
 import { ContextMenu } from "./ContextMenu";
+import { LeadTimePanel } from "./LeadTimePanel";
 import { FloatingEdge } from "./edges/FloatingEdge";
 import { SelfConnectingEdge } from "./edges/SelfConnectingEdge";
+import { AnalysisContext } from "./nodes/AnalysisBadge";
 import { DiamondNode } from "./nodes/DiamondNode";
+import { LaneNode } from "./nodes/LaneNode";
 import { OvalNode } from "./nodes/OvalNode";
 import { RectangleNode } from "./nodes/RectangleNode";
+import { SubprocessActionsContext, SubprocessNode } from "./nodes/SubprocessNode";
+import { type PathExportFormat, PathsPanel } from "./PathsPanel";
+import { ProblemsPanel } from "./ProblemsPanel";
+import { PropertiesPanel } from "./PropertiesPanel";
+import { SimulationPanel } from "./SimulationPanel";
 import { TooltipProvider } from "./ui/tooltip";
 
 const nodeTypes = {
 	default: RectangleNode,
 	oval: OvalNode,
 	diamond: DiamondNode,
+	lane: LaneNode,
+	subprocess: SubprocessNode,
 };
 
 const edgeTypes = {
@@ -38,6 +57,8 @@ const edgeTypes = {
 	selfConnecting: SelfConnectingEdge,
 };
 
+const NO_FINDINGS = new Map<string, GraphFinding[]>();
+
 interface ProcessMapProps {
 	nodes: Node[];
 	edges: Edge[];
@@ -51,9 +72,51 @@ interface ProcessMapProps {
 		nodeId: string,
 		updates: Partial<ProcessNode["data"]>,
 	) => void;
+	onUpdateEdge?: (
+		edgeId: string,
+		updates: Partial<NonNullable<ProcessEdge["data"]>>,
+	) => void;
 	onAutoLayout?: () => void;
+	layoutDirection?: LayoutDirection;
+	onLayoutDirectionChange?: (direction: LayoutDirection) => void;
+	onAddLane?: () => void;
+	onMakeSubprocess?: (nodeId: string, mapRef?: string) => void;
+	onOpenSubprocess?: (nodeId: string) => void;
+	linkableMaps?: { id: string; name: string }[];
+	// Drill-down path, outermost level first (shown when inside a subprocess)
+	breadcrumbs?: string[];
+	onNavigateBreadcrumb?: (index: number) => void;
 	onFitViewReady?: (fitViewFn: () => void) => void;
 	onLoadTestMap?: () => void;
+	// Mapping-standard violations shown in the problems panel
+	problems?: LintIssue[];
+	lintRuleSet?: LintRuleSetId;
+	onLintRuleSetChange?: (ruleSet: LintRuleSetId) => void;
+	onApplyLintFixes?: (issues: LintIssue[]) => void;
+	// Structural findings per node, shown as badges
+	analysis?: Map<string, GraphFinding[]>;
+	// Start-to-end paths (test scenarios) and the one highlighted on the canvas
+	paths?: PathEnumeration;
+	pathTitles?: string[];
+	maxPathLoops?: number;
+	onMaxPathLoopsChange?: (maxLoops: number) => void;
+	highlightedPath?: string | null;
+	onHighlightPath?: (key: string | null) => void;
+	onExportPaths?: (format: PathExportFormat) => void;
+	pathLeadTimes?: number[]; // Hours per path, when the map has timings
+	// Lead-time summary (null without timings) and the critical path highlight
+	leadTime?: LeadTimeAnalysis | null;
+	showCriticalPath?: boolean;
+	onShowCriticalPathChange?: (show: boolean) => void;
+	// What-if simulation of the open level (runs in a web worker)
+	simulation?: SimulationResult | null;
+	simulationRunning?: boolean;
+	simulationError?: string | null;
+	onRunSimulation?: (options: SimulationOptions) => void;
+	onCancelSimulation?: () => void;
+	onMarkBottlenecks?: (nodeIds: string[]) => void;
+	// An AI proposal is shown as a ghost overlay - only selection is allowed
+	reviewing?: boolean;
 }
 
 export function ProcessMap({
@@ -66,9 +129,41 @@ export function ProcessMap({
 	onDeleteNode,
 	onDuplicateNode,
 	onUpdateNode,
+	onUpdateEdge,
 	onAutoLayout,
+	layoutDirection = "TB",
+	onLayoutDirectionChange,
+	onAddLane,
+	onMakeSubprocess,
+	onOpenSubprocess,
+	linkableMaps,
+	breadcrumbs = [],
+	onNavigateBreadcrumb,
 	onFitViewReady,
 	onLoadTestMap,
+	problems,
+	lintRuleSet = "standards",
+	onLintRuleSetChange,
+	onApplyLintFixes,
+	analysis = NO_FINDINGS,
+	paths,
+	pathTitles = [],
+	maxPathLoops = 1,
+	onMaxPathLoopsChange,
+	highlightedPath = null,
+	onHighlightPath,
+	onExportPaths,
+	pathLeadTimes,
+	leadTime = null,
+	showCriticalPath = false,
+	onShowCriticalPathChange,
+	simulation = null,
+	simulationRunning = false,
+	simulationError = null,
+	onRunSimulation,
+	onCancelSimulation,
+	onMarkBottlenecks,
+	reviewing = false,
 }: ProcessMapProps) {
 	// Memoize nodeTypes and edgeTypes to prevent recreation on every render
 	const memoizedNodeTypes = useMemo(() => nodeTypes, []);
@@ -82,14 +177,39 @@ export function ProcessMap({
 	} | null>(null);
 
 	// Handle right-click on node
-	const onNodeContextMenu: NodeMouseHandler = useCallback((event, node) => {
-		event.preventDefault();
-		setContextMenu({
-			nodeId: node.id,
-			x: event.clientX,
-			y: event.clientY,
-		});
-	}, []);
+	const onNodeContextMenu: NodeMouseHandler = useCallback(
+		(event, node) => {
+			event.preventDefault();
+			if (reviewing || isLaneNode(node)) return;
+			setContextMenu({
+				nodeId: node.id,
+				x: event.clientX,
+				y: event.clientY,
+			});
+		},
+		[reviewing],
+	);
+
+	const onNodeDoubleClick: NodeMouseHandler = useCallback(
+		(_event, node) => {
+			if (!reviewing && isSubprocess(node)) onOpenSubprocess?.(node.id);
+		},
+		[reviewing, onOpenSubprocess],
+	);
+
+	const subprocessActions = useMemo(
+		() => ({
+			onOpen: reviewing ? undefined : onOpenSubprocess,
+			onToggle: onUpdateNode
+				? (nodeId: string, expanded: boolean) => onUpdateNode(nodeId, { expanded })
+				: undefined,
+		}),
+		[reviewing, onOpenSubprocess, onUpdateNode],
+	);
+
+	const contextNode = contextMenu
+		? nodes.find((n) => n.id === contextMenu.nodeId)
+		: undefined;
 
 	// Close context menu
 	const closeContextMenu = useCallback(() => {
@@ -127,6 +247,37 @@ export function ProcessMap({
 		[contextMenu, onUpdateNode],
 	);
 
+	// Select only the given node (a problem was clicked)
+	const handleSelectNode = useCallback(
+		(nodeId: string) => {
+			onNodesChange(
+				nodes
+					.filter((n) => !isLaneNode(n))
+					.map((n) => ({ type: "select" as const, id: n.id, selected: n.id === nodeId })),
+			);
+		},
+		[nodes, onNodesChange],
+	);
+
+	// Metrics of a single selected step (not start/end events) or edge
+	const selectedSteps = nodes.filter((n) => n.selected && !isLaneNode(n));
+	const selectedEdges = edges.filter((e) => e.selected);
+	const propertiesNode =
+		selectedSteps.length === 1 && selectedEdges.length === 0 && selectedSteps[0]!.type !== "oval"
+			? selectedSteps[0]
+			: undefined;
+	const propertiesEdge =
+		selectedSteps.length === 0 && selectedEdges.length === 1 ? selectedEdges[0] : undefined;
+	const loopBacks = useMemo(() => findLoopBacks({ nodes, edges }), [nodes, edges]);
+	const propertiesEdgeKind = !propertiesEdge
+		? undefined
+		: loopBacks.has(propertiesEdge.id)
+			? "loop"
+			: edges.filter((e) => e.source === propertiesEdge.source && !loopBacks.has(e.id)).length > 1
+				? "branch"
+				: "flow";
+	const labelOf = (id: string) => String(nodes.find((n) => n.id === id)?.data.label ?? id);
+
 	// Handle React Flow initialization
 	const handleInit = useCallback(
 		(instance: ReactFlowInstance) => {
@@ -141,112 +292,287 @@ export function ProcessMap({
 
 	return (
 		<TooltipProvider delayDuration={300}>
-			<div className="h-full w-full bg-background">
-				<ReactFlow
-					nodes={nodes}
-					edges={edges}
-					onNodesChange={onNodesChange}
-					onEdgesChange={onEdgesChange}
-					onConnect={onConnect}
-					onSelectionChange={onSelectionChange}
-					onNodeContextMenu={onNodeContextMenu}
-					nodeTypes={memoizedNodeTypes}
-					edgeTypes={memoizedEdgeTypes}
-					onInit={handleInit}
-					defaultEdgeOptions={{
-						type: "bezier",
-						style: {
-							strokeWidth: 2,
-							stroke: "#64748b",
-						},
-						markerEnd: {
-							type: "arrowclosed",
-							width: 25,
-							height: 25,
-							color: "#64748b",
-						},
-					}}
-					fitView
-					fitViewOptions={{ padding: 0.2 }}
-					selectionMode={SelectionMode.Partial}
-				>
-					<Controls>
-						{onAutoLayout && (
-							<button
-								type="button"
-								onClick={onAutoLayout}
-								className="react-flow__controls-button"
-								title="Auto-layout (Ctrl+L)"
-								aria-label="Auto-layout nodes"
-							>
-								<svg
-									xmlns="http://www.w3.org/2000/svg"
-									width="16"
-									height="16"
-									viewBox="0 0 24 24"
-									fill="none"
-									stroke="currentColor"
-									strokeWidth="2"
-									strokeLinecap="round"
-									strokeLinejoin="round"
-									role="img"
-									aria-label="Auto-layout icon"
-								>
-									<title>Auto-layout</title>
-									<rect x="3" y="3" width="18" height="18" rx="2" />
-									<path d="M9 3v18" />
-									<path d="M15 3v18" />
-									<path d="M3 9h18" />
-									<path d="M3 15h18" />
-								</svg>
-							</button>
-						)}
-						{onLoadTestMap && (
-							<button
-								type="button"
-								onClick={onLoadTestMap}
-								className="react-flow__controls-button"
-								title="Load Test Map"
-								aria-label="Load test process map"
-							>
-								<svg
-									xmlns="http://www.w3.org/2000/svg"
-									width="16"
-									height="16"
-									viewBox="0 0 24 24"
-									fill="none"
-									stroke="currentColor"
-									strokeWidth="2"
-									strokeLinecap="round"
-									strokeLinejoin="round"
-									role="img"
-									aria-label="Load test map icon"
-								>
-									<title>Load Test Map</title>
-									<path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
-									<polyline points="14 2 14 8 20 8" />
-									<line x1="12" y1="18" x2="12" y2="12" />
-									<line x1="9" y1="15" x2="15" y2="15" />
-								</svg>
-							</button>
+			<SubprocessActionsContext.Provider value={subprocessActions}>
+				<AnalysisContext.Provider value={analysis}>
+					<div className="h-full w-full bg-background">
+						<ReactFlow
+							nodes={nodes}
+							edges={edges}
+							onNodesChange={onNodesChange}
+							onEdgesChange={onEdgesChange}
+							onConnect={onConnect}
+							onSelectionChange={onSelectionChange}
+							onNodeContextMenu={onNodeContextMenu}
+							onNodeDoubleClick={onNodeDoubleClick}
+							nodesDraggable={!reviewing}
+							nodesConnectable={!reviewing}
+							deleteKeyCode={reviewing ? null : undefined}
+							nodeTypes={memoizedNodeTypes}
+							edgeTypes={memoizedEdgeTypes}
+							onInit={handleInit}
+							defaultEdgeOptions={{
+								type: "bezier",
+								style: {
+									strokeWidth: 2,
+									stroke: "#64748b",
+								},
+								markerEnd: {
+									type: "arrowclosed",
+									width: 25,
+									height: 25,
+									color: "#64748b",
+								},
+							}}
+							fitView
+							fitViewOptions={{ padding: 0.2 }}
+							selectionMode={SelectionMode.Partial}
+						>
+							<Controls>
+								{onAutoLayout && (
+									<button
+										type="button"
+										onClick={onAutoLayout}
+										className="react-flow__controls-button"
+										title="Auto-layout (Ctrl+L)"
+										aria-label="Auto-layout nodes"
+									>
+										<svg
+											xmlns="http://www.w3.org/2000/svg"
+											width="16"
+											height="16"
+											viewBox="0 0 24 24"
+											fill="none"
+											stroke="currentColor"
+											strokeWidth="2"
+											strokeLinecap="round"
+											strokeLinejoin="round"
+											role="img"
+											aria-label="Auto-layout icon"
+										>
+											<title>Auto-layout</title>
+											<rect x="3" y="3" width="18" height="18" rx="2" />
+											<path d="M9 3v18" />
+											<path d="M15 3v18" />
+											<path d="M3 9h18" />
+											<path d="M3 15h18" />
+										</svg>
+									</button>
+								)}
+								{onLayoutDirectionChange && (
+									<button
+										type="button"
+										onClick={() =>
+											onLayoutDirectionChange(layoutDirection === "TB" ? "LR" : "TB")
+										}
+										disabled={reviewing}
+										className="react-flow__controls-button"
+										title={
+											layoutDirection === "TB"
+												? "Layout: top to bottom (switch to left to right)"
+												: "Layout: left to right (switch to top to bottom)"
+										}
+										aria-label="Toggle layout direction"
+									>
+										<svg
+											xmlns="http://www.w3.org/2000/svg"
+											width="16"
+											height="16"
+											viewBox="0 0 24 24"
+											fill="none"
+											stroke="currentColor"
+											strokeWidth="2"
+											strokeLinecap="round"
+											strokeLinejoin="round"
+											role="img"
+											aria-label="Layout direction icon"
+										>
+											<title>Layout direction</title>
+											{layoutDirection === "TB" ? (
+												<>
+													<path d="M12 5v14" />
+													<path d="m19 12-7 7-7-7" />
+												</>
+											) : (
+												<>
+													<path d="M5 12h14" />
+													<path d="m12 5 7 7-7 7" />
+												</>
+											)}
+										</svg>
+									</button>
+								)}
+								{onAddLane && (
+									<button
+										type="button"
+										onClick={onAddLane}
+										disabled={reviewing}
+										className="react-flow__controls-button"
+										title="Add swimlane"
+										aria-label="Add swimlane"
+									>
+										<svg
+											xmlns="http://www.w3.org/2000/svg"
+											width="16"
+											height="16"
+											viewBox="0 0 24 24"
+											fill="none"
+											stroke="currentColor"
+											strokeWidth="2"
+											strokeLinecap="round"
+											strokeLinejoin="round"
+											role="img"
+											aria-label="Add swimlane icon"
+										>
+											<title>Add swimlane</title>
+											<rect x="3" y="3" width="18" height="18" rx="2" />
+											<path d="M3 9h18" />
+											<path d="M12 13v6" />
+											<path d="M9 16h6" />
+										</svg>
+									</button>
+								)}
+								{onLoadTestMap && (
+									<button
+										type="button"
+										onClick={onLoadTestMap}
+										className="react-flow__controls-button"
+										title="Load Test Map"
+										aria-label="Load test process map"
+									>
+										<svg
+											xmlns="http://www.w3.org/2000/svg"
+											width="16"
+											height="16"
+											viewBox="0 0 24 24"
+											fill="none"
+											stroke="currentColor"
+											strokeWidth="2"
+											strokeLinecap="round"
+											strokeLinejoin="round"
+											role="img"
+											aria-label="Load test map icon"
+										>
+											<title>Load Test Map</title>
+											<path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+											<polyline points="14 2 14 8 20 8" />
+											<line x1="12" y1="18" x2="12" y2="12" />
+											<line x1="9" y1="15" x2="15" y2="15" />
+										</svg>
+									</button>
+								)}
+							</Controls>
+							{breadcrumbs.length > 1 && (
+								<Panel position="top-left">
+									<nav
+										aria-label="Subprocess levels"
+										className="flex items-center gap-1 rounded-md border bg-background/95 px-3 py-1.5 text-sm shadow-sm"
+									>
+										{breadcrumbs.map((crumb, index) => {
+											const current = index === breadcrumbs.length - 1;
+											return (
+												<span key={`${index}-${crumb}`} className="flex items-center gap-1">
+													{index > 0 && <span className="text-muted-foreground">›</span>}
+													{current ? (
+														<span className="font-medium">{crumb}</span>
+													) : (
+														<button
+															type="button"
+															className="text-muted-foreground hover:text-foreground hover:underline"
+															onClick={() => onNavigateBreadcrumb?.(index)}
+														>
+															{crumb}
+														</button>
+													)}
+												</span>
+											);
+										})}
+									</nav>
+								</Panel>
+							)}
+							{problems && onLintRuleSetChange && (
+								<ProblemsPanel
+									issues={problems}
+									ruleSet={lintRuleSet}
+									onRuleSetChange={onLintRuleSetChange}
+									onSelectNode={handleSelectNode}
+									onApplyFixes={reviewing ? undefined : onApplyLintFixes}
+								/>
+							)}
+							{!reviewing && onUpdateNode && onUpdateEdge && (
+								<PropertiesPanel
+									node={propertiesNode}
+									edge={propertiesEdge}
+									edgeKind={propertiesEdgeKind}
+									title={
+										propertiesNode
+											? labelOf(propertiesNode.id)
+											: propertiesEdge
+												? `${labelOf(propertiesEdge.source)} → ${labelOf(propertiesEdge.target)}`
+												: ""
+									}
+									onUpdateNode={onUpdateNode}
+									onUpdateEdge={onUpdateEdge}
+								/>
+							)}
+							{paths && onMaxPathLoopsChange && onHighlightPath && onExportPaths && (
+								<PathsPanel
+									enumeration={paths}
+									titles={pathTitles}
+									maxLoops={maxPathLoops}
+									onMaxLoopsChange={onMaxPathLoopsChange}
+									highlighted={highlightedPath}
+									onHighlight={onHighlightPath}
+									onExport={onExportPaths}
+									leadTimes={pathLeadTimes}
+								/>
+							)}
+							{leadTime && onShowCriticalPathChange && (
+								<LeadTimePanel
+									analysis={leadTime}
+									showCritical={showCriticalPath}
+									onShowCriticalChange={onShowCriticalPathChange}
+								/>
+							)}
+							{onRunSimulation && onCancelSimulation && (
+								<SimulationPanel
+									result={simulation}
+									running={simulationRunning}
+									error={simulationError}
+									onRun={onRunSimulation}
+									onCancel={onCancelSimulation}
+									onMarkBottlenecks={reviewing ? undefined : onMarkBottlenecks}
+									labelOf={labelOf}
+								/>
+							)}
+							<MiniMap />
+							<Background variant={BackgroundVariant.Dots} gap={12} size={1} />
+						</ReactFlow>
+
+						{contextMenu && (
+							<ContextMenu
+								x={contextMenu.x}
+								y={contextMenu.y}
+								onClose={closeContextMenu}
+								onDelete={onDeleteNode ? handleDelete : undefined}
+								onDuplicate={onDuplicateNode ? handleDuplicate : undefined}
+								onChangeStatus={onUpdateNode ? handleChangeStatus : undefined}
+								onChangeColor={onUpdateNode ? handleChangeColor : undefined}
+								onMakeSubprocess={
+									onMakeSubprocess && contextNode && !isSubprocess(contextNode)
+										? () => onMakeSubprocess(contextMenu.nodeId)
+										: undefined
+								}
+								linkableMaps={linkableMaps}
+								onLinkMap={
+									onMakeSubprocess
+										? (mapId) => onMakeSubprocess(contextMenu.nodeId, mapId)
+										: undefined
+								}
+							/>
 						)}
-					</Controls>
-					<MiniMap />
-					<Background variant={BackgroundVariant.Dots} gap={12} size={1} />
-				</ReactFlow>
-
-				{contextMenu && (
-					<ContextMenu
-						x={contextMenu.x}
-						y={contextMenu.y}
-						onClose={closeContextMenu}
-						onDelete={onDeleteNode ? handleDelete : undefined}
-						onDuplicate={onDuplicateNode ? handleDuplicate : undefined}
-						onChangeStatus={onUpdateNode ? handleChangeStatus : undefined}
-						onChangeColor={onUpdateNode ? handleChangeColor : undefined}
-					/>
-				)}
-			</div>
+					</div>
+				</AnalysisContext.Provider>
+			</SubprocessActionsContext.Provider>
 		</TooltipProvider>
 	);
 }
@@ -0,0 +1,322 @@
+import { type Edge, type Node, Panel } from "@xyflow/react";
+import { SlidersHorizontal } from "lucide-react";
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import type {
+	Cost,
+	DistributionKind,
+	Duration,
+	DurationDistribution,
+	DurationUnit,
+	ProcessEdge,
+	ProcessNode,
+} from "../types/process";
+import { DEFAULT_CURRENCY, DURATION_UNITS } from "../utils/metrics";
+import { DISTRIBUTION_KINDS } from "../utils/simulation";
+
+type EdgeData = NonNullable<ProcessEdge["data"]>;
+
+interface PropertiesPanelProps {
+	// The single selected step or edge
+	node?: Node;
+	edge?: Edge;
+	edgeKind?: "flow" | "branch" | "loop"; // Branches get a probability, loop-backs an iteration count
+	title: string;
+	onUpdateNode: (nodeId: string, updates: Partial<ProcessNode["data"]>) => void;
+	onUpdateEdge: (edgeId: string, updates: Partial<EdgeData>) => void;
+}
+
+/** Non-negative number from an input, undefined when cleared */
+function readAmount(text: string): number | undefined {
+	const value = Number(text);
+	return text === "" || Number.isNaN(value) ? undefined : Math.max(0, value);
+}
+
+function DurationField({
+	id,
+	label,
+	value,
+	onChange,
+}: {
+	id: string;
+	label: string;
+	value?: Duration;
+	onChange: (value: Duration | undefined) => void;
+}) {
+	// Unit picked before a value is typed
+	const [pendingUnit, setPendingUnit] = useState<DurationUnit>("hours");
+	const unit = value?.unit ?? pendingUnit;
+
+	return (
+		<div className="flex items-center gap-2">
+			<Label htmlFor={id} className="w-20 shrink-0 font-normal">
+				{label}
+			</Label>
+			<Input
+				id={id}
+				type="number"
+				min={0}
+				step="any"
+				value={value?.value ?? ""}
+				onChange={(e) => {
+					const amount = readAmount(e.target.value);
+					onChange(amount === undefined ? undefined : { value: amount, unit });
+				}}
+				className="h-8 w-20"
+			/>
+			<Select
+				value={unit}
+				onValueChange={(u) => {
+					setPendingUnit(u as DurationUnit);
+					if (value) onChange({ ...value, unit: u as DurationUnit });
+				}}
+			>
+				<SelectTrigger size="sm" className="flex-1" aria-label={`${label} unit`}>
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					{Object.keys(DURATION_UNITS).map((u) => (
+						<SelectItem key={u} value={u}>
+							{u}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+		</div>
+	);
+}
+
+function NumberField({
+	id,
+	label,
+	value,
+	max,
+	suffix,
+	onChange,
+}: {
+	id: string;
+	label: string;
+	value?: number;
+	max?: number;
+	suffix: string;
+	onChange: (value: number | undefined) => void;
+}) {
+	return (
+		<div className="flex items-center gap-2">
+			<Label htmlFor={id} className="w-20 shrink-0 font-normal">
+				{label}
+			</Label>
+			<Input
+				id={id}
+				type="number"
+				min={0}
+				max={max}
+				step="any"
+				value={value ?? ""}
+				onChange={(e) => {
+					const amount = readAmount(e.target.value);
+					onChange(amount === undefined || max === undefined ? amount : Math.min(max, amount));
+				}}
+				className="h-8 w-20"
+			/>
+			<span className="text-muted-foreground">{suffix}</span>
+		</div>
+	);
+}
+
+function CostField({ value, onChange }: { value?: Cost; onChange: (value: Cost | undefined) => void }) {
+	const [pendingCurrency, setPendingCurrency] = useState(DEFAULT_CURRENCY);
+	const currency = value?.currency ?? pendingCurrency;
+
+	return (
+		<div className="flex items-center gap-2">
+			<Label htmlFor="metric-cost" className="w-20 shrink-0 font-normal">
+				Cost
+			</Label>
+			<Input
+				id="metric-cost"
+				type="number"
+				min={0}
+				step="any"
+				value={value?.amount ?? ""}
+				onChange={(e) => {
+					const amount = readAmount(e.target.value);
+					onChange(amount === undefined ? undefined : { amount, currency });
+				}}
+				className="h-8 w-20"
+			/>
+			<Input
+				aria-label="Currency"
+				value={currency}
+				maxLength={3}
+				onChange={(e) => {
+					const code = e.target.value.toUpperCase();
+					setPendingCurrency(code);
+					if (value && /^[A-Z]{3}$/.test(code)) onChange({ ...value, currency: code });
+				}}
+				className="h-8 flex-1 uppercase"
+			/>
+		</div>
+	);
+}
+
+function DistributionField({
+	value,
+	onChange,
+}: {
+	value?: DurationDistribution;
+	onChange: (value: DurationDistribution | undefined) => void;
+}) {
+	const kind = value?.kind ?? "fixed";
+	const spread = kind === "uniform" || kind === "triangular";
+
+	return (
+		<div className="flex items-center gap-2">
+			<Label className="w-20 shrink-0 font-normal">Variability</Label>
+			<Select
+				value={kind}
+				onValueChange={(k) =>
+					onChange(k === "fixed" ? undefined : { ...value, kind: k as DistributionKind })
+				}
+			>
+				<SelectTrigger size="sm" className="flex-1" aria-label="Variability">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					{Object.entries(DISTRIBUTION_KINDS).map(([k, label]) => (
+						<SelectItem key={k} value={k}>
+							{label}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+			{spread && (
+				<Input
+					aria-label="Spread"
+					type="number"
+					min={0}
+					max={100}
+					step="any"
+					placeholder="50"
+					value={value?.spread === undefined ? "" : Number((value.spread * 100).toFixed(2))}
+					onChange={(e) => {
+						const percent = readAmount(e.target.value);
+						onChange({ kind, spread: percent === undefined ? undefined : Math.min(100, percent) / 100 });
+					}}
+					className="h-8 w-16"
+				/>
+			)}
+			{spread && <span className="text-muted-foreground">%</span>}
+		</div>
+	);
+}
+
+/**
+ * Metric fields of the selected step (cycle time, SLA, cost) or edge (wait
+ * time, branch probability, loop iterations), with the step's simulation
+ * settings - must be rendered inside <ReactFlow>
+ */
+export function PropertiesPanel({
+	node,
+	edge,
+	edgeKind = "flow",
+	title,
+	onUpdateNode,
+	onUpdateEdge,
+}: PropertiesPanelProps) {
+	if (!node && !edge) return null;
+	const nodeData = node?.data as ProcessNode["data"] | undefined;
+	const edgeData = edge?.data as EdgeData | undefined;
+
+	return (
+		<Panel position="center-left">
+			<div className="w-72 rounded-md border bg-background/95 text-sm shadow-sm">
+				<div className="flex items-center gap-2 border-b px-3 py-1.5">
+					<SlidersHorizontal className="size-4 shrink-0" />
+					<span className="truncate font-medium" title={title}>
+						{title}
+					</span>
+				</div>
+				{/* Keyed so pending units reset when the selection changes */}
+				<div key={node?.id ?? edge!.id} className="flex flex-col gap-2 p-3">
+					{node ? (
+						<>
+							<DurationField
+								id="metric-cycle-time"
+								label="Cycle time"
+								value={nodeData?.cycleTime}
+								onChange={(cycleTime) => onUpdateNode(node.id, { cycleTime })}
+							/>
+							<DurationField
+								id="metric-sla"
+								label="SLA"
+								value={nodeData?.sla}
+								onChange={(sla) => onUpdateNode(node.id, { sla })}
+							/>
+							<CostField value={nodeData?.cost} onChange={(cost) => onUpdateNode(node.id, { cost })} />
+								<DistributionField
+									value={nodeData?.distribution}
+									onChange={(distribution) => onUpdateNode(node.id, { distribution })}
+								/>
+								<NumberField
+									id="metric-capacity"
+									label="Capacity"
+									value={nodeData?.capacity}
+									suffix="cases at once"
+									onChange={(capacity) =>
+										onUpdateNode(node.id, {
+											capacity: capacity === undefined ? undefined : Math.max(1, Math.round(capacity)),
+										})
+									}
+								/>
+						</>
+					) : (
+						<>
+							<DurationField
+								id="metric-wait-time"
+								label="Wait time"
+								value={edgeData?.waitTime}
+								onChange={(waitTime) => onUpdateEdge(edge!.id, { waitTime })}
+							/>
+							{edgeKind === "branch" && (
+								<NumberField
+									id="metric-probability"
+									label="Probability"
+									value={
+										edgeData?.probability === undefined
+											? undefined
+											: Number((edgeData.probability * 100).toFixed(2))
+									}
+									max={100}
+									suffix="% of runs"
+									onChange={(percent) =>
+										onUpdateEdge(edge!.id, {
+											probability: percent === undefined ? undefined : percent / 100,
+										})
+									}
+								/>
+							)}
+							{edgeKind === "loop" && (
+								<NumberField
+									id="metric-iterations"
+									label="Iterations"
+									value={edgeData?.iterations}
+									suffix="loops per run"
+									onChange={(iterations) => onUpdateEdge(edge!.id, { iterations })}
+								/>
+							)}
+						</>
+					)}
+				</div>
+			</div>
+		</Panel>
+	);
+}
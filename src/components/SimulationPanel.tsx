@@ -0,0 +1,254 @@
+import { Panel, ViewportPortal } from "@xyflow/react";
+import { ChevronDown, ChevronUp, Dices, Loader2, Play, Siren, Square } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatHours } from "../utils/metrics";
+import {
+	BOTTLENECK_UTILIZATION,
+	DEFAULT_SIMULATION_OPTIONS,
+	type SimulationOptions,
+	type SimulationResult,
+	type SimulationTrace,
+} from "../utils/simulation";
+
+const PLAYBACK_SECONDS = 20; // The traced cases are replayed over this long
+const MIN_MOVE_SECONDS = 0.6; // Edges without a wait still show the token passing
+
+interface SimulationPanelProps {
+	result: SimulationResult | null;
+	running: boolean;
+	error: string | null;
+	onRun: (options: SimulationOptions) => void;
+	onCancel: () => void;
+	onMarkBottlenecks?: (nodeIds: string[]) => void; // Unset while the map can't be edited (reviewing)
+	labelOf: (nodeId: string) => string;
+}
+
+/** Whole number from an input, at least 1 */
+function readCount(text: string, fallback: number): number {
+	const value = Math.floor(Number(text));
+	return Number.isFinite(value) && value >= 1 ? value : fallback;
+}
+
+/**
+ * Cases of the first run as dots travelling the edges, replayed in a loop.
+ * Positions come from the drawn edge paths, so every edge type works.
+ */
+function SimulationTokens({ trace }: { trace: SimulationTrace }) {
+	const groupRef = useRef<SVGGElement>(null);
+	const [tokens, setTokens] = useState<{ caseId: number; x: number; y: number; moving: boolean }[]>([]);
+
+	useEffect(() => {
+		const flow = groupRef.current?.closest(".react-flow");
+		if (!flow || trace.moves.length === 0) return;
+		const scale = trace.hours > 0 ? PLAYBACK_SECONDS / trace.hours : 0;
+		const byCase = new Map<number, typeof trace.moves>();
+		for (const move of trace.moves) byCase.set(move.caseId, [...(byCase.get(move.caseId) ?? []), move]);
+		const length = Math.max(
+			...trace.moves.map((m) => m.start * scale + Math.max((m.end - m.start) * scale, MIN_MOVE_SECONDS)),
+		);
+
+		let frame = 0;
+		const startedAt = performance.now();
+		const tick = (now: number) => {
+			const t = ((now - startedAt) / 1000) % (length + 1);
+			const next: typeof tokens = [];
+			for (const [caseId, moves] of byCase) {
+				const move = moves.findLast((m) => m.start * scale <= t);
+				if (!move) continue;
+				const duration = Math.max((move.end - move.start) * scale, MIN_MOVE_SECONDS);
+				const progress = Math.min(1, (t - move.start * scale) / duration);
+				const finished = trace.finished[caseId];
+				if (progress === 1 && move === moves[moves.length - 1] && finished !== undefined) continue;
+				const path = flow.querySelector<SVGPathElement>(
+					`.react-flow__edge[data-id="${CSS.escape(move.edgeId)}"] path.react-flow__edge-path`,
+				);
+				if (!path) continue;
+				const point = path.getPointAtLength(progress * path.getTotalLength());
+				next.push({ caseId, x: point.x, y: point.y, moving: progress < 1 });
+			}
+			setTokens(next);
+			frame = requestAnimationFrame(tick);
+		};
+		frame = requestAnimationFrame(tick);
+		return () => cancelAnimationFrame(frame);
+	}, [trace]);
+
+	return (
+		<ViewportPortal>
+			<svg className="pointer-events-none absolute top-0 left-0 overflow-visible" width={1} height={1} aria-hidden>
+				<g ref={groupRef}>
+					{tokens.map((token) => (
+						<circle
+							key={token.caseId}
+							cx={token.x}
+							cy={token.y}
+							r={6}
+							className={token.moving ? "fill-sky-500 stroke-white" : "fill-sky-500/60 stroke-white"}
+							strokeWidth={1.5}
+						/>
+					))}
+				</g>
+			</svg>
+		</ViewportPortal>
+	);
+}
+
+/**
+ * What-if simulation of the open level: run options, throughput, lead time
+ * and per-step load - must be rendered inside <ReactFlow>
+ */
+export function SimulationPanel({
+	result,
+	running,
+	error,
+	onRun,
+	onCancel,
+	onMarkBottlenecks,
+	labelOf,
+}: SimulationPanelProps) {
+	const [open, setOpen] = useState(false);
+	const [options, setOptions] = useState(DEFAULT_SIMULATION_OPTIONS);
+	const [animate, setAnimate] = useState(false);
+	const steps = result ? Object.entries(result.steps).sort(([, a], [, b]) => b.utilization - a.utilization) : [];
+
+	return (
+		<Panel position="center-right">
+			<div className="w-80 rounded-md border bg-background/95 text-sm shadow-sm">
+				<button
+					type="button"
+					onClick={() => setOpen((o) => !o)}
+					className="flex w-full items-center gap-2 px-3 py-1.5"
+					aria-expanded={open}
+				>
+					<Dices className="size-4" />
+					<span className="font-medium">Simulation</span>
+					{result && result.bottlenecks.length > 0 && (
+						<span className="rounded-full bg-red-100 px-1.5 text-xs text-red-700">
+							{result.bottlenecks.length} bottleneck{result.bottlenecks.length === 1 ? "" : "s"}
+						</span>
+					)}
+					<span className="ml-auto">{open ? <ChevronUp className="size-4" /> : <ChevronDown className="size-4" />}</span>
+				</button>
+				{open && (
+					<div className="flex flex-col gap-2 border-t p-3">
+						<div className="flex items-center gap-2">
+							<Label htmlFor="simulation-arrivals" className="w-24 shrink-0 font-normal">
+								A case every
+							</Label>
+							<Input
+								id="simulation-arrivals"
+								type="number"
+								min={0}
+								step="any"
+								value={options.arrivalEvery.value}
+								onChange={(e) =>
+									setOptions((o) => ({
+										...o,
+										arrivalEvery: { ...o.arrivalEvery, value: Math.max(0, Number(e.target.value) || 0) },
+									}))
+								}
+								className="h-8 w-20"
+							/>
+							<span className="text-muted-foreground">{options.arrivalEvery.unit}</span>
+						</div>
+						<div className="flex items-center gap-2">
+							<Label htmlFor="simulation-cases" className="w-24 shrink-0 font-normal">
+								Cases × runs
+							</Label>
+							<Input
+								id="simulation-cases"
+								type="number"
+								min={1}
+								value={options.cases}
+								onChange={(e) => setOptions((o) => ({ ...o, cases: readCount(e.target.value, o.cases) }))}
+								className="h-8 w-20"
+							/>
+							<Input
+								aria-label="Runs"
+								type="number"
+								min={1}
+								value={options.runs}
+								onChange={(e) => setOptions((o) => ({ ...o, runs: readCount(e.target.value, o.runs) }))}
+								className="h-8 w-16"
+							/>
+						</div>
+						<div className="flex items-center gap-2">
+							{running ? (
+								<Button size="sm" variant="outline" onClick={onCancel}>
+									<Loader2 className="animate-spin" />
+									Stop
+								</Button>
+							) : (
+								<Button size="sm" onClick={() => onRun(options)}>
+									<Play />
+									Run
+								</Button>
+							)}
+							{result && result.trace.moves.length > 0 && (
+								<Button
+									size="sm"
+									variant={animate ? "secondary" : "outline"}
+									onClick={() => setAnimate((a) => !a)}
+									aria-pressed={animate}
+								>
+									{animate ? <Square /> : <Play />}
+									{animate ? "Stop tokens" : "Animate"}
+								</Button>
+							)}
+						</div>
+						{error && <div className="text-red-600">{error}</div>}
+						{result && (
+							<>
+								<div className="text-xs text-muted-foreground">
+									{Math.round(result.throughputPerDay * 10) / 10} cases/day
+									{result.leadTime &&
+										` · lead time ≈ ${formatHours(result.leadTime.meanHours)} (90% within ${formatHours(result.leadTime.p90Hours)})`}
+									{result.truncated && <span className="text-yellow-600"> · some cases never finished</span>}
+								</div>
+								{steps.length > 0 && (
+									<table className="w-full text-xs">
+										<thead className="text-muted-foreground">
+											<tr>
+												<th className="text-left font-normal">Step</th>
+												<th className="text-right font-normal">Busy</th>
+												<th className="text-right font-normal">Queue</th>
+												<th className="text-right font-normal">Wait</th>
+											</tr>
+										</thead>
+										<tbody>
+											{steps.map(([id, stats]) => (
+												<tr key={id} className={result.bottlenecks.includes(id) ? "text-red-600" : undefined}>
+													<td className="max-w-32 truncate" title={labelOf(id)}>
+														{labelOf(id)}
+													</td>
+													<td className="text-right">{Math.round(stats.utilization * 100)}%</td>
+													<td className="text-right">
+														{stats.avgQueue.toFixed(1)} / {stats.maxQueue}
+													</td>
+													<td className="text-right">{formatHours(stats.avgWaitHours)}</td>
+												</tr>
+											))}
+										</tbody>
+									</table>
+								)}
+								{onMarkBottlenecks && result.bottlenecks.length > 0 && (
+									<Button size="sm" variant="outline" onClick={() => onMarkBottlenecks(result.bottlenecks)}>
+										<Siren />
+										Mark bottlenecks
+									</Button>
+								)}
+								<div className="text-xs text-muted-foreground">
+									Bottleneck: busy {Math.round(BOTTLENECK_UTILIZATION * 100)}%+ or a case waiting on average
+								</div>
+							</>
+						)}
+					</div>
+				)}
+			</div>
+			{animate && result && <SimulationTokens trace={result.trace} />}
+		</Panel>
+	);
+}
@@ -0,0 +1,32 @@
+import { TriangleAlert } from "lucide-react";
+import { createContext, useContext } from "react";
+import type { GraphFinding } from "../../utils/graphAnalysis";
+
+/** Structural findings per node ID, provided by ProcessMap */
+export const AnalysisContext = createContext<Map<string, GraphFinding[]>>(new Map());
+
+/**
+ * Warning badge on a node the graph analysis flagged - hover for the findings.
+ * Sits on the top-left corner (the status dot has the top-right one)
+ */
+export function AnalysisBadge({
+	nodeId,
+	className = "-top-2 -left-2",
+}: {
+	nodeId: string;
+	className?: string;
+}) {
+	const findings = useContext(AnalysisContext).get(nodeId);
+	if (!findings?.length) return null;
+	const summary = findings.map((f) => f.message).join("\n");
+	return (
+		<div
+			className={`absolute ${className} z-10 flex size-5 items-center justify-center rounded-full bg-orange-500 text-white shadow`}
+			title={summary}
+			role="img"
+			aria-label={summary}
+		>
+			<TriangleAlert className="size-3" />
+		</div>
+	);
+}
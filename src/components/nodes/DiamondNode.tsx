@@ -1,47 +1,24 @@
 import { Handle, type NodeProps, Position } from "@xyflow/react";
 import { memo } from "react";
 import type { ProcessNode } from "../../types/process";
-
-/**
- * Calculate bottom handle positions based on output count
- * Positions are spread wide along the bottom edges of the diamond
- * Diamond vertices: left(20,80) -> bottom(80,140) -> right(140,80)
- */
-function getBottomHandlePoints(count: number): { left: number; top: number }[] {
-	// Spread handles wide - use more of the diamond's bottom edges
-	// Percentages represent position from left vertex (0%) to right vertex (100%)
-	const xPercents =
-		count === 1
-			? [50] // Center bottom
-			: count === 2
-				? [20, 80] // Near the corners for clear left/right separation
-				: count === 3
-					? [15, 50, 85] // Wide spread for 3 outputs
-					: count === 4
-						? [12, 37, 63, 88] // Even wider for 4 outputs
-						: [...Array(count)].map((_, i) => 10 + (80 / (count - 1)) * i);
-
-	// Convert x percents into points on the lower edges of the diamond
-	// Diamond shape: left vertex at (20,80), bottom at (80,140), right at (140,80)
-	return xPercents.map((percent) => {
-		const x = 20 + ((140 - 20) * percent) / 100;
-		const isRightHalf = x >= 80;
-		// Calculate y position on the diamond edge
-		const y = isRightHalf ? 220 - x : x + 60;
-
-		return { left: x, top: y };
-	});
-}
+import { rotateHandle } from "../../utils/autoLayout";
+import { getBottomHandlePoints } from "../../utils/edgeHelpers";
+import { decisionHandles } from "../../utils/graphAnalysis";
+import { AnalysisBadge } from "./AnalysisBadge";
 
 /**
  * Diamond-shaped node for decision points in process maps
  * Uses CSS transform to create diamond shape
  */
 export const DiamondNode = memo(
-	({ data, selected }: NodeProps<ProcessNode>) => {
+	({ id, data, selected, targetPosition }: NodeProps<ProcessNode>) => {
 		// Default to 2 outputs for typical Yes/No decisions
 		const outputCount = data.outputCount ?? 2;
 		const bottomHandlePositions = getBottomHandlePoints(outputCount);
+		const handleIds = decisionHandles(outputCount);
+		// Left-to-right layouts mirror the handles across the diagonal:
+		// input on the left vertex, outputs along the right edges
+		const horizontal = targetPosition === Position.Left;
 		const getBorderColor = () => {
 			if (selected) return "#22c55e"; // green-500
 
@@ -77,11 +54,11 @@ export const DiamondNode = memo(
 				{/* Input handle at top vertex of diamond (80, 20) */}
 				<Handle
 					type="target"
-					position={Position.Top}
+					position={rotateHandle(Position.Top, horizontal)}
 					className="!bg-muted-foreground"
 					style={{
-						top: "20px",
-						left: "80px",
+						top: horizontal ? "80px" : "20px",
+						left: horizontal ? "20px" : "80px",
 					}}
 				/>
 
@@ -146,27 +123,23 @@ export const DiamondNode = memo(
 						}}
 					/>
 				)}
+				<AnalysisBadge nodeId={id} className="top-1 left-1" />
 
 				{/* Output handles dynamically positioned along bottom edge */}
 				{bottomHandlePositions.map(({ left, top }, index) => {
-					const handleId =
-						outputCount === 2
-							? index === 0
-								? "left"
-								: "right" // Preserve 'left'/'right' IDs for 2 outputs
-							: `output-${index}`;
+					const handleId = handleIds[index] as string; // "left"/"right" for 2 outputs
 
 					return (
 						<Handle
 							key={handleId}
 							type="source"
 							id={handleId}
-							position={Position.Bottom}
+							position={rotateHandle(Position.Bottom, horizontal)}
 							className="!bg-muted-foreground"
 							style={{
 								position: "absolute",
-								left: `${left}px`,
-								top: `${top}px`,
+								left: `${horizontal ? top : left}px`,
+								top: `${horizontal ? left : top}px`,
 								transform: "translate(-50%, -50%)",
 							}}
 						/>
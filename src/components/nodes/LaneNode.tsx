@@ -0,0 +1,94 @@
+import type { Node, NodeProps } from "@xyflow/react";
+import { X } from "lucide-react";
+import { memo, useState } from "react";
+import { LANE_HEADER_SIZE } from "../../utils/lanes";
+
+export type LaneNodeData = {
+	label: string;
+	color?: string;
+	laneId: string;
+	horizontal: boolean; // Rows (left-to-right layout) vs columns
+	onRename?: (laneId: string, label: string) => void;
+	onRemove?: (laneId: string) => void;
+};
+
+export type LaneNode = Node<LaneNodeData, "lane">;
+
+/**
+ * Swimlane background - drawn behind the steps, dragged by its header strip
+ * Double-click the label to rename the lane
+ */
+export const LaneNode = memo(({ data, width, height }: NodeProps<LaneNode>) => {
+	const [editing, setEditing] = useState(false);
+	const [draft, setDraft] = useState(data.label);
+
+	const commit = () => {
+		setEditing(false);
+		const label = draft.trim();
+		if (label && label !== data.label) data.onRename?.(data.laneId, label);
+	};
+
+	// Rows get the header on the left (label reads bottom-to-top), columns on top
+	const headerStyle = data.horizontal
+		? { width: LANE_HEADER_SIZE, height: "100%" }
+		: { height: LANE_HEADER_SIZE, width: "100%" };
+
+	return (
+		<div
+			className={`flex h-full w-full border border-dashed border-slate-300 ${data.horizontal ? "flex-row" : "flex-col"}`}
+			style={{
+				width,
+				height,
+				backgroundColor: data.color ? `${data.color}1a` : "rgba(148, 163, 184, 0.06)",
+			}}
+		>
+			<div
+				className="lane-header group relative flex shrink-0 cursor-grab items-center justify-center bg-slate-100 text-sm font-semibold text-slate-700 active:cursor-grabbing"
+				style={{ ...headerStyle, backgroundColor: data.color || undefined }}
+				onDoubleClick={() => {
+					if (!data.onRename) return;
+					setDraft(data.label);
+					setEditing(true);
+				}}
+			>
+				{editing ? (
+					<input
+						className="nodrag w-32 rounded border bg-background px-1 text-sm"
+						value={draft}
+						onChange={(e) => setDraft(e.target.value)}
+						onBlur={commit}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") commit();
+							if (e.key === "Escape") {
+								setDraft(data.label); // A blur on unmount then commits nothing
+								setEditing(false);
+							}
+						}}
+						autoFocus
+					/>
+				) : (
+					<span
+						className="truncate px-2"
+						style={data.horizontal ? { writingMode: "vertical-rl", transform: "rotate(180deg)" } : undefined}
+						title="Double-click to rename, drag to reorder"
+					>
+						{data.label}
+					</span>
+				)}
+				{data.onRemove && !editing && (
+					<button
+						type="button"
+						className="nodrag absolute top-1 right-1 hidden rounded p-0.5 text-slate-500 hover:bg-slate-200 hover:text-slate-900 group-hover:block"
+						onClick={() => data.onRemove?.(data.laneId)}
+						title="Remove lane"
+						aria-label={`Remove lane ${data.label}`}
+					>
+						<X className="h-3 w-3" />
+					</button>
+				)}
+			</div>
+		</div>
+	);
+});
+
+LaneNode.displayName = "LaneNode";
@@ -1,11 +1,16 @@
 import { Handle, type NodeProps, Position } from "@xyflow/react";
 import { memo } from "react";
 import type { ProcessNode } from "../../types/process";
+import { rotateHandle } from "../../utils/autoLayout";
+import { AnalysisBadge } from "./AnalysisBadge";
 
 /**
  * Oval-shaped node for start/end points in process maps
  */
-export const OvalNode = memo(({ data, selected }: NodeProps<ProcessNode>) => {
+export const OvalNode = memo(({ id, data, selected, targetPosition }: NodeProps<ProcessNode>) => {
+	// Left-to-right layouts move the handles to the sides
+	const horizontal = targetPosition === Position.Left;
+
 	const getNodeClasses = () => {
 		const baseClasses =
 			"px-8 py-4 border-2 shadow-md transition-all duration-200 min-w-[160px] bg-background";
@@ -50,7 +55,7 @@ export const OvalNode = memo(({ data, selected }: NodeProps<ProcessNode>) => {
 		<div className="relative">
 			<Handle
 				type="target"
-				position={Position.Top}
+				position={rotateHandle(Position.Top, horizontal)}
 				className="!bg-muted-foreground"
 			/>
 			<div
@@ -69,9 +74,10 @@ export const OvalNode = memo(({ data, selected }: NodeProps<ProcessNode>) => {
 				)}
 			</div>
 			{getStatusIndicator()}
+			<AnalysisBadge nodeId={id} />
 			<Handle
 				type="source"
-				position={Position.Bottom}
+				position={rotateHandle(Position.Bottom, horizontal)}
 				className="!bg-muted-foreground"
 			/>
 		</div>
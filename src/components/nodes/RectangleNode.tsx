@@ -1,10 +1,17 @@
 import { Handle, type NodeProps, Position } from "@xyflow/react";
+import { Coins, Timer } from "lucide-react";
 import { memo } from "react";
 import type { ProcessNode } from "../../types/process";
+import { rotateHandle } from "../../utils/autoLayout";
+import { exceedsSla, formatCost, formatDuration } from "../../utils/metrics";
 import { Tooltip, TooltipContent, TooltipTrigger } from "../ui/tooltip";
+import { AnalysisBadge } from "./AnalysisBadge";
 
 export const RectangleNode = memo(
-	({ data, selected }: NodeProps<ProcessNode>) => {
+	({ id, data, selected, targetPosition }: NodeProps<ProcessNode>) => {
+		// Left-to-right layouts rotate every handle (main flow enters left, leaves right)
+		const horizontal = targetPosition === Position.Left;
+
 		// Determine node styling based on status and selection
 		const getNodeClasses = () => {
 			const baseClasses =
@@ -73,6 +80,18 @@ export const RectangleNode = memo(
 				parts.push(`Details: ${data.issueDetails}`);
 			}
 
+			if (data.cycleTime) {
+				parts.push(`Cycle time: ${formatDuration(data.cycleTime)}`);
+			}
+
+			if (data.sla) {
+				parts.push(`SLA: ${formatDuration(data.sla)}${exceedsSla(data) ? " (exceeded)" : ""}`);
+			}
+
+			if (data.cost) {
+				parts.push(`Cost: ${formatCost(data.cost)}`);
+			}
+
 			if (data.color) {
 				parts.push(`Color: ${data.color}`);
 			}
@@ -85,18 +104,18 @@ export const RectangleNode = memo(
 				{/* Target handles */}
 				<Handle
 					type="target"
-					position={Position.Top}
+					position={rotateHandle(Position.Top, horizontal)}
 					className="!bg-gray-400"
 				/>
 				<Handle
 					type="target"
-					position={Position.Left}
+					position={rotateHandle(Position.Left, horizontal)}
 					id="left"
 					className="!bg-gray-400"
 				/>
 				<Handle
 					type="target"
-					position={Position.Right}
+					position={rotateHandle(Position.Right, horizontal)}
 					id="right"
 					className="!bg-gray-400"
 				/>
@@ -113,24 +132,46 @@ export const RectangleNode = memo(
 							{data.description}
 						</div>
 					)}
+					{(data.cycleTime || data.sla || data.cost) && (
+						<div className="mt-1 flex items-center gap-2 text-[11px] text-muted-foreground">
+							{data.cycleTime && (
+								<span className="flex items-center gap-0.5" title="Cycle time">
+									<Timer className="size-3" />
+									{formatDuration(data.cycleTime, true)}
+								</span>
+							)}
+							{data.sla && (
+								<span className={exceedsSla(data) ? "font-medium text-red-600" : undefined}>
+									SLA {formatDuration(data.sla, true)}
+								</span>
+							)}
+							{data.cost && (
+								<span className="flex items-center gap-0.5" title="Cost">
+									<Coins className="size-3" />
+									{formatCost(data.cost)}
+								</span>
+							)}
+						</div>
+					)}
 				</div>
 				{getStatusIndicator()}
+				<AnalysisBadge nodeId={id} />
 
 				{/* Source handles */}
 				<Handle
 					type="source"
-					position={Position.Bottom}
+					position={rotateHandle(Position.Bottom, horizontal)}
 					className="!bg-gray-400"
 				/>
 				<Handle
 					type="source"
-					position={Position.Left}
+					position={rotateHandle(Position.Left, horizontal)}
 					id="left"
 					className="!bg-gray-400"
 				/>
 				<Handle
 					type="source"
-					position={Position.Right}
+					position={rotateHandle(Position.Right, horizontal)}
 					id="right"
 					className="!bg-gray-400"
 				/>
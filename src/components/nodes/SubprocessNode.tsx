@@ -0,0 +1,178 @@
+import { Handle, type NodeProps, Position } from "@xyflow/react";
+import { Link2, Maximize2, Minus, Plus } from "lucide-react";
+import { createContext, memo, useContext } from "react";
+import { useSubprocessGraph } from "../../hooks/useSubprocessGraph";
+import type { ProcessGraph, ProcessNode } from "../../types/process";
+import { rotateHandle } from "../../utils/autoLayout";
+import { AnalysisBadge } from "./AnalysisBadge";
+
+const PREVIEW_WIDTH = 300;
+const PREVIEW_HEIGHT = 200;
+
+/** Actions of subprocess nodes, provided by ProcessMap */
+export const SubprocessActionsContext = createContext<{
+	onOpen?: (nodeId: string) => void;
+	onToggle?: (nodeId: string, expanded: boolean) => void;
+}>({});
+
+function previewSize(node: ProcessGraph["nodes"][number]) {
+	const width = node.measured?.width ?? (node.type === "default" || !node.type ? 150 : 160);
+	const height =
+		node.measured?.height ?? (node.type === "diamond" ? 160 : node.type === "oval" ? 45 : 50);
+	return { width, height };
+}
+
+/**
+ * Scaled-down drawing of the child graph (boxes and straight connectors)
+ */
+function ChildPreview({ graph }: { graph: ProcessGraph }) {
+	if (graph.nodes.length === 0) {
+		return <div className="p-4 text-xs text-muted-foreground">Empty subprocess</div>;
+	}
+
+	const boxes = new Map(
+		graph.nodes.map((n) => [n.id, { node: n, ...n.position, ...previewSize(n) }]),
+	);
+	const all = [...boxes.values()];
+	const minX = Math.min(...all.map((b) => b.x));
+	const minY = Math.min(...all.map((b) => b.y));
+	const maxX = Math.max(...all.map((b) => b.x + b.width));
+	const maxY = Math.max(...all.map((b) => b.y + b.height));
+	const viewBox = `${minX - 10} ${minY - 10} ${maxX - minX + 20} ${maxY - minY + 20}`;
+
+	return (
+		<svg width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} viewBox={viewBox} role="img">
+			<title>Subprocess contents</title>
+			{graph.edges.map((e) => {
+				const from = boxes.get(e.source);
+				const to = boxes.get(e.target);
+				if (!from || !to) return null;
+				return (
+					<line
+						key={e.id}
+						x1={from.x + from.width / 2}
+						y1={from.y + from.height / 2}
+						x2={to.x + to.width / 2}
+						y2={to.y + to.height / 2}
+						stroke="#94a3b8"
+						strokeWidth={4}
+					/>
+				);
+			})}
+			{all.map(({ node, x, y, width, height }) => (
+				<g key={node.id}>
+					{node.type === "diamond" ? (
+						<polygon
+							points={`${x + width / 2},${y} ${x + width},${y + height / 2} ${x + width / 2},${y + height} ${x},${y + height / 2}`}
+							fill="white"
+							stroke="#64748b"
+							strokeWidth={3}
+						/>
+					) : (
+						<rect
+							x={x}
+							y={y}
+							width={width}
+							height={height}
+							rx={node.type === "oval" ? height / 2 : 8}
+							fill="white"
+							stroke="#64748b"
+							strokeWidth={3}
+						/>
+					)}
+					<text
+						x={x + width / 2}
+						y={y + height / 2}
+						textAnchor="middle"
+						dominantBaseline="middle"
+						fontSize={20}
+						fill="#0f172a"
+					>
+						{node.data.label}
+					</text>
+				</g>
+			))}
+		</svg>
+	);
+}
+
+/**
+ * Subprocess - a step whose contents are a child graph (embedded or another
+ * saved map). Collapsed it is a rectangle with the BPMN "+" marker; the marker
+ * expands it in place, double-click (or the open button) drills into it.
+ */
+export const SubprocessNode = memo(({ id, data, selected, targetPosition }: NodeProps<ProcessNode>) => {
+	const horizontal = targetPosition === Position.Left;
+	const { onOpen, onToggle } = useContext(SubprocessActionsContext);
+	const expanded = Boolean(data.expanded);
+	const { graph, mapName, error } = useSubprocessGraph(data.childGraph, data.mapRef, expanded);
+
+	const borderClass = selected
+		? "ring-4 ring-green-400 shadow-lg shadow-green-400/50 border-green-500"
+		: "border-border";
+
+	return (
+		<div className="relative">
+			<Handle
+				type="target"
+				position={rotateHandle(Position.Top, horizontal)}
+				className="!bg-gray-400"
+			/>
+			<div
+				className={`min-w-[150px] rounded-lg border-2 border-double bg-background px-4 pt-3 pb-1 shadow-md transition-all duration-200 ${borderClass}`}
+				style={data.color ? { borderColor: data.color } : {}}
+			>
+				<div className="flex items-center gap-2">
+					<div className="font-medium text-sm text-foreground">{data.label}</div>
+					{data.mapRef && (
+						<Link2 className="h-3 w-3 text-muted-foreground" aria-label="Linked map" />
+					)}
+					{onOpen && (
+						<button
+							type="button"
+							className="nodrag ml-auto rounded p-0.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+							onClick={() => onOpen(id)}
+							title="Open subprocess"
+							aria-label={`Open subprocess ${data.label}`}
+						>
+							<Maximize2 className="h-3 w-3" />
+						</button>
+					)}
+				</div>
+				{expanded && (
+					<div className="nodrag mt-2 rounded border bg-muted/30">
+						{mapName && (
+							<div className="px-2 pt-1 text-xs text-muted-foreground">{mapName}</div>
+						)}
+						{graph ? (
+							<ChildPreview graph={graph} />
+						) : (
+							<div className="p-4 text-xs text-muted-foreground">
+								{error ?? "Loading…"}
+							</div>
+						)}
+					</div>
+				)}
+				<div className="flex justify-center">
+					<button
+						type="button"
+						className="nodrag mt-1 flex h-4 w-4 items-center justify-center border border-foreground/60 text-foreground/80 hover:bg-accent"
+						onClick={() => onToggle?.(id, !expanded)}
+						title={expanded ? "Collapse" : "Expand in place"}
+						aria-label={expanded ? "Collapse subprocess" : "Expand subprocess"}
+					>
+						{expanded ? <Minus className="h-3 w-3" /> : <Plus className="h-3 w-3" />}
+					</button>
+				</div>
+			</div>
+			<AnalysisBadge nodeId={id} />
+			<Handle
+				type="source"
+				position={rotateHandle(Position.Bottom, horizontal)}
+				className="!bg-gray-400"
+			/>
+		</div>
+	);
+});
+
+SubprocessNode.displayName = "SubprocessNode";
@@ -16,20 +16,56 @@ db.run(`
   )
 `);
 
+// Swimlanes were added later - migrate older databases in place
+const mapColumns = db.query("PRAGMA table_info(maps)").all() as { name: string }[];
+if (!mapColumns.some((c) => c.name === "lanes")) {
+	db.run(`ALTER TABLE maps ADD COLUMN lanes TEXT NOT NULL DEFAULT '[]'`);
+}
+
 // Create index for faster lookups
 db.run(
 	`CREATE INDEX IF NOT EXISTS idx_maps_updated_at ON maps(updated_at DESC)`,
 );
 
+// Chat transcript per map (rowid keeps insertion order)
+db.run(`
+  CREATE TABLE IF NOT EXISTS chat_messages (
+    map_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    operations TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (map_id, id)
+  )
+`);
+
 export interface SavedMap {
 	id: string;
 	name: string;
 	nodes: string; // JSON string
 	edges: string; // JSON string
+	lanes: string; // JSON string
 	created_at: string;
 	updated_at: string;
 }
 
+export interface SavedChatMessage {
+	map_id: string;
+	id: string;
+	role: "user" | "assistant";
+	content: string;
+	operations: string | null; // JSON string - graph changes made by an AI turn
+	created_at: string;
+}
+
+export interface NewChatMessage {
+	id: string;
+	role: "user" | "assistant";
+	content: string;
+	operations?: string[];
+}
+
 export interface MapSummary {
 	id: string;
 	name: string;
@@ -89,6 +125,7 @@ export function saveMap(
 	const mapId = id || generateId();
 	const nodesJson = JSON.stringify(graph.nodes);
 	const edgesJson = JSON.stringify(graph.edges);
+	const lanesJson = JSON.stringify(graph.lanes ?? []);
 	const now = new Date().toISOString();
 
 	// Check if map exists
@@ -98,17 +135,17 @@ export function saveMap(
 		// Update existing map
 		const stmt = db.prepare(`
       UPDATE maps
-      SET name = ?, nodes = ?, edges = ?, updated_at = ?
+      SET name = ?, nodes = ?, edges = ?, lanes = ?, updated_at = ?
       WHERE id = ?
     `);
-		stmt.run(name, nodesJson, edgesJson, now, mapId);
+		stmt.run(name, nodesJson, edgesJson, lanesJson, now, mapId);
 	} else {
 		// Insert new map
 		const stmt = db.prepare(`
-      INSERT INTO maps (id, name, nodes, edges, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO maps (id, name, nodes, edges, lanes, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
-		stmt.run(mapId, name, nodesJson, edgesJson, now, now);
+		stmt.run(mapId, name, nodesJson, edgesJson, lanesJson, now, now);
 	}
 
 	const savedMap = getMap(mapId);
@@ -124,6 +161,7 @@ export function saveMap(
 export function deleteMap(id: string): boolean {
 	const stmt = db.prepare("DELETE FROM maps WHERE id = ?");
 	const result = stmt.run(id);
+	db.prepare("DELETE FROM chat_messages WHERE map_id = ?").run(id);
 	return result.changes > 0;
 }
 
@@ -138,3 +176,49 @@ export function getMostRecentMap(): SavedMap | null {
   `);
 	return stmt.get() as SavedMap | null;
 }
+
+/**
+ * Get the chat transcript of a map, oldest first
+ */
+export function listChatMessages(mapId: string): SavedChatMessage[] {
+	const stmt = db.prepare(`
+    SELECT * FROM chat_messages
+    WHERE map_id = ?
+    ORDER BY rowid ASC
+  `);
+	return stmt.all(mapId) as SavedChatMessage[];
+}
+
+/**
+ * Append messages to a map's transcript (re-sending an ID replaces that message)
+ */
+export function appendChatMessages(
+	mapId: string,
+	messages: NewChatMessage[],
+): number {
+	const stmt = db.prepare(`
+    INSERT INTO chat_messages (map_id, id, role, content, operations, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (map_id, id) DO UPDATE SET
+      role = excluded.role,
+      content = excluded.content,
+      operations = excluded.operations
+  `);
+	const now = new Date().toISOString();
+
+	const insertAll = db.transaction((batch: NewChatMessage[]) => {
+		for (const message of batch) {
+			stmt.run(
+				mapId,
+				message.id,
+				message.role,
+				message.content,
+				message.operations ? JSON.stringify(message.operations) : null,
+				now,
+			);
+		}
+	});
+	insertAll(messages);
+
+	return messages.length;
+}
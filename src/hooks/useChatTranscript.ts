@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface ChatMessage {
+	id: string;
+	role: "user" | "assistant";
+	content: string;
+	operations?: string[]; // Graph changes made by this AI turn
+}
+
+/**
+ * POST messages to a map's transcript (fire-and-forget, failures are logged)
+ */
+async function appendToServer(mapId: string, messages: ChatMessage[]) {
+	try {
+		const response = await fetch(`/api/maps/${mapId}/messages`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ messages }),
+		});
+		if (!response.ok) throw new Error(`HTTP ${response.status}`);
+	} catch (error) {
+		console.error("Failed to save chat messages:", error);
+	}
+}
+
+/**
+ * Chat transcript persisted per map
+ * - Restores the saved conversation when a saved map is opened
+ * - Messages sent before a new map has an ID are uploaded on its first save
+ * The greeting is local only and always stays first
+ */
+export function useChatTranscript(mapId: string | null, greeting: ChatMessage) {
+	const [messages, setMessages] = useState<ChatMessage[]>([greeting]);
+	const mapIdRef = useRef(mapId);
+	const unsyncedRef = useRef<ChatMessage[]>([]);
+
+	useEffect(() => {
+		mapIdRef.current = mapId;
+		if (!mapId) return;
+
+		const pending = unsyncedRef.current;
+		if (pending.length > 0) {
+			// First save of a new map - the local transcript is the whole conversation
+			unsyncedRef.current = [];
+			appendToServer(mapId, pending);
+			return;
+		}
+
+		let cancelled = false;
+		fetch(`/api/maps/${mapId}/messages`)
+			.then((response) => (response.ok ? response.json() : { messages: [] }))
+			.then((data: { messages?: ChatMessage[] }) => {
+				if (cancelled || !data.messages?.length) return;
+				const restored = data.messages.map(({ id, role, content, operations }) => ({
+					id,
+					role,
+					content,
+					...(operations ? { operations } : {}),
+				}));
+				console.log(`💬 Restored ${restored.length} chat message(s)`);
+				// Keep anything typed while the transcript was loading
+				setMessages((prev) => [prev[0] ?? greeting, ...restored, ...prev.slice(1)]);
+			})
+			.catch((error) => console.error("Failed to load chat messages:", error));
+
+		return () => {
+			cancelled = true;
+		};
+	}, [mapId, greeting]);
+
+	const appendMessage = useCallback((message: ChatMessage) => {
+		setMessages((prev) => [...prev, message]);
+		if (mapIdRef.current) {
+			appendToServer(mapIdRef.current, [message]);
+		} else {
+			unsyncedRef.current.push(message);
+		}
+	}, []);
+
+	return { messages, appendMessage };
+}
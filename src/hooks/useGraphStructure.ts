@@ -0,0 +1,47 @@
+import type { Edge, Node } from "@xyflow/react";
+import { useMemo, useRef } from "react";
+
+const ORIGIN = { x: 0, y: 0 };
+
+interface GraphStructure {
+	nodes: Node[];
+	edges: Edge[];
+}
+
+// React Flow keeps `data` when it moves, resizes or selects a node
+const sameNode = (a: Node, b: Node) =>
+	a.id === b.id && a.type === b.type && a.parentId === b.parentId && a.data === b.data;
+
+function sameEdge(a: Edge, b: Edge): boolean {
+	if (a === b) return true;
+	const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+	keys.delete("selected");
+	return [...keys].every((key) => a[key as keyof Edge] === b[key as keyof Edge]);
+}
+
+function sameList<T>(a: T[], b: T[], same: (x: T, y: T) => boolean): boolean {
+	return a.length === b.length && a.every((item, i) => same(item, b[i]!));
+}
+
+/**
+ * The open level without positions, sizes or selection - a new object only
+ * when steps, edges or their data change, so analyses memoized on it skip
+ * the new `nodes` array React Flow creates on every drag frame. Compares by
+ * reference, so subprocess contents are never walked
+ */
+export function useGraphStructure(nodes: Node[], edges: Edge[]): GraphStructure {
+	const previous = useRef<{ nodes: Node[]; edges: Edge[]; structure: GraphStructure } | null>(null);
+
+	return useMemo(() => {
+		const last = previous.current;
+		const structure =
+			last && sameList(last.nodes, nodes, sameNode) && sameList(last.edges, edges, sameEdge)
+				? last.structure
+				: {
+						nodes: nodes.map(({ id, type, parentId, data }) => ({ id, type, parentId, data, position: ORIGIN })),
+						edges: edges.map(({ selected: _, ...edge }) => edge),
+					};
+		previous.current = { nodes, edges, structure };
+		return structure;
+	}, [nodes, edges]);
+}
@@ -1,20 +1,24 @@
 import type { Edge, Node } from "@xyflow/react";
 import { useCallback, useRef, useState } from "react";
+import type { ProcessLane } from "../types/process";
 
+// Lanes are part of a snapshot - steps point at them through data.laneId
 interface HistoryState {
 	nodes: Node[];
 	edges: Edge[];
+	lanes: ProcessLane[];
 }
 
 interface UseHistoryReturn {
 	past: HistoryState[];
 	future: HistoryState[];
-	set: (nodes: Node[], edges: Edge[]) => void;
+	set: (nodes: Node[], edges: Edge[], lanes?: ProcessLane[]) => void;
 	undo: () => HistoryState | null;
 	redo: () => HistoryState | null;
 	canUndo: boolean;
 	canRedo: boolean;
 	clear: () => void;
+	reset: (nodes: Node[], edges: Edge[], lanes?: ProcessLane[]) => void;
 }
 
 const MAX_HISTORY_SIZE = 50;
@@ -22,6 +26,7 @@ const MAX_HISTORY_SIZE = 50;
 export function useHistory(
 	initialNodes: Node[],
 	initialEdges: Edge[],
+	initialLanes: ProcessLane[] = [],
 ): UseHistoryReturn {
 	const [past, setPast] = useState<HistoryState[]>([]);
 	const [future, setFuture] = useState<HistoryState[]>([]);
@@ -30,19 +35,22 @@ export function useHistory(
 	const currentStateRef = useRef<HistoryState>({
 		nodes: initialNodes,
 		edges: initialEdges,
+		lanes: initialLanes,
 	});
 
-	const set = useCallback((nodes: Node[], edges: Edge[]) => {
+	const set = useCallback((nodes: Node[], edges: Edge[], lanes: ProcessLane[] = []) => {
 		const newState: HistoryState = {
 			nodes: structuredClone(nodes),
 			edges: structuredClone(edges),
+			lanes: structuredClone(lanes),
 		};
 
 		// Don't add to history if state hasn't actually changed
 		const currentState = currentStateRef.current;
 		if (
 			JSON.stringify(currentState.nodes) === JSON.stringify(newState.nodes) &&
-			JSON.stringify(currentState.edges) === JSON.stringify(newState.edges)
+			JSON.stringify(currentState.edges) === JSON.stringify(newState.edges) &&
+			JSON.stringify(currentState.lanes) === JSON.stringify(newState.lanes)
 		) {
 			return;
 		}
@@ -95,6 +103,17 @@ export function useHistory(
 		setFuture([]);
 	}, []);
 
+	// Start over from a different graph (e.g. another subprocess level)
+	const reset = useCallback((nodes: Node[], edges: Edge[], lanes: ProcessLane[] = []) => {
+		setPast([]);
+		setFuture([]);
+		currentStateRef.current = {
+			nodes: structuredClone(nodes),
+			edges: structuredClone(edges),
+			lanes: structuredClone(lanes),
+		};
+	}, []);
+
 	return {
 		past,
 		future,
@@ -104,5 +123,6 @@ export function useHistory(
 		canUndo: past.length > 0,
 		canRedo: future.length > 0,
 		clear,
+		reset,
 	};
 }
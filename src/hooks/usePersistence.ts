@@ -1,5 +1,6 @@
 import type { Edge, Node } from "@xyflow/react";
 import { useCallback, useEffect, useRef, useState } from "react";
+import type { ProcessLane } from "../types/process";
 
 export interface MapInfo {
 	id: string;
@@ -14,6 +15,7 @@ export interface SavedMapData {
 	name: string;
 	nodes: Node[];
 	edges: Edge[];
+	lanes?: ProcessLane[];
 	created_at: string;
 	updated_at: string;
 }
@@ -44,7 +46,11 @@ export function usePersistence(options: UsePersistenceOptions = {}) {
 
 	// Refs for debouncing
 	const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-	const pendingGraphRef = useRef<{ nodes: Node[]; edges: Edge[] } | null>(null);
+	const pendingGraphRef = useRef<{
+		nodes: Node[];
+		edges: Edge[];
+		lanes: ProcessLane[];
+	} | null>(null);
 
 	// Fetch list of saved maps
 	const fetchMaps = useCallback(async () => {
@@ -107,9 +113,15 @@ export function usePersistence(options: UsePersistenceOptions = {}) {
 		[onLoad, onSaveError],
 	);
 
-	// Save map (debounced for auto-save)
+	// Save map (debounced for auto-save) - `asNew` saves a copy instead of the current map
 	const saveMap = useCallback(
-		async (nodes: Node[], edges: Edge[], name?: string) => {
+		async (
+			nodes: Node[],
+			edges: Edge[],
+			lanes: ProcessLane[] = [],
+			name?: string,
+			asNew = false,
+		): Promise<MapInfo | undefined> => {
 			const mapName = name || currentMapName;
 
 			// Skip save if no nodes
@@ -125,9 +137,9 @@ export function usePersistence(options: UsePersistenceOptions = {}) {
 					method: "POST",
 					headers: { "Content-Type": "application/json" },
 					body: JSON.stringify({
-						id: currentMapId, // Will create new if null
+						id: asNew ? null : currentMapId, // Will create new if null
 						name: mapName,
-						graph: { nodes, edges },
+						graph: { nodes, edges, lanes },
 					}),
 				});
 
@@ -143,6 +155,7 @@ export function usePersistence(options: UsePersistenceOptions = {}) {
 
 				// Refresh maps list
 				fetchMaps();
+				return data.map;
 			} catch (error) {
 				console.error("Failed to save map:", error);
 				onSaveError?.("Failed to save map");
@@ -162,9 +175,9 @@ export function usePersistence(options: UsePersistenceOptions = {}) {
 
 	// Debounced auto-save
 	const autoSave = useCallback(
-		(nodes: Node[], edges: Edge[]) => {
+		(nodes: Node[], edges: Edge[], lanes: ProcessLane[] = []) => {
 			// Store pending graph data
-			pendingGraphRef.current = { nodes, edges };
+			pendingGraphRef.current = { nodes, edges, lanes };
 
 			// Clear existing timeout
 			if (saveTimeoutRef.current) {
@@ -174,7 +187,8 @@ export function usePersistence(options: UsePersistenceOptions = {}) {
 			// Set new timeout
 			saveTimeoutRef.current = setTimeout(() => {
 				if (pendingGraphRef.current) {
-					saveMap(pendingGraphRef.current.nodes, pendingGraphRef.current.edges);
+					const pending = pendingGraphRef.current;
+					saveMap(pending.nodes, pending.edges, pending.lanes);
 					pendingGraphRef.current = null;
 				}
 			}, autoSaveDelay);
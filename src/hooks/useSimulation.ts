@@ -0,0 +1,70 @@
+import type { Edge, Node } from "@xyflow/react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SimulationOptions, SimulationResult } from "../utils/simulation";
+import type { SimulationRequest, SimulationResponse } from "../workers/simulation.worker";
+
+/**
+ * Runs the process simulation in a web worker. A new run (or unmount)
+ * terminates the one in flight.
+ */
+export function useSimulation() {
+	const [result, setResult] = useState<SimulationResult | null>(null);
+	const [running, setRunning] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const workerRef = useRef<Worker | null>(null);
+	const runId = useRef(0);
+
+	const cancel = useCallback(() => {
+		workerRef.current?.terminate();
+		workerRef.current = null;
+		setRunning(false);
+	}, []);
+
+	const run = useCallback(
+		(graph: { nodes: Node[]; edges: Edge[] }, options: SimulationOptions) => {
+			cancel();
+			const id = ++runId.current;
+			const worker = new Worker("/workers/simulation.js", { type: "module" });
+			workerRef.current = worker;
+			setRunning(true);
+			setError(null);
+
+			worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+				if (event.data.id !== id) return;
+				if ("error" in event.data) {
+					setError(event.data.error);
+				} else {
+					setResult(event.data.result);
+					console.log(
+						`🎲 Simulated ${options.runs} run(s) of ${options.cases} case(s): ${event.data.result.bottlenecks.length} bottleneck(s)`,
+					);
+				}
+				cancel();
+			};
+			worker.onerror = (event) => {
+				setError(event.message || "Simulation failed");
+				cancel();
+			};
+			// Drop React Flow's runtime fields - only the model is needed
+			worker.postMessage({
+				id,
+				graph: {
+					nodes: graph.nodes.map(({ id, type, data }) => ({ id, type, data, position: { x: 0, y: 0 } })),
+					edges: graph.edges.map(({ id, source, target, type, data }) => ({ id, source, target, type, data })),
+				},
+				options,
+			} satisfies SimulationRequest);
+		},
+		[cancel],
+	);
+
+	const clear = useCallback(() => {
+		cancel();
+		setResult(null);
+		setError(null);
+	}, [cancel]);
+
+	useEffect(() => cancel, [cancel]);
+
+	return { run, cancel, clear, result, running, error };
+}
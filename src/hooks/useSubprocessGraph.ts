@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import type { ProcessGraph } from "../types/process";
+
+/**
+ * Contents of a subprocess node for its in-place preview
+ * - Embedded child graphs are returned as-is
+ * - Linked maps are fetched once `enabled` (i.e. when the node is expanded)
+ */
+export function useSubprocessGraph(
+	childGraph: ProcessGraph | undefined,
+	mapRef: string | undefined,
+	enabled: boolean,
+): { graph: ProcessGraph | null; mapName: string | null; error: string | null } {
+	const [linked, setLinked] = useState<{ graph: ProcessGraph; name: string } | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!enabled || !mapRef || childGraph) return;
+
+		let cancelled = false;
+		setError(null);
+		fetch(`/api/maps/${mapRef}`)
+			.then((response) => {
+				if (!response.ok) throw new Error("Linked map not found");
+				return response.json();
+			})
+			.then((data) => {
+				if (cancelled) return;
+				setLinked({
+					graph: { nodes: data.map.nodes, edges: data.map.edges },
+					name: data.map.name,
+				});
+			})
+			.catch((e) => {
+				if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [enabled, mapRef, childGraph]);
+
+	if (childGraph) return { graph: childGraph, mapName: null, error: null };
+	return { graph: linked?.graph ?? null, mapName: linked?.name ?? null, error };
+}
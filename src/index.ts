@@ -1,81 +1,147 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { serve } from "bun";
-import index from "./index.html";
 import {
-	listMaps,
-	getMap,
-	saveMap,
+	ConversationHistorySchema,
+	createHistorySummarizer,
+	DEFAULT_HISTORY_WINDOW,
+	prepareHistory,
+} from "./ai/conversation";
+import {
+	compactGraph,
+	createGraphHydrator,
+	DEFAULT_FOCUS_THRESHOLD,
+} from "./ai/graphContext";
+import { DEFAULT_REPAIR_ATTEMPTS, runMapStream } from "./ai/mapStream";
+import { createProvider, resolveProviderConfig } from "./ai/providers";
+import {
+	appendChatMessages,
 	deleteMap,
+	getMap,
 	getMostRecentMap,
+	listChatMessages,
+	listMaps,
+	type NewChatMessage,
+	saveMap,
 } from "./db/maps";
+import index from "./index.html";
+import {
+	MAX_RENDER_WIDTH,
+	MIN_RENDER_WIDTH,
+	type RenderFormat,
+	RenderQuerySchema,
+	renderMap,
+} from "./render/renderMap";
+import {
+	createStreamError,
+	encodeStreamEvent,
+	type StreamEvent,
+} from "./utils/streamProtocol";
+
+// Initialize the LLM provider on the server side only (see src/ai/providers.ts)
+const provider = createProvider(resolveProviderConfig());
+console.log(`🤖 LLM provider: ${provider.name} (${provider.model})`);
+if (provider.configError) {
+	console.warn(`⚠️  ${provider.configError}`);
+}
 
-// Initialize Gemini AI on the server side only
-const apiKey = process.env.GOOGLE_API_KEY || "";
-console.log(
-	"🔑 API Key status:",
-	apiKey ? `Found (${apiKey.substring(0, 10)}...)` : "NOT FOUND",
-);
-console.log(
-	"📋 All env vars:",
-	Object.keys(process.env).filter(
-		(k) => k.includes("GOOGLE") || k.includes("API"),
-	),
-);
-if (!apiKey) {
-	console.warn("⚠️  GOOGLE_API_KEY not found in environment variables");
+/** Whole-number setting from the environment - a typo must not silently turn a feature off */
+function readCount(name: string, fallback: number): number {
+	const value = process.env[name];
+	if (value === undefined || value.trim() === "") return fallback;
+	// parseInt alone would accept "2abc" or "1.5"
+	if (/^\s*\d+\s*$/.test(value)) return Number.parseInt(value, 10);
+	console.warn(`⚠️  ${name} must be a whole number of 0 or more, got "${value}" - using ${fallback}`);
+	return fallback;
 }
-const genAI = new GoogleGenerativeAI(apiKey);
 
-const model = genAI.getGenerativeModel({
-	model: "gemini-flash-latest",
-	// No JSON constraint - we'll use NDJSON for streaming
-});
+// Follow-up requests allowed to fix rejected model output (0 disables repair)
+const REPAIR_ATTEMPTS = readCount("LLM_REPAIR_ATTEMPTS", DEFAULT_REPAIR_ATTEMPTS);
+
+// Chat turns replayed verbatim; older turns are summarized (0 disables memory)
+const HISTORY_WINDOW = readCount("LLM_HISTORY_WINDOW", DEFAULT_HISTORY_WINDOW);
+const summarizeHistory = createHistorySummarizer(provider);
+
+// Maps with more nodes only send the area around the selection (0 always sends everything)
+const FOCUS_THRESHOLD = readCount("LLM_FOCUS_THRESHOLD", DEFAULT_FOCUS_THRESHOLD);
 
 const SYSTEM_PROMPT = `
 You are an expert process mapping assistant. Your goal is to generate or modify a process map based on the user's description.
 
 OUTPUT FORMAT (NDJSON - Newline Delimited JSON):
-FIRST, output a mode indicator, then nodes, then edges.
+FIRST, output a mode indicator, then one JSON object per line.
 
-FORMAT:
-{"type":"mode","data":"update"} OR {"type":"mode","data":"create"}
+CREATE FORMAT:
+{"type":"mode","data":"create"}
 {"type":"node","data":{...node object...}}
 {"type":"edges","data":[...all edges...]}
 
+UPDATE FORMAT (patch operations - one change per line):
+{"type":"mode","data":"update"}
+{"type":"add_node","data":{...full node object...}}
+{"type":"update_node","data":{"id":"node-id","data":{...only the changed fields...}}}
+{"type":"move_node","data":{"id":"node-id","position":{"x":number,"y":number}}}
+{"type":"remove_node","data":"node-id"}
+{"type":"add_edge","data":{...full edge object...}}
+{"type":"update_edge","data":{"id":"edge-id", ...only the changed fields...}}
+{"type":"remove_edge","data":"edge-id"}
+{"type":"lanes","data":[{"id":"lane-id","label":"Role or department"}]} (both modes - see SWIMLANES)
+
 MODE RULES (CRITICAL - output this FIRST before any nodes):
 - "create" mode: Use when building a NEW process from scratch or when user asks to "create", "make", "build" a new process
 - "update" mode: Use when MODIFYING an existing process (changing colors, status, labels, adding/removing nodes)
 
+CURRENT GRAPH CONTEXT (compact):
+- Nodes are listed as {"id","type","label",...data fields}; "type" is omitted for "default" nodes
+- Edges are listed as {"id","source","target"} plus "label"/"sourceHandle"/"targetHandle"/"data" when set
+- "lanes" lists the swimlanes as {"id","label"} when the map has any
+- Positions and styles are NOT included - existing nodes and edges keep theirs automatically
+- If a "focus" object is present the map is too large to show in full: only the nodes near "selected" are listed, "outside" names nodes the listed edges lead to, and "omittedNodes" more exist. Only change listed nodes and NEVER use create mode
+
 In UPDATE mode:
-- Only output nodes that are CHANGING (not the whole graph)
-- Preserve the same node IDs for nodes being modified
-- Include {"type":"remove_node","data":"node-id"} to delete a node
-- Edges array should include ALL edges for the final state (we replace edges entirely)
+- Only output operations for what is CHANGING (never resend the whole graph)
+- Reference existing node and edge IDs exactly as they appear in the graph context
+- update_node merges the given data fields into the node; to change the shape also send "type"
+- remove_node also removes every edge connected to that node
+- To insert a step between two nodes: add_node, remove_edge the old connection, then add_edge twice
+- Do NOT output an "edges" line in update mode
 
 In CREATE mode:
 - Output ALL nodes for the new process
 - Output ALL edges for the new process
 - This replaces the entire existing graph
 
-CRITICAL: Each line must be valid JSON. No additional text or explanation.
+ASSISTANT MESSAGES:
+{"type":"message","data":"text shown to the user in the chat"}
+- After any graph changes, output ONE message line briefly explaining what you changed (1-3 sentences)
+- If the request is ambiguous (e.g. several nodes could match), output ONLY a message line asking a clarifying question - no mode line, no graph changes
+- If the user asks a question about the process ("which step has the longest wait?"), output ONLY a message line answering it from the Current Graph Context - no mode line, no graph changes
+- Plain text only inside "data" (no markdown code fences); escape newlines as \\n
+
+CRITICAL: Each line must be valid JSON. No additional text outside of message lines.
 
 NODE TYPES:
 1. RECTANGLE (default) - Standard process steps
 2. OVAL - Start/end points
 3. DIAMOND - Decision points with multiple outputs
+4. SUBPROCESS - A step that groups a detailed sub-flow the user can open (shown with a "+" marker)
 
 NODE STRUCTURE:
 {
   "id": "unique-string-id",
-  "type": "default" | "oval" | "diamond" (default: "default"),
-  "position": { "x": number, "y": number },
+  "type": "default" | "oval" | "diamond" | "subprocess" (default: "default"),
+  "position": { "x": number, "y": number } (optional - see LAYOUT),
   "data": {
     "label": "string (concise)",
     "description": "string (optional)",
     "status": "normal" | "bottleneck" | "issue" | "complete" (optional),
     "color": "hex-color-code (optional)",
     "issueDetails": "string (optional)",
-    "outputCount": number (REQUIRED for diamond nodes - number of decision branches)
+    "outputCount": number (REQUIRED for diamond nodes - number of decision branches),
+    "laneId": "lane-id (optional - see SWIMLANES)",
+    "cycleTime": {"value": number, "unit": "minutes" | "hours" | "days" | "weeks"} (optional - see METRICS),
+    "sla": {"value": number, "unit": "minutes" | "hours" | "days" | "weeks"} (optional),
+    "cost": {"amount": number, "currency": "USD"} (optional),
+    "distribution": {"kind": "fixed" | "uniform" | "triangular" | "exponential", "spread": number} (optional),
+    "capacity": number (optional)
   }
 }
 
@@ -86,6 +152,7 @@ NODE TYPE RULES:
   - 2 outputs for Yes/No decisions
   - 3+ outputs for multi-way decisions (Low/Medium/High, etc.)
 - Use type: "default" (or omit) for regular process steps
+- Use type: "subprocess" when the user asks to group steps or for a step that is a whole process of its own; its contents are edited by opening it, so never send "childGraph" ("childSteps" in the context is read-only)
 
 EDGE STRUCTURE:
 {
@@ -99,7 +166,8 @@ EDGE STRUCTURE:
   "label": "optional-label (e.g., 'Yes', 'No' for decisions)",
   "labelStyle": { "fill": "#color", "fontWeight": 600 } (optional),
   "labelShowBg": true (optional),
-  "animated": false (optional)
+  "animated": false (optional),
+  "data": {"waitTime": {...duration}, "probability": number, "iterations": number} (all optional - see METRICS)
 }
 
 EDGE TYPE RULES (CRITICAL):
@@ -126,35 +194,28 @@ EDGE TYPE RULES (CRITICAL):
    - Example: If the "No" branch of a decision loops back, use sourceHandle: "left", targetHandle: "left"
    - Set "animated": true on loop edges to show they're special flows
 
-LAYOUT RULES (CENTERED SPINE WITH HEIGHT-AWARE SPACING):
-Use a centered vertical spine with symmetric horizontal branching:
-
-1. Define CENTER_X (e.g., 300) - this is the main vertical axis
-2. Define VERTICAL_GAP (e.g., 40) - minimum gap between nodes
-3. Define BRANCH_OFFSET (e.g., 200) - distance from center to branch nodes
-
-TERMINOLOGY:
-- "Decision node": Diamond-shaped node representing a conditional branch point
-- "Branch nodes": Nodes that follow a decision node (the outcomes of the decision)
-
-HORIZONTAL POSITIONING:
-- Main flow nodes (Start, steps, End): Place on CENTER_X
-- Diamond decisions: Place on CENTER_X
-- Branch nodes: Place symmetrically at CENTER_X ± BRANCH_OFFSET
-  - "No"/left branch node: x = CENTER_X - BRANCH_OFFSET
-  - "Yes"/right branch node: x = CENTER_X + BRANCH_OFFSET
-- Happy path continuation: Return to CENTER_X after branches merge
-
-VERTICAL POSITIONING (height-aware):
-Y positions are calculated based on cumulative node heights + gaps.
-Node heights: Oval=45px, Rectangle=50px, Diamond=160px
-
-Example positions:
-- Level 0 (Start oval): y = 0
-- Level 1 (Process rect): y = 85 (45 + 40 gap)
-- Level 2 (Decision diamond): y = 175 (85 + 50 + 40)
-- Level 3 (Branch nodes): y = 375 (175 + 160 diamond + 40 gap)
-- Level 4+: Continue adding (prev_height + 40)
+LAYOUT:
+- New processes are arranged by an automatic layout once they are created, so only the structure (nodes, edges, branch handles) matters
+- "position" may be left out of nodes entirely; new nodes added in update mode are placed and laid out for you
+- Only send move_node when the user explicitly asks to move something
+
+SWIMLANES:
+- Use lanes when the process involves several roles, departments or systems, or when the user asks for them
+- Output ONE "lanes" line (3-7 lanes, in the order they should appear) before the nodes, then set "data.laneId" on every node
+- The "lanes" line replaces all lanes; to move a step to another lane use update_node with {"data":{"laneId":"..."}}
+- Keep existing lane IDs when editing; the layout places each step inside its lane
+
+METRICS:
+- When the user gives a duration, cost or target for a step, set the metric fields - NEVER put them in the label or description
+- "cycleTime" = active work time of the step ("the review takes 2 days" → "cycleTime": {"value": 2, "unit": "days"})
+- "sla" = the time the step should take at most ("approval must happen within 4 hours")
+- "cost" = cost of one run of the step, with an ISO currency code ("each check costs $15" → "cost": {"amount": 15, "currency": "USD"})
+- Waiting between two steps (queues, handoffs, "it sits in the inbox for a day") goes on the EDGE between them: update_edge {"id":"edge-id","data":{"waitTime":{"value":1,"unit":"days"}}}
+- Units are "minutes", "hours", "days" or "weeks"
+- "probability" on a decision branch edge = share of runs taking it, 0-1 ("70% are approved" → 0.7 on the "Yes" edge); leave it out on branches that get the rest
+- "iterations" on a loop-back edge = how many times the loop is taken per run on average ("documents are usually requested twice" → 2)
+- "capacity" = cases a step works on at once, e.g. the number of people doing it ("three clerks handle intake" → 3; default 1)
+- "distribution" = how much a step's time varies, for simulations: "uniform" or "triangular" with "spread" as a share of the cycle time ("takes 2 to 6 hours" → cycleTime 4 hours, {"kind": "uniform", "spread": 0.5}), "exponential" for highly variable work; leave it out when the time is steady
 
 EDGE STYLING FOR SECONDARY PATHS:
 - Loop/retry edges should use "strokeDasharray": "5,5" to show they're exception paths
@@ -167,6 +228,11 @@ NATURAL LANGUAGE UNDERSTANDING:
   - "the selected" → Apply to SELECTED NODES only
   - "make it red" → Apply to SELECTED NODES only
 
+CONVERSATION HISTORY:
+- Earlier turns of this chat may come before the current request; assistant turns end with "Graph changes:" listing what was applied
+- Use them to resolve follow-ups like "no, the other one" or "undo what you just did to the approval path"
+- The Current Graph Context is always the source of truth for what the graph looks like now
+
 When user mentions a node by label or description:
   - "the approval step" → Find node with label containing "approval"
   - "the bottleneck" → Find node with status: "bottleneck"
@@ -207,15 +273,28 @@ User: "Add a decision point for credit check"
 User: "Add a review step after this" + SELECTED NODES: ["2"]
 → Create new node after node "2"
 
+EXAMPLE UPDATE OUTPUT ("Make this red and add a review step after it" + SELECTED NODES: ["2"], existing edge e2-3):
+{"type":"mode","data":"update"}
+{"type":"update_node","data":{"id":"2","data":{"color":"#ef4444"}}}
+{"type":"add_node","data":{"id":"2b","type":"default","data":{"label":"Review"}}}
+{"type":"remove_edge","data":"e2-3"}
+{"type":"add_edge","data":{"id":"e2-2b","source":"2","target":"2b","type":"straight","markerEnd":{"type":"arrowclosed"}}}
+{"type":"add_edge","data":{"id":"e2b-3","source":"2b","target":"3","type":"straight","markerEnd":{"type":"arrowclosed"}}}
+
+User: "The review takes 2 days and then waits a day for sign-off" (node "2" = Review, edge e2-3 leads to Sign-off)
+{"type":"mode","data":"update"}
+{"type":"update_node","data":{"id":"2","data":{"cycleTime":{"value":2,"unit":"days"}}}}
+{"type":"update_edge","data":{"id":"e2-3","data":{"waitTime":{"value":1,"unit":"days"}}}}
+
 User: "Change everything to green"
 → Set color: "#22c55e" for ALL nodes
 
-EXAMPLE OUTPUT FOR A DECISION FLOW (note the spacing - 200-280px vertical, 300px+ horizontal):
-{"type":"node","data":{"id":"1","type":"oval","position":{"x":250,"y":0},"data":{"label":"Start"}}}
-{"type":"node","data":{"id":"2","type":"default","position":{"x":250,"y":200},"data":{"label":"Review Application"}}}
-{"type":"node","data":{"id":"3","type":"diamond","position":{"x":200,"y":480},"data":{"label":"Approved?","outputCount":2}}}
-{"type":"node","data":{"id":"4","type":"default","position":{"x":50,"y":760},"data":{"label":"Request More Info"}}}
-{"type":"node","data":{"id":"5","type":"default","position":{"x":400,"y":760},"data":{"label":"Process Approval"}}}
+EXAMPLE OUTPUT FOR A DECISION FLOW:
+{"type":"node","data":{"id":"1","type":"oval","data":{"label":"Start"}}}
+{"type":"node","data":{"id":"2","type":"default","data":{"label":"Review Application"}}}
+{"type":"node","data":{"id":"3","type":"diamond","data":{"label":"Approved?","outputCount":2}}}
+{"type":"node","data":{"id":"4","type":"default","data":{"label":"Request More Info"}}}
+{"type":"node","data":{"id":"5","type":"default","data":{"label":"Process Approval"}}}
 {"type":"edges","data":[{"id":"e1-2","source":"1","target":"2","type":"bezier","markerEnd":{"type":"arrowclosed"}},{"id":"e2-3","source":"2","target":"3","type":"bezier","markerEnd":{"type":"arrowclosed"}},{"id":"e3-4","source":"3","sourceHandle":"left","target":"4","type":"bezier","label":"No","labelStyle":{"fill":"#ef4444","fontWeight":600},"labelShowBg":true,"markerEnd":{"type":"arrowclosed"}},{"id":"e3-5","source":"3","sourceHandle":"right","target":"5","type":"bezier","label":"Yes","labelStyle":{"fill":"#22c55e","fontWeight":600},"labelShowBg":true,"markerEnd":{"type":"arrowclosed"}}]}
 
 CRITICAL:
@@ -225,21 +304,85 @@ CRITICAL:
 - Keep labels under 30 characters
 `;
 
+/**
+ * Render a saved map as an image
+ * Query: theme=light|dark, width=<px>, statuses=true|false
+ */
+function renderMapImage(id: string, url: string, format: RenderFormat): Response {
+	try {
+		const query = RenderQuerySchema.safeParse(
+			Object.fromEntries(new URL(url).searchParams),
+		);
+		if (!query.success) {
+			return Response.json(
+				{
+					error: `Invalid query: theme must be light or dark, width ${MIN_RENDER_WIDTH}-${MAX_RENDER_WIDTH}, statuses true or false`,
+				},
+				{ status: 400 },
+			);
+		}
+
+		const map = getMap(id);
+		if (!map) {
+			return Response.json({ error: "Map not found" }, { status: 404 });
+		}
+
+		const graph = {
+			nodes: JSON.parse(map.nodes),
+			edges: JSON.parse(map.edges),
+			lanes: JSON.parse(map.lanes),
+		};
+		const { body, contentType } = renderMap(graph, format, query.data);
+		console.log(`🖼️ Rendered ${format.toUpperCase()}: ${map.name} (${id})`);
+		return new Response(body, {
+			headers: { "Content-Type": contentType, "Cache-Control": "no-cache" },
+		});
+	} catch (error) {
+		console.error("Error rendering map:", error);
+		return Response.json({ error: "Failed to render map" }, { status: 500 });
+	}
+}
+
+let simulationWorker: string | null = null;
+
+/**
+ * The simulation worker, bundled for the browser - Bun's HTML bundling
+ * doesn't follow `new Worker(...)`. Rebuilt per request in development.
+ */
+async function serveSimulationWorker(): Promise<Response> {
+	try {
+		if (!simulationWorker || process.env.NODE_ENV !== "production") {
+			const build = await Bun.build({
+				entrypoints: [new URL("./workers/simulation.worker.ts", import.meta.url).pathname],
+				target: "browser",
+				minify: process.env.NODE_ENV === "production",
+			});
+			if (!build.success) throw new AggregateError(build.logs, "Worker build failed");
+			simulationWorker = await build.outputs[0]!.text();
+		}
+		return new Response(simulationWorker, {
+			headers: { "Content-Type": "text/javascript; charset=utf-8" },
+		});
+	} catch (error) {
+		console.error("Error building simulation worker:", error);
+		return new Response("Failed to build simulation worker", { status: 500 });
+	}
+}
+
 const server = serve({
 	port: 4321,
 	routes: {
 		// Serve index.html for all unmatched routes.
 		"/*": index,
 
+		"/workers/simulation.js": serveSimulationWorker,
+
 		"/api/generate-map": {
 			async POST(req) {
 				try {
-					if (!apiKey) {
+					if (provider.configError) {
 						return Response.json(
-							{
-								error:
-									"Google API Key is missing. Please set GOOGLE_API_KEY in your .env file.",
-							},
+							{ error: provider.configError },
 							{ status: 500 },
 						);
 					}
@@ -254,24 +397,19 @@ const server = serve({
 						);
 					}
 
-					const chatSession = model.startChat({
-						history: [
-							{
-								role: "user",
-								parts: [{ text: SYSTEM_PROMPT }],
-							},
-							{
-								role: "model",
-								parts: [
-									{
-										text: "I understand. I will output nodes and edges in NDJSON format for streaming.",
-									},
-								],
-							},
-						],
-					});
+					// Earlier turns of this chat, oldest first
+					const parsedHistory = ConversationHistorySchema.safeParse(
+						body.history ?? [],
+					);
+					if (!parsedHistory.success) {
+						return Response.json(
+							{ error: "history must be an array of { role, content } turns" },
+							{ status: 400 },
+						);
+					}
 
 					let message = `User Request: ${prompt}`;
+					let focused = false;
 
 					// Add selected nodes context if any nodes are selected
 					if (selectedNodeIds && selectedNodeIds.length > 0) {
@@ -285,135 +423,88 @@ const server = serve({
 					}
 
 					if (currentGraph && currentGraph.nodes.length > 0) {
-						message += `\n\nCurrent Graph Context: ${JSON.stringify(currentGraph)}`;
+						// Compact view - positions and styles are restored from currentGraph
+						const context = compactGraph(currentGraph, {
+							selectedNodeIds,
+							focusThreshold: FOCUS_THRESHOLD,
+						});
+						if (context.focus) {
+							console.log(
+								`🔍 Focus window: ${context.nodes.length} of ${currentGraph.nodes.length} nodes`,
+							);
+						}
+						message += `\n\nCurrent Graph Context: ${JSON.stringify(context)}`;
+						focused = !!context.focus;
 					}
 
-					// Use streaming API
-					const result = await chatSession.sendMessageStream(message);
+					// Stop button / closed tab: abort the provider request too
+					const abort = new AbortController();
+					const stop = () => {
+						if (abort.signal.aborted) return;
+						console.log("⏹️  Generation stopped by client");
+						abort.abort();
+					};
+					req.signal.addEventListener("abort", stop);
 
 					// Create a readable stream for SSE (Server-Sent Events)
 					const stream = new ReadableStream({
 						async start(controller) {
 							const encoder = new TextEncoder();
-
-							try {
-								let currentObject = "";
-								let braceDepth = 0;
-								let bracketDepth = 0;
-								let inString = false;
-								let escapeNext = false;
-
-								for await (const chunk of result.stream) {
-									const chunkText = chunk.text();
-
-									// Process only new characters from this chunk
-									for (let i = 0; i < chunkText.length; i++) {
-										const char = chunkText[i];
-										currentObject += char;
-
-										// Track string boundaries (ignore braces inside strings)
-										if (char === '"' && !escapeNext) {
-											inString = !inString;
-										}
-										escapeNext = char === "\\" && !escapeNext;
-
-										if (!inString) {
-											if (char === "{") braceDepth++;
-											if (char === "}") braceDepth--;
-											if (char === "[") bracketDepth++;
-											if (char === "]") bracketDepth--;
-
-											// Complete JSON object detected
-											if (
-												braceDepth === 0 &&
-												bracketDepth === 0 &&
-												currentObject.trim()
-											) {
-												try {
-													const trimmed = currentObject.trim();
-													if (trimmed.startsWith("{")) {
-														// Validate and send
-														const parsed = JSON.parse(trimmed);
-														controller.enqueue(
-															encoder.encode(`data: ${trimmed}\n\n`),
-														);
-
-														// Better logging for edges
-														if (
-															parsed.type === "edges" &&
-															parsed.data?.length > 0
-														) {
-															console.log(
-																"✅ Edges object:",
-																JSON.stringify(parsed.data[0], null, 2),
-															);
-														} else {
-															console.log(
-																"✅ Parsed JSON object:",
-																`${trimmed.substring(0, 50)}...`,
-															);
-														}
-														// Reset for next object
-														currentObject = "";
-														braceDepth = 0;
-														bracketDepth = 0;
-														inString = false;
-														escapeNext = false;
-													}
-												} catch (_e) {
-													console.warn(
-														"⚠️  Invalid JSON object:",
-														currentObject.substring(0, 100),
-													);
-													// Reset on error
-													currentObject = "";
-													braceDepth = 0;
-													bracketDepth = 0;
-													inString = false;
-													escapeNext = false;
-												}
-											}
-										}
-									}
+							// The controller is already closed once the client disconnects
+							const send = (event: StreamEvent) => {
+								if (!abort.signal.aborted) {
+									controller.enqueue(encoder.encode(encodeStreamEvent(event)));
 								}
+							};
+							const close = () => {
+								if (!abort.signal.aborted) controller.close();
+							};
 
-								// Process any remaining buffer
-								if (currentObject.trim()) {
-									try {
-										const trimmed = currentObject.trim();
-										if (trimmed.startsWith("{")) {
-											JSON.parse(trimmed);
-											controller.enqueue(
-												encoder.encode(`data: ${trimmed}\n\n`),
-											);
-											console.log(
-												"✅ Final JSON object:",
-												`${trimmed.substring(0, 50)}...`,
-											);
-										}
-									} catch (_e) {
-										console.warn(
-											"⚠️  Invalid JSON in final buffer:",
-											currentObject.substring(0, 100),
-										);
-									}
-								}
+							try {
+								const history = await prepareHistory(parsedHistory.data, {
+									window: HISTORY_WINDOW,
+									summarize: summarizeHistory,
+								});
+
+								// Validate every model line and repair what gets rejected
+								await runMapStream({
+									provider,
+									system: SYSTEM_PROMPT,
+									history,
+									message,
+									existingNodeIds: (currentGraph?.nodes ?? []).map(
+										(n: { id: string }) => n.id,
+									),
+									existingEdges: currentGraph?.edges ?? [],
+									hydrate: createGraphHydrator(
+										currentGraph ?? { nodes: [], edges: [] },
+										selectedNodeIds,
+									),
+									// Create mode would drop every node outside the focus window
+									updateOnly: focused,
+									maxRepairAttempts: REPAIR_ATTEMPTS,
+									send,
+									signal: abort.signal,
+								});
 
 								// Send completion event
-								controller.enqueue(
-									encoder.encode('data: {"type":"complete"}\n\n'),
-								);
-								controller.close();
+								send({ type: "complete" });
+								close();
 							} catch (error) {
+								if (abort.signal.aborted) return;
 								console.error("Streaming error:", error);
-								controller.enqueue(
-									encoder.encode(
-										`data: {"type":"error","message":"${error}"}\n\n`,
+								send(
+									createStreamError(
+										"stream_failed",
+										error instanceof Error ? error.message : String(error),
 									),
 								);
-								controller.close();
+								close();
 							}
 						},
+						cancel() {
+							stop();
+						},
 					});
 
 					return new Response(stream, {
@@ -436,9 +527,9 @@ const server = serve({
 		"/api/generate-name": {
 			async POST(req) {
 				try {
-					if (!apiKey) {
+					if (provider.configError) {
 						return Response.json(
-							{ error: "Google API Key is missing" },
+							{ error: provider.configError },
 							{ status: 500 },
 						);
 					}
@@ -452,16 +543,12 @@ const server = serve({
 						);
 					}
 
-					// Use a quick model call to generate a concise name
-					const nameModel = genAI.getGenerativeModel({
-						model: "gemini-flash-latest",
-					});
-
 					const prompt = `Generate a very short (2-4 words max) name for a process map that contains these steps: ${nodeLabels.join(", ")}.
 Return ONLY the name, no quotes, no explanation. Examples: "Employee Onboarding", "Bug Triage", "Loan Application"`;
 
-					const result = await nameModel.generateContent(prompt);
-					const name = result.response.text().trim().replace(/['"]/g, "");
+					// Use a quick model call to generate a concise name
+					const result = await provider.complete(prompt);
+					const name = result.trim().replace(/['"]/g, "");
 
 					// Ensure name is not too long
 					const finalName = name.length > 40 ? name.substring(0, 40) : name;
@@ -564,6 +651,7 @@ Return ONLY the name, no quotes, no explanation. Examples: "Employee Onboarding"
 							name: map.name,
 							nodes: JSON.parse(map.nodes),
 							edges: JSON.parse(map.edges),
+							lanes: JSON.parse(map.lanes),
 							created_at: map.created_at,
 							updated_at: map.updated_at,
 						},
@@ -595,6 +683,7 @@ Return ONLY the name, no quotes, no explanation. Examples: "Employee Onboarding"
 							name: map.name,
 							nodes: JSON.parse(map.nodes),
 							edges: JSON.parse(map.edges),
+							lanes: JSON.parse(map.lanes),
 							created_at: map.created_at,
 							updated_at: map.updated_at,
 						},
@@ -629,6 +718,76 @@ Return ONLY the name, no quotes, no explanation. Examples: "Employee Onboarding"
 				}
 			},
 		},
+
+		// Diagram images for wikis and scripted reports (no browser needed)
+		"/api/maps/:id/render.svg": (req) => renderMapImage(req.params.id, req.url, "svg"),
+		"/api/maps/:id/render.png": (req) => renderMapImage(req.params.id, req.url, "png"),
+
+		"/api/maps/:id/messages": {
+			// Get the chat transcript of a map
+			async GET(req) {
+				try {
+					const id = req.params.id;
+					if (!getMap(id)) {
+						return Response.json({ error: "Map not found" }, { status: 404 });
+					}
+
+					const messages = listChatMessages(id).map((m) => ({
+						id: m.id,
+						role: m.role,
+						content: m.content,
+						...(m.operations ? { operations: JSON.parse(m.operations) } : {}),
+						created_at: m.created_at,
+					}));
+					return Response.json({ messages });
+				} catch (error) {
+					console.error("Error getting chat messages:", error);
+					return Response.json(
+						{ error: "Failed to get chat messages" },
+						{ status: 500 },
+					);
+				}
+			},
+
+			// Append messages to the transcript
+			async POST(req) {
+				try {
+					const id = req.params.id;
+					const { messages } = await req.json();
+
+					const isValid =
+						Array.isArray(messages) &&
+						messages.every(
+							(m: Partial<NewChatMessage>) =>
+								typeof m?.id === "string" &&
+								(m.role === "user" || m.role === "assistant") &&
+								typeof m.content === "string" &&
+								(m.operations === undefined ||
+									(Array.isArray(m.operations) &&
+										m.operations.every((op) => typeof op === "string"))),
+						);
+					if (!isValid) {
+						return Response.json(
+							{ error: "messages must be an array of { id, role, content, operations? }" },
+							{ status: 400 },
+						);
+					}
+
+					if (!getMap(id)) {
+						return Response.json({ error: "Map not found" }, { status: 404 });
+					}
+
+					const appended = appendChatMessages(id, messages);
+					return Response.json({ success: true, appended });
+				} catch (error) {
+					console.error("Error appending chat messages:", error);
+					return Response.json(
+						{ error: "Failed to append chat messages" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
 	},
 
 	development: process.env.NODE_ENV !== "production" && {
@@ -0,0 +1,357 @@
+import type { PathSegment, Point, Scene, SceneItem, TextMeasure } from "../utils/exportScene";
+import type { Font } from "./truetype";
+
+/**
+ * Scene rasterizer for server-side PNG rendering - anti-aliased polygon fills
+ * (signed-area coverage accumulation, as in font-rs) with strokes and text
+ * turned into polygons first. No canvas or native module needed.
+ */
+
+export interface Raster {
+	width: number;
+	height: number;
+	pixels: Uint8ClampedArray; // RGBA, not premultiplied
+}
+
+export interface RasterFonts {
+	regular: Font;
+	bold: Font;
+}
+
+export interface RasterOptions {
+	scale?: number; // Output pixels per scene pixel
+	fonts?: RasterFonts; // Text is left out without fonts
+}
+
+type Polygon = Point[];
+
+const CURVE_SEGMENT = 4; // Length of a flattened curve segment, in output pixels
+const DASH = 5;
+
+function flattenPath(segments: PathSegment[], scale: number): Polygon[] {
+	const polylines: Polygon[] = [];
+	let current: Polygon = [];
+	for (const s of segments) {
+		if (s.op === "M") {
+			if (current.length > 1) polylines.push(current);
+			current = [{ x: s.x, y: s.y }];
+		} else if (s.op !== "C") {
+			current.push({ x: s.x, y: s.y });
+		} else {
+			const p0 = current[current.length - 1] ?? { x: s.x1, y: s.y1 };
+			const length =
+				Math.hypot(s.x1 - p0.x, s.y1 - p0.y) +
+				Math.hypot(s.x2 - s.x1, s.y2 - s.y1) +
+				Math.hypot(s.x - s.x2, s.y - s.y2);
+			const steps = Math.min(64, Math.max(4, Math.ceil((length * scale) / CURVE_SEGMENT)));
+			for (let i = 1; i <= steps; i++) {
+				const t = i / steps;
+				const u = 1 - t;
+				current.push({
+					x: u * u * u * p0.x + 3 * u * u * t * s.x1 + 3 * u * t * t * s.x2 + t * t * t * s.x,
+					y: u * u * u * p0.y + 3 * u * u * t * s.y1 + 3 * u * t * t * s.y2 + t * t * t * s.y,
+				});
+			}
+		}
+	}
+	if (current.length > 1) polylines.push(current);
+	return polylines;
+}
+
+function ellipse(cx: number, cy: number, rx: number, ry: number, from = 0, to = Math.PI * 2, steps = 24): Polygon {
+	return Array.from({ length: steps + 1 }, (_, i) => {
+		const angle = from + ((to - from) * i) / steps;
+		return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+	});
+}
+
+function roundedRect(x: number, y: number, w: number, h: number, radius: number): Polygon {
+	const r = Math.min(radius, w / 2, h / 2);
+	if (r <= 0) {
+		return [
+			{ x, y },
+			{ x: x + w, y },
+			{ x: x + w, y: y + h },
+			{ x, y: y + h },
+		];
+	}
+	const q = Math.PI / 2;
+	return [
+		...ellipse(x + w - r, y + r, r, r, -q, 0, 6),
+		...ellipse(x + w - r, y + h - r, r, r, 0, q, 6),
+		...ellipse(x + r, y + h - r, r, r, q, 2 * q, 6),
+		...ellipse(x + r, y + r, r, r, 2 * q, 3 * q, 6),
+	];
+}
+
+function signedArea(polygon: Polygon): number {
+	let area = 0;
+	for (let i = 0; i < polygon.length; i++) {
+		const p = polygon[i] as Point;
+		const q = polygon[(i + 1) % polygon.length] as Point;
+		area += p.x * q.y - q.x * p.y;
+	}
+	return area / 2;
+}
+
+/** Same orientation for every piece, so overlapping pieces add up instead of cancelling */
+const oriented = (polygon: Polygon) => (signedArea(polygon) < 0 ? [...polygon].reverse() : polygon);
+
+function dashes(polyline: Polygon): Polygon[] {
+	const pieces: Polygon[] = [];
+	let piece: Polygon = [];
+	let drawing = true;
+	let left = DASH;
+	for (let i = 1; i < polyline.length; i++) {
+		let from = polyline[i - 1] as Point;
+		const to = polyline[i] as Point;
+		let length = Math.hypot(to.x - from.x, to.y - from.y);
+		while (length > 0) {
+			const step = Math.min(left, length);
+			const t = step / length;
+			const point = { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+			if (drawing) {
+				if (piece.length === 0) piece.push(from);
+				piece.push(point);
+			}
+			from = point;
+			length -= step;
+			left -= step;
+			if (left <= 0) {
+				if (drawing && piece.length > 1) pieces.push(piece);
+				piece = [];
+				drawing = !drawing;
+				left = DASH;
+			}
+		}
+	}
+	if (drawing && piece.length > 1) pieces.push(piece);
+	return pieces;
+}
+
+/** Stroke outline: a quad per segment plus round joins */
+function strokePolygons(polyline: Polygon, width: number, closed: boolean): Polygon[] {
+	const half = width / 2;
+	const points = closed ? [...polyline, polyline[0] as Point] : polyline;
+	const pieces: Polygon[] = [];
+	for (let i = 1; i < points.length; i++) {
+		const p = points[i - 1] as Point;
+		const q = points[i] as Point;
+		const length = Math.hypot(q.x - p.x, q.y - p.y);
+		if (length === 0) continue;
+		const nx = (-(q.y - p.y) / length) * half;
+		const ny = ((q.x - p.x) / length) * half;
+		pieces.push(
+			oriented([
+				{ x: p.x + nx, y: p.y + ny },
+				{ x: q.x + nx, y: q.y + ny },
+				{ x: q.x - nx, y: q.y - ny },
+				{ x: p.x - nx, y: p.y - ny },
+			]),
+		);
+		if (i < points.length - 1 || closed) pieces.push(oriented(ellipse(q.x, q.y, half, half, 0, Math.PI * 2, 8)));
+	}
+	return pieces;
+}
+
+/** Text widths in the fonts the raster draws with (for buildScene's layout) */
+export function fontMeasure(fonts: RasterFonts): TextMeasure {
+	return (text, size, bold) => {
+		const font = bold ? fonts.bold : fonts.regular;
+		let advance = 0;
+		for (const char of text) advance += font.glyph(char).advance;
+		return (advance * size) / font.unitsPerEm;
+	};
+}
+
+function textPolygons(item: Extract<SceneItem, { kind: "text" }>, font: Font): Polygon[] {
+	const size = item.size / font.unitsPerEm;
+	const glyphs = [...item.text].map((char) => font.glyph(char));
+	const width = glyphs.reduce((sum, g) => sum + g.advance, 0) * size;
+	const angle = ((item.rotate ?? 0) * Math.PI) / 180;
+	const cos = Math.cos(angle);
+	const sin = Math.sin(angle);
+	let pen = item.anchor === "middle" ? -width / 2 : 0;
+	const polygons: Polygon[] = [];
+	for (const glyph of glyphs) {
+		for (const contour of glyph.contours) {
+			polygons.push(
+				contour.map((p) => {
+					// Glyph space is y up
+					const x = pen + p.x * size;
+					const y = -p.y * size;
+					return { x: item.x + x * cos - y * sin, y: item.y + x * sin + y * cos };
+				}),
+			);
+		}
+		pen += glyph.advance * size;
+	}
+	return polygons;
+}
+
+function parseColor(color: string): [number, number, number] {
+	const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+	if (!match) return [0, 0, 0];
+	return [1, 2, 3].map((i) => Number.parseInt(match[i] as string, 16)) as [number, number, number];
+}
+
+/**
+ * Fill polygons (device pixels) with the nonzero rule and blend the color
+ * over the raster
+ */
+function fill(raster: Raster, polygons: Polygon[], color: string) {
+	const xs = polygons.flatMap((p) => p.map((q) => q.x));
+	const ys = polygons.flatMap((p) => p.map((q) => q.y));
+	if (xs.length === 0) return;
+	const left = Math.max(0, Math.floor(Math.min(...xs)));
+	const top = Math.max(0, Math.floor(Math.min(...ys)));
+	const right = Math.min(raster.width, Math.ceil(Math.max(...xs)) + 1);
+	const bottom = Math.min(raster.height, Math.ceil(Math.max(...ys)) + 1);
+	if (right <= left || bottom <= top) return;
+
+	const width = right - left;
+	const height = bottom - top;
+	const stride = width + 2;
+	const accumulation = new Float32Array(stride * height);
+
+	for (const polygon of polygons) {
+		for (let i = 0; i < polygon.length; i++) {
+			const p = polygon[i] as Point;
+			const q = polygon[(i + 1) % polygon.length] as Point;
+			accumulateLine(accumulation, stride, width, height, p.x - left, p.y - top, q.x - left, q.y - top);
+		}
+	}
+
+	const [r, g, b] = parseColor(color);
+	const pixels = raster.pixels;
+	for (let y = 0; y < height; y++) {
+		let sum = 0;
+		for (let x = 0; x < width; x++) {
+			sum += accumulation[y * stride + x] as number;
+			const coverage = Math.min(1, Math.abs(sum));
+			if (coverage < 1 / 255) continue;
+			const index = ((top + y) * raster.width + left + x) * 4;
+			const alpha = (pixels[index + 3] as number) / 255;
+			const outAlpha = coverage + alpha * (1 - coverage);
+			const blend = (source: number, destination: number) =>
+				(source * coverage + destination * alpha * (1 - coverage)) / outAlpha;
+			pixels[index] = blend(r, pixels[index] as number);
+			pixels[index + 1] = blend(g, pixels[index + 1] as number);
+			pixels[index + 2] = blend(b, pixels[index + 2] as number);
+			pixels[index + 3] = outAlpha * 255;
+		}
+	}
+}
+
+/** Add a line's signed area contribution to the accumulation buffer */
+function accumulateLine(
+	buffer: Float32Array,
+	stride: number,
+	width: number,
+	height: number,
+	ax: number,
+	ay: number,
+	bx: number,
+	by: number,
+) {
+	if (ay === by) return;
+	const direction = ay < by ? 1 : -1;
+	let [x0, y0, x1, y1] = ay < by ? [ax, ay, bx, by] : [bx, by, ax, ay];
+	const dxdy = (x1 - x0) / (y1 - y0);
+	if (y0 < 0) {
+		x0 -= y0 * dxdy;
+		y0 = 0;
+	}
+	y1 = Math.min(y1, height);
+	let x = x0;
+	const clamp = (v: number) => Math.min(width, Math.max(0, v));
+
+	for (let row = Math.floor(y0); row < y1; row++) {
+		const start = row * stride;
+		const dy = Math.min(row + 1, y1) - Math.max(row, y0);
+		const xNext = x + dxdy * dy;
+		const d = dy * direction;
+		const from = clamp(Math.min(x, xNext));
+		const to = clamp(Math.max(x, xNext));
+		const fromFloor = Math.floor(from);
+		const toCeil = Math.ceil(to);
+
+		if (toCeil <= fromFloor + 1) {
+			const middle = (from + to) / 2 - fromFloor;
+			buffer[start + fromFloor] = (buffer[start + fromFloor] as number) + d - d * middle;
+			buffer[start + fromFloor + 1] = (buffer[start + fromFloor + 1] as number) + d * middle;
+		} else {
+			const s = 1 / (to - from);
+			const fromFraction = from - fromFloor;
+			const a0 = 0.5 * s * (1 - fromFraction) ** 2;
+			const toFraction = to - toCeil + 1;
+			const am = 0.5 * s * toFraction ** 2;
+			buffer[start + fromFloor] = (buffer[start + fromFloor] as number) + d * a0;
+			if (toCeil === fromFloor + 2) {
+				buffer[start + fromFloor + 1] = (buffer[start + fromFloor + 1] as number) + d * (1 - a0 - am);
+			} else {
+				const a1 = s * (1.5 - fromFraction);
+				buffer[start + fromFloor + 1] = (buffer[start + fromFloor + 1] as number) + d * (a1 - a0);
+				for (let column = fromFloor + 2; column < toCeil - 1; column++) {
+					buffer[start + column] = (buffer[start + column] as number) + d * s;
+				}
+				const a2 = a1 + (toCeil - fromFloor - 3) * s;
+				buffer[start + toCeil - 1] = (buffer[start + toCeil - 1] as number) + d * (1 - a2 - am);
+			}
+			buffer[start + toCeil] = (buffer[start + toCeil] as number) + d * am;
+		}
+		x = xNext;
+	}
+}
+
+/**
+ * Render a scene to RGBA pixels
+ */
+export function rasterizeScene(scene: Scene, options: RasterOptions = {}): Raster {
+	const { scale = 1, fonts } = options;
+	const raster: Raster = {
+		width: Math.max(1, Math.ceil(scene.width * scale)),
+		height: Math.max(1, Math.ceil(scene.height * scale)),
+		pixels: new Uint8ClampedArray(0),
+	};
+	raster.pixels = new Uint8ClampedArray(raster.width * raster.height * 4);
+	const device = (polygon: Polygon) =>
+		polygon.map((p) => ({ x: (p.x - scene.x) * scale, y: (p.y - scene.y) * scale }));
+	const paint = (shape: Polygon, closed: boolean, item: { fill?: string; stroke?: string; strokeWidth?: number; dashed?: boolean }) => {
+		if (item.fill && closed) fill(raster, [device(shape)], item.fill);
+		if (item.stroke) {
+			const lines = item.dashed ? dashes(closed ? [...shape, shape[0] as Point] : shape) : [shape];
+			const width = (item.strokeWidth ?? 1) * scale;
+			fill(
+				raster,
+				lines.flatMap((line) => strokePolygons(device(line), width, closed && !item.dashed)),
+				item.stroke,
+			);
+		}
+	};
+
+	if (scene.background) {
+		fill(raster, [device(roundedRect(scene.x, scene.y, scene.width, scene.height, 0))], scene.background);
+	}
+	for (const item of scene.items) {
+		switch (item.kind) {
+			case "rect":
+				paint(roundedRect(item.x, item.y, item.width, item.height, item.radius), true, item);
+				break;
+			case "polygon":
+				paint(item.points, true, item);
+				break;
+			case "circle":
+				paint(ellipse(item.cx, item.cy, item.r, item.r).slice(0, -1), true, item);
+				break;
+			case "path":
+				for (const line of flattenPath(item.segments, scale)) paint(line, false, { ...item, fill: undefined });
+				break;
+			case "text":
+				if (fonts) {
+					fill(raster, textPolygons(item, item.bold ? fonts.bold : fonts.regular).map(device), item.color);
+				}
+		}
+	}
+	return raster;
+}
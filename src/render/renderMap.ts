@@ -0,0 +1,135 @@
+import { existsSync, readFileSync } from "node:fs";
+import { deflateSync } from "node:zlib";
+import { z } from "zod";
+import type { ProcessGraph } from "../types/process";
+import { crc32, setPngDpi } from "../utils/exportPng";
+import { buildScene } from "../utils/exportScene";
+import { sceneToSvg } from "../utils/exportSvg";
+import { fontMeasure, type Raster, type RasterFonts, rasterizeScene } from "./rasterize";
+import { parseFont } from "./truetype";
+
+/**
+ * Headless map rendering for GET /api/maps/:id/render.svg|png - the same
+ * scene the browser export draws, written as SVG or rasterized to PNG
+ */
+
+export type RenderFormat = "svg" | "png";
+
+export const MIN_RENDER_WIDTH = 100;
+export const MAX_RENDER_WIDTH = 4000;
+const MAX_RENDER_PIXELS = 16_000_000; // Caps the PNG height of very tall maps
+
+export const RenderQuerySchema = z.object({
+	theme: z.enum(["light", "dark"]).default("light"),
+	width: z.coerce.number().int().min(MIN_RENDER_WIDTH).max(MAX_RENDER_WIDTH).optional(),
+	statuses: z
+		.enum(["true", "false", "1", "0"])
+		.default("true")
+		.transform((value) => value === "true" || value === "1"),
+});
+
+export type RenderQuery = z.infer<typeof RenderQuerySchema>;
+
+// Sans-serif fonts for PNG text, first found wins (RENDER_FONT / RENDER_FONT_BOLD take precedence)
+const FONT_CANDIDATES = [
+	["/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf", "/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf"],
+	["/usr/share/fonts/dejavu/DejaVuSans.ttf", "/usr/share/fonts/dejavu/DejaVuSans-Bold.ttf"],
+	[
+		"/usr/share/fonts/truetype/liberation/LiberationSans-Regular.ttf",
+		"/usr/share/fonts/truetype/liberation/LiberationSans-Bold.ttf",
+	],
+	["/System/Library/Fonts/Supplemental/Arial.ttf", "/System/Library/Fonts/Supplemental/Arial Bold.ttf"],
+	["/Library/Fonts/Arial.ttf", "/Library/Fonts/Arial Bold.ttf"],
+	["C:\\Windows\\Fonts\\arial.ttf", "C:\\Windows\\Fonts\\arialbd.ttf"],
+] as const;
+
+let fonts: RasterFonts | null | undefined;
+
+/**
+ * Load the PNG text fonts once; null (text left out) when none is installed
+ */
+export function loadRenderFonts(
+	env: Record<string, string | undefined> = process.env,
+): RasterFonts | null {
+	if (fonts !== undefined) return fonts;
+	const configured = env.RENDER_FONT
+		? [[env.RENDER_FONT, env.RENDER_FONT_BOLD || env.RENDER_FONT] as const]
+		: [];
+	const paths = [...configured, ...FONT_CANDIDATES].find(([regular]) => existsSync(regular));
+	if (!paths) {
+		console.warn("⚠️  No TrueType font found for PNG rendering - set RENDER_FONT; text is left out");
+		fonts = null;
+		return fonts;
+	}
+	const load = (path: string) => parseFont(new Uint8Array(readFileSync(path)));
+	const regular = load(paths[0]);
+	fonts = { regular, bold: existsSync(paths[1]) ? load(paths[1]) : regular };
+	console.log(`🔤 PNG rendering font: ${paths[0]}`);
+	return fonts;
+}
+
+/** PNG file of RGBA pixels (unfiltered rows, zlib-compressed) */
+export function encodePng(raster: Raster): Uint8Array<ArrayBuffer> {
+	const { width, height, pixels } = raster;
+	const rows = new Uint8Array(height * (width * 4 + 1));
+	for (let y = 0; y < height; y++) {
+		rows.set(pixels.subarray(y * width * 4, (y + 1) * width * 4), y * (width * 4 + 1) + 1);
+	}
+
+	const chunk = (type: string, data: Uint8Array) => {
+		const bytes = new Uint8Array(12 + data.length);
+		const view = new DataView(bytes.buffer);
+		view.setUint32(0, data.length);
+		bytes.set([...type].map((c) => c.charCodeAt(0)), 4);
+		bytes.set(data, 8);
+		view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+		return bytes;
+	};
+	const header = new Uint8Array(13);
+	const headerView = new DataView(header.buffer);
+	headerView.setUint32(0, width);
+	headerView.setUint32(4, height);
+	header.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA, no interlacing
+
+	const parts = [
+		new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+		chunk("IHDR", header),
+		chunk("IDAT", deflateSync(rows)),
+		chunk("IEND", new Uint8Array(0)),
+	];
+	const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		png.set(part, offset);
+		offset += part.length;
+	}
+	return png;
+}
+
+/**
+ * Render a stored map. `width` scales the whole image (default: 1 scene pixel
+ * per image pixel)
+ */
+export function renderMap(
+	graph: ProcessGraph,
+	format: RenderFormat,
+	query: RenderQuery,
+): { body: string | Uint8Array<ArrayBuffer>; contentType: string } {
+	const options = { theme: query.theme, statuses: query.statuses };
+	if (format === "svg") {
+		const scene = buildScene(graph, options);
+		const scale = query.width ? query.width / scene.width : 1;
+		return { body: sceneToSvg(scene, scale), contentType: "image/svg+xml; charset=utf-8" };
+	}
+
+	// Lay the text out with the font it's drawn in
+	const fonts = loadRenderFonts() ?? undefined;
+	const scene = buildScene(graph, { ...options, measureText: fonts && fontMeasure(fonts) });
+	const scale = Math.min(
+		query.width ? query.width / scene.width : 1,
+		MAX_RENDER_WIDTH / scene.width,
+		Math.sqrt(MAX_RENDER_PIXELS / (scene.width * scene.height)),
+	);
+	const raster = rasterizeScene(scene, { scale, fonts });
+	return { body: setPngDpi(encodePng(raster), 96 * scale), contentType: "image/png" };
+}
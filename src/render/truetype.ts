@@ -0,0 +1,243 @@
+/**
+ * Minimal TrueType reader - just enough to draw text on the server: the
+ * character map (format 4), advance widths and glyph outlines (simple and
+ * composite glyphs). No hinting, kerning or OpenType/CFF outlines.
+ */
+
+export interface Glyph {
+	advance: number; // Font units
+	contours: { x: number; y: number }[][]; // Flattened outline in font units, y up
+}
+
+export interface Font {
+	unitsPerEm: number;
+	glyph(char: string): Glyph;
+}
+
+interface Table {
+	offset: number;
+	length: number;
+}
+
+const CURVE_STEPS = 6; // Line segments per quadratic curve
+
+export function parseFont(bytes: Uint8Array): Font {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const u16 = (offset: number) => view.getUint16(offset);
+	const i16 = (offset: number) => view.getInt16(offset);
+	const u32 = (offset: number) => view.getUint32(offset);
+
+	const version = u32(0);
+	if (version !== 0x00010000 && version !== 0x74727565) {
+		throw new Error("Not a TrueType font (only .ttf outlines are supported)");
+	}
+	const tables = new Map<string, Table>();
+	for (let i = 0; i < u16(4); i++) {
+		const record = 12 + i * 16;
+		const tag = String.fromCharCode(...bytes.subarray(record, record + 4));
+		tables.set(tag, { offset: u32(record + 8), length: u32(record + 12) });
+	}
+	const table = (tag: string): Table => {
+		const found = tables.get(tag);
+		if (!found) throw new Error(`Font has no ${tag} table`);
+		return found;
+	};
+
+	const head = table("head").offset;
+	const unitsPerEm = u16(head + 18);
+	const longLoca = i16(head + 50) === 1;
+	const numGlyphs = u16(table("maxp").offset + 4);
+	const numberOfHMetrics = u16(table("hhea").offset + 34);
+	const hmtx = table("hmtx").offset;
+	const loca = table("loca").offset;
+	const glyf = table("glyf").offset;
+
+	// Unicode BMP subtable of the character map
+	const cmap = table("cmap").offset;
+	let segments: { start: number; end: number; delta: number; rangeOffset: number; rangeAt: number }[] = [];
+	for (let i = 0; i < u16(cmap + 2); i++) {
+		const record = cmap + 4 + i * 8;
+		const platform = u16(record);
+		const encoding = u16(record + 2);
+		const subtable = cmap + u32(record + 4);
+		if (u16(subtable) !== 4 || !(platform === 0 || (platform === 3 && encoding === 1))) continue;
+		const count = u16(subtable + 6) / 2;
+		const ends = subtable + 14;
+		const starts = ends + count * 2 + 2;
+		const deltas = starts + count * 2;
+		const rangeOffsets = deltas + count * 2;
+		segments = Array.from({ length: count }, (_, s) => ({
+			end: u16(ends + s * 2),
+			start: u16(starts + s * 2),
+			delta: i16(deltas + s * 2),
+			rangeOffset: u16(rangeOffsets + s * 2),
+			rangeAt: rangeOffsets + s * 2,
+		}));
+		break;
+	}
+	if (segments.length === 0) throw new Error("Font has no Unicode character map");
+
+	const glyphIndex = (code: number): number => {
+		const segment = segments.find((s) => code >= s.start && code <= s.end);
+		if (!segment) return 0;
+		if (segment.rangeOffset === 0) return (code + segment.delta) & 0xffff;
+		const index = u16(segment.rangeAt + segment.rangeOffset + (code - segment.start) * 2);
+		return index === 0 ? 0 : (index + segment.delta) & 0xffff;
+	};
+
+	const advance = (index: number) => u16(hmtx + Math.min(index, numberOfHMetrics - 1) * 4);
+
+	const glyphRange = (index: number): [number, number] =>
+		longLoca
+			? [u32(loca + index * 4), u32(loca + index * 4 + 4)]
+			: [u16(loca + index * 2) * 2, u16(loca + index * 2 + 2) * 2];
+
+	const outline = (index: number, depth = 0): { x: number; y: number }[][] => {
+		if (index >= numGlyphs || depth > 4) return [];
+		const [start, end] = glyphRange(index);
+		if (end <= start) return []; // Empty glyph (space)
+		const at = glyf + start;
+		const contourCount = i16(at);
+
+		if (contourCount < 0) {
+			// Composite glyph: transformed references to other glyphs
+			const contours: { x: number; y: number }[][] = [];
+			let offset = at + 10;
+			let more = true;
+			while (more) {
+				const flags = u16(offset);
+				const component = u16(offset + 2);
+				offset += 4;
+				const words = flags & 0x0001;
+				const dx = words ? i16(offset) : view.getInt8(offset);
+				const dy = words ? i16(offset + 2) : view.getInt8(offset + 1);
+				offset += words ? 4 : 2;
+				let [a, b, c, d] = [1, 0, 0, 1];
+				const f2dot14 = (o: number) => i16(o) / 16384;
+				if (flags & 0x0008) {
+					a = d = f2dot14(offset);
+					offset += 2;
+				} else if (flags & 0x0040) {
+					a = f2dot14(offset);
+					d = f2dot14(offset + 2);
+					offset += 4;
+				} else if (flags & 0x0080) {
+					[a, b, c, d] = [f2dot14(offset), f2dot14(offset + 2), f2dot14(offset + 4), f2dot14(offset + 6)];
+					offset += 8;
+				}
+				for (const contour of outline(component, depth + 1)) {
+					contours.push(contour.map((p) => ({ x: a * p.x + c * p.y + dx, y: b * p.x + d * p.y + dy })));
+				}
+				more = Boolean(flags & 0x0020);
+			}
+			return contours;
+		}
+
+		// Simple glyph: contour end points, instructions, flags, then delta-encoded coordinates
+		const endPoints = Array.from({ length: contourCount }, (_, i) => u16(at + 10 + i * 2));
+		const pointCount = (endPoints[contourCount - 1] ?? -1) + 1;
+		let offset = at + 10 + contourCount * 2;
+		offset += 2 + u16(offset);
+
+		const flags: number[] = [];
+		while (flags.length < pointCount) {
+			const flag = bytes[offset++] as number;
+			flags.push(flag);
+			if (flag & 0x08) {
+				for (let repeat = bytes[offset++] as number; repeat > 0; repeat--) flags.push(flag);
+			}
+		}
+		const readCoordinates = (shortBit: number, sameBit: number) => {
+			const values: number[] = [];
+			let value = 0;
+			for (const flag of flags) {
+				if (flag & shortBit) {
+					const delta = bytes[offset++] as number;
+					value += flag & sameBit ? delta : -delta;
+				} else if (!(flag & sameBit)) {
+					value += i16(offset);
+					offset += 2;
+				}
+				values.push(value);
+			}
+			return values;
+		};
+		const xs = readCoordinates(0x02, 0x10);
+		const ys = readCoordinates(0x04, 0x20);
+
+		let first = 0;
+		return endPoints.map((last) => {
+			const points = [];
+			for (let i = first; i <= last; i++) {
+				points.push({ x: xs[i] as number, y: ys[i] as number, on: Boolean((flags[i] as number) & 0x01) });
+			}
+			first = last + 1;
+			return flattenContour(points);
+		});
+	};
+
+	const cache = new Map<string, Glyph>();
+	return {
+		unitsPerEm,
+		glyph(char) {
+			let glyph = cache.get(char);
+			if (!glyph) {
+				const index = glyphIndex(char.codePointAt(0) ?? 0);
+				glyph = { advance: advance(index), contours: outline(index) };
+				cache.set(char, glyph);
+			}
+			return glyph;
+		},
+	};
+}
+
+/**
+ * Quadratic TrueType contour (on/off-curve points, with implied on-curve
+ * points between consecutive off-curve ones) as a polygon
+ */
+function flattenContour(points: { x: number; y: number; on: boolean }[]): { x: number; y: number }[] {
+	if (points.length === 0) return [];
+	const mid = (p: { x: number; y: number }, q: { x: number; y: number }) => ({
+		x: (p.x + q.x) / 2,
+		y: (p.y + q.y) / 2,
+	});
+	// Start on an on-curve point (or the midpoint of two off-curve ones)
+	const startIndex = points.findIndex((p) => p.on);
+	const start =
+		startIndex >= 0
+			? (points[startIndex] as { x: number; y: number })
+			: mid(points[0] as { x: number; y: number }, points[points.length - 1] as { x: number; y: number });
+	const ordered = startIndex >= 0 ? [...points.slice(startIndex + 1), ...points.slice(0, startIndex + 1)] : points;
+
+	const polygon = [start];
+	let current = start;
+	let control: { x: number; y: number } | null = null;
+	const curveTo = (c: { x: number; y: number }, end: { x: number; y: number }) => {
+		for (let step = 1; step <= CURVE_STEPS; step++) {
+			const t = step / CURVE_STEPS;
+			const u = 1 - t;
+			polygon.push({
+				x: u * u * current.x + 2 * u * t * c.x + t * t * end.x,
+				y: u * u * current.y + 2 * u * t * c.y + t * t * end.y,
+			});
+		}
+		current = end;
+	};
+	for (const point of [...ordered, ...(startIndex >= 0 ? [] : [{ ...start, on: true }])]) {
+		if (point.on) {
+			if (control) curveTo(control, point);
+			else {
+				polygon.push(point);
+				current = point;
+			}
+			control = null;
+		} else if (control) {
+			curveTo(control, mid(control, point));
+			control = point;
+		} else {
+			control = point;
+		}
+	}
+	if (control) curveTo(control, start);
+	return polygon.map(({ x, y }) => ({ x, y }));
+}
@@ -2,6 +2,30 @@ import type { Edge, EdgeMarker, Node } from "@xyflow/react";
 
 export type NodeStatus = "normal" | "bottleneck" | "issue" | "complete";
 
+export type DurationUnit = "minutes" | "hours" | "days" | "weeks";
+
+/** Time span in calendar time (1 day = 24 hours) */
+export interface Duration {
+	value: number;
+	unit: DurationUnit;
+}
+
+export type DistributionKind = "fixed" | "uniform" | "triangular" | "exponential";
+
+/**
+ * How a step's duration varies around its cycle time in simulations: uniform
+ * and triangular span cycle time ± spread, exponential has the cycle time as mean
+ */
+export interface DurationDistribution {
+	kind: DistributionKind;
+	spread?: number; // Share of the cycle time, 0-1 (default 0.5)
+}
+
+export interface Cost {
+	amount: number;
+	currency: string; // ISO 4217 code, e.g. "USD"
+}
+
 export interface ProcessNode extends Node {
 	data: {
 		label: string;
@@ -10,20 +34,50 @@ export interface ProcessNode extends Node {
 		color?: string;
 		issueDetails?: string;
 		outputCount?: number; // For decision diamonds - number of output handles
+		laneId?: string; // Swimlane (ProcessLane.id) the step belongs to
+		// Subprocess nodes: contents embedded in the node, or another saved map (maps.id)
+		childGraph?: ProcessGraph;
+		mapRef?: string;
+		expanded?: boolean; // Subprocess shown open in place
+		// Metrics (see utils/metrics)
+		cycleTime?: Duration; // Active work time of the step
+		sla?: Duration; // Target time for the step
+		cost?: Cost; // Per run of the step
+		// Simulation (see utils/simulation)
+		distribution?: DurationDistribution; // Default: always the cycle time
+		capacity?: number; // Cases worked on at once (default 1)
 	};
 }
 
 export interface ProcessEdge extends Edge {
-	type?: "default" | "bezier" | "straight" | "step" | "smoothstep";
+	// Built-in edge types, plus the custom edges registered in ProcessMap
+	type?: "default" | "bezier" | "straight" | "step" | "smoothstep" | "selfConnecting" | "floating";
 	markerEnd?: EdgeMarker | string;
 	label?: string;
 	labelStyle?: React.CSSProperties;
 	labelShowBg?: boolean;
 	labelBgStyle?: React.CSSProperties;
 	animated?: boolean;
+	data?: {
+		waitTime?: Duration; // Delay between the two steps (queue, handoff)
+		probability?: number; // Decision branches: share of runs taking this edge (0-1)
+		iterations?: number; // Loop-backs: expected times the loop is taken per run
+	};
+}
+
+/**
+ * Swimlane - a role, department or system. Lanes are stacked across the flow
+ * (rows in left-to-right layouts, columns in top-to-bottom ones) in array order
+ */
+export interface ProcessLane {
+	id: string;
+	label: string;
+	color?: string;
+	size?: number; // Row height / column width in px (default DEFAULT_LANE_SIZE)
 }
 
 export interface ProcessGraph {
 	nodes: ProcessNode[];
 	edges: ProcessEdge[];
+	lanes?: ProcessLane[];
 }
@@ -1,4 +1,10 @@
-import type { Edge, Node } from "@xyflow/react";
+import { type Edge, type Node, Position } from "@xyflow/react";
+import type { ProcessLane } from "../types/process";
+import { buildAdjacency, findSubgraphs } from "./graphAnalysis";
+import { DEFAULT_LANE_SIZE, laneBands } from "./lanes";
+
+// TB: spine runs down the page; LR: spine runs to the right, branches spread vertically
+export type LayoutDirection = "TB" | "LR";
 
 // Node dimensions by type (MUST match actual rendered CSS sizes!)
 // DiamondNode.tsx: width: "160px", height: "160px"
@@ -8,19 +14,22 @@ const NODE_WIDTHS: Record<string, number> = {
 	default: 150,  // RectangleNode min-w-[150px]
 	diamond: 160,  // DiamondNode width: 160px
 	oval: 160,     // OvalNode min-w-[160px]
+	subprocess: 150, // SubprocessNode min-w-[150px] (collapsed)
 };
 
 const NODE_HEIGHTS: Record<string, number> = {
 	default: 50,
 	diamond: 160,  // DiamondNode height: 160px
 	oval: 45,
+	subprocess: 60, // Label row + "+" marker
 };
 
-function getNodeWidth(type?: string): number {
+/** Default size of a node type, for nodes React Flow hasn't measured yet */
+export function getNodeWidth(type?: string): number {
 	return NODE_WIDTHS[type || "default"] ?? 180;
 }
 
-function getNodeHeight(type?: string): number {
+export function getNodeHeight(type?: string): number {
 	return NODE_HEIGHTS[type || "default"] ?? 50;
 }
 
@@ -38,6 +47,31 @@ export const LAYOUT_PRESETS: LayoutParams[] = [
 	{ name: "Default", centerX: 300, verticalGap: 60, branchOffset: 200, subgraphGap: 300 },
 ];
 
+/**
+ * Where a node's handle sits for a layout direction
+ * LR mirrors TB across the diagonal: top <-> left, bottom <-> right
+ */
+export function rotateHandle(position: Position, horizontal: boolean): Position {
+	if (!horizontal) return position;
+	switch (position) {
+		case Position.Top:
+			return Position.Left;
+		case Position.Left:
+			return Position.Top;
+		case Position.Bottom:
+			return Position.Right;
+		case Position.Right:
+			return Position.Bottom;
+	}
+}
+
+/**
+ * Direction a graph was laid out in (the layout stamps it on the nodes' handles)
+ */
+export function detectLayoutDirection(nodes: Node[]): LayoutDirection {
+	return nodes.some((n) => n.targetPosition === Position.Left) ? "LR" : "TB";
+}
+
 // Default layout constants (used when no params provided)
 const CENTER_X = 300; // Center of first subgraph
 const BRANCH_OFFSET = 200;
@@ -50,42 +84,43 @@ const VERTICAL_GAP = 60; // Minimum gap between bottom of one node and top of ne
  * - Main path forms vertical center axis
  * - Decision branches spread symmetrically
  * - Loop-back edges don't affect positioning
+ * - LR runs the same algorithm with the axes swapped
+ * - With lanes, steps keep their level along the flow but are moved across it
+ *   into their lane, and lanes are resized to fit (see arrangeInLanes)
  */
 export async function getLayoutedElements(
 	nodes: Node[],
 	edges: Edge[],
-	_direction: "TB" | "LR" = "TB",
+	direction: LayoutDirection = "TB",
 	params?: LayoutParams,
-): Promise<{ nodes: Node[]; edges: Edge[]; presetName: string }> {
+	lanes?: ProcessLane[],
+): Promise<{
+	nodes: Node[];
+	edges: Edge[];
+	presetName: string;
+	lanes?: ProcessLane[];
+}> {
 	// Use provided params or defaults
 	const centerX = params?.centerX ?? CENTER_X;
 	const verticalGap = params?.verticalGap ?? VERTICAL_GAP;
 	const branchOffset = params?.branchOffset ?? BRANCH_OFFSET;
 	const subgraphGap = params?.subgraphGap ?? SUBGRAPH_GAP;
 	const presetName = params?.name ?? "Default";
+	const horizontal = direction === "LR";
 
 	if (nodes.length === 0) {
-		return { nodes: [], edges: [], presetName };
+		return { nodes: [], edges: [], presetName, lanes };
 	}
 
 	// Build adjacency map (excluding loop-back edges)
+	// Loop-backs are judged by the direction the nodes are currently laid out in
+	const laidOutHorizontally = detectLayoutDirection(nodes) === "LR";
 	const forwardEdges = edges.filter(
-		(e) => e.type !== "selfConnecting" && !isLoopBack(e, nodes),
+		(e) => e.type !== "selfConnecting" && !isLoopBack(e, nodes, laidOutHorizontally),
 	);
 
 	// Build parent/children relationships
-	const childrenOf = new Map<string, string[]>();
-	const parentOf = new Map<string, string[]>();
-
-	for (const edge of forwardEdges) {
-		const children = childrenOf.get(edge.source) || [];
-		children.push(edge.target);
-		childrenOf.set(edge.source, children);
-
-		const parents = parentOf.get(edge.target) || [];
-		parents.push(edge.source);
-		parentOf.set(edge.target, parents);
-	}
+	const { childrenOf, parentOf } = buildAdjacency(forwardEdges);
 
 	// Find all disconnected subgraphs
 	const subgraphs = findSubgraphs(nodes, forwardEdges);
@@ -113,6 +148,7 @@ export async function getLayoutedElements(
 			subgraphCenterX,
 			verticalGap,
 			branchOffset,
+			horizontal,
 		);
 
 		allLayoutedNodes.push(...layoutedNodes);
@@ -124,57 +160,95 @@ export async function getLayoutedElements(
 		}
 	}
 
-	return { nodes: allLayoutedNodes, edges, presetName };
+	const laned = lanes?.length
+		? arrangeInLanes(allLayoutedNodes, lanes, horizontal, branchOffset)
+		: { nodes: allLayoutedNodes, lanes };
+
+	// Node components rotate their handles to match
+	const sourcePosition = horizontal ? Position.Right : Position.Bottom;
+	const targetPosition = horizontal ? Position.Left : Position.Top;
+	return {
+		nodes: laned.nodes.map((n) => ({ ...n, sourcePosition, targetPosition })),
+		edges,
+		presetName,
+		lanes: laned.lanes,
+	};
 }
 
 /**
- * Find disconnected subgraphs using Union-Find
+ * Lane-aware pass over a finished layout
+ * - Each step moves across the flow into its lane's band; steps sharing a lane
+ *   and a level are spread evenly inside it
+ * - Each lane grows to fit its busiest level
+ * - Steps without a known lane go in an unlabeled band after the last lane
  */
-function findSubgraphs(nodes: Node[], edges: Edge[]): Set<string>[] {
-	const parent = new Map<string, string>();
-
-	// Initialize each node as its own parent
+function arrangeInLanes(
+	nodes: Node[],
+	lanes: ProcessLane[],
+	horizontal: boolean,
+	spacing: number,
+): { nodes: Node[]; lanes: ProcessLane[] } {
+	const UNASSIGNED = "";
+	const laneIds = new Set(lanes.map((l) => l.id));
+	const laneOf = (n: Node) => {
+		const laneId = n.data.laneId;
+		return typeof laneId === "string" && laneIds.has(laneId) ? laneId : UNASSIGNED;
+	};
+	const mainOf = (n: Node) => Math.round(horizontal ? n.position.x : n.position.y);
+	const crossOf = (n: Node) => (horizontal ? n.position.y : n.position.x);
+	const crossSize = (n: Node) =>
+		horizontal ? getNodeHeight(n.type) : getNodeWidth(n.type);
+
+	// lane -> level (main-axis coordinate) -> steps
+	const levels = new Map<string, Map<number, Node[]>>();
 	for (const node of nodes) {
-		parent.set(node.id, node.id);
-	}
-
-	// Find root of a node
-	function find(id: string): string {
-		if (parent.get(id) !== id) {
-			parent.set(id, find(parent.get(id)!));
-		}
-		return parent.get(id)!;
-	}
-
-	// Union two nodes
-	function union(a: string, b: string) {
-		const rootA = find(a);
-		const rootB = find(b);
-		if (rootA !== rootB) {
-			parent.set(rootA, rootB);
-		}
+		const byLevel = levels.get(laneOf(node)) ?? new Map<number, Node[]>();
+		byLevel.set(mainOf(node), [...(byLevel.get(mainOf(node)) ?? []), node]);
+		levels.set(laneOf(node), byLevel);
 	}
-
-	// Union nodes connected by edges
-	for (const edge of edges) {
-		union(edge.source, edge.target);
-	}
-
-	// Group nodes by their root
-	const groups = new Map<string, Set<string>>();
-	for (const node of nodes) {
-		const root = find(node.id);
-		if (!groups.has(root)) {
-			groups.set(root, new Set());
+	const bandSize = (laneId: string) => {
+		const busiest = Math.max(
+			1,
+			...Array.from(levels.get(laneId)?.values() ?? [], (steps) => steps.length),
+		);
+		return Math.max(DEFAULT_LANE_SIZE, busiest * spacing);
+	};
+
+	const sizedLanes = lanes.map((lane) => ({ ...lane, size: bandSize(lane.id) }));
+	const bands = laneBands(sizedLanes);
+	const bandStart = new Map(bands.map((b) => [b.lane.id, b.start]));
+	bandStart.set(UNASSIGNED, (bands.at(-1)?.end ?? 0) + spacing / 2);
+
+	const crossPosition = new Map<string, number>();
+	for (const [laneId, byLevel] of levels) {
+		const start = bandStart.get(laneId) ?? 0;
+		const size = bandSize(laneId);
+		for (const steps of byLevel.values()) {
+			const slot = size / steps.length;
+			[...steps]
+				.sort((a, b) => crossOf(a) - crossOf(b))
+				.forEach((step, i) => {
+					crossPosition.set(step.id, start + slot * (i + 0.5) - crossSize(step) / 2);
+				});
 		}
-		groups.get(root)!.add(node.id);
 	}
 
-	return Array.from(groups.values());
+	return {
+		nodes: nodes.map((n) => {
+			const cross = crossPosition.get(n.id) ?? crossOf(n);
+			return {
+				...n,
+				position: horizontal ? { x: n.position.x, y: cross } : { x: cross, y: n.position.y },
+			};
+		}),
+		lanes: sizedLanes,
+	};
 }
 
 /**
  * Layout a single connected subgraph
+ * Computed top-to-bottom; for horizontal layouts "x"/"width" are the vertical
+ * axis and "y"/"height" the horizontal one, and positions are swapped at the end
  */
 function layoutSubgraph(
 	nodes: Node[],
@@ -184,11 +258,16 @@ function layoutSubgraph(
 	startX: number,
 	verticalGap: number = VERTICAL_GAP,
 	branchOffset: number = BRANCH_OFFSET,
+	horizontal = false,
 ): { layoutedNodes: Node[]; width: number } {
 	if (nodes.length === 0) {
 		return { layoutedNodes: [], width: 0 };
 	}
 
+	// Size across the flow and along it
+	const crossSize = horizontal ? getNodeHeight : getNodeWidth;
+	const mainSize = horizontal ? getNodeWidth : getNodeHeight;
+
 	// Find start node (no incoming edges within this subgraph)
 	const subgraphIds = new Set(nodes.map((n) => n.id));
 	const allTargets = new Set(edges.map((e) => e.target));
@@ -199,7 +278,9 @@ function layoutSubgraph(
 		return {
 			layoutedNodes: nodes.map((n) => ({
 				...n,
-				position: { x: n.position.x + startX, y: n.position.y },
+				position: horizontal
+					? { x: n.position.x, y: n.position.y + startX }
+					: { x: n.position.x + startX, y: n.position.y },
 			})),
 			width: 400,
 		};
@@ -256,7 +337,7 @@ function layoutSubgraph(
 		const nodesAtThisLevel = levelNodes.get(level) || [];
 		let maxHeightAtLevel = 0;
 		for (const node of nodesAtThisLevel) {
-			const height = getNodeHeight(node.type);
+			const height = mainSize(node.type);
 			maxHeightAtLevel = Math.max(maxHeightAtLevel, height);
 		}
 
@@ -280,7 +361,7 @@ function layoutSubgraph(
 		const nodesAtLevel = levelNodes.get(level) || [node];
 		const nodeIndex = nodesAtLevel.indexOf(node);
 		const nodeCount = nodesAtLevel.length;
-		const nodeWidth = getNodeWidth(node.type);
+		const nodeWidth = crossSize(node.type);
 
 		let x: number;
 		let visualCenterX: number;
@@ -342,13 +423,13 @@ function layoutSubgraph(
 
 		console.log(
 			`Node ${node.id} "${node.data.label}": ` +
-			`type=${node.type}, height=${getNodeHeight(node.type)}, ` +
+			`type=${node.type}, height=${mainSize(node.type)}, ` +
 			`position.x=${x}, visualCenter=${visualCenterX}, y=${y}`
 		);
 
 		return {
 			...node,
-			position: { x, y },
+			position: horizontal ? { x: y, y: x } : { x, y },
 		};
 	});
 
@@ -360,11 +441,13 @@ function layoutSubgraph(
 /**
  * Check if an edge is a loop-back (target comes before source in typical flow)
  */
-function isLoopBack(edge: Edge, nodes: Node[]): boolean {
+function isLoopBack(edge: Edge, nodes: Node[], horizontal = false): boolean {
 	const sourceNode = nodes.find((n) => n.id === edge.source);
 	const targetNode = nodes.find((n) => n.id === edge.target);
 	if (!sourceNode || !targetNode) return false;
 
-	// If target is positioned above source, it's a loop-back
-	return targetNode.position.y < sourceNode.position.y;
+	// If target is positioned above (or left of) source, it's a loop-back
+	return horizontal
+		? targetNode.position.x < sourceNode.position.x
+		: targetNode.position.y < sourceNode.position.y;
 }
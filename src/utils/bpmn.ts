@@ -0,0 +1,714 @@
+import { Position } from "@xyflow/react";
+import type { ProcessEdge, ProcessGraph, ProcessLane, ProcessNode } from "../types/process";
+import { detectLayoutDirection, getLayoutedElements } from "./autoLayout";
+import { routeDecisionBranches, standardEdge } from "./edgeHelpers";
+import { buildLaneNodes, DEFAULT_LANE_SIZE, LANE_HEADER_SIZE } from "./lanes";
+import { escapeXml } from "./xml";
+
+/**
+ * BPMN 2.0 XML interchange (Camunda, Signavio, bpmn.io)
+ *
+ * Export maps ovals to start events (no incoming flow) or end events, rectangles
+ * to tasks, diamonds to exclusive gateways, subprocesses to sub-processes (embedded)
+ * or call activities (linked maps), edges to sequence flows and lanes to a pool
+ * with lanes. BPMNDI shapes and edges come from the current positions.
+ *
+ * Import reads the same elements back (any task or gateway kind), positions
+ * steps from BPMNDI when every shape is there and auto-lays them out otherwise.
+ * Elements without a ProcessXY counterpart are skipped and reported.
+ */
+
+const NAMESPACES = {
+	"xmlns:bpmn": "http://www.omg.org/spec/BPMN/20100524/MODEL",
+	"xmlns:bpmndi": "http://www.omg.org/spec/BPMN/20100524/DI",
+	"xmlns:dc": "http://www.omg.org/spec/DD/20100524/DC",
+	"xmlns:di": "http://www.omg.org/spec/DD/20100524/DI",
+	"xmlns:xsi": "http://www.w3.org/2001/XMLSchema-instance",
+};
+
+// BPMN's usual event/gateway sizes - centered on the ProcessXY node
+const EVENT_SIZE = 36;
+const GATEWAY_SIZE = 50;
+
+type Attributes = Record<string, string | number | boolean | undefined>;
+
+interface Bounds {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+interface Point {
+	x: number;
+	y: number;
+}
+
+type BpmnElement =
+	| "startEvent"
+	| "endEvent"
+	| "task"
+	| "exclusiveGateway"
+	| "subProcess"
+	| "callActivity";
+
+type IdFactory = (prefix: string, id: string) => string;
+
+function xmlAttributes(attrs: Attributes): string {
+	return Object.entries(attrs)
+		.filter(([, value]) => value !== undefined)
+		.map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+		.join("");
+}
+
+/**
+ * `<tag attrs />`, or `<tag attrs>` with one child per line (children are pre-indented)
+ */
+function xmlElement(tag: string, attrs: Attributes, children: string[] = [], indent = ""): string {
+	const attributes = xmlAttributes(attrs);
+	if (children.length === 0) return `${indent}<${tag}${attributes} />`;
+	return `${indent}<${tag}${attributes}>\n${children.join("\n")}\n${indent}</${tag}>`;
+}
+
+/**
+ * XML IDs must be NCNames - ProcessXY IDs like "1" or "e1-2" are prefixed
+ * and cleaned, with a counter on collisions
+ */
+function createIdFactory(): IdFactory {
+	const used = new Set<string>();
+	return (prefix, id) => {
+		const base = `${prefix}_${id.replace(/[^A-Za-z0-9_.-]/g, "_")}`;
+		let xmlId = base;
+		for (let n = 2; used.has(xmlId); n++) xmlId = `${base}_${n}`;
+		used.add(xmlId);
+		return xmlId;
+	};
+}
+
+function bpmnElementOf(node: ProcessNode, hasIncoming: boolean): BpmnElement {
+	switch (node.type) {
+		case "oval":
+			return hasIncoming ? "endEvent" : "startEvent";
+		case "diamond":
+			return "exclusiveGateway";
+		case "subprocess":
+			return node.data.mapRef ? "callActivity" : "subProcess";
+		default:
+			return "task";
+	}
+}
+
+/** Rendered (or default) size of a ProcessXY node */
+function nodeBounds(node: ProcessNode): Bounds {
+	const defaultWidth = node.type === "oval" || node.type === "diamond" ? 160 : 150;
+	const defaultHeight =
+		node.type === "diamond" ? 160 : node.type === "oval" ? 45 : node.type === "subprocess" ? 60 : 50;
+	return {
+		x: node.position.x,
+		y: node.position.y,
+		width: node.measured?.width ?? node.width ?? defaultWidth,
+		height: node.measured?.height ?? node.height ?? defaultHeight,
+	};
+}
+
+/** BPMN shape bounds: events and gateways shrink to their standard size around the node's center */
+function shapeBounds(node: ProcessNode, element: BpmnElement): Bounds {
+	const bounds = nodeBounds(node);
+	const size =
+		element === "startEvent" || element === "endEvent"
+			? EVENT_SIZE
+			: element === "exclusiveGateway"
+				? GATEWAY_SIZE
+				: undefined;
+	if (!size) return bounds;
+	return {
+		x: bounds.x + (bounds.width - size) / 2,
+		y: bounds.y + (bounds.height - size) / 2,
+		width: size,
+		height: size,
+	};
+}
+
+function center(bounds: Bounds): Point {
+	return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+}
+
+/** Where the line from the center of `bounds` toward `target` leaves the shape */
+function borderPoint(bounds: Bounds, target: Point): Point {
+	const { x: cx, y: cy } = center(bounds);
+	const dx = target.x - cx;
+	const dy = target.y - cy;
+	if (dx === 0 && dy === 0) return { x: cx, y: cy };
+	const scale = Math.min(
+		dx === 0 ? Number.POSITIVE_INFINITY : bounds.width / 2 / Math.abs(dx),
+		dy === 0 ? Number.POSITIVE_INFINITY : bounds.height / 2 / Math.abs(dy),
+	);
+	return { x: cx + dx * scale, y: cy + dy * scale };
+}
+
+function boundsXml(b: Bounds): string {
+	return xmlElement("dc:Bounds", {
+		x: Math.round(b.x),
+		y: Math.round(b.y),
+		width: Math.round(b.width),
+		height: Math.round(b.height),
+	});
+}
+
+function shapeXml(id: string, bounds: Bounds, attrs: Attributes = {}): string {
+	const attributes = xmlAttributes({ id: `${id}_di`, bpmnElement: id, ...attrs });
+	return `<bpmndi:BPMNShape${attributes}>${boundsXml(bounds)}</bpmndi:BPMNShape>`;
+}
+
+function edgeXml(id: string, points: Point[]): string {
+	const waypoints = points
+		.map((p) => xmlElement("di:waypoint", { x: Math.round(p.x), y: Math.round(p.y) }))
+		.join("");
+	return `<bpmndi:BPMNEdge id="${id}_di" bpmnElement="${id}">${waypoints}</bpmndi:BPMNEdge>`;
+}
+
+function diagramXml(xmlId: IdFactory, element: string, shapes: string[]): string {
+	const diagram = xmlId("BPMNDiagram", element);
+	return xmlElement(
+		"bpmndi:BPMNDiagram",
+		{ id: diagram },
+		[
+			xmlElement(
+				"bpmndi:BPMNPlane",
+				{ id: `${diagram}_plane`, bpmnElement: element },
+				shapes.map((s) => `      ${s}`),
+				"    ",
+			),
+		],
+		"  ",
+	);
+}
+
+interface SerializedFlow {
+	elements: string[]; // Flow elements (inside <process> or <subProcess>)
+	shapes: string[]; // BPMNDI for this level
+	nodeIds: Map<string, string>; // ProcessXY node ID -> XML ID
+	diagrams: string[]; // Extra BPMNDiagrams for embedded subprocess levels
+}
+
+/**
+ * Serialize one level (the map or an embedded subprocess) - nested levels recurse
+ * and get their own diagram, which BPMN tools open as a drill-down
+ */
+function serializeFlow(
+	graph: ProcessGraph,
+	xmlId: IdFactory,
+	indent: string,
+	scope: string,
+): SerializedFlow {
+	const nodeIds = new Map(graph.nodes.map((n) => [n.id, xmlId(`${scope}Node`, n.id)]));
+	const edges = graph.edges.filter((e) => nodeIds.has(e.source) && nodeIds.has(e.target));
+	const flowIds = new Map(edges.map((e) => [e.id, xmlId(`${scope}Flow`, e.id)]));
+	const incoming = new Map<string, ProcessEdge[]>();
+	const outgoing = new Map<string, ProcessEdge[]>();
+	for (const edge of edges) {
+		incoming.set(edge.target, [...(incoming.get(edge.target) ?? []), edge]);
+		outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge]);
+	}
+
+	const elements: string[] = [];
+	const shapes: string[] = [];
+	const diagrams: string[] = [];
+	const bounds = new Map<string, Bounds>();
+	const kinds = new Map<string, BpmnElement>();
+	const inner = `${indent}  `;
+
+	for (const node of graph.nodes) {
+		const id = nodeIds.get(node.id) as string;
+		const element = bpmnElementOf(node, incoming.has(node.id));
+		kinds.set(node.id, element);
+
+		const children: string[] = [];
+		if (node.data.description) {
+			children.push(`${inner}<bpmn:documentation>${escapeXml(node.data.description)}</bpmn:documentation>`);
+		}
+		for (const e of incoming.get(node.id) ?? []) {
+			children.push(`${inner}<bpmn:incoming>${flowIds.get(e.id)}</bpmn:incoming>`);
+		}
+		for (const e of outgoing.get(node.id) ?? []) {
+			children.push(`${inner}<bpmn:outgoing>${flowIds.get(e.id)}</bpmn:outgoing>`);
+		}
+		const child = element === "subProcess" ? node.data.childGraph : undefined;
+		if (child) {
+			const nested = serializeFlow(child, xmlId, inner, `${id}_`);
+			children.push(...nested.elements);
+			diagrams.push(diagramXml(xmlId, id, nested.shapes), ...nested.diagrams);
+		}
+
+		elements.push(
+			xmlElement(
+				`bpmn:${element}`,
+				{
+					id,
+					name: String(node.data.label ?? ""),
+					calledElement: element === "callActivity" ? node.data.mapRef : undefined,
+				},
+				children,
+				indent,
+			),
+		);
+
+		const shape = shapeBounds(node, element);
+		bounds.set(node.id, shape);
+		shapes.push(shapeXml(id, shape, element === "subProcess" ? { isExpanded: false } : {}));
+	}
+
+	for (const edge of edges) {
+		const id = flowIds.get(edge.id) as string;
+		const label = typeof edge.label === "string" && edge.label ? edge.label : undefined;
+		// Decision branch labels become the flow's condition
+		const condition =
+			label && kinds.get(edge.source) === "exclusiveGateway"
+				? [
+						`${inner}<bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">${escapeXml(label)}</bpmn:conditionExpression>`,
+					]
+				: [];
+		elements.push(
+			xmlElement(
+				"bpmn:sequenceFlow",
+				{
+					id,
+					name: label,
+					sourceRef: nodeIds.get(edge.source),
+					targetRef: nodeIds.get(edge.target),
+				},
+				condition,
+				indent,
+			),
+		);
+
+		const from = bounds.get(edge.source) as Bounds;
+		const to = bounds.get(edge.target) as Bounds;
+		shapes.push(edgeXml(id, [borderPoint(from, center(to)), borderPoint(to, center(from))]));
+	}
+
+	return { elements, shapes, nodeIds, diagrams };
+}
+
+/**
+ * Lanes become a pool (participant) holding one lane per ProcessXY lane
+ */
+function serializeLanes(
+	lanes: ProcessLane[],
+	graph: ProcessGraph,
+	nodeIds: Map<string, string>,
+	xmlId: IdFactory,
+	horizontal: boolean,
+): { laneSet: string; shapes: string[]; poolBounds: Bounds } {
+	const laneNodes = buildLaneNodes(lanes, graph.nodes, horizontal);
+	const laneXml: string[] = [];
+	const shapes: string[] = [];
+
+	lanes.forEach((lane, i) => {
+		const id = xmlId("Lane", lane.id);
+		const refs = graph.nodes
+			.filter((n) => n.data.laneId === lane.id)
+			.map((n) => `        <bpmn:flowNodeRef>${nodeIds.get(n.id)}</bpmn:flowNodeRef>`);
+		laneXml.push(xmlElement("bpmn:lane", { id, name: lane.label }, refs, "      "));
+
+		const laneNode = laneNodes[i];
+		if (!laneNode) return;
+		const bounds = { ...laneNode.position, width: laneNode.width ?? 0, height: laneNode.height ?? 0 };
+		shapes.push(shapeXml(id, bounds, { isHorizontal: horizontal }));
+	});
+
+	// The pool adds its own header strip before the lanes
+	const x0 = Math.min(...laneNodes.map((n) => n.position.x)) - (horizontal ? LANE_HEADER_SIZE : 0);
+	const y0 = Math.min(...laneNodes.map((n) => n.position.y)) - (horizontal ? 0 : LANE_HEADER_SIZE);
+	const x1 = Math.max(...laneNodes.map((n) => n.position.x + (n.width ?? 0)));
+	const y1 = Math.max(...laneNodes.map((n) => n.position.y + (n.height ?? 0)));
+
+	return {
+		laneSet: xmlElement("bpmn:laneSet", { id: xmlId("LaneSet", "1") }, laneXml, "    "),
+		shapes,
+		poolBounds: { x: x0, y: y0, width: x1 - x0, height: y1 - y0 },
+	};
+}
+
+/**
+ * Serialize a map as a BPMN 2.0 definitions document with diagram interchange
+ */
+export function exportBpmn(graph: ProcessGraph, name: string): string {
+	const xmlId = createIdFactory();
+	const processId = xmlId("Process", "1");
+	const flow = serializeFlow(graph, xmlId, "    ", "");
+	const horizontal = detectLayoutDirection(graph.nodes) === "LR";
+
+	const definitions: string[] = [];
+	let planeElement = processId;
+	const planeShapes = [...flow.shapes];
+	let laneSet: string[] = [];
+
+	if (graph.lanes?.length) {
+		const lanes = serializeLanes(graph.lanes, graph, flow.nodeIds, xmlId, horizontal);
+		const collaborationId = xmlId("Collaboration", "1");
+		const participantId = xmlId("Participant", "1");
+		definitions.push(
+			xmlElement(
+				"bpmn:collaboration",
+				{ id: collaborationId },
+				[xmlElement("bpmn:participant", { id: participantId, name, processRef: processId }, [], "    ")],
+				"  ",
+			),
+		);
+		planeElement = collaborationId;
+		planeShapes.unshift(
+			shapeXml(participantId, lanes.poolBounds, { isHorizontal: horizontal }),
+			...lanes.shapes,
+		);
+		laneSet = [lanes.laneSet];
+	}
+
+	definitions.push(
+		xmlElement(
+			"bpmn:process",
+			{ id: processId, name, isExecutable: false },
+			[...laneSet, ...flow.elements],
+			"  ",
+		),
+		diagramXml(xmlId, planeElement, planeShapes),
+		...flow.diagrams,
+	);
+
+	const root = xmlElement(
+		"bpmn:definitions",
+		{
+			...NAMESPACES,
+			id: "Definitions_1",
+			targetNamespace: "http://bpmn.io/schema/bpmn",
+			exporter: "ProcessXY",
+			exporterVersion: "1.0",
+		},
+		definitions,
+	);
+	return `<?xml version="1.0" encoding="UTF-8"?>\n${root}\n`;
+}
+
+// ===== Import =====
+
+const TASK_ELEMENTS = new Set([
+	"task",
+	"userTask",
+	"serviceTask",
+	"manualTask",
+	"scriptTask",
+	"sendTask",
+	"receiveTask",
+	"businessRuleTask",
+]);
+const GATEWAY_ELEMENTS = new Set([
+	"exclusiveGateway",
+	"inclusiveGateway",
+	"parallelGateway",
+	"eventBasedGateway",
+	"complexGateway",
+]);
+const SUBPROCESS_ELEMENTS = new Set([
+	"subProcess",
+	"transaction",
+	"adHocSubProcess",
+	"callActivity",
+]);
+// Children of a process that are read elsewhere or carry nothing to import
+const SKIPPED_ELEMENTS = new Set([
+	"sequenceFlow",
+	"laneSet",
+	"documentation",
+	"extensionElements",
+	"incoming",
+	"outgoing",
+]);
+
+// Labels for unnamed events (unnamed gateways are usually merges and stay blank)
+const DEFAULT_LABELS: Record<string, string> = { startEvent: "Start", endEvent: "End" };
+
+/** Parsed XML element - namespace prefixes are dropped from element and attribute names */
+interface XmlNode {
+	name: string;
+	attrs: Record<string, string>;
+	children: XmlNode[];
+	text: string;
+}
+
+interface DiShape {
+	bounds: Bounds;
+	isHorizontal?: boolean;
+}
+
+export interface BpmnImport {
+	name?: string; // Pool or process name, if the file has one
+	graph: ProcessGraph;
+	unsupported: string[]; // Skipped elements, e.g. "boundaryEvent ×2"
+}
+
+function localName(name: string): string {
+	return name.slice(name.indexOf(":") + 1);
+}
+
+function decodeXml(value: string): string {
+	return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+		if (entity[0] === "#") {
+			const hex = entity[1] === "x" || entity[1] === "X";
+			const code = hex ? Number.parseInt(entity.slice(2), 16) : Number.parseInt(entity.slice(1), 10);
+			return String.fromCodePoint(code);
+		}
+		return { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }[entity.toLowerCase()] ?? "";
+	});
+}
+
+/**
+ * Minimal XML reader for BPMN files (elements, attributes, text, CDATA) -
+ * comments, processing instructions and doctypes are skipped
+ */
+function parseXml(xml: string): XmlNode {
+	const root: XmlNode = { name: "", attrs: {}, children: [], text: "" };
+	const stack = [root];
+	const token =
+		/<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)|</g;
+
+	for (const match of xml.matchAll(token)) {
+		const [raw, cdata, closing, opening, attributes = "", selfClosing, text] = match;
+		const current = stack[stack.length - 1] as XmlNode;
+
+		if (cdata !== undefined) {
+			current.text += cdata;
+		} else if (text !== undefined) {
+			current.text += decodeXml(text);
+		} else if (closing) {
+			if (stack.length === 1 || current.name !== localName(closing)) {
+				throw new Error(`Invalid XML: unexpected </${closing}>`);
+			}
+			stack.pop();
+		} else if (opening) {
+			const attrs: Record<string, string> = {};
+			const pairs = attributes.matchAll(/([^\s=]+)\s*=\s*("[^"]*"|'[^']*')/g);
+			for (const [, key, quoted] of pairs) {
+				attrs[localName(key as string)] = decodeXml((quoted as string).slice(1, -1));
+			}
+			const element: XmlNode = { name: localName(opening), attrs, children: [], text: "" };
+			current.children.push(element);
+			if (!selfClosing) stack.push(element);
+		} else if (raw === "<") {
+			throw new Error("Invalid XML: unterminated tag");
+		}
+	}
+
+	if (stack.length > 1) {
+		throw new Error(`Invalid XML: <${stack[stack.length - 1]?.name}> is not closed`);
+	}
+	return root;
+}
+
+function childrenNamed(element: XmlNode, name: string): XmlNode[] {
+	return element.children.filter((c) => c.name === name);
+}
+
+function descendantsNamed(element: XmlNode, name: string): XmlNode[] {
+	return element.children.flatMap((c) => [
+		...(c.name === name ? [c] : []),
+		...descendantsNamed(c, name),
+	]);
+}
+
+/** BPMNDI shapes of every diagram by BPMN element ID */
+function collectShapes(definitions: XmlNode): Map<string, DiShape> {
+	const shapes = new Map<string, DiShape>();
+	for (const shape of descendantsNamed(definitions, "BPMNShape")) {
+		const bounds = childrenNamed(shape, "Bounds")[0];
+		const element = shape.attrs.bpmnElement;
+		if (!bounds || !element) continue;
+		const value = (key: string) => Number(bounds.attrs[key] ?? 0);
+		const isHorizontal = shape.attrs.isHorizontal;
+		shapes.set(element, {
+			bounds: { x: value("x"), y: value("y"), width: value("width"), height: value("height") },
+			isHorizontal: isHorizontal === undefined ? undefined : isHorizontal === "true",
+		});
+	}
+	return shapes;
+}
+
+function nodeTypeOf(element: string): ProcessNode["type"] | undefined {
+	if (TASK_ELEMENTS.has(element)) return "default";
+	if (element === "startEvent" || element === "endEvent") return "oval";
+	if (GATEWAY_ELEMENTS.has(element)) return "diamond";
+	if (SUBPROCESS_ELEMENTS.has(element)) return "subprocess";
+	return undefined;
+}
+
+function flowLabel(flow: XmlNode): string | undefined {
+	const condition = childrenNamed(flow, "conditionExpression")[0]?.text.trim();
+	return flow.attrs.name?.trim() || condition || undefined;
+}
+
+function importedEdge(flow: XmlNode): ProcessEdge {
+	return standardEdge({
+		id: flow.attrs.id as string,
+		source: flow.attrs.sourceRef as string,
+		target: flow.attrs.targetRef as string,
+		label: flowLabel(flow),
+	});
+}
+
+/**
+ * Lanes in file order, with the (leaf or nested) flow nodes of each
+ */
+function importLanes(process: XmlNode): { lanes: ProcessLane[]; laneOf: Map<string, string> } {
+	const lanes: ProcessLane[] = [];
+	const laneOf = new Map<string, string>();
+	for (const laneSet of childrenNamed(process, "laneSet")) {
+		for (const lane of childrenNamed(laneSet, "lane")) {
+			const id = lane.attrs.id as string;
+			lanes.push({ id, label: lane.attrs.name ?? "" });
+			for (const ref of descendantsNamed(lane, "flowNodeRef")) laneOf.set(ref.text.trim(), id);
+		}
+	}
+	return { lanes, laneOf };
+}
+
+/**
+ * Node positions from BPMNDI: each ProcessXY node is centered on its BPMN shape
+ * Lanes are sized from their shapes and steps shifted so the first lane starts at 0
+ */
+function positionFromDi(graph: ProcessGraph, shapes: Map<string, DiShape>): ProcessGraph {
+	const laneShapes = (graph.lanes ?? []).map((lane) => ({ lane, shape: shapes.get(lane.id) }));
+	const centers = graph.nodes.map((n) => center((shapes.get(n.id) as DiShape).bounds));
+	// Lanes tell the direction (BPMN lanes are rows unless marked otherwise), else the wider spread
+	const spread = (axis: "x" | "y") =>
+		Math.max(...centers.map((c) => c[axis])) - Math.min(...centers.map((c) => c[axis]));
+	const horizontal =
+		laneShapes[0]?.shape?.isHorizontal ?? (laneShapes.length > 0 || spread("x") > spread("y"));
+
+	const cross = (b: Bounds) => (horizontal ? b.y : b.x);
+	const extent = (b: Bounds) => (horizontal ? b.height : b.width);
+	const placed = laneShapes
+		.filter((l) => l.shape)
+		.sort((a, b) => cross((a.shape as DiShape).bounds) - cross((b.shape as DiShape).bounds));
+	const offset = placed[0]?.shape ? cross(placed[0].shape.bounds) : 0;
+	const lanes = [
+		...placed.map(({ lane, shape }) => ({ ...lane, size: extent((shape as DiShape).bounds) })),
+		...laneShapes.filter((l) => !l.shape).map(({ lane }) => ({ ...lane, size: DEFAULT_LANE_SIZE })),
+	];
+
+	const sourcePosition = horizontal ? Position.Right : Position.Bottom;
+	const targetPosition = horizontal ? Position.Left : Position.Top;
+	const nodes = graph.nodes.map((node, i) => {
+		const { x, y } = centers[i] as Point;
+		const { width, height } = nodeBounds(node);
+		const position = { x: x - width / 2, y: y - height / 2 };
+		if (horizontal) position.y -= offset;
+		else position.x -= offset;
+		return { ...node, position, sourcePosition, targetPosition };
+	});
+
+	return { ...graph, nodes, ...(graph.lanes ? { lanes } : {}) };
+}
+
+/**
+ * One level (a process or an embedded sub-process) as a ProcessXY graph
+ */
+async function importFlow(
+	container: XmlNode,
+	shapes: Map<string, DiShape>,
+	report: (element: string) => void,
+	withLanes: boolean,
+): Promise<ProcessGraph> {
+	const { lanes, laneOf } = importLanes(container);
+	const nodes: ProcessNode[] = [];
+
+	for (const element of container.children) {
+		const type = nodeTypeOf(element.name);
+		if (!type) {
+			if (!SKIPPED_ELEMENTS.has(element.name)) report(element.name);
+			continue;
+		}
+		if (GATEWAY_ELEMENTS.has(element.name) && element.name !== "exclusiveGateway") {
+			report(`${element.name} (imported as a decision)`);
+		}
+
+		const id = element.attrs.id as string;
+		const description = childrenNamed(element, "documentation")[0]?.text.trim();
+		const laneId = withLanes ? laneOf.get(id) : undefined;
+		const data: ProcessNode["data"] = {
+			label: element.attrs.name?.trim() || DEFAULT_LABELS[element.name] || "",
+			...(description ? { description } : {}),
+			...(laneId ? { laneId } : {}),
+		};
+		if (element.name === "callActivity") {
+			// ProcessXY map IDs (from our own export) stay linked
+			const calledElement = element.attrs.calledElement;
+			if (calledElement?.startsWith("map_")) data.mapRef = calledElement;
+			else report("callActivity (imported as an empty subprocess)");
+		} else if (type === "subprocess") {
+			data.childGraph = await importFlow(element, shapes, report, false);
+		}
+		nodes.push({ id, type, position: { x: 0, y: 0 }, data });
+	}
+
+	const ids = new Set(nodes.map((n) => n.id));
+	const flows = childrenNamed(container, "sequenceFlow").filter(
+		(f) => ids.has(f.attrs.sourceRef ?? "") && ids.has(f.attrs.targetRef ?? ""),
+	);
+	const edges = nodes.flatMap((node) => {
+		const outgoing = flows.filter((f) => f.attrs.sourceRef === node.id);
+		if (node.type !== "diamond") return outgoing.map(importedEdge);
+		node.data.outputCount = Math.max(outgoing.length, 1);
+		return routeDecisionBranches(outgoing.map(importedEdge));
+	});
+
+	const graph: ProcessGraph = { nodes, edges, ...(withLanes && lanes.length ? { lanes } : {}) };
+	if (nodes.length > 0 && nodes.every((n) => shapes.has(n.id))) {
+		return positionFromDi(graph, shapes);
+	}
+
+	// No diagram (or an incomplete one) - lay the level out from scratch
+	const layout = await getLayoutedElements(nodes, edges, "TB", undefined, graph.lanes);
+	return {
+		...graph,
+		nodes: layout.nodes as ProcessNode[],
+		...(layout.lanes ? { lanes: layout.lanes } : {}),
+	};
+}
+
+/**
+ * Read a BPMN 2.0 file into a map - the first pool's process (or the first
+ * process) with its lanes and embedded sub-processes
+ */
+export async function importBpmn(xml: string): Promise<BpmnImport> {
+	const definitions = parseXml(xml).children.find((c) => c.name === "definitions");
+	if (!definitions) throw new Error("Not a BPMN file: missing <definitions>");
+
+	const processes = childrenNamed(definitions, "process");
+	const participants = childrenNamed(definitions, "collaboration").flatMap((c) =>
+		childrenNamed(c, "participant"),
+	);
+	const pool = participants.find((p) =>
+		processes.some((proc) => proc.attrs.id === p.attrs.processRef),
+	);
+	const process = processes.find((p) => p.attrs.id === pool?.attrs.processRef) ?? processes[0];
+	if (!process) throw new Error("BPMN file has no process");
+
+	const counts = new Map<string, number>();
+	const report = (element: string) => counts.set(element, (counts.get(element) ?? 0) + 1);
+	for (const other of processes) {
+		if (other !== process && other.children.some((c) => nodeTypeOf(c.name))) {
+			report("process (only the first pool is imported)");
+		}
+	}
+	for (const collaboration of childrenNamed(definitions, "collaboration")) {
+		for (const flow of childrenNamed(collaboration, "messageFlow")) report(flow.name);
+	}
+
+	const graph = await importFlow(process, collectShapes(definitions), report, true);
+	return {
+		name: pool?.attrs.name?.trim() || process.attrs.name?.trim() || undefined,
+		graph,
+		unsupported: [...counts].map(([element, count]) =>
+			count > 1 ? `${element} ×${count}` : element,
+		),
+	};
+}
@@ -0,0 +1,19 @@
+/**
+ * Map name as a file name (keeps letters, digits, spaces, dots, dashes and underscores)
+ */
+export function toFileName(name: string, extension: string): string {
+	const base = name.replace(/[^\w .-]+/g, "").trim() || "process-map";
+	return `${base}.${extension}`;
+}
+
+/**
+ * Save content as a file through a temporary download link
+ */
+export function downloadFile(fileName: string, content: BlobPart, type: string) {
+	const url = URL.createObjectURL(new Blob([content], { type }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -1,4 +1,40 @@
 import { type Node, Position } from "@xyflow/react";
+import type { ProcessEdge } from "../types/process";
+
+export const EDGE_GRAY = "#64748b";
+export const YES_GREEN = "#22c55e";
+export const NO_RED = "#ef4444";
+
+/**
+ * Calculate bottom handle positions based on output count
+ * Positions are spread wide along the bottom edges of the diamond
+ * Diamond vertices: left(20,80) -> bottom(80,140) -> right(140,80)
+ */
+export function getBottomHandlePoints(count: number): { left: number; top: number }[] {
+	// Spread handles wide - use more of the diamond's bottom edges
+	// Percentages represent position from left vertex (0%) to right vertex (100%)
+	const xPercents =
+		count === 1
+			? [50] // Center bottom
+			: count === 2
+				? [20, 80] // Near the corners for clear left/right separation
+				: count === 3
+					? [15, 50, 85] // Wide spread for 3 outputs
+					: count === 4
+						? [12, 37, 63, 88] // Even wider for 4 outputs
+						: [...Array(count)].map((_, i) => 10 + (80 / (count - 1)) * i);
+
+	// Convert x percents into points on the lower edges of the diamond
+	// Diamond shape: left vertex at (20,80), bottom at (80,140), right at (140,80)
+	return xPercents.map((percent) => {
+		const x = 20 + ((140 - 20) * percent) / 100;
+		const isRightHalf = x >= 80;
+		// Calculate y position on the diamond edge
+		const y = isRightHalf ? 220 - x : x + 60;
+
+		return { left: x, top: y };
+	});
+}
 
 // Calculate the intersection point between two nodes for floating edges
 export function getEdgeParams(source: Node, target: Node) {
@@ -91,3 +127,47 @@ export function getEdgeParams(source: Node, target: Node) {
 
 	return { sx, sy, tx, ty, sourcePos, targetPos };
 }
+
+/**
+ * Edge in the standard style (see process-mapping-standards.md) - used by the
+ * importers. "Yes"/"No" labels color the branch green/red.
+ */
+export function standardEdge(edge: {
+	id: string;
+	source: string;
+	target: string;
+	label?: string;
+}): ProcessEdge {
+	const { label } = edge;
+	const color = /^yes$/i.test(label ?? "") ? YES_GREEN : /^no$/i.test(label ?? "") ? NO_RED : EDGE_GRAY;
+	return {
+		id: edge.id,
+		source: edge.source,
+		target: edge.target,
+		type: "smoothstep",
+		style: { strokeWidth: 2, stroke: color },
+		markerEnd: { type: "arrowclosed", width: 25, height: 25, color },
+		...(label
+			? {
+					label,
+					labelShowBg: true,
+					...(color !== EDGE_GRAY ? { labelStyle: { fill: color, fontWeight: 600 } } : {}),
+				}
+			: {}),
+	};
+}
+
+/**
+ * Put a decision's outgoing edges on the diamond's output handles:
+ * "left"/"right" for two branches (No left, Yes right), "output-N" otherwise
+ */
+export function routeDecisionBranches(edges: ProcessEdge[]): ProcessEdge[] {
+	const ordered =
+		edges.length === 2 && /^yes$/i.test(String(edges[0]?.label ?? ""))
+			? [edges[1] as ProcessEdge, edges[0] as ProcessEdge]
+			: edges;
+	return ordered.map((edge, i) => ({
+		...edge,
+		sourceHandle: edges.length === 2 ? (i === 0 ? "left" : "right") : `output-${i}`,
+	}));
+}
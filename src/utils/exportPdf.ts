@@ -0,0 +1,317 @@
+import type { ProcessGraph } from "../types/process";
+import {
+	type PathSegment,
+	type Scene,
+	type SceneItem,
+	STATUS_COLORS,
+	textWidth,
+} from "./exportScene";
+
+/**
+ * Minimal PDF writer for export scenes - vector output with the standard
+ * Helvetica fonts, so no font embedding or PDF library is needed
+ */
+
+export type PdfPageSize = "a4" | "letter";
+
+export interface PdfOptions {
+	title?: string;
+	pageSize?: PdfPageSize;
+	legend?: string[]; // Legend entries (see legendKinds) - none leaves out the footer
+}
+
+// Portrait sizes in points
+const PAGE_SIZES: Record<PdfPageSize, { width: number; height: number }> = {
+	a4: { width: 595.28, height: 841.89 },
+	letter: { width: 612, height: 792 },
+};
+
+const MARGIN = 36;
+const HEADER_HEIGHT = 28;
+const FOOTER_HEIGHT = 24;
+const PX_TO_PT = 0.75; // 96 CSS px per inch
+const MIN_SCALE = 0.35; // Below this the map is split across pages instead
+const KAPPA = 0.5523; // Bezier approximation of a quarter circle
+
+const LEGEND_LABELS: Record<string, string> = {
+	oval: "Start / End",
+	default: "Step",
+	diamond: "Decision",
+	subprocess: "Subprocess",
+	bottleneck: "Bottleneck",
+	issue: "Issue",
+	complete: "Complete",
+};
+
+// Windows-1252 codes of the common typographic characters outside Latin-1
+const WIN_ANSI: Record<string, number> = {
+	"€": 0x80,
+	"…": 0x85,
+	"‘": 0x91,
+	"’": 0x92,
+	"“": 0x93,
+	"”": 0x94,
+	"•": 0x95,
+	"–": 0x96,
+	"—": 0x97,
+	"™": 0x99,
+};
+
+/** PDF string literal in WinAnsiEncoding (unsupported characters become "?") */
+function pdfString(text: string): string {
+	let out = "";
+	for (const char of text) {
+		const code = char.codePointAt(0) ?? 63;
+		const byte = WIN_ANSI[char] ?? (code < 256 ? code : 63);
+		const c = String.fromCharCode(byte);
+		out += c === "\\" || c === "(" || c === ")" ? `\\${c}` : c;
+	}
+	return `(${out})`;
+}
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+
+function rgb(color: string): string {
+	const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+	if (!match) return "0 0 0";
+	return match
+		.slice(1)
+		.map((h) => num(Number.parseInt(h, 16) / 255))
+		.join(" ");
+}
+
+function pathOps(segments: PathSegment[]): string[] {
+	return segments.map((s) =>
+		s.op === "C"
+			? `${num(s.x1)} ${num(s.y1)} ${num(s.x2)} ${num(s.y2)} ${num(s.x)} ${num(s.y)} c`
+			: `${num(s.x)} ${num(s.y)} ${s.op === "M" ? "m" : "l"}`,
+	);
+}
+
+function roundedRect(x: number, y: number, w: number, h: number, radius: number): string[] {
+	const r = Math.min(radius, w / 2, h / 2);
+	if (r <= 0) return [`${num(x)} ${num(y)} ${num(w)} ${num(h)} re`];
+	const k = r * KAPPA;
+	return pathOps([
+		{ op: "M", x: x + r, y },
+		{ op: "L", x: x + w - r, y },
+		{ op: "C", x1: x + w - r + k, y1: y, x2: x + w, y2: y + r - k, x: x + w, y: y + r },
+		{ op: "L", x: x + w, y: y + h - r },
+		{ op: "C", x1: x + w, y1: y + h - r + k, x2: x + w - r + k, y2: y + h, x: x + w - r, y: y + h },
+		{ op: "L", x: x + r, y: y + h },
+		{ op: "C", x1: x + r - k, y1: y + h, x2: x, y2: y + h - r + k, x, y: y + h - r },
+		{ op: "L", x, y: y + r },
+		{ op: "C", x1: x, y1: y + r - k, x2: x + r - k, y2: y, x: x + r, y },
+	]).concat("h");
+}
+
+function circle(cx: number, cy: number, r: number): string[] {
+	return roundedRect(cx - r, cy - r, r * 2, r * 2, r);
+}
+
+/** Graphics state for a shape (each item is wrapped in q/Q) */
+function paintOps(item: { fill?: string; stroke?: string; strokeWidth?: number; dashed?: boolean }): string[] {
+	const ops: string[] = [];
+	if (item.fill) ops.push(`${rgb(item.fill)} rg`);
+	if (item.stroke) ops.push(`${rgb(item.stroke)} RG`, `${num(item.strokeWidth ?? 1)} w`);
+	if (item.dashed) ops.push("[5 5] 0 d");
+	return ops;
+}
+
+function paintOperator(item: { fill?: string; stroke?: string }): string {
+	return item.fill && item.stroke ? "B" : item.fill ? "f" : item.stroke ? "S" : "n";
+}
+
+/**
+ * Text in scene space, which is flipped (y down) - the text matrix flips the
+ * glyphs back upright and applies the rotation
+ */
+function textOps(item: Extract<SceneItem, { kind: "text" }>): string[] {
+	const angle = ((item.rotate ?? 0) * Math.PI) / 180;
+	const cos = Math.cos(angle);
+	const sin = Math.sin(angle);
+	const shift = item.anchor === "middle" ? textWidth(item.text, item.size, item.bold) / 2 : 0;
+	const x = item.x - shift * cos;
+	const y = item.y - shift * sin;
+	return [
+		"BT",
+		`/${item.bold ? "F2" : "F1"} ${num(item.size)} Tf`,
+		`${rgb(item.color)} rg`,
+		`${num(cos)} ${num(sin)} ${num(sin)} ${num(-cos)} ${num(x)} ${num(y)} Tm`,
+		`${pdfString(item.text)} Tj`,
+		"ET",
+	];
+}
+
+function itemOps(item: SceneItem): string[] {
+	const ops = ["q"];
+	switch (item.kind) {
+		case "rect":
+			ops.push(...paintOps(item), ...roundedRect(item.x, item.y, item.width, item.height, item.radius), paintOperator(item));
+			break;
+		case "polygon":
+			ops.push(
+				...paintOps(item),
+				...pathOps(item.points.map((p, i) => ({ op: i === 0 ? "M" : "L", ...p }))),
+				"h",
+				paintOperator(item),
+			);
+			break;
+		case "circle":
+			ops.push(...paintOps(item), ...circle(item.cx, item.cy, item.r), paintOperator(item));
+			break;
+		case "path":
+			ops.push(...paintOps({ ...item, fill: undefined }), ...pathOps(item.segments), item.stroke ? "S" : "n");
+			break;
+		case "text":
+			ops.push(...textOps(item));
+	}
+	ops.push("Q");
+	return ops;
+}
+
+/** Page text in PDF space (y up) */
+function pageText(text: string, x: number, y: number, size: number, color: string, bold = false): string {
+	return `BT /${bold ? "F2" : "F1"} ${num(size)} Tf ${rgb(color)} rg ${num(x)} ${num(y)} Td ${pdfString(text)} Tj ET`;
+}
+
+/** Legend swatches for the shapes and statuses that appear in the map */
+function legendOps(kinds: string[], x: number, y: number): string[] {
+	const ops: string[] = [];
+	let cursor = x;
+	for (const kind of kinds) {
+		const status = STATUS_COLORS[kind as keyof typeof STATUS_COLORS];
+		ops.push("q", `${rgb("#64748b")} RG`, "0.75 w");
+		if (status) {
+			ops.push(`${rgb(status.border)} rg`, ...circle(cursor + 5, y + 4, 4), "f");
+		} else if (kind === "diamond") {
+			ops.push(`${num(cursor + 5)} ${num(y - 1)} m ${num(cursor + 10)} ${num(y + 4)} l ${num(cursor + 5)} ${num(y + 9)} l ${num(cursor)} ${num(y + 4)} l h S`);
+		} else {
+			ops.push(...roundedRect(cursor, y, 12, 8, kind === "oval" ? 4 : 1.5), "S");
+			if (kind === "subprocess") ops.push(...roundedRect(cursor + 1.5, y + 1.5, 9, 5, 1), "S");
+		}
+		ops.push("Q");
+		const label = LEGEND_LABELS[kind] ?? kind;
+		ops.push(pageText(label, cursor + 16, y + 1, 8, "#334155"));
+		cursor += 16 + textWidth(label, 8) + 14;
+	}
+	return ops;
+}
+
+/** Legend entries for the shapes and statuses used in a map */
+export function legendKinds(graph: ProcessGraph): string[] {
+	const present = new Set(
+		graph.nodes.flatMap((n) => [n.type ?? "default", n.data.status ?? "normal"]),
+	);
+	return Object.keys(LEGEND_LABELS).filter((kind) => present.has(kind));
+}
+
+export interface PdfLayout {
+	pageWidth: number;
+	pageHeight: number;
+	scale: number; // Points per scene pixel
+	columns: number;
+	rows: number;
+}
+
+/**
+ * Orientation follows the map's aspect ratio; the map is drawn at print size
+ * (or shrunk to fit one page) and tiled across pages when even the minimum
+ * scale doesn't fit
+ */
+export function pdfLayout(scene: Scene, pageSize: PdfPageSize, legend: boolean): PdfLayout {
+	const portrait = PAGE_SIZES[pageSize];
+	const landscape = scene.width > scene.height;
+	const pageWidth = landscape ? portrait.height : portrait.width;
+	const pageHeight = landscape ? portrait.width : portrait.height;
+	const areaWidth = pageWidth - MARGIN * 2;
+	const areaHeight = pageHeight - MARGIN * 2 - HEADER_HEIGHT - (legend ? FOOTER_HEIGHT : 0);
+
+	const fit = Math.min(areaWidth / scene.width, areaHeight / scene.height);
+	const scale = Math.max(Math.min(PX_TO_PT, fit), MIN_SCALE);
+	return {
+		pageWidth,
+		pageHeight,
+		scale,
+		columns: Math.max(1, Math.ceil((scene.width * scale) / areaWidth - 1e-6)),
+		rows: Math.max(1, Math.ceil((scene.height * scale) / areaHeight - 1e-6)),
+	};
+}
+
+/**
+ * Render a scene as a PDF document with a title header, page numbers and an
+ * optional legend footer
+ */
+export function sceneToPdf(scene: Scene, options: PdfOptions = {}): Uint8Array<ArrayBuffer> {
+	const { title = "Process map", pageSize = "a4", legend = [] } = options;
+	const layout = pdfLayout(scene, pageSize, legend.length > 0);
+	const { pageWidth, pageHeight, scale, columns, rows } = layout;
+	const areaWidth = pageWidth - MARGIN * 2;
+	const areaHeight = pageHeight - MARGIN * 2 - HEADER_HEIGHT - (legend.length ? FOOTER_HEIGHT : 0);
+	const areaTop = pageHeight - MARGIN - HEADER_HEIGHT;
+	const drawing = scene.items.flatMap(itemOps);
+	const pageCount = columns * rows;
+
+	const contents: string[] = [];
+	for (let row = 0; row < rows; row++) {
+		for (let column = 0; column < columns; column++) {
+			const originX = scene.x + (column * areaWidth) / scale;
+			const originY = scene.y + (row * areaHeight) / scale;
+			const tileWidth = Math.min(areaWidth, (scene.width - (originX - scene.x)) * scale);
+			const tileHeight = Math.min(areaHeight, (scene.height - (originY - scene.y)) * scale);
+			const pageNumber = contents.length + 1;
+			const ops = [
+				pageText(title, MARGIN, pageHeight - MARGIN - 14, 14, "#0a0a0a", true),
+				pageText(
+					`Page ${pageNumber} of ${pageCount}`,
+					pageWidth - MARGIN - textWidth(`Page ${pageNumber} of ${pageCount}`, 9),
+					pageHeight - MARGIN - 12,
+					9,
+					"#737373",
+				),
+				"q",
+				`${num(MARGIN)} ${num(areaTop - tileHeight)} ${num(tileWidth)} ${num(tileHeight)} re W n`,
+			];
+			if (scene.background) {
+				ops.push(`${rgb(scene.background)} rg`, `${num(MARGIN)} ${num(areaTop - tileHeight)} ${num(tileWidth)} ${num(tileHeight)} re f`);
+			}
+			// Scene pixels to points, flipping y so the items can be drawn as-is
+			ops.push(`${num(scale)} 0 0 ${num(-scale)} ${num(MARGIN - originX * scale)} ${num(areaTop + originY * scale)} cm`);
+			ops.push(...drawing, "Q");
+			ops.push(...legendOps(legend, MARGIN, MARGIN));
+			contents.push(ops.join("\n"));
+		}
+	}
+
+	// Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+	const pageIds = contents.map((_, i) => 6 + i * 2);
+	const objects = [
+		"<< /Type /Catalog /Pages 2 0 R >>",
+		`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+		"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+		"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+		`<< /Title ${pdfString(title)} /Producer (ProcessXY) >>`,
+	];
+	contents.forEach((stream, i) => {
+		objects.push(
+			`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${(pageIds[i] as number) + 1} 0 R >>`,
+			`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+		);
+	});
+
+	let pdf = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+	const offsets = objects.map((body, i) => {
+		const offset = pdf.length;
+		pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+		return offset;
+	});
+	const xref = pdf.length;
+	pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+	pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+	pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+	// Every character is a single byte (see pdfString)
+	const bytes = new Uint8Array(pdf.length);
+	for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i) & 0xff;
+	return bytes;
+}
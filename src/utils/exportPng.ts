@@ -0,0 +1,95 @@
+/**
+ * PNG export - the SVG rasterized by the browser, with the DPI recorded in
+ * the file so print layouts size it correctly
+ */
+
+export const PNG_DPI_OPTIONS = [96, 150, 300] as const;
+
+const CSS_DPI = 96;
+
+let crcTable: Uint32Array | undefined;
+
+export function crc32(bytes: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			crcTable[n] = c >>> 0;
+		}
+	}
+	let crc = 0xffffffff;
+	for (const byte of bytes) crc = (crcTable[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8);
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Set the pHYs (physical pixel size) chunk of a PNG, replacing any existing one
+ */
+export function setPngDpi(png: Uint8Array, dpi: number): Uint8Array<ArrayBuffer> {
+	const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+	const IHDR_END = 8 + 8 + 13 + 4; // Signature, then the header chunk
+
+	// Drop an existing pHYs chunk
+	const chunks: Uint8Array[] = [png.subarray(0, IHDR_END)];
+	for (let offset = IHDR_END; offset < png.length; ) {
+		const length = view.getUint32(offset);
+		const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+		const end = offset + 12 + length;
+		if (type !== "pHYs") chunks.push(png.subarray(offset, end));
+		offset = end;
+	}
+
+	const chunk = new Uint8Array(21);
+	const chunkView = new DataView(chunk.buffer);
+	const pixelsPerMeter = Math.round(dpi / 0.0254);
+	chunkView.setUint32(0, 9);
+	chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+	chunkView.setUint32(8, pixelsPerMeter);
+	chunkView.setUint32(12, pixelsPerMeter);
+	chunk[16] = 1; // Unit: meter
+	chunkView.setUint32(17, crc32(chunk.subarray(4, 17)));
+	chunks.splice(1, 0, chunk);
+
+	const result = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+	let position = 0;
+	for (const c of chunks) {
+		result.set(c, position);
+		position += c.length;
+	}
+	return result;
+}
+
+/**
+ * Rasterize a standalone SVG document at the given DPI (browser only)
+ */
+export async function svgToPng(
+	svg: string,
+	width: number,
+	height: number,
+	dpi: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+	const scale = dpi / CSS_DPI;
+	const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+	try {
+		const image = new Image();
+		await new Promise<void>((resolve, reject) => {
+			image.onload = () => resolve();
+			image.onerror = () => reject(new Error("Could not render the map image"));
+			image.src = url;
+		});
+
+		const canvas = document.createElement("canvas");
+		canvas.width = Math.ceil(width * scale);
+		canvas.height = Math.ceil(height * scale);
+		const context = canvas.getContext("2d");
+		if (!context) throw new Error("Canvas is not available");
+		context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+		const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+		if (!blob) throw new Error("Could not encode the PNG (the map may be too large for this DPI)");
+		return setPngDpi(new Uint8Array(await blob.arrayBuffer()), dpi);
+	} finally {
+		URL.revokeObjectURL(url);
+	}
+}
@@ -0,0 +1,760 @@
+import {
+	getBezierPath,
+	getSmoothStepPath,
+	getStraightPath,
+	type Node,
+	Position,
+} from "@xyflow/react";
+import type { NodeStatus, ProcessEdge, ProcessGraph, ProcessNode } from "../types/process";
+import { getNodeHeight, getNodeWidth, rotateHandle } from "./autoLayout";
+import { getBottomHandlePoints, getEdgeParams } from "./edgeHelpers";
+import { buildLaneNodes } from "./lanes";
+
+/**
+ * Export scene - the whole map (not just the viewport) resolved into plain
+ * shapes in canvas coordinates, drawn the way the node and edge components
+ * draw it. The SVG and PDF writers only have to translate these primitives.
+ */
+
+export interface Point {
+	x: number;
+	y: number;
+}
+
+/** Absolute path commands (quadratic curves are converted to cubic) */
+export type PathSegment =
+	| { op: "M" | "L"; x: number; y: number }
+	| { op: "C"; x1: number; y1: number; x2: number; y2: number; x: number; y: number };
+
+interface Paint {
+	fill?: string;
+	stroke?: string;
+	strokeWidth?: number;
+	dashed?: boolean;
+}
+
+export type SceneItem =
+	| ({ kind: "rect"; x: number; y: number; width: number; height: number; radius: number } & Paint)
+	| ({ kind: "polygon"; points: Point[] } & Paint)
+	| ({ kind: "circle"; cx: number; cy: number; r: number } & Paint)
+	| ({ kind: "path"; segments: PathSegment[] } & Paint)
+	| {
+			kind: "text";
+			x: number; // Anchor point - `y` is the baseline
+			y: number;
+			text: string;
+			size: number;
+			color: string;
+			bold?: boolean;
+			anchor?: "start" | "middle";
+			rotate?: number; // Degrees, around the anchor point
+	  };
+
+export interface Scene {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	background?: string; // Omitted for a transparent background
+	items: SceneItem[];
+}
+
+export type SceneTheme = "light" | "dark";
+
+/** Rendered width of a line of text in px */
+export type TextMeasure = (text: string, size: number, bold?: boolean) => number;
+
+export interface SceneOptions {
+	theme?: SceneTheme;
+	measureText?: TextMeasure; // Metrics of the font the scene is drawn with (default textWidth)
+	statuses?: boolean; // Status colors and dots (default true)
+	transparent?: boolean;
+	padding?: number;
+}
+
+interface ScenePalette {
+	background: string;
+	text: string;
+	mutedText: string;
+	border: string;
+	statusFill: "fill" | "darkFill";
+}
+
+// Theme colors of the node components (globals.css)
+const SCENE_THEMES: Record<SceneTheme, ScenePalette> = {
+	light: { background: "#ffffff", text: "#0a0a0a", mutedText: "#737373", border: "#e5e5e5", statusFill: "fill" },
+	dark: { background: "#0a0a0a", text: "#fafafa", mutedText: "#a1a1a1", border: "#262626", statusFill: "darkFill" },
+};
+
+// Colors the components hardcode, in both themes
+const FIXED_COLORS = {
+	edge: "#64748b",
+	diamondBorder: "#d1d5db",
+	diamondFill: "#ffffff",
+	laneBorder: "#cbd5e1",
+	laneHeader: "#f1f5f9",
+	laneText: "#334155",
+};
+
+// Status borders, light fills (*-50) and dark fills (*-950 at 20%)
+export const STATUS_COLORS: Record<
+	Exclude<NodeStatus, "normal">,
+	{ border: string; fill: string; darkFill: string }
+> = {
+	bottleneck: { border: "#ef4444", fill: "#fef2f2", darkFill: "#160a0a" },
+	issue: { border: "#eab308", fill: "#fefce8", darkFill: "#150e09" },
+	complete: { border: "#22c55e", fill: "#f0fdf4", darkFill: "#09110c" },
+};
+
+// Tailwind text-sm / text-xs with their line heights
+const LABEL_SIZE = 14;
+const LABEL_LINE = 20;
+const DESCRIPTION_SIZE = 12;
+const DESCRIPTION_LINE = 16;
+const EDGE_LABEL_SIZE = 12;
+const NODE_PADDING = { default: [18, 14], oval: [34, 18], subprocess: [18, 14] } as const; // Padding plus border
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126 - close enough for the UI's sans-serif too
+const CHAR_WIDTHS = [
+	278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+	556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+	611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+	667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+	222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/** Approximate rendered width of a line of text */
+export function textWidth(text: string, size: number, bold = false): number {
+	let units = 0;
+	for (const char of text) units += CHAR_WIDTHS[(char.codePointAt(0) ?? 0) - 32] ?? 556;
+	return (units / 1000) * size * (bold ? 1.05 : 1);
+}
+
+/** Greedy word wrap to `maxWidth` (long words get a line of their own) */
+export function wrapText(
+	text: string,
+	size: number,
+	maxWidth: number,
+	bold = false,
+	measure: TextMeasure = textWidth,
+): string[] {
+	const lines: string[] = [];
+	let line = "";
+	for (const word of text.split(/\s+/).filter(Boolean)) {
+		const candidate = line ? `${line} ${word}` : word;
+		if (line && measure(candidate, size, bold) > maxWidth) {
+			lines.push(line);
+			line = word;
+		} else {
+			line = candidate;
+		}
+	}
+	if (line) lines.push(line);
+	return lines;
+}
+
+/** `#rrggbb` blended over `background` - the writers only take opaque colors */
+function mix(color: string, background: string, alpha: number): string {
+	const parse = (hex: string) => [1, 3, 5].map((i) => Number.parseInt(hex.slice(i, i + 2), 16));
+	if (!/^#[0-9a-f]{6}$/i.test(color)) return color;
+	const [r, g, b] = parse(color).map((c, i) => Math.round(c * alpha + (parse(background)[i] ?? 255) * (1 - alpha)));
+	return `#${[r, g, b].map((c) => (c ?? 0).toString(16).padStart(2, "0")).join("")}`;
+}
+
+interface Box {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+interface TextLine {
+	text: string;
+	size: number;
+	height: number; // Line box
+	gap: number; // Space above the line box
+	color: string;
+	bold: boolean;
+}
+
+/**
+ * Label and description lines as a node component lays them out - wrapped to
+ * `maxWidth` (when given) and with the description clamped to `maxDescription` lines
+ */
+function nodeText(
+	data: ProcessNode["data"],
+	palette: ScenePalette,
+	measure: TextMeasure,
+	maxWidth?: number,
+	maxDescription = Number.POSITIVE_INFINITY,
+): TextLine[] {
+	const wrap = (text: string, size: number, bold: boolean) =>
+		maxWidth ? wrapText(text, size, maxWidth, bold, measure) : [text];
+	const label = wrap(String(data.label ?? ""), LABEL_SIZE, true).map((text) => ({
+		text,
+		size: LABEL_SIZE,
+		height: LABEL_LINE,
+		gap: 0,
+		color: palette.text,
+		bold: true,
+	}));
+	const description = data.description
+		? wrap(data.description, DESCRIPTION_SIZE, false)
+				.slice(0, maxDescription)
+				.map((text, i) => ({
+					text,
+					size: DESCRIPTION_SIZE,
+					height: DESCRIPTION_LINE,
+					gap: i === 0 ? 4 : 0, // mt-1 above the description
+					color: palette.mutedText,
+					bold: false,
+				}))
+		: [];
+	return [...label, ...description];
+}
+
+const linesWidth = (lines: TextLine[], measure: TextMeasure) =>
+	Math.max(0, ...lines.map((l) => measure(l.text, l.size, l.bold)));
+const linesHeight = (lines: TextLine[]) => lines.reduce((sum, l) => sum + l.gap + l.height, 0);
+
+/**
+ * Node box on the canvas - the measured size, or for nodes React Flow hasn't
+ * rendered (e.g. on the server) the size the component would grow to for its text
+ */
+function nodeBox(node: ProcessNode, measure: TextMeasure): Box {
+	const { x, y } = node.position;
+	const width = node.measured?.width ?? node.width;
+	const height = node.measured?.height ?? node.height;
+	if (width !== undefined && height !== undefined) return { x, y, width, height };
+
+	const type = node.type ?? "default";
+	const padding = NODE_PADDING[type as keyof typeof NODE_PADDING];
+	if (!padding) return { x, y, width: getNodeWidth(type), height: getNodeHeight(type) };
+	const lines = nodeText(node.data, SCENE_THEMES.light, measure);
+	return {
+		x,
+		y,
+		width: Math.max(getNodeWidth(type), Math.ceil(linesWidth(lines, measure)) + padding[0] * 2),
+		height: Math.max(getNodeHeight(type), linesHeight(lines) + padding[1] * 2),
+	};
+}
+
+function sidePoint(box: Box, position: Position): Point {
+	switch (position) {
+		case Position.Top:
+			return { x: box.x + box.width / 2, y: box.y };
+		case Position.Bottom:
+			return { x: box.x + box.width / 2, y: box.y + box.height };
+		case Position.Left:
+			return { x: box.x, y: box.y + box.height / 2 };
+		case Position.Right:
+			return { x: box.x + box.width, y: box.y + box.height / 2 };
+	}
+}
+
+/**
+ * Where an edge attaches to a node - mirrors the handles of the node components
+ */
+function handleAnchor(
+	node: ProcessNode,
+	box: Box,
+	type: "source" | "target",
+	handleId: string | null | undefined,
+): Point & { position: Position } {
+	const horizontal = node.targetPosition === Position.Left;
+
+	if (node.type === "diamond") {
+		if (type === "target") {
+			const position = rotateHandle(Position.Top, horizontal);
+			return horizontal
+				? { x: box.x + 20, y: box.y + 80, position }
+				: { x: box.x + 80, y: box.y + 20, position };
+		}
+		const points = getBottomHandlePoints(node.data.outputCount ?? 2);
+		const index =
+			handleId === "right" ? 1 : handleId?.startsWith("output-") ? Number(handleId.slice(7)) : 0;
+		const { left, top } = points[index] ?? points[0] ?? { left: 80, top: 140 };
+		const position = rotateHandle(Position.Bottom, horizontal);
+		return horizontal
+			? { x: box.x + top, y: box.y + left, position }
+			: { x: box.x + left, y: box.y + top, position };
+	}
+
+	// Rectangles also have left/right handles on both sides
+	const side =
+		(node.type === "default" || !node.type) && (handleId === "left" || handleId === "right")
+			? handleId === "left"
+				? Position.Left
+				: Position.Right
+			: type === "target"
+				? Position.Top
+				: Position.Bottom;
+	const position = rotateHandle(side, horizontal);
+	return { ...sidePoint(box, position), position };
+}
+
+/** Parse the absolute M/L/Q/C paths React Flow's path helpers produce */
+export function parsePath(d: string): PathSegment[] {
+	const tokens = d.match(/[MLQC]|-?\d*\.?\d+(?:e[-+]?\d+)?/gi) ?? [];
+	const segments: PathSegment[] = [];
+	let command = "M";
+	let current: Point = { x: 0, y: 0 };
+	let i = 0;
+	const next = () => Number(tokens[i++]);
+
+	while (i < tokens.length) {
+		if (/[MLQC]/i.test(tokens[i] as string)) command = (tokens[i++] as string).toUpperCase();
+		if (command === "M" || command === "L") {
+			current = { x: next(), y: next() };
+			segments.push({ op: command, ...current });
+		} else if (command === "Q") {
+			const q = { x: next(), y: next() };
+			const end = { x: next(), y: next() };
+			segments.push({
+				op: "C",
+				x1: current.x + (2 / 3) * (q.x - current.x),
+				y1: current.y + (2 / 3) * (q.y - current.y),
+				x2: end.x + (2 / 3) * (q.x - end.x),
+				y2: end.y + (2 / 3) * (q.y - end.y),
+				...end,
+			});
+			current = end;
+		} else {
+			const [x1, y1, x2, y2, x, y] = [next(), next(), next(), next(), next(), next()];
+			segments.push({ op: "C", x1, y1, x2, y2, x, y } as PathSegment);
+			current = { x: x as number, y: y as number };
+		}
+	}
+	return segments;
+}
+
+/**
+ * Edge path and label position, by edge type (as ProcessMap renders them)
+ */
+function edgeGeometry(
+	edge: ProcessEdge,
+	nodes: Map<string, { node: ProcessNode; box: Box }>,
+): { segments: PathSegment[]; label: Point | null } | null {
+	const from = nodes.get(edge.source);
+	const to = nodes.get(edge.target);
+	if (!from || !to) return null;
+
+	const source = handleAnchor(from.node, from.box, "source", edge.sourceHandle);
+	const target = handleAnchor(to.node, to.box, "target", edge.targetHandle);
+	const params = {
+		sourceX: source.x,
+		sourceY: source.y,
+		sourcePosition: source.position,
+		targetX: target.x,
+		targetY: target.y,
+		targetPosition: target.position,
+	};
+	const { type } = edge;
+
+	// SelfConnectingEdge: loops and backward decision branches routed around a side
+	if (type === "selfConnecting") {
+		if (edge.source === edge.target) {
+			const out = Math.max(from.box.width / 2, 40) + 50;
+			return {
+				segments: [
+					{ op: "M", x: source.x, y: source.y },
+					{
+						op: "C",
+						x1: source.x - out,
+						y1: source.y + 50,
+						x2: target.x - out,
+						y2: target.y - 50,
+						x: target.x,
+						y: target.y,
+					},
+				],
+				label: null, // The component doesn't label loops either
+			};
+		}
+		const side = edge.sourceHandle === "left" ? -1 : edge.sourceHandle === "right" ? 1 : 0;
+		if (side !== 0 && target.y < source.y) {
+			const sourceMidY = from.box.y + from.box.height / 2;
+			const targetMidY = to.box.y + to.box.height / 2;
+			const startX = side < 0 ? from.box.x : from.box.x + from.box.width;
+			const endX = side < 0 ? to.box.x : to.box.x + to.box.width;
+			const offset = side * 80;
+			const midY = (sourceMidY + targetMidY) / 2;
+			return {
+				segments: [
+					{ op: "M", x: startX, y: sourceMidY },
+					{
+						op: "C",
+						x1: startX + offset,
+						y1: sourceMidY,
+						x2: startX + offset,
+						y2: sourceMidY - 60,
+						x: startX + offset,
+						y: midY,
+					},
+					{
+						op: "C",
+						x1: startX + offset,
+						y1: targetMidY + 60,
+						x2: endX + offset,
+						y2: targetMidY,
+						x: endX,
+						y: targetMidY,
+					},
+				],
+				label: { x: startX + offset, y: midY },
+			};
+		}
+	}
+
+	if (type === "floating") {
+		const measured = (entry: { node: ProcessNode; box: Box }) => ({
+			...entry.node,
+			measured: { width: entry.box.width, height: entry.box.height },
+		});
+		const { sx, sy, tx, ty, sourcePos, targetPos } = getEdgeParams(measured(from), measured(to));
+		const [d, x, y] = getBezierPath({
+			sourceX: sx,
+			sourceY: sy,
+			sourcePosition: sourcePos,
+			targetX: tx,
+			targetY: ty,
+			targetPosition: targetPos,
+		});
+		return { segments: parsePath(d), label: { x, y } };
+	}
+
+	const [d, x, y] =
+		type === "straight"
+			? getStraightPath(params)
+			: type === "smoothstep" || type === "step"
+				? getSmoothStepPath({ ...params, borderRadius: type === "step" ? 0 : 5 })
+				: getBezierPath(params);
+	return { segments: parsePath(d), label: { x, y } };
+}
+
+/** Filled arrowhead at the end of a path, along its last direction */
+function arrowhead(segments: PathSegment[], color: string): SceneItem | null {
+	const last = segments[segments.length - 1];
+	const previous = segments[segments.length - 2];
+	if (!last || !previous) return null;
+	const from = last.op === "C" && (last.x2 !== last.x || last.y2 !== last.y)
+		? { x: last.x2, y: last.y2 }
+		: previous;
+	const angle = Math.atan2(last.y - from.y, last.x - from.x);
+	const point = (back: number, side: number) => ({
+		x: last.x - back * Math.cos(angle) - side * Math.sin(angle),
+		y: last.y - back * Math.sin(angle) + side * Math.cos(angle),
+	});
+	return { kind: "polygon", points: [{ x: last.x, y: last.y }, point(11, 5), point(11, -5)], fill: color, stroke: color, strokeWidth: 1 };
+}
+
+function markerColor(edge: ProcessEdge, stroke: string): string | null {
+	const marker = edge.markerEnd;
+	if (!marker) return null;
+	return typeof marker === "object" && marker.color ? marker.color : stroke;
+}
+
+/**
+ * Text lines stacked from `top`, centered on `x` or starting at it
+ */
+function textItems(lines: TextLine[], x: number, top: number, anchor: "start" | "middle"): SceneItem[] {
+	let lineTop = top;
+	return lines.map((line) => {
+		lineTop += line.gap;
+		// Cap height is about 0.7em - centered in the line box
+		const baseline = lineTop + (line.height + line.size * 0.7) / 2;
+		lineTop += line.height;
+		return {
+			kind: "text",
+			x,
+			y: baseline,
+			text: line.text,
+			size: line.size,
+			color: line.color,
+			bold: line.bold,
+			anchor,
+		};
+	});
+}
+
+function statusDot(status: NodeStatus | undefined, cx: number, cy: number, palette: ScenePalette): SceneItem[] {
+	if (!status || status === "normal") return [];
+	return [
+		{
+			kind: "circle",
+			cx,
+			cy,
+			r: 6,
+			fill: STATUS_COLORS[status].border,
+			stroke: palette.background,
+			strokeWidth: 2,
+		},
+	];
+}
+
+function nodeItems(node: ProcessNode, box: Box, palette: ScenePalette, measure: TextMeasure): SceneItem[] {
+	const { data } = node;
+	const status = data.status && data.status !== "normal" ? STATUS_COLORS[data.status] : undefined;
+	const statusFill = status?.[palette.statusFill];
+	// -top-1 -right-1 w-3 h-3 on rectangles and ovals
+	const cornerDot = statusDot(data.status, box.x + box.width - 2, box.y + 2, palette);
+	const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+	// Centered text block (rectangles and ovals grow to fit their text, so only diamonds wrap)
+	const centered = (lines: TextLine[], anchor: "start" | "middle" = "middle") =>
+		textItems(lines, anchor === "middle" ? center.x : box.x + NODE_PADDING.default[0], center.y - linesHeight(lines) / 2, anchor);
+
+	switch (node.type) {
+		case "diamond": {
+			const { x, y } = box;
+			// Diamonds keep their light colors in both themes; max-w-[100px] px-2, description line-clamp-2
+			const lines = nodeText(data, SCENE_THEMES.light, measure, 84, 2);
+			return [
+				{
+					kind: "polygon",
+					points: [
+						{ x: x + 80, y: y + 20 },
+						{ x: x + 140, y: y + 80 },
+						{ x: x + 80, y: y + 140 },
+						{ x: x + 20, y: y + 80 },
+					],
+					fill: data.color ?? status?.fill ?? FIXED_COLORS.diamondFill,
+					stroke: status?.border ?? FIXED_COLORS.diamondBorder,
+					strokeWidth: 2,
+				},
+				...textItems(lines, x + 80, y + 80 - linesHeight(lines) / 2, "middle"),
+				...statusDot(data.status, x + 146, y + 14, palette), // top-2 right-2
+			];
+		}
+		case "oval":
+			return [
+				{
+					kind: "rect",
+					...box,
+					radius: box.height / 2,
+					fill: data.color ?? statusFill ?? palette.background,
+					stroke: status?.border ?? palette.border,
+					strokeWidth: 2,
+				},
+				...centered(nodeText(data, palette, measure)),
+				...cornerDot,
+			];
+		case "subprocess": {
+			const stroke = data.color ?? status?.border ?? palette.border;
+			const marker = { x: center.x - 8, y: box.y + box.height - 20, size: 16 };
+			return [
+				{ kind: "rect", ...box, radius: 8, fill: palette.background, stroke, strokeWidth: 1 },
+				{
+					kind: "rect",
+					x: box.x + 3,
+					y: box.y + 3,
+					width: box.width - 6,
+					height: box.height - 6,
+					radius: 6,
+					stroke,
+					strokeWidth: 1,
+				},
+				...textItems(nodeText({ label: data.label }, palette, measure), box.x + NODE_PADDING.subprocess[0], box.y + 12, "start"),
+				{ kind: "rect", x: marker.x, y: marker.y, width: marker.size, height: marker.size, radius: 0, stroke: palette.mutedText, strokeWidth: 1 },
+				{
+					kind: "path",
+					segments: [
+						{ op: "M", x: center.x - 5, y: marker.y + 8 },
+						{ op: "L", x: center.x + 5, y: marker.y + 8 },
+						{ op: "M", x: center.x, y: marker.y + 3 },
+						{ op: "L", x: center.x, y: marker.y + 13 },
+					],
+					stroke: palette.text,
+					strokeWidth: 1.5,
+				},
+			];
+		}
+		default:
+			return [
+				{
+					kind: "rect",
+					...box,
+					radius: 8,
+					fill: statusFill ?? palette.background,
+					stroke: data.color ?? status?.border ?? palette.border,
+					strokeWidth: 2,
+				},
+				...centered(nodeText(data, palette, measure), "start"),
+				...cornerDot,
+			];
+	}
+}
+
+function laneItems(graph: ProcessGraph, horizontal: boolean, palette: ScenePalette): SceneItem[] {
+	return buildLaneNodes(graph.lanes ?? [], graph.nodes, horizontal).flatMap((lane) => {
+		const box = { ...lane.position, width: lane.width ?? 0, height: lane.height ?? 0 };
+		const color = lane.data.color as string | undefined;
+		const header = horizontal
+			? { ...box, width: 40 }
+			: { ...box, height: 40 };
+		const label = String(lane.data.label ?? "");
+		return [
+			{
+				kind: "rect",
+				...box,
+				radius: 0,
+				fill: color ? mix(color, palette.background, 0.1) : mix("#94a3b8", palette.background, 0.06),
+				stroke: FIXED_COLORS.laneBorder,
+				strokeWidth: 1,
+				dashed: true,
+			},
+			{ kind: "rect", ...header, radius: 0, fill: color ?? FIXED_COLORS.laneHeader },
+			{
+				kind: "text",
+				x: header.x + header.width / 2 + (horizontal ? 5 : 0),
+				y: header.y + header.height / 2 + (horizontal ? 0 : 5),
+				text: label,
+				size: LABEL_SIZE,
+				color: FIXED_COLORS.laneText,
+				bold: true,
+				anchor: "middle",
+				rotate: horizontal ? -90 : undefined,
+			},
+		] satisfies SceneItem[];
+	});
+}
+
+function edgeLabelItems(
+	label: string,
+	at: Point,
+	edge: ProcessEdge,
+	palette: ScenePalette,
+	measure: TextMeasure,
+): SceneItem[] {
+	const style = (edge.labelStyle ?? {}) as { fill?: string; fontWeight?: number | string };
+	const bold = Number(style.fontWeight ?? 400) >= 600;
+	const width = measure(label, EDGE_LABEL_SIZE, bold);
+	return [
+		...(edge.labelShowBg !== false
+			? [
+					{
+						kind: "rect",
+						x: at.x - width / 2 - 6,
+						y: at.y - EDGE_LABEL_SIZE / 2 - 4,
+						width: width + 12,
+						height: EDGE_LABEL_SIZE + 8,
+						radius: 4,
+						fill: palette.background,
+					} satisfies SceneItem,
+				]
+			: []),
+		{
+			kind: "text",
+			x: at.x,
+			y: at.y + EDGE_LABEL_SIZE * 0.35,
+			text: label,
+			size: EDGE_LABEL_SIZE,
+			color: style.fill ?? palette.text,
+			bold,
+			anchor: "middle",
+		},
+	];
+}
+
+/** Bounding box of the drawn items */
+function itemBounds(items: SceneItem[], measure: TextMeasure): Box {
+	const xs: number[] = [];
+	const ys: number[] = [];
+	const add = (x: number, y: number) => {
+		xs.push(x);
+		ys.push(y);
+	};
+	for (const item of items) {
+		switch (item.kind) {
+			case "rect":
+				add(item.x, item.y);
+				add(item.x + item.width, item.y + item.height);
+				break;
+			case "circle":
+				add(item.cx - item.r, item.cy - item.r);
+				add(item.cx + item.r, item.cy + item.r);
+				break;
+			case "polygon":
+				for (const p of item.points) add(p.x, p.y);
+				break;
+			case "path":
+				for (const s of item.segments) {
+					add(s.x, s.y);
+					if (s.op === "C") {
+						add(s.x1, s.y1);
+						add(s.x2, s.y2);
+					}
+				}
+				break;
+			case "text": {
+				const half = measure(item.text, item.size, item.bold) / 2;
+				if (item.rotate) {
+					add(item.x - item.size, item.y - half);
+					add(item.x, item.y + half);
+				} else {
+					add(item.x - half, item.y - item.size);
+					add(item.x + half, item.y + item.size * 0.3);
+				}
+			}
+		}
+	}
+	if (xs.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+	const x = Math.min(...xs);
+	const y = Math.min(...ys);
+	return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Resolve a map into drawable shapes: lanes, edges (with arrowheads), nodes,
+ * then edge labels on top
+ */
+export function buildScene(graph: ProcessGraph, options: SceneOptions = {}): Scene {
+	const {
+		theme = "light",
+		measureText = textWidth,
+		statuses = true,
+		transparent = false,
+		padding = 24,
+	} = options;
+	const palette = SCENE_THEMES[theme];
+	const steps = graph.nodes
+		.filter((n) => n.type !== "lane")
+		.map((n) => (statuses ? n : { ...n, data: { ...n.data, status: undefined } }));
+	const horizontal = steps.some((n) => n.targetPosition === Position.Left);
+	const boxes = new Map(steps.map((node) => [node.id, { node, box: nodeBox(node, measureText) }]));
+
+	const items: SceneItem[] = [...laneItems({ ...graph, nodes: steps }, horizontal, palette)];
+	const labels: SceneItem[] = [];
+
+	for (const edge of graph.edges) {
+		const geometry = edgeGeometry(edge, boxes);
+		if (!geometry) continue;
+		const style = (edge.style ?? {}) as { stroke?: string; strokeWidth?: number | string };
+		const stroke = style.stroke ?? FIXED_COLORS.edge;
+		items.push({
+			kind: "path",
+			segments: geometry.segments,
+			stroke,
+			strokeWidth: Number(style.strokeWidth ?? 2),
+			dashed: Boolean(edge.animated),
+		});
+		const color = markerColor(edge, stroke);
+		const arrow = color ? arrowhead(geometry.segments, color) : null;
+		if (arrow) items.push(arrow);
+		if (typeof edge.label === "string" && edge.label && geometry.label) {
+			labels.push(...edgeLabelItems(edge.label, geometry.label, edge, palette, measureText));
+		}
+	}
+
+	for (const { node, box } of boxes.values()) items.push(...nodeItems(node, box, palette, measureText));
+	items.push(...labels);
+
+	const bounds = itemBounds(items, measureText);
+	return {
+		x: bounds.x - padding,
+		y: bounds.y - padding,
+		width: bounds.width + padding * 2,
+		height: bounds.height + padding * 2,
+		background: transparent ? undefined : palette.background,
+		items,
+	};
+}
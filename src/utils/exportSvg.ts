@@ -0,0 +1,61 @@
+import type { PathSegment, Scene, SceneItem } from "./exportScene";
+import { escapeXml } from "./xml";
+
+const FONT_FAMILY = "Inter, ui-sans-serif, system-ui, -apple-system, Helvetica, Arial, sans-serif";
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export function pathData(segments: PathSegment[]): string {
+	return segments
+		.map((s) =>
+			s.op === "C"
+				? `C ${round(s.x1)} ${round(s.y1)} ${round(s.x2)} ${round(s.y2)} ${round(s.x)} ${round(s.y)}`
+				: `${s.op} ${round(s.x)} ${round(s.y)}`,
+		)
+		.join(" ");
+}
+
+function paint(item: { fill?: string; stroke?: string; strokeWidth?: number; dashed?: boolean }): string {
+	const attrs = [`fill="${item.fill ?? "none"}"`];
+	if (item.stroke) {
+		attrs.push(`stroke="${item.stroke}"`, `stroke-width="${item.strokeWidth ?? 1}"`);
+		if (item.dashed) attrs.push(`stroke-dasharray="5 5"`);
+	}
+	return attrs.join(" ");
+}
+
+function itemSvg(item: SceneItem): string {
+	switch (item.kind) {
+		case "rect":
+			return `<rect x="${round(item.x)}" y="${round(item.y)}" width="${round(item.width)}" height="${round(item.height)}"${item.radius ? ` rx="${round(item.radius)}"` : ""} ${paint(item)}/>`;
+		case "polygon":
+			return `<polygon points="${item.points.map((p) => `${round(p.x)},${round(p.y)}`).join(" ")}" ${paint(item)}/>`;
+		case "circle":
+			return `<circle cx="${round(item.cx)}" cy="${round(item.cy)}" r="${item.r}" ${paint(item)}/>`;
+		case "path":
+			return `<path d="${pathData(item.segments)}" ${paint(item)} stroke-linejoin="round"/>`;
+		case "text": {
+			const transform = item.rotate
+				? ` transform="rotate(${item.rotate} ${round(item.x)} ${round(item.y)})"`
+				: "";
+			return `<text x="${round(item.x)}" y="${round(item.y)}" font-size="${item.size}"${item.bold ? ` font-weight="600"` : ""} fill="${item.color}"${item.anchor === "middle" ? ` text-anchor="middle"` : ""}${transform}>${escapeXml(item.text)}</text>`;
+		}
+	}
+}
+
+/**
+ * Standalone SVG document for a scene, sized in CSS pixels (`scale` per scene pixel)
+ */
+export function sceneToSvg(scene: Scene, scale = 1): string {
+	const { x, y, width, height } = scene;
+	const lines = [
+		`<?xml version="1.0" encoding="UTF-8"?>`,
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${Math.ceil(width * scale)}" height="${Math.ceil(height * scale)}" viewBox="${round(x)} ${round(y)} ${round(width)} ${round(height)}" font-family="${FONT_FAMILY}">`,
+	];
+	if (scene.background) {
+		lines.push(`\t<rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" fill="${scene.background}"/>`);
+	}
+	for (const item of scene.items) lines.push(`\t${itemSvg(item)}`);
+	lines.push("</svg>");
+	return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,265 @@
+import type { Edge, Node } from "@xyflow/react";
+
+/**
+ * Structural checks on one level of a map: steps the flow can't reach or
+ * can't leave, missing end events, unused decision outputs and loops that
+ * never exit. Shared graph helpers (adjacency, union-find) live here too.
+ */
+
+export type FindingKind =
+	| "orphan"
+	| "unreachable"
+	| "dead-end"
+	| "missing-end"
+	| "unused-handles"
+	| "extra-branches"
+	| "endless-loop";
+
+export interface GraphFinding {
+	kind: FindingKind;
+	nodeIds: string[]; // Offending nodes (badged on the canvas), may be empty for missing-end
+	message: string;
+}
+
+/**
+ * Children and parents of every node, in edge order
+ */
+export function buildAdjacency(edges: Edge[]): {
+	childrenOf: Map<string, string[]>;
+	parentOf: Map<string, string[]>;
+} {
+	const childrenOf = new Map<string, string[]>();
+	const parentOf = new Map<string, string[]>();
+
+	for (const edge of edges) {
+		const children = childrenOf.get(edge.source) || [];
+		children.push(edge.target);
+		childrenOf.set(edge.source, children);
+
+		const parents = parentOf.get(edge.target) || [];
+		parents.push(edge.source);
+		parentOf.set(edge.target, parents);
+	}
+
+	return { childrenOf, parentOf };
+}
+
+/**
+ * Find disconnected subgraphs using Union-Find
+ */
+export function findSubgraphs(nodes: Node[], edges: Edge[]): Set<string>[] {
+	const parent = new Map<string, string>();
+
+	// Initialize each node as its own parent
+	for (const node of nodes) {
+		parent.set(node.id, node.id);
+	}
+
+	// Find root of a node
+	function find(id: string): string {
+		if (parent.get(id) !== id) {
+			parent.set(id, find(parent.get(id)!));
+		}
+		return parent.get(id)!;
+	}
+
+	// Union two nodes
+	function union(a: string, b: string) {
+		const rootA = find(a);
+		const rootB = find(b);
+		if (rootA !== rootB) {
+			parent.set(rootA, rootB);
+		}
+	}
+
+	// Union nodes connected by edges
+	for (const edge of edges) {
+		union(edge.source, edge.target);
+	}
+
+	// Group nodes by their root
+	const groups = new Map<string, Set<string>>();
+	for (const node of nodes) {
+		const root = find(node.id);
+		if (!groups.has(root)) {
+			groups.set(root, new Set());
+		}
+		groups.get(root)!.add(node.id);
+	}
+
+	return Array.from(groups.values());
+}
+
+/**
+ * Output handle IDs of a decision diamond (see DiamondNode)
+ */
+export function decisionHandles(outputCount: number): string[] {
+	return outputCount === 2
+		? ["left", "right"]
+		: Array.from({ length: outputCount }, (_, i) => `output-${i}`);
+}
+
+/**
+ * Strongly connected components (Tarjan), in discovery order
+ */
+function stronglyConnected(ids: string[], childrenOf: Map<string, string[]>): string[][] {
+	const index = new Map<string, number>();
+	const low = new Map<string, number>();
+	const stack: string[] = [];
+	const onStack = new Set<string>();
+	const components: string[][] = [];
+
+	function visit(id: string) {
+		index.set(id, index.size);
+		low.set(id, index.get(id)!);
+		stack.push(id);
+		onStack.add(id);
+		for (const child of childrenOf.get(id) ?? []) {
+			if (!index.has(child)) {
+				visit(child);
+				low.set(id, Math.min(low.get(id)!, low.get(child)!));
+			} else if (onStack.has(child)) {
+				low.set(id, Math.min(low.get(id)!, index.get(child)!));
+			}
+		}
+		if (low.get(id) === index.get(id)) {
+			const component: string[] = [];
+			let member: string;
+			do {
+				member = stack.pop()!;
+				onStack.delete(member);
+				component.push(member);
+			} while (member !== id);
+			components.push(component);
+		}
+	}
+
+	for (const id of ids) {
+		if (!index.has(id)) visit(id);
+	}
+	return components;
+}
+
+const labelOf = (node: Node) => `"${String(node.data.label ?? node.id)}"`;
+
+/**
+ * Analyze one level of a map. Start events are ovals without incoming edges,
+ * end events ovals without outgoing ones; edges to unknown nodes are ignored
+ */
+export function analyzeGraph(graph: { nodes: Node[]; edges: Edge[] }): GraphFinding[] {
+	const { nodes } = graph;
+	const byId = new Map(nodes.map((n) => [n.id, n]));
+	const edges = graph.edges.filter((e) => byId.has(e.source) && byId.has(e.target));
+	const { childrenOf, parentOf } = buildAdjacency(edges);
+	const incoming = (id: string) => (parentOf.get(id) ?? []).filter((p) => p !== id);
+	const outgoing = (id: string) => (childrenOf.get(id) ?? []).filter((c) => c !== id);
+	const findings: GraphFinding[] = [];
+	if (nodes.length < 2) return findings; // A new map
+
+	// Steps connected to nothing
+	const orphans = new Set(
+		findSubgraphs(nodes, edges)
+			.filter((group) => group.size === 1)
+			.flatMap((group) => [...group]),
+	);
+	for (const id of orphans) {
+		findings.push({ kind: "orphan", nodeIds: [id], message: `${labelOf(byId.get(id)!)} isn't connected to the flow` });
+	}
+	const connected = nodes.filter((n) => !orphans.has(n.id));
+
+	// Nothing leads into a step that isn't a start event, or only a closed loop does
+	const roots = connected.filter((n) => incoming(n.id).length === 0);
+	const reached = new Set<string>();
+	const queue = roots.map((n) => n.id);
+	while (queue.length > 0) {
+		const id = queue.shift()!;
+		if (reached.has(id)) continue;
+		reached.add(id);
+		queue.push(...outgoing(id));
+	}
+	for (const node of connected) {
+		const label = labelOf(node);
+		if (!reached.has(node.id)) {
+			findings.push({ kind: "unreachable", nodeIds: [node.id], message: `${label} can't be reached from a start event` });
+		} else if (roots.includes(node) && node.type !== "oval") {
+			findings.push({
+				kind: "unreachable",
+				nodeIds: [node.id],
+				message: `${label} has no incoming edges and isn't a start event`,
+			});
+		}
+	}
+
+	// Steps the flow stops at (a self-loop is an endless loop instead) - without
+	// any end event, the whole map is missing one
+	const ends = connected.filter((n) => n.type === "oval" && outgoing(n.id).length === 0);
+	const sinks = connected.filter((n) => n.type !== "oval" && !childrenOf.has(n.id));
+	if (connected.length > 0 && ends.length === 0) {
+		findings.push({
+			kind: "missing-end",
+			nodeIds: sinks.map((n) => n.id),
+			message:
+				sinks.length > 0
+					? `No end event - the flow stops at ${sinks.map(labelOf).join(", ")}`
+					: "No end event",
+		});
+	} else {
+		for (const node of sinks) {
+			findings.push({ kind: "dead-end", nodeIds: [node.id], message: `${labelOf(node)} is a dead end` });
+		}
+	}
+
+	// Decision outputs without a branch, or more branches than outputs
+	for (const node of connected) {
+		const outputCount = node.data.outputCount;
+		if (node.type !== "diamond" || typeof outputCount !== "number") continue;
+		const branches = edges.filter((e) => e.source === node.id);
+		const handles = decisionHandles(outputCount);
+		const used = new Set(branches.flatMap((e) => (handles.includes(e.sourceHandle ?? "") ? [e.sourceHandle] : [])));
+		const unassigned = branches.filter((e) => !handles.includes(e.sourceHandle ?? "")).length;
+		const unused = handles.length - used.size - unassigned;
+		if (branches.length > outputCount) {
+			findings.push({
+				kind: "extra-branches",
+				nodeIds: [node.id],
+				message: `${labelOf(node)} has ${branches.length} branches but ${outputCount} outputs`,
+			});
+		} else if (unused > 0) {
+			findings.push({
+				kind: "unused-handles",
+				nodeIds: [node.id],
+				message: `${unused} of ${outputCount} outputs of ${labelOf(node)} ${unused === 1 ? "is" : "are"} unused`,
+			});
+		}
+	}
+
+	// Cycles with no edge leaving them
+	const order = new Map(nodes.map((n, i) => [n.id, i]));
+	for (const component of stronglyConnected(
+		connected.map((n) => n.id),
+		childrenOf,
+	)) {
+		const members = new Set(component);
+		const isLoop = component.length > 1 || (childrenOf.get(component[0]!) ?? []).includes(component[0]!);
+		if (!isLoop || component.some((id) => outgoing(id).some((c) => !members.has(c)))) continue;
+		const loop = component.sort((a, b) => order.get(a)! - order.get(b)!);
+		findings.push({
+			kind: "endless-loop",
+			nodeIds: loop,
+			message: `Loop through ${loop.map((id) => labelOf(byId.get(id)!)).join(", ")} has no exit`,
+		});
+	}
+
+	return findings;
+}
+
+/**
+ * Findings per node ID, for the canvas badges
+ */
+export function findingsByNode(findings: GraphFinding[]): Map<string, GraphFinding[]> {
+	const byNode = new Map<string, GraphFinding[]>();
+	for (const finding of findings) {
+		for (const id of finding.nodeIds) byNode.set(id, [...(byNode.get(id) ?? []), finding]);
+	}
+	return byNode;
+}
@@ -0,0 +1,170 @@
+import type { Edge, Node } from "@xyflow/react";
+import type { GraphState } from "./graphPatch";
+
+export type ChangeKind = "added" | "removed" | "modified";
+
+export interface GraphDiff {
+	nodes: Map<string, ChangeKind>;
+	edges: Map<string, ChangeKind>;
+}
+
+/**
+ * Fields that matter when comparing graphs - selection, measurements and
+ * overlay classes are view state, not content
+ */
+function nodeSignature(node: Node): string {
+	return JSON.stringify([node.type ?? "default", node.position, node.data]);
+}
+
+function edgeSignature(edge: Edge): string {
+	const { selected: _selected, className: _className, ...content } = edge;
+	return JSON.stringify(content);
+}
+
+function diffById<T extends { id: string }>(
+	base: T[],
+	proposed: T[],
+	signature: (item: T) => string,
+): Map<string, ChangeKind> {
+	const changes = new Map<string, ChangeKind>();
+	const baseById = new Map(base.map((item) => [item.id, item]));
+	const proposedIds = new Set(proposed.map((item) => item.id));
+
+	for (const item of proposed) {
+		const before = baseById.get(item.id);
+		if (!before) {
+			changes.set(item.id, "added");
+		} else if (signature(before) !== signature(item)) {
+			changes.set(item.id, "modified");
+		}
+	}
+	for (const item of base) {
+		if (!proposedIds.has(item.id)) changes.set(item.id, "removed");
+	}
+
+	return changes;
+}
+
+/**
+ * Compare the committed graph with an AI proposal
+ */
+export function diffGraphs(base: GraphState, proposed: GraphState): GraphDiff {
+	return {
+		nodes: diffById(base.nodes, proposed.nodes, nodeSignature),
+		edges: diffById(base.edges, proposed.edges, edgeSignature),
+	};
+}
+
+/**
+ * The proposal changes anything at all - nodes, edges or lanes
+ * (a reply that repeats the graph leaves nothing to review)
+ */
+export function hasChanges(base: GraphState, proposed: GraphState): boolean {
+	const diff = diffGraphs(base, proposed);
+	const lanesChanged =
+		proposed.lanes !== undefined && JSON.stringify(proposed.lanes) !== JSON.stringify(base.lanes ?? []);
+	return diff.nodes.size > 0 || diff.edges.size > 0 || lanesChanged;
+}
+
+/**
+ * Build the ghost overlay shown while a proposal is under review
+ * - Proposed nodes/edges carry a `ghost-added` / `ghost-modified` class
+ * - Removed ones stay visible with a `ghost-removed` class
+ */
+export function buildOverlay(
+	base: GraphState,
+	proposed: GraphState,
+	diff: GraphDiff,
+): GraphState {
+	const withClass = <T extends Node | Edge>(item: T, kind?: ChangeKind): T =>
+		kind ? { ...item, className: `ghost-${kind}` } : item;
+
+	return {
+		nodes: [
+			...proposed.nodes.map((n) => withClass(n, diff.nodes.get(n.id))),
+			...base.nodes
+				.filter((n) => diff.nodes.get(n.id) === "removed")
+				.map((n) => withClass(n, "removed")),
+		],
+		edges: [
+			...proposed.edges.map((e) => withClass(e, diff.edges.get(e.id))),
+			...base.edges
+				.filter((e) => diff.edges.get(e.id) === "removed")
+				.map((e) => withClass(e, "removed")),
+		],
+	};
+}
+
+/**
+ * Resolve a proposal into the graph to commit
+ * - Without nodeIds every change is accepted
+ * - With nodeIds only changes to those nodes are taken, plus edge changes
+ *   touching them; edges left without both endpoints are dropped
+ * - Lane changes are only taken as far as the accepted nodes need them: the
+ *   committed lanes stay, plus proposed lanes the accepted nodes were moved into
+ */
+export function acceptChanges(
+	base: GraphState,
+	proposed: GraphState,
+	nodeIds?: Set<string>,
+): GraphState {
+	if (!nodeIds) return proposed;
+
+	const diff = diffGraphs(base, proposed);
+	const proposedNodes = new Map(proposed.nodes.map((n) => [n.id, n]));
+	const proposedEdges = new Map(proposed.edges.map((e) => [e.id, e]));
+
+	// Start from the committed nodes, applying only the chosen changes
+	const nodes: Node[] = [];
+	for (const node of base.nodes) {
+		const kind = nodeIds.has(node.id) ? diff.nodes.get(node.id) : undefined;
+		if (kind === "removed") continue;
+		nodes.push(kind === "modified" ? (proposedNodes.get(node.id) ?? node) : node);
+	}
+	for (const node of proposed.nodes) {
+		if (nodeIds.has(node.id) && diff.nodes.get(node.id) === "added") {
+			nodes.push(node);
+		}
+	}
+
+	const touchesChosen = (edge: Edge) =>
+		nodeIds.has(edge.source) || nodeIds.has(edge.target);
+
+	const edges: Edge[] = [];
+	for (const edge of base.edges) {
+		const kind = touchesChosen(edge) ? diff.edges.get(edge.id) : undefined;
+		if (kind === "removed") continue;
+		edges.push(kind === "modified" ? (proposedEdges.get(edge.id) ?? edge) : edge);
+	}
+	for (const edge of proposed.edges) {
+		if (diff.edges.get(edge.id) === "added" && touchesChosen(edge)) {
+			edges.push(edge);
+		}
+	}
+
+	const baseLaneIds = new Set(base.lanes?.map((l) => l.id));
+	const usedLaneIds = new Set(nodes.map((n) => n.data?.laneId));
+	const newLanes = (proposed.lanes ?? []).filter(
+		(l) => !baseLaneIds.has(l.id) && usedLaneIds.has(l.id),
+	);
+
+	const nodeIdsAfter = new Set(nodes.map((n) => n.id));
+	return {
+		nodes,
+		edges: edges.filter(
+			(e) => nodeIdsAfter.has(e.source) && nodeIdsAfter.has(e.target),
+		),
+		...(base.lanes || newLanes.length > 0
+			? { lanes: [...(base.lanes ?? []), ...newLanes] }
+			: {}),
+	};
+}
+
+/**
+ * Count changes by kind for the review summary
+ */
+export function summarizeDiff(diff: GraphDiff): Record<ChangeKind, number> {
+	const counts: Record<ChangeKind, number> = { added: 0, removed: 0, modified: 0 };
+	for (const kind of diff.nodes.values()) counts[kind]++;
+	return counts;
+}
@@ -0,0 +1,175 @@
+import type { Edge, Node } from "@xyflow/react";
+import type { ProcessLane } from "../types/process";
+import type { GraphOperation } from "./streamProtocol";
+
+export interface GraphState {
+	nodes: Node[];
+	edges: Edge[];
+	lanes?: ProcessLane[];
+}
+
+/**
+ * Merge updated nodes with existing nodes
+ * - Nodes in updatedNodes replace existing nodes with the same ID
+ * - Nodes in nodeIdsToRemove are filtered out
+ * - Existing nodes not in either list are preserved
+ */
+export function mergeNodes(
+	existingNodes: Node[],
+	updatedNodes: Node[],
+	nodeIdsToRemove: Set<string>,
+): Node[] {
+	// Create a map of updated nodes by ID for fast lookup
+	const updatedNodeMap = new Map(updatedNodes.map((n) => [n.id, n]));
+
+	// Start with existing nodes, replacing/filtering as needed
+	const mergedNodes: Node[] = [];
+
+	for (const node of existingNodes) {
+		// Skip if marked for removal
+		if (nodeIdsToRemove.has(node.id)) continue;
+
+		// Use updated version if available, otherwise keep existing
+		const updatedNode = updatedNodeMap.get(node.id);
+		if (updatedNode) {
+			mergedNodes.push(updatedNode);
+			updatedNodeMap.delete(node.id); // Mark as processed
+		} else {
+			mergedNodes.push(node);
+		}
+	}
+
+	// Add any new nodes that weren't replacements
+	for (const node of updatedNodeMap.values()) {
+		mergedNodes.push(node);
+	}
+
+	return mergedNodes;
+}
+
+/**
+ * Normalize edge marker types to lowercase (safety net for model output)
+ */
+export function normalizeEdge(edge: Edge): Edge {
+	const markerEnd = edge.markerEnd;
+	if (markerEnd && typeof markerEnd === "object" && "type" in markerEnd) {
+		return {
+			...edge,
+			markerEnd: { ...markerEnd, type: markerEnd.type.toLowerCase() },
+		} as Edge;
+	}
+	return edge;
+}
+
+/**
+ * Upsert edges by ID, keeping the existing order
+ */
+function upsertEdge(edges: Edge[], edge: Edge): Edge[] {
+	const index = edges.findIndex((e) => e.id === edge.id);
+	if (index === -1) return [...edges, edge];
+	return edges.map((e, i) => (i === index ? edge : e));
+}
+
+/**
+ * Apply one streamed graph operation, returning a new graph
+ * - node / add_node upsert a full node
+ * - update_node shallow-merges data (and may change the node type)
+ * - remove_node also drops every edge attached to the node
+ * - edges replaces the whole edge list; the *_edge operations patch single edges
+ *   (update_edge shallow-merges data too)
+ * - lanes replaces the swimlanes
+ * Operations on unknown IDs leave the graph unchanged
+ */
+export function applyGraphOperation(
+	graph: GraphState,
+	op: GraphOperation,
+): GraphState {
+	switch (op.type) {
+		case "node":
+		case "add_node":
+			return {
+				...graph,
+				nodes: mergeNodes(graph.nodes, [op.data as Node], new Set()),
+			};
+
+		case "update_node": {
+			const { id, type, data } = op.data;
+			return {
+				...graph,
+				nodes: graph.nodes.map((node) =>
+					node.id === id
+						? {
+								...node,
+								...(type ? { type } : {}),
+								data: { ...node.data, ...data },
+							}
+						: node,
+				),
+			};
+		}
+
+		case "move_node":
+			return {
+				...graph,
+				nodes: graph.nodes.map((node) =>
+					node.id === op.data.id
+						? { ...node, position: op.data.position }
+						: node,
+				),
+			};
+
+		case "remove_node":
+			return {
+				...graph,
+				nodes: mergeNodes(graph.nodes, [], new Set([op.data])),
+				edges: graph.edges.filter(
+					(e) => e.source !== op.data && e.target !== op.data,
+				),
+			};
+
+		case "edges":
+			return {
+				...graph,
+				edges: (op.data as Edge[]).map(normalizeEdge),
+			};
+
+		case "add_edge":
+			return {
+				...graph,
+				edges: upsertEdge(graph.edges, normalizeEdge(op.data as Edge)),
+			};
+
+		case "update_edge": {
+			const existing = graph.edges.find((e) => e.id === op.data.id);
+			if (!existing) return graph;
+			return {
+				...graph,
+				edges: upsertEdge(
+					graph.edges,
+					normalizeEdge({
+						...existing,
+						...op.data,
+						...(op.data.data ? { data: { ...existing.data, ...op.data.data } } : {}),
+					} as Edge),
+				),
+			};
+		}
+
+		case "remove_edge":
+			return {
+				...graph,
+				edges: graph.edges.filter((e) => e.id !== op.data),
+			};
+
+		case "lanes":
+			return { ...graph, lanes: op.data };
+	}
+}
+
+/**
+ * Graph a streamed response builds on: a create mode line starts a new map,
+ * otherwise (update mode, or no mode line yet) operations patch the current one
+ */
+export function streamBaseGraph(current: GraphState, mode?: "create" | "update"): GraphState {
+	return mode === "create" ? { nodes: [], edges: [], lanes: [] } : current;
+}
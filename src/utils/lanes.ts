@@ -0,0 +1,161 @@
+import type { Node } from "@xyflow/react";
+import type { ProcessLane } from "../types/process";
+
+export const DEFAULT_LANE_SIZE = 200; // Row height / column width
+export const LANE_HEADER_SIZE = 40; // Strip holding the lane label
+export const LANE_NODE_PREFIX = "lane:"; // React Flow IDs of the lane background nodes
+const LANE_PADDING = 60; // Space between the header and the first/last step
+const LANE_MARGIN = 10; // Minimum gap between a snapped step and the lane border
+const EMPTY_LANE_LENGTH = 600;
+
+/** A lane's extent across the flow (y for rows, x for columns) */
+export interface LaneBand {
+	lane: ProcessLane;
+	start: number;
+	end: number;
+}
+
+export function isLaneNode(node: Pick<Node, "id">): boolean {
+	return node.id.startsWith(LANE_NODE_PREFIX);
+}
+
+/** Rendered (or default) size of a node */
+function nodeSize(node: Node): { width: number; height: number } {
+	return {
+		width: node.measured?.width ?? node.width ?? 150,
+		height: node.measured?.height ?? node.height ?? 50,
+	};
+}
+
+/**
+ * Lanes stacked from 0 across the flow, in array order
+ */
+export function laneBands(lanes: ProcessLane[]): LaneBand[] {
+	let start = 0;
+	return lanes.map((lane) => {
+		const band = { lane, start, end: start + (lane.size ?? DEFAULT_LANE_SIZE) };
+		start = band.end;
+		return band;
+	});
+}
+
+/**
+ * Lane containing a cross-axis coordinate (undefined outside every lane)
+ */
+export function laneAt(bands: LaneBand[], cross: number): ProcessLane | undefined {
+	return bands.find((b) => cross >= b.start && cross < b.end)?.lane;
+}
+
+/**
+ * Assign a dropped step to the lane under its center and keep it inside that lane
+ * Steps dropped outside every lane leave their lane
+ */
+export function snapToLane(node: Node, lanes: ProcessLane[], horizontal: boolean): Node {
+	const { width, height } = nodeSize(node);
+	const size = horizontal ? height : width;
+	const cross = horizontal ? node.position.y : node.position.x;
+
+	const bands = laneBands(lanes);
+	const lane = laneAt(bands, cross + size / 2);
+	if (!lane) {
+		if (node.data.laneId === undefined) return node;
+		const { laneId: _, ...data } = node.data;
+		return { ...node, data };
+	}
+
+	const band = bands.find((b) => b.lane === lane) as LaneBand;
+	const clamped = Math.min(
+		Math.max(cross, band.start + LANE_MARGIN),
+		Math.max(band.start + LANE_MARGIN, band.end - size - LANE_MARGIN),
+	);
+	return {
+		...node,
+		position: horizontal
+			? { x: node.position.x, y: clamped }
+			: { x: clamped, y: node.position.y },
+		data: { ...node.data, laneId: lane.id },
+	};
+}
+
+/**
+ * Background nodes for the lanes, spanning every step along the flow
+ * The header strip sits before the first step (left of rows, above columns)
+ */
+export function buildLaneNodes(
+	lanes: ProcessLane[],
+	nodes: Node[],
+	horizontal: boolean,
+): Node[] {
+	if (lanes.length === 0) return [];
+
+	const steps = nodes.filter((n) => !isLaneNode(n));
+	const mains = steps.map((n) => (horizontal ? n.position.x : n.position.y));
+	const ends = steps.map((n) => {
+		const { width, height } = nodeSize(n);
+		return horizontal ? n.position.x + width : n.position.y + height;
+	});
+	const mainStart = (mains.length ? Math.min(...mains) : 0) - LANE_PADDING - LANE_HEADER_SIZE;
+	const mainEnd = ends.length ? Math.max(...ends) + LANE_PADDING : mainStart + EMPTY_LANE_LENGTH;
+	const length = mainEnd - mainStart;
+
+	return laneBands(lanes).map(({ lane, start, end }) => ({
+		id: `${LANE_NODE_PREFIX}${lane.id}`,
+		type: "lane",
+		position: horizontal ? { x: mainStart, y: start } : { x: start, y: mainStart },
+		width: horizontal ? length : end - start,
+		height: horizontal ? end - start : length,
+		data: { label: lane.label, color: lane.color, laneId: lane.id, horizontal },
+		zIndex: -1,
+		dragHandle: ".lane-header",
+		selectable: false,
+		connectable: false,
+		deletable: false,
+	}));
+}
+
+/**
+ * Move a lane to where its header was dropped
+ * `cross` is the dropped lane's new start across the flow
+ */
+export function reorderLanes(
+	lanes: ProcessLane[],
+	laneId: string,
+	cross: number,
+): ProcessLane[] {
+	const moved = lanes.find((l) => l.id === laneId);
+	if (!moved) return lanes;
+
+	const center = cross + (moved.size ?? DEFAULT_LANE_SIZE) / 2;
+	const others = lanes.filter((l) => l !== moved);
+	const index = laneBands(others).filter((b) => (b.start + b.end) / 2 < center).length;
+	return [...others.slice(0, index), moved, ...others.slice(index)];
+}
+
+/**
+ * Shift steps across the flow so they stay in their lane after lanes were
+ * reordered or resized
+ */
+export function moveStepsWithLanes(
+	nodes: Node[],
+	before: ProcessLane[],
+	after: ProcessLane[],
+	horizontal: boolean,
+): Node[] {
+	const oldStart = new Map(laneBands(before).map((b) => [b.lane.id, b.start]));
+	const newStart = new Map(laneBands(after).map((b) => [b.lane.id, b.start]));
+
+	return nodes.map((node) => {
+		const laneId = node.data.laneId as string | undefined;
+		const from = laneId ? oldStart.get(laneId) : undefined;
+		const to = laneId ? newStart.get(laneId) : undefined;
+		if (from === undefined || to === undefined || from === to) return node;
+
+		const delta = to - from;
+		return {
+			...node,
+			position: horizontal
+				? { x: node.position.x, y: node.position.y + delta }
+				: { x: node.position.x + delta, y: node.position.y },
+		};
+	});
+}
@@ -0,0 +1,225 @@
+import type { Edge, Node } from "@xyflow/react";
+import type { Duration, ProcessEdge } from "../types/process";
+import { buildAdjacency } from "./graphAnalysis";
+import { toHours } from "./metrics";
+import { enumeratePaths, type ProcessPath } from "./paths";
+
+/**
+ * Lead time of a map from its step cycle times and edge wait times
+ *
+ * Loop-backs (`selfConnecting` edges and edges closing a cycle) are not walked
+ * but counted: a loop's body runs once more per expected iteration
+ * (`data.iterations`, default 1). Decision branches split runs by
+ * `data.probability` - unset branches share what's left.
+ */
+
+export const DEFAULT_LOOP_ITERATIONS = 1;
+
+type EdgeData = NonNullable<ProcessEdge["data"]>;
+
+export interface TimedPath {
+	path: ProcessPath; // Loop-free start-to-end path
+	hours: number; // Lead time, loops at their expected iterations
+	probability: number; // Share of runs taking this path
+}
+
+export interface LeadTimeAnalysis {
+	paths: TimedPath[]; // Runs that reach an end - loop bodies are counted into them
+	expectedHours: number | null; // Probability-weighted lead time (null without paths)
+	critical: TimedPath | null; // Longest path
+	shortest: TimedPath | null;
+	untimedSteps: string[]; // Steps on a path without a cycle time (start/end events and decisions excluded)
+	truncated: boolean; // Too many paths - the figures cover the first ones only
+}
+
+const dataOf = (edge: Edge) => (edge.data ?? {}) as EdgeData;
+const hoursOf = (duration: Duration | undefined) => (duration ? toHours(duration) : 0);
+const cycleHours = (node: Node | undefined) => hoursOf(node?.data.cycleTime as Duration | undefined);
+
+/** The map carries any cycle or wait time */
+export function hasTimings(graph: { nodes: Node[]; edges: Edge[] }): boolean {
+	return graph.nodes.some((n) => n.data.cycleTime) || graph.edges.some((e) => dataOf(e).waitTime);
+}
+
+/**
+ * Edges that close a cycle: `selfConnecting` edges and back edges of a
+ * depth-first walk from the start events
+ */
+export function findLoopBacks(graph: { nodes: Node[]; edges: Edge[] }): Set<string> {
+	const { parentOf } = buildAdjacency(graph.edges);
+	const outgoing = new Map<string, Edge[]>();
+	for (const edge of graph.edges) outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge]);
+
+	const loopBacks = new Set(graph.edges.filter((e) => e.type === "selfConnecting").map((e) => e.id));
+	const state = new Map<string, "open" | "done">();
+	const visit = (id: string) => {
+		state.set(id, "open");
+		for (const edge of outgoing.get(id) ?? []) {
+			if (loopBacks.has(edge.id)) continue;
+			const target = state.get(edge.target);
+			if (target === "open") loopBacks.add(edge.id);
+			else if (!target) visit(edge.target);
+		}
+		state.set(id, "done");
+	};
+
+	// Roots first, so cycles are cut where the flow comes back rather than where it starts
+	const roots = graph.nodes.filter((n) => !(parentOf.get(n.id) ?? []).some((p) => p !== n.id));
+	for (const node of [...roots, ...graph.nodes]) {
+		if (!state.has(node.id)) visit(node.id);
+	}
+	return loopBacks;
+}
+
+/**
+ * Share of runs taking each edge out of a step with several forward edges
+ * (edges from single-exit steps are 1; loop-backs are left out)
+ */
+export function branchProbabilities(edges: Edge[], loopBacks: Set<string>): Map<string, number> {
+	const bySource = new Map<string, Edge[]>();
+	for (const edge of edges) {
+		if (loopBacks.has(edge.id)) continue;
+		bySource.set(edge.source, [...(bySource.get(edge.source) ?? []), edge]);
+	}
+
+	const probabilities = new Map<string, number>();
+	for (const branches of bySource.values()) {
+		const given = branches.map((e) => dataOf(e).probability);
+		const assigned = given.reduce<number>((sum, p) => sum + (p ?? 0), 0);
+		const unset = given.filter((p) => p === undefined).length;
+		const share = unset > 0 ? Math.max(0, 1 - assigned) / unset : 0;
+		const raw = given.map((p) => p ?? share);
+		const total = raw.reduce((sum, p) => sum + p, 0);
+		branches.forEach((edge, i) => {
+			probabilities.set(edge.id, total > 0 ? raw[i]! / total : 1 / branches.length);
+		});
+	}
+	return probabilities;
+}
+
+/**
+ * Body of every loop-back: the steps on a forward route from its target back
+ * to its source, smallest (innermost) loops first
+ */
+export function loopBodies(edges: Edge[], loopBacks: Set<string>): { edge: Edge; body: Set<string> }[] {
+	const { childrenOf, parentOf } = buildAdjacency(edges.filter((e) => !loopBacks.has(e.id)));
+	const reach = (from: string, next: Map<string, string[]>) => {
+		const seen = new Set([from]);
+		const queue = [from];
+		while (queue.length > 0) {
+			for (const id of next.get(queue.shift()!) ?? []) {
+				if (!seen.has(id)) {
+					seen.add(id);
+					queue.push(id);
+				}
+			}
+		}
+		return seen;
+	};
+
+	return edges
+		.filter((e) => loopBacks.has(e.id))
+		.map((edge) => {
+			const upstream = reach(edge.source, parentOf);
+			return { edge, body: new Set([...reach(edge.target, childrenOf)].filter((id) => upstream.has(id))) };
+		})
+		.sort((a, b) => a.body.size - b.body.size);
+}
+
+/**
+ * Extra hours the loops add, charged to the step each loop returns to: per
+ * iteration its body (inner loops included) runs again, plus the wait on the
+ * loop-back itself
+ */
+function loopHoursByEntry(
+	graph: { nodes: Node[]; edges: Edge[] },
+	loopBacks: Set<string>,
+): Map<string, number> {
+	const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+	const forward = graph.edges.filter((e) => !loopBacks.has(e.id));
+	const extra = new Map<string, number>();
+	for (const { edge, body } of loopBodies(graph.edges, loopBacks)) {
+		const iterations = dataOf(edge).iterations ?? DEFAULT_LOOP_ITERATIONS;
+		const bodyHours =
+			[...body].reduce((sum, id) => sum + cycleHours(byId.get(id)) + (extra.get(id) ?? 0), 0) +
+			forward
+				.filter((e) => body.has(e.source) && body.has(e.target))
+				.reduce((sum, e) => sum + hoursOf(dataOf(e).waitTime), 0);
+		const hours = iterations * (bodyHours + hoursOf(dataOf(edge).waitTime));
+		extra.set(edge.target, (extra.get(edge.target) ?? 0) + hours);
+	}
+	return extra;
+}
+
+/**
+ * Lead time of a path exactly as listed - each step and wait once per visit
+ */
+export function pathLeadHours(path: ProcessPath, graph: { nodes: Node[]; edges: Edge[] }): number {
+	const nodes = new Map(graph.nodes.map((n) => [n.id, n]));
+	const edges = new Map(graph.edges.map((e) => [e.id, e]));
+	const waitHours = (id: string) => {
+		const edge = edges.get(id);
+		return edge ? hoursOf(dataOf(edge).waitTime) : 0;
+	};
+	return (
+		path.nodeIds.reduce((sum, id) => sum + cycleHours(nodes.get(id)), 0) +
+		path.edgeIds.reduce((sum, id) => sum + waitHours(id), 0)
+	);
+}
+
+/**
+ * Lead time per loop-free path, the expected lead time over all of them and
+ * the critical (longest) path
+ */
+export function analyzeLeadTime(graph: { nodes: Node[]; edges: Edge[] }): LeadTimeAnalysis {
+	const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+	const edges = graph.edges.filter((e) => byId.has(e.source) && byId.has(e.target));
+	const edgesById = new Map(edges.map((e) => [e.id, e]));
+	const loopBacks = findLoopBacks({ nodes: graph.nodes, edges });
+	const probabilities = branchProbabilities(edges, loopBacks);
+	const loopHours = loopHoursByEntry({ nodes: graph.nodes, edges }, loopBacks);
+	const loopsBack = new Set(edges.filter((e) => loopBacks.has(e.id)).map((e) => e.source));
+
+	const forward = { nodes: graph.nodes, edges: edges.filter((e) => !loopBacks.has(e.id)) };
+	const { paths: routes, truncated } = enumeratePaths(forward, 0);
+
+	const paths = routes
+		// Routes ending in a loop-back are the loop's body, not a run of the process
+		.filter((path) => !loopsBack.has(path.nodeIds[path.nodeIds.length - 1]!))
+		.map((path): TimedPath => {
+			const stepHours = path.nodeIds.reduce(
+				(sum, id) => sum + cycleHours(byId.get(id)) + (loopHours.get(id) ?? 0),
+				0,
+			);
+			const waitHours = path.edgeIds.reduce(
+				(sum, id) => sum + hoursOf(dataOf(edgesById.get(id)!).waitTime),
+				0,
+			);
+			const probability = path.edgeIds.reduce((p, id) => p * (probabilities.get(id) ?? 1), 1);
+			return { path, hours: stepHours + waitHours, probability };
+		});
+
+	const totalProbability = paths.reduce((sum, p) => sum + p.probability, 0);
+	const longestFirst = [...paths].sort((a, b) => b.hours - a.hours);
+	const untimed = new Set(
+		paths
+			.flatMap((p) => p.path.nodeIds)
+			.filter((id) => {
+				const node = byId.get(id);
+				return node?.type !== "oval" && node?.type !== "diamond" && !node?.data.cycleTime;
+			}),
+	);
+
+	return {
+		paths,
+		// Normalized over the runs that finish (branches that only loop back are left out)
+		expectedHours:
+			totalProbability > 0
+				? paths.reduce((sum, p) => sum + p.hours * p.probability, 0) / totalProbability
+				: null,
+		critical: longestFirst[0] ?? null,
+		shortest: longestFirst[longestFirst.length - 1] ?? null,
+		untimedSteps: graph.nodes.filter((n) => untimed.has(n.id)).map((n) => n.id),
+		truncated,
+	};
+}
@@ -0,0 +1,332 @@
+import type { ProcessEdge, ProcessGraph, ProcessNode } from "../types/process";
+import { EDGE_GRAY, NO_RED, routeDecisionBranches, YES_GREEN } from "./edgeHelpers";
+import { analyzeGraph, type FindingKind, type GraphFinding } from "./graphAnalysis";
+
+/**
+ * Process lint - checks a map against docs/process-mapping-standards.md.
+ * Rules are plain functions over the graph; fixes return a patched graph.
+ */
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export interface LintFix {
+	label: string; // Button text, e.g. "Set outputCount to 2"
+	apply: (graph: ProcessGraph) => ProcessGraph;
+}
+
+export interface LintIssue {
+	ruleId: string;
+	severity: LintSeverity;
+	message: string;
+	nodeId: string; // Node to focus
+	edgeId?: string;
+	fix?: LintFix; // Only for mechanical fixes
+}
+
+export interface LintRule {
+	id: string;
+	severity: LintSeverity;
+	description: string;
+	check: (graph: ProcessGraph) => Omit<LintIssue, "ruleId" | "severity">[];
+}
+
+const MIN_LABEL_WORDS = 2;
+const MAX_LABEL_WORDS = 5;
+const MAX_LABEL_LENGTH = 50;
+const RAINBOW_BRANCHES = 3; // Branch count from which edges should stay gray
+
+// Grays used for plain edges (the standard gray, muted loop-backs, React Flow's default)
+const NEUTRAL_COLORS = new Set([EDGE_GRAY, "#94a3b8", "#b1b1b7"]);
+
+// Imperative verbs common in process steps; words ending in -ize/-ise/-ify/-ate also count
+const ACTION_VERBS = new Set(
+	`accept acknowledge add adjust allocate analyze apply approve archive arrange ask assemble assess assign attach
+	audit authorize backup bill book build calculate call cancel capture charge check choose classify clean close
+	collect compare compile complete compute configure confirm connect contact copy correct create deliver deploy
+	design determine develop dispatch distribute document download draft edit email enable enter escalate estimate
+	evaluate execute export fetch file fill finalize find fix flag follow forward fulfill gather generate get give
+	handle hire identify implement import inform inspect install investigate invite invoice issue label launch list
+	load log mail make manage mark measure merge migrate monitor move notify obtain onboard open order pack package
+	pay perform pick place plan post prepare print process procure produce provide publish purchase put rate read
+	receive reconcile record refund register reject release remove renew repair replace reply report request
+	research reserve resolve respond restart restore retrieve return review revise route run save scan schedule
+	screen search select sell send set share ship sign sort start stop store submit supply test track train
+	transfer translate triage update upload use verify visit wait weigh write`.split(/\s+/),
+);
+
+const isStep = (node: ProcessNode) =>
+	node.type === undefined || node.type === "default" || node.type === "subprocess";
+
+const labelOf = (node: ProcessNode) => String(node.data.label ?? "").trim();
+
+/** Stroke of an edge, falling back to its label color (AI output often only sets that) */
+function edgeColor(edge: ProcessEdge): string | undefined {
+	const color = edge.style?.stroke ?? edge.labelStyle?.fill;
+	return typeof color === "string" ? color.toLowerCase() : undefined;
+}
+
+function recolorEdge(edge: ProcessEdge, color: string): ProcessEdge {
+	return {
+		...edge,
+		style: { ...edge.style, stroke: color },
+		markerEnd:
+			edge.markerEnd && typeof edge.markerEnd === "object" ? { ...edge.markerEnd, color } : edge.markerEnd,
+		...(edge.label ? { labelStyle: { fontWeight: 600, ...edge.labelStyle, fill: color } } : {}),
+	};
+}
+
+function updateNode(nodeId: string, update: (node: ProcessNode) => ProcessNode) {
+	return (graph: ProcessGraph): ProcessGraph => ({
+		...graph,
+		nodes: graph.nodes.map((n) => (n.id === nodeId ? update(n) : n)),
+	});
+}
+
+function recolorEdges(edgeIds: string[], color: string) {
+	return (graph: ProcessGraph): ProcessGraph => ({
+		...graph,
+		edges: graph.edges.map((e) => (edgeIds.includes(e.id) ? recolorEdge(e, color) : e)),
+	});
+}
+
+function outgoing(graph: ProcessGraph, nodeId: string): ProcessEdge[] {
+	return graph.edges.filter((e) => e.source === nodeId && e.target !== nodeId);
+}
+
+// Structural findings reported as lint rules (rule ID = finding kind)
+const STRUCTURE_RULES: Record<FindingKind, { severity: LintSeverity; description: string }> = {
+	orphan: { severity: "warning", description: "Every step is connected to the flow" },
+	unreachable: { severity: "warning", description: "Every step can be reached from a start event" },
+	"dead-end": { severity: "warning", description: "Every branch ends in an end event" },
+	"missing-end": { severity: "warning", description: "The flow has an end event" },
+	"unused-handles": { severity: "warning", description: "Every decision output has a branch" },
+	"extra-branches": { severity: "error", description: "Decisions have no more branches than outputs" },
+	"endless-loop": { severity: "error", description: "Every loop has an exit" },
+};
+
+// One analysis per linted graph, shared by the structure rules
+const analyses = new WeakMap<ProcessGraph, GraphFinding[]>();
+
+function analysisOf(graph: ProcessGraph): GraphFinding[] {
+	let findings = analyses.get(graph);
+	if (!findings) {
+		findings = analyzeGraph(graph);
+		analyses.set(graph, findings);
+	}
+	return findings;
+}
+
+/** Match a decision's outputs to its branches (for unused or extra outputs) */
+function fitOutputsToBranches(nodeId: string, branchCount: number) {
+	return (graph: ProcessGraph): ProcessGraph => {
+		const routed = new Map(
+			routeDecisionBranches(graph.edges.filter((e) => e.source === nodeId)).map((e) => [e.id, e]),
+		);
+		return {
+			...graph,
+			nodes: graph.nodes.map((n) =>
+				n.id === nodeId ? { ...n, data: { ...n.data, outputCount: branchCount } } : n,
+			),
+			edges: graph.edges.map((e) => routed.get(e.id) ?? e),
+		};
+	};
+}
+
+const structureRules: LintRule[] = Object.entries(STRUCTURE_RULES).map(([kind, rule]) => ({
+	id: kind,
+	...rule,
+	check: (graph) =>
+		analysisOf(graph)
+			.filter((finding) => finding.kind === kind)
+			.map((finding) => {
+				const nodeId = finding.nodeIds[0] ?? graph.nodes[0]?.id ?? "";
+				const branchCount = graph.edges.filter((e) => e.source === nodeId).length;
+				const fitsOutputs =
+					(kind === "unused-handles" || kind === "extra-branches") && branchCount >= 2;
+				return {
+					nodeId,
+					message: finding.message,
+					...(fitsOutputs
+						? {
+								fix: {
+									label: `Set outputCount to ${branchCount}`,
+									apply: fitOutputsToBranches(nodeId, branchCount),
+								},
+							}
+						: {}),
+				};
+			}),
+}));
+
+export const LINT_RULES: LintRule[] = [
+	{
+		id: "diamond-output-count",
+		severity: "error",
+		description: "Decision diamonds need an outputCount",
+		check: (graph) =>
+			graph.nodes.flatMap((node) => {
+				const count = node.data.outputCount;
+				if (node.type !== "diamond" || (Number.isInteger(count) && (count as number) > 0)) return [];
+				const outputCount = Math.max(2, outgoing(graph, node.id).length);
+				return [
+					{
+						nodeId: node.id,
+						message: `Decision "${labelOf(node)}" has no outputCount`,
+						fix: {
+							label: `Set outputCount to ${outputCount}`,
+							apply: updateNode(node.id, (n) => ({ ...n, data: { ...n.data, outputCount } })),
+						},
+					},
+				];
+			}),
+	},
+	{
+		id: "oval-terminators",
+		severity: "warning",
+		description: "Ovals are only used for start and end",
+		check: (graph) =>
+			graph.nodes.flatMap((node) => {
+				if (node.type !== "oval") return [];
+				const hasIncoming = graph.edges.some((e) => e.target === node.id && e.source !== node.id);
+				if (!hasIncoming || outgoing(graph, node.id).length === 0) return [];
+				return [
+					{
+						nodeId: node.id,
+						message: `"${labelOf(node)}" is an oval in the middle of the flow`,
+						fix: {
+							label: "Make it a process step",
+							apply: updateNode(node.id, (n) => ({ ...n, type: "default" })),
+						},
+					},
+				];
+			}),
+	},
+	{
+		id: "label-action-verb",
+		severity: "warning",
+		description: "Step labels start with an action verb",
+		check: (graph) =>
+			graph.nodes.flatMap((node) => {
+				const label = labelOf(node);
+				const first = label.split(/\s+/)[0]?.toLowerCase().replace(/[^a-z-]/g, "") ?? "";
+				if (!isStep(node) || !label || ACTION_VERBS.has(first) || /(ize|ise|ify|ate)$/.test(first)) {
+					return [];
+				}
+				return [{ nodeId: node.id, message: `"${label}" doesn't start with an action verb` }];
+			}),
+	},
+	{
+		id: "label-length",
+		severity: "info",
+		description: `Step labels are ${MIN_LABEL_WORDS}-${MAX_LABEL_WORDS} words, at most ${MAX_LABEL_LENGTH} characters`,
+		check: (graph) =>
+			graph.nodes.flatMap((node) => {
+				const label = labelOf(node);
+				const words = label.split(/\s+/).filter(Boolean).length;
+				if (!isStep(node) || !label) return [];
+				if (words < MIN_LABEL_WORDS || words > MAX_LABEL_WORDS) {
+					return [{ nodeId: node.id, message: `"${label}" has ${words} word${words === 1 ? "" : "s"}` }];
+				}
+				if (label.length > MAX_LABEL_LENGTH) {
+					return [{ nodeId: node.id, message: `"${label}" is ${label.length} characters long` }];
+				}
+				return [];
+			}),
+	},
+	{
+		id: "decision-edge-colors",
+		severity: "warning",
+		description: "Yes/No branches are green/red",
+		check: (graph) =>
+			graph.nodes.flatMap((node) => {
+				const branches = outgoing(graph, node.id);
+				if (node.type !== "diamond" || branches.length !== 2) return [];
+				return branches.flatMap((edge) => {
+					const label = String(edge.label ?? "").trim();
+					const color = /^yes$/i.test(label) ? YES_GREEN : /^no$/i.test(label) ? NO_RED : null;
+					if (!color || edgeColor(edge) === color) return [];
+					return [
+						{
+							nodeId: node.id,
+							edgeId: edge.id,
+							message: `"${label}" branch of "${labelOf(node)}" isn't ${color === YES_GREEN ? "green" : "red"}`,
+							fix: {
+								label: `Color it ${color === YES_GREEN ? "green" : "red"}`,
+								apply: recolorEdges([edge.id], color),
+							},
+						},
+					];
+				});
+			}),
+	},
+	{
+		id: "no-rainbow-branches",
+		severity: "warning",
+		description: `Nodes with ${RAINBOW_BRANCHES}+ branches use gray edges`,
+		check: (graph) =>
+			graph.nodes.flatMap((node) => {
+				const branches = outgoing(graph, node.id);
+				if (branches.length < RAINBOW_BRANCHES) return [];
+				const colored = branches.filter((e) => {
+					const color = edgeColor(e);
+					return color !== undefined && !NEUTRAL_COLORS.has(color);
+				});
+				if (colored.length === 0) return [];
+				return [
+					{
+						nodeId: node.id,
+						message: `"${labelOf(node)}" has ${branches.length} branches with colored edges`,
+						fix: {
+							label: "Make the branches gray",
+							apply: recolorEdges(
+								colored.map((e) => e.id),
+								EDGE_GRAY,
+							),
+						},
+					},
+				];
+			}),
+	},
+	...structureRules,
+];
+
+/** Named rule selections offered in the problems panel */
+export const LINT_RULE_SETS = {
+	standards: { label: "All standards", rules: LINT_RULES.map((r) => r.id) },
+	structure: {
+		label: "Structure only",
+		rules: [
+			"diamond-output-count",
+			"oval-terminators",
+			"decision-edge-colors",
+			"no-rainbow-branches",
+			...Object.keys(STRUCTURE_RULES),
+		],
+	},
+} satisfies Record<string, { label: string; rules: string[] }>;
+
+export type LintRuleSetId = keyof typeof LINT_RULE_SETS;
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Run the given rules (default: all) over one level of a map. Issues come
+ * back most severe first, in node order within a severity
+ */
+export function lintGraph(graph: ProcessGraph, ruleIds: string[] = LINT_RULES.map((r) => r.id)): LintIssue[] {
+	const nodeOrder = new Map(graph.nodes.map((n, i) => [n.id, i]));
+	return LINT_RULES.filter((rule) => ruleIds.includes(rule.id))
+		.flatMap((rule) => rule.check(graph).map((issue) => ({ ...issue, ruleId: rule.id, severity: rule.severity })))
+		.sort(
+			(a, b) =>
+				SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+				(nodeOrder.get(a.nodeId) ?? 0) - (nodeOrder.get(b.nodeId) ?? 0),
+		);
+}
+
+/**
+ * Apply the fixes of several issues in turn (issues without a fix are skipped)
+ */
+export function applyLintFixes(graph: ProcessGraph, issues: LintIssue[]): ProcessGraph {
+	return issues.reduce((fixed, issue) => issue.fix?.apply(fixed) ?? fixed, graph);
+}
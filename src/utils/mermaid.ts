@@ -0,0 +1,356 @@
+import type { NodeStatus, ProcessEdge, ProcessGraph, ProcessNode } from "../types/process";
+import { detectLayoutDirection, getLayoutedElements } from "./autoLayout";
+import { routeDecisionBranches, standardEdge } from "./edgeHelpers";
+
+/**
+ * Mermaid `flowchart` interchange (for processes kept in markdown docs)
+ *
+ * Ovals are stadiums `([...])`, diamonds rhombi `{...}`, subprocesses
+ * subroutines `[[...]]` and other steps rectangles `[...]`. Edge labels use
+ * `-->|label|`, statuses are classes (`classDef`) and custom colors `style` fills.
+ * Mermaid has no positions, so imported maps are auto-laid out.
+ */
+
+// Same fills/borders as the node components
+const STATUS_CLASSES: Record<Exclude<NodeStatus, "normal">, string> = {
+	bottleneck: "fill:#fef2f2,stroke:#ef4444",
+	issue: "fill:#fefce8,stroke:#eab308",
+	complete: "fill:#f0fdf4,stroke:#22c55e",
+};
+
+// Mermaid keywords that break the parser when used as node IDs
+const RESERVED_IDS = new Set([
+	"end",
+	"graph",
+	"flowchart",
+	"subgraph",
+	"class",
+	"classdef",
+	"style",
+	"click",
+	"linkstyle",
+	"direction",
+]);
+
+const SHAPES: { open: string; close: string; type: ProcessNode["type"] }[] = [
+	{ open: "([", close: "])", type: "oval" },
+	{ open: "((", close: "))", type: "oval" },
+	{ open: "[[", close: "]]", type: "subprocess" },
+	{ open: "{{", close: "}}", type: "default" },
+	{ open: "[(", close: ")]", type: "default" },
+	{ open: "{", close: "}", type: "diamond" },
+	{ open: "[", close: "]", type: "default" },
+	{ open: "(", close: ")", type: "default" },
+	{ open: ">", close: "]", type: "default" },
+];
+
+export interface MermaidImport {
+	name?: string; // From a `title:` front matter, if any
+	graph: ProcessGraph;
+	unsupported: string[]; // Skipped statements, e.g. "click ×2"
+}
+
+// ===== Export =====
+
+/** Quote labels Mermaid would otherwise read as syntax */
+function mermaidText(label: string): string {
+	const text = label.replace(/\s*\n\s*/g, " ");
+	if (/^[\p{L}\p{N} _.,?!'&-]*$/u.test(text) && text.trim() !== "") return text;
+	return `"${text.replace(/"/g, "#quot;")}"`;
+}
+
+function createIdFactory(): (id: string) => string {
+	const used = new Set<string>();
+	return (id) => {
+		let base = id.replace(/[^A-Za-z0-9_]/g, "_") || "node";
+		if (RESERVED_IDS.has(base.toLowerCase())) base = `n_${base}`;
+		let mermaidId = base;
+		for (let n = 2; used.has(mermaidId); n++) mermaidId = `${base}_${n}`;
+		used.add(mermaidId);
+		return mermaidId;
+	};
+}
+
+function nodeShape(node: ProcessNode): { open: string; close: string } {
+	switch (node.type) {
+		case "oval":
+			return { open: "([", close: "])" };
+		case "diamond":
+			return { open: "{", close: "}" };
+		case "subprocess":
+			return { open: "[[", close: "]]" };
+		default:
+			return { open: "[", close: "]" };
+	}
+}
+
+/**
+ * Serialize a map as a Mermaid flowchart (top level only - subprocess contents
+ * and lanes have no Mermaid counterpart)
+ */
+export function exportMermaid(graph: ProcessGraph): string {
+	const toId = createIdFactory();
+	const ids = new Map(graph.nodes.map((n) => [n.id, toId(n.id)]));
+	const direction = detectLayoutDirection(graph.nodes) === "LR" ? "LR" : "TD";
+	const lines = [`flowchart ${direction}`];
+
+	for (const node of graph.nodes) {
+		const { open, close } = nodeShape(node);
+		const label = mermaidText(String(node.data.label ?? ""));
+		lines.push(`    ${ids.get(node.id)}${open}${label}${close}`);
+	}
+	for (const edge of graph.edges) {
+		const source = ids.get(edge.source);
+		const target = ids.get(edge.target);
+		if (!source || !target) continue;
+		const label =
+			typeof edge.label === "string" && edge.label ? `|${mermaidText(edge.label)}|` : "";
+		lines.push(`    ${source} -->${label} ${target}`);
+	}
+
+	for (const [status, style] of Object.entries(STATUS_CLASSES)) {
+		const members = graph.nodes
+			.filter((n) => n.data.status === status)
+			.map((n) => ids.get(n.id));
+		if (members.length === 0) continue;
+		lines.push(`    classDef ${status} ${style}`, `    class ${members.join(",")} ${status}`);
+	}
+	for (const node of graph.nodes) {
+		if (node.data.color) lines.push(`    style ${ids.get(node.id)} fill:${node.data.color}`);
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+// ===== Import =====
+
+function decodeMermaid(text: string): string {
+	return text
+		.replace(/#quot;/g, '"')
+		.replace(/#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+		.replace(/<br\s*\/?>/gi, " ")
+		.replace(/^`(.*)`$/, "$1") // Markdown strings
+		.trim();
+}
+
+/** `fill:#fff,stroke:#000` -> `{ fill: "#fff", stroke: "#000" }` */
+function parseStyle(style: string): Record<string, string> {
+	return Object.fromEntries(
+		style
+			.split(",")
+			.map((part) => part.split(":").map((s) => s.trim()))
+			.filter((pair): pair is [string, string] => pair.length === 2 && Boolean(pair[0])),
+	);
+}
+
+/** Statements split on newlines and on `;` outside quotes */
+function splitStatements(text: string): string[] {
+	const statements: string[] = [];
+	let current = "";
+	let quoted = false;
+	for (const char of text) {
+		if (char === '"') quoted = !quoted;
+		if ((char === "\n" || char === ";") && !quoted) {
+			statements.push(current.trim());
+			current = "";
+		} else {
+			current += char;
+		}
+	}
+	statements.push(current.trim());
+	return statements.filter((s) => s !== "" && !s.startsWith("%%"));
+}
+
+type ParsedLink = [source: string, target: string, label?: string];
+
+interface ParsedNode {
+	id: string;
+	type?: ProcessNode["type"];
+	label?: string;
+	className?: string;
+}
+
+/**
+ * One node reference at the start of `text`: `id`, `id[label]`, `id{label}`,
+ * ... with an optional `:::class`
+ */
+function readNode(text: string): { node: ParsedNode; rest: string } | null {
+	const idMatch = /^\s*([\p{L}\p{N}_]+)/u.exec(text);
+	if (!idMatch) return null;
+	const node: ParsedNode = { id: idMatch[1] as string };
+	let rest = text.slice(idMatch[0].length);
+
+	const shape = SHAPES.find((s) => rest.startsWith(s.open));
+	if (shape) {
+		const body = rest.slice(shape.open.length);
+		const quoted = /^"([^"]*)"/.exec(body);
+		const end = quoted
+			? body.indexOf(shape.close, quoted[0].length)
+			: body.indexOf(shape.close);
+		if (end === -1) return null;
+		node.type = shape.type;
+		node.label = decodeMermaid(quoted ? (quoted[1] as string) : body.slice(0, end));
+		rest = body.slice(end + shape.close.length);
+	}
+
+	const classMatch = /^:::([\w-]+)/.exec(rest);
+	if (classMatch) {
+		node.className = classMatch[1];
+		rest = rest.slice(classMatch[0].length);
+	}
+	return { node, rest };
+}
+
+/** `a & b` - nodes sharing the next link */
+function readNodeGroup(text: string): { nodes: ParsedNode[]; rest: string } | null {
+	const nodes: ParsedNode[] = [];
+	let rest = text;
+	for (;;) {
+		const read = readNode(rest);
+		if (!read) return null;
+		nodes.push(read.node);
+		rest = read.rest;
+		const and = /^\s*&/.exec(rest);
+		if (!and) return { nodes, rest };
+		rest = rest.slice(and[0].length);
+	}
+}
+
+// `-- label -->`, or an arrow/line with an optional `|label|`
+const LINK =
+	/^\s*(?:--\s*([^-|>\s][^>]*?)\s*-->|(?:-{2,}>|-{3,}|-\.+->|-\.+-|={2,}>|={3,})\s*(?:\|\s*(?:"([^"]*)"|([^|]*))\|)?)/;
+
+/**
+ * A chain of nodes and links: `a([Start]) --> b[Work] -->|Done| c([End])`
+ * Returns null when the statement isn't one
+ */
+function readChain(statement: string): { nodes: ParsedNode[]; links: ParsedLink[] } | null {
+	const first = readNodeGroup(statement);
+	if (!first) return null;
+	const nodes = [...first.nodes];
+	const links: ParsedLink[] = [];
+	let sources = first.nodes;
+	let rest = first.rest;
+
+	while (rest.trim() !== "") {
+		const link = LINK.exec(rest);
+		if (!link) return null;
+		const label = link[1] ?? link[2] ?? link[3];
+		const targets = readNodeGroup(rest.slice(link[0].length));
+		if (!targets) return null;
+		for (const source of sources) {
+			for (const target of targets.nodes) {
+				links.push([source.id, target.id, label ? decodeMermaid(label) : undefined]);
+			}
+		}
+		nodes.push(...targets.nodes);
+		sources = targets.nodes;
+		rest = targets.rest;
+	}
+	return { nodes, links };
+}
+
+/**
+ * Read a Mermaid flowchart (`flowchart`/`graph`, any direction) into a map
+ * Markdown code fences and a `title:` front matter are accepted
+ */
+export async function importMermaid(text: string): Promise<MermaidImport> {
+	let source = text.replace(/^\s*```(?:mermaid)?\s*\n/, "").replace(/\n```\s*$/, "");
+	let name: string | undefined;
+	const frontMatter = /^\s*---\n([\s\S]*?)\n---\s*\n/.exec(source);
+	if (frontMatter) {
+		name = /^title:\s*(.+)$/m.exec(frontMatter[1] as string)?.[1]?.trim();
+		source = source.slice(frontMatter[0].length);
+	}
+
+	const [header, ...statements] = splitStatements(source);
+	const headerMatch = /^(?:flowchart|graph)(?:\s+(TB|TD|BT|RL|LR))?$/i.exec(header ?? "");
+	if (!headerMatch) {
+		throw new Error('Not a Mermaid flowchart: expected "flowchart TD" or "graph LR" first');
+	}
+	const direction = /^(LR|RL)$/i.test(headerMatch[1] ?? "") ? "LR" : "TB";
+
+	const nodes = new Map<string, ProcessNode>();
+	const links: ParsedLink[] = [];
+	const classDefs = new Map<string, Record<string, string>>();
+	const classOf = new Map<string, string>();
+	const fills = new Map<string, string>();
+	const counts = new Map<string, number>();
+	const report = (what: string) => counts.set(what, (counts.get(what) ?? 0) + 1);
+
+	for (const statement of statements) {
+		const keyword = /^(\w+)\b\s*(.*)$/.exec(statement);
+		const [, word = "", args = ""] = keyword ?? [];
+		if (word === "classDef") {
+			const [names = "", ...style] = args.split(/\s+/);
+			for (const className of names.split(",")) {
+				classDefs.set(className, parseStyle(style.join("")));
+			}
+		} else if (word === "class") {
+			const [ids = "", className = ""] = args.split(/\s+/);
+			for (const id of ids.split(",")) classOf.set(id, className);
+		} else if (word === "style") {
+			const [id = "", ...style] = args.split(/\s+/);
+			const fill = parseStyle(style.join("")).fill;
+			if (fill) fills.set(id, fill);
+		} else if (word === "subgraph") {
+			report("subgraph (contents imported without it)");
+		} else if (word === "end" || word === "direction") {
+			// Closes or orients a subgraph
+		} else if (word === "click" || word === "linkStyle") {
+			report(word);
+		} else {
+			const chain = readChain(statement);
+			if (!chain) {
+				report(`unrecognized line "${statement}"`);
+				continue;
+			}
+			for (const parsed of chain.nodes) {
+				const existing = nodes.get(parsed.id);
+				if (!existing || (parsed.label !== undefined && existing.data.label === parsed.id)) {
+					nodes.set(parsed.id, {
+						id: parsed.id,
+						type: parsed.type ?? existing?.type ?? "default",
+						position: { x: 0, y: 0 },
+						data: { label: parsed.label ?? parsed.id },
+					});
+				}
+				if (parsed.className) classOf.set(parsed.id, parsed.className);
+			}
+			links.push(...chain.links);
+		}
+	}
+
+	// Status classes set the status, other classes and `style` fills the color
+	for (const node of nodes.values()) {
+		const className = classOf.get(node.id);
+		if (className && className in STATUS_CLASSES) {
+			node.data.status = className as NodeStatus;
+		} else if (className && classDefs.get(className)?.fill) {
+			node.data.color = classDefs.get(className)?.fill;
+		}
+		const fill = fills.get(node.id);
+		if (fill) node.data.color = fill;
+	}
+
+	const edgeIds = new Set<string>();
+	const allEdges = links.map(([source, target, label]) => {
+		let id = `e${source}-${target}`;
+		for (let n = 2; edgeIds.has(id); n++) id = `e${source}-${target}-${n}`;
+		edgeIds.add(id);
+		return standardEdge({ id, source, target, label });
+	});
+	const edges: ProcessEdge[] = [...nodes.values()].flatMap((node) => {
+		const outgoing = allEdges.filter((e) => e.source === node.id);
+		if (node.type !== "diamond") return outgoing;
+		node.data.outputCount = Math.max(outgoing.length, 1);
+		return routeDecisionBranches(outgoing);
+	});
+
+	const layout = await getLayoutedElements([...nodes.values()], edges, direction);
+	return {
+		name,
+		graph: { nodes: layout.nodes as ProcessNode[], edges },
+		unsupported: [...counts].map(([what, count]) => (count > 1 ? `${what} ×${count}` : what)),
+	};
+}
@@ -0,0 +1,111 @@
+import type { Edge } from "@xyflow/react";
+import type { Cost, Duration, DurationUnit } from "../types/process";
+
+/**
+ * Step metrics: cycle time, SLA and cost on nodes, wait time on edges.
+ * Durations are calendar time - units convert at 24 hours a day, 7 days a week.
+ */
+
+export const DEFAULT_CURRENCY = "USD";
+
+export const DURATION_UNITS: Record<DurationUnit, { hours: number; short: string; singular: string }> = {
+	minutes: { hours: 1 / 60, short: "m", singular: "minute" },
+	hours: { hours: 1, short: "h", singular: "hour" },
+	days: { hours: 24, short: "d", singular: "day" },
+	weeks: { hours: 24 * 7, short: "w", singular: "week" },
+};
+
+// Spellings accepted by parseDuration
+const UNIT_ALIASES: Record<string, DurationUnit> = {
+	m: "minutes",
+	min: "minutes",
+	mins: "minutes",
+	minute: "minutes",
+	minutes: "minutes",
+	h: "hours",
+	hr: "hours",
+	hrs: "hours",
+	hour: "hours",
+	hours: "hours",
+	d: "days",
+	day: "days",
+	days: "days",
+	w: "weeks",
+	wk: "weeks",
+	wks: "weeks",
+	week: "weeks",
+	weeks: "weeks",
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = { $: "USD", "€": "EUR", "£": "GBP", "¥": "JPY" };
+
+export function toHours(duration: Duration): number {
+	return duration.value * DURATION_UNITS[duration.unit].hours;
+}
+
+/** "2 days" / "1 hour", or "2d" / "1h" when short */
+export function formatDuration(duration: Duration, short = false): string {
+	const { short: suffix, singular } = DURATION_UNITS[duration.unit];
+	const value = Number(duration.value.toFixed(2));
+	if (short) return `${value}${suffix}`;
+	return `${value} ${value === 1 ? singular : duration.unit}`;
+}
+
+/** Hours in the largest unit up to days ("3.5 days", "45 minutes") */
+export function formatHours(hours: number): string {
+	const unit: DurationUnit = hours >= 24 ? "days" : hours >= 1 ? "hours" : "minutes";
+	return formatDuration({ value: hours / DURATION_UNITS[unit].hours, unit });
+}
+
+export function formatCost(cost: Cost): string {
+	try {
+		return new Intl.NumberFormat("en-US", {
+			style: "currency",
+			currency: cost.currency,
+			minimumFractionDigits: 0,
+			maximumFractionDigits: 2,
+		}).format(cost.amount);
+	} catch {
+		return `${cost.amount} ${cost.currency}`; // Unknown currency code
+	}
+}
+
+/**
+ * Duration from free text ("2 days", "30 min", "1.5h"), null if it isn't one
+ */
+export function parseDuration(text: string): Duration | null {
+	const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]+)\.?$/i);
+	const unit = match && UNIT_ALIASES[match[2]!.toLowerCase()];
+	return unit ? { value: Number(match[1]), unit } : null;
+}
+
+/**
+ * Cost from free text ("$150", "150 EUR", "1,200"), null if it isn't one
+ */
+export function parseCost(text: string): Cost | null {
+	const match = text.trim().match(/^([$€£¥])?\s*(\d[\d,]*(?:\.\d+)?)\s*([a-z]{3})?$/i);
+	if (!match || (match[1] && match[3])) return null;
+	const currency = match[3]?.toUpperCase() ?? CURRENCY_SYMBOLS[match[1] ?? ""] ?? DEFAULT_CURRENCY;
+	return { amount: Number(match[2]!.replace(/,/g, "")), currency };
+}
+
+/** The step takes longer than its SLA */
+export function exceedsSla(data: { cycleTime?: Duration; sla?: Duration }): boolean {
+	return !!data.cycleTime && !!data.sla && toHours(data.cycleTime) > toHours(data.sla);
+}
+
+/**
+ * Edges as drawn on the canvas: wait times appended to the label ("Yes · wait 1d")
+ */
+export function withWaitLabels(edges: Edge[]): Edge[] {
+	return edges.map((edge) => {
+		const waitTime = (edge.data as { waitTime?: Duration } | undefined)?.waitTime;
+		if (!waitTime) return edge;
+		const wait = formatDuration(waitTime, true);
+		return {
+			...edge,
+			label: edge.label ? `${edge.label} · wait ${wait}` : `Wait ${wait}`,
+			labelShowBg: true,
+		};
+	});
+}
@@ -0,0 +1,193 @@
+import type { Edge, Node } from "@xyflow/react";
+import type { ProcessGraph } from "../types/process";
+import { buildAdjacency } from "./graphAnalysis";
+
+/**
+ * Start-to-end paths through a map, as test scenarios for QA (CSV or Gherkin)
+ *
+ * Paths start at start events (ovals without incoming edges, else any step
+ * without one) and end where the flow stops. Loop-backs - `selfConnecting`
+ * edges and edges back to a step already on the path - are taken at most
+ * `maxLoops` times each per path.
+ */
+
+export const DEFAULT_MAX_LOOPS = 1;
+const MAX_PATHS = 200;
+const MAX_STEPS = 50_000; // Search budget for maps with many branches
+
+export interface PathDecision {
+	nodeId: string;
+	label: string; // The decision
+	branch: string | null; // Label of the edge taken (null when unlabeled)
+	targetId: string;
+}
+
+export interface ProcessPath {
+	key: string; // Stable ID of the route (its edge IDs)
+	nodeIds: string[]; // In order; steps repeat on loops
+	edgeIds: string[];
+	decisions: PathDecision[]; // Branches taken at steps with several outgoing edges
+}
+
+export interface PathEnumeration {
+	paths: ProcessPath[];
+	truncated: boolean; // Stopped at MAX_PATHS (or the search budget)
+}
+
+const labelOf = (node: Node | undefined) => String(node?.data.label ?? node?.id ?? "");
+
+/**
+ * Every start-to-end path, in depth-first order (the first branch of each decision first)
+ */
+export function enumeratePaths(
+	graph: { nodes: Node[]; edges: Edge[] },
+	maxLoops = DEFAULT_MAX_LOOPS,
+): PathEnumeration {
+	const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+	const edges = graph.edges.filter((e) => byId.has(e.source) && byId.has(e.target));
+	const { parentOf } = buildAdjacency(edges);
+	const outgoing = new Map<string, Edge[]>();
+	for (const edge of edges) outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge]);
+
+	const hasIncoming = (n: Node) => (parentOf.get(n.id) ?? []).some((p) => p !== n.id);
+	const starts = graph.nodes.filter((n) => n.type === "oval" && !hasIncoming(n));
+	if (starts.length === 0) starts.push(...graph.nodes.filter((n) => !hasIncoming(n)).slice(0, 1));
+	if (starts.length === 0 && graph.nodes[0]) starts.push(graph.nodes[0]);
+
+	const paths: ProcessPath[] = [];
+	let steps = 0;
+	let truncated = false;
+	const nodeIds: string[] = [];
+	const edgeIds: string[] = [];
+	const decisions: PathDecision[] = [];
+	const onPath = new Map<string, number>(); // Node ID -> times on the current path
+	const loopsTaken = new Map<string, number>(); // Back-edge ID -> times taken
+
+	const visit = (id: string) => {
+		if (truncated) return;
+		if (++steps > MAX_STEPS || paths.length >= MAX_PATHS) {
+			truncated = true;
+			return;
+		}
+		nodeIds.push(id);
+		onPath.set(id, (onPath.get(id) ?? 0) + 1);
+
+		const next = outgoing.get(id) ?? [];
+		if (next.length === 0) {
+			paths.push({
+				key: edgeIds.length > 0 ? edgeIds.join(">") : id,
+				nodeIds: [...nodeIds],
+				edgeIds: [...edgeIds],
+				decisions: [...decisions],
+			});
+		}
+		for (const edge of next) {
+			const loopBack = edge.type === "selfConnecting" || onPath.has(edge.target);
+			const taken = loopsTaken.get(edge.id) ?? 0;
+			if (loopBack && taken >= maxLoops) continue;
+			if (loopBack) loopsTaken.set(edge.id, taken + 1);
+			if (next.length > 1) {
+				decisions.push({
+					nodeId: id,
+					label: labelOf(byId.get(id)),
+					branch: edge.label ? String(edge.label) : null,
+					targetId: edge.target,
+				});
+			}
+			edgeIds.push(edge.id);
+			visit(edge.target);
+			edgeIds.pop();
+			if (next.length > 1) decisions.pop();
+			if (loopBack) loopsTaken.set(edge.id, taken);
+		}
+
+		nodeIds.pop();
+		const count = onPath.get(id)! - 1;
+		if (count === 0) onPath.delete(id);
+		else onPath.set(id, count);
+	};
+
+	for (const start of starts) visit(start.id);
+	return { paths, truncated };
+}
+
+/** One-line name of a path: its decisions, or "Main path" */
+export function pathTitle(path: ProcessPath, graph: { nodes: Node[] }): string {
+	if (path.decisions.length === 0) return "Main path";
+	const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+	return path.decisions
+		.map((d) => `${d.label} ${d.branch ?? `→ ${labelOf(byId.get(d.targetId))}`}`)
+		.join(", ");
+}
+
+function csvCell(value: string | number): string {
+	const text = String(value);
+	return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per path: the steps in order and the decisions taken
+ */
+export function pathsToCsv(paths: ProcessPath[], graph: ProcessGraph): string {
+	const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+	const rows = paths.map((path, i) => [
+		`Path ${i + 1}`,
+		pathTitle(path, graph),
+		path.nodeIds.map((id) => labelOf(byId.get(id))).join(" → "),
+		path.decisions.map((d) => `${d.label} = ${d.branch ?? labelOf(byId.get(d.targetId))}`).join("; "),
+		path.nodeIds.length,
+	]);
+	return `${[["Path", "Scenario", "Steps", "Decisions", "Step count"], ...rows]
+		.map((row) => row.map(csvCell).join(","))
+		.join("\n")}\n`;
+}
+
+/**
+ * A Gherkin feature with one scenario per path: Given the start, When/And each
+ * step (decisions as "is answered"), Then the end
+ */
+export function pathsToGherkin(paths: ProcessPath[], graph: ProcessGraph, featureName: string): string {
+	const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+	const quote = (id: string) => `"${labelOf(byId.get(id)).replace(/"/g, '\\"')}"`;
+	const lines = [`Feature: ${featureName}`];
+
+	paths.forEach((path, i) => {
+		lines.push("", `  Scenario: Path ${i + 1} - ${pathTitle(path, graph)}`);
+		const [first, ...rest] = path.nodeIds;
+		const last = rest.pop();
+		lines.push(`    Given the process starts at ${quote(first!)}`);
+
+		const middle = rest.map((id, stepIndex) => {
+			const decision = path.decisions.find(
+				(d) => d.nodeId === id && d.targetId === (rest[stepIndex + 1] ?? last),
+			);
+			if (!decision) return `${quote(id)} is done`;
+			return decision.branch
+				? `${quote(id)} is answered "${decision.branch.replace(/"/g, '\\"')}"`
+				: `${quote(id)} goes to ${quote(decision.targetId)}`;
+		});
+		middle.forEach((step, stepIndex) => lines.push(`    ${stepIndex === 0 ? "When" : "And"} ${step}`));
+		if (last) lines.push(`    Then the process ends at ${quote(last)}`);
+	});
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Map with one path picked out: its steps and edges stay, everything else is
+ * dimmed and the path's edges are animated
+ */
+export function highlightPath(
+	graph: { nodes: Node[]; edges: Edge[] },
+	path: ProcessPath,
+): { nodes: Node[]; edges: Edge[] } {
+	const nodeIds = new Set(path.nodeIds);
+	const edgeIds = new Set(path.edgeIds);
+	return {
+		nodes: graph.nodes.map((n) => (nodeIds.has(n.id) ? n : { ...n, style: { ...n.style, opacity: 0.3 } })),
+		edges: graph.edges.map((e) =>
+			edgeIds.has(e.id)
+				? { ...e, animated: true, style: { ...e.style, strokeWidth: 3 } }
+				: { ...e, style: { ...e.style, opacity: 0.2 } },
+		),
+	};
+}
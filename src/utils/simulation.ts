@@ -0,0 +1,406 @@
+import type { Edge, Node } from "@xyflow/react";
+import type { DistributionKind, Duration, DurationDistribution, ProcessEdge } from "../types/process";
+import { branchProbabilities, DEFAULT_LOOP_ITERATIONS, findLoopBacks, loopBodies } from "./leadTime";
+import { toHours } from "./metrics";
+
+/**
+ * Discrete-event simulation of a map: cases arrive at the start event at
+ * random (exponential) intervals, queue at steps whose capacity is taken,
+ * are worked for a duration drawn from the step's distribution, wait on
+ * edges and follow decision branches by probability. Several runs with
+ * different seeds are averaged (Monte Carlo). Runs in a web worker
+ * (src/workers/simulation.worker.ts) - nothing here touches the DOM.
+ */
+
+export const BOTTLENECK_UTILIZATION = 0.85; // Busy share at which a step counts as a bottleneck
+const BOTTLENECK_QUEUE = 1; // ...or average cases waiting
+const DEFAULT_SPREAD = 0.5;
+const MAX_EVENTS = 1_000_000; // Per run - stops maps whose cases never finish
+const MAX_TRACED_CASES = 25; // Cases of the first run kept for the token animation
+
+export const DISTRIBUTION_KINDS: Record<DistributionKind, string> = {
+	fixed: "Fixed",
+	uniform: "Uniform ±",
+	triangular: "Triangular ±",
+	exponential: "Exponential",
+};
+
+export interface SimulationOptions {
+	arrivalEvery: Duration; // Mean time between new cases
+	cases: number; // Per run
+	runs: number;
+	seed: number;
+}
+
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+	arrivalEvery: { value: 1, unit: "hours" },
+	cases: 200,
+	runs: 20,
+	seed: 1,
+};
+
+export interface StepStats {
+	served: number; // Cases worked per run (loops count every pass)
+	utilization: number; // Share of capacity busy, 0-1
+	avgQueue: number; // Time-weighted cases waiting
+	maxQueue: number;
+	avgWaitHours: number; // Per case, before work starts
+}
+
+/** A case travelling an edge, in simulated hours */
+export interface TokenMove {
+	caseId: number;
+	edgeId: string;
+	start: number;
+	end: number;
+}
+
+export interface SimulationTrace {
+	moves: TokenMove[];
+	finished: Record<number, number>; // Case -> time it reached an end
+	hours: number; // Length of the traced stretch
+}
+
+export interface SimulationResult {
+	runs: number;
+	completed: number; // Cases finished per run (average)
+	throughputPerDay: number;
+	leadTime: { meanHours: number; p90Hours: number } | null;
+	steps: Record<string, StepStats>; // Steps only (not start/end events or decisions)
+	bottlenecks: string[]; // Step IDs, busiest first
+	trace: SimulationTrace; // First run
+	truncated: boolean; // A run hit the event budget (cases stuck in a loop)
+}
+
+type EdgeData = NonNullable<ProcessEdge["data"]>;
+
+/** Seeded random numbers in [0, 1) (mulberry32) */
+export function createRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * One draw of a step's duration in hours
+ */
+export function sampleDuration(
+	hours: number,
+	distribution: DurationDistribution | undefined,
+	random: () => number,
+): number {
+	if (hours <= 0 || !distribution) return Math.max(0, hours);
+	const spread = Math.min(1, distribution.spread ?? DEFAULT_SPREAD) * hours;
+	const u = random();
+	switch (distribution.kind) {
+		case "uniform":
+			return hours - spread + u * 2 * spread;
+		case "triangular":
+			// Symmetric around the cycle time
+			return u < 0.5 ? hours - spread + Math.sqrt(2 * u) * spread : hours + spread - Math.sqrt(2 * (1 - u)) * spread;
+		case "exponential":
+			return -Math.log(1 - u) * hours;
+		default:
+			return hours;
+	}
+}
+
+/**
+ * Where a case goes after each step: outgoing edges with the chance of taking
+ * them. Branch probabilities as in the lead time; a loop with `iterations` k is
+ * taken with chance k / (k + 1) each time, so it repeats k times on average -
+ * at the loop-back itself, or at the decision inside the loop when its
+ * branches carry no probabilities
+ */
+export function routingTable(graph: { nodes: Node[]; edges: Edge[] }): Map<string, { edge: Edge; p: number }[]> {
+	const loopBacks = findLoopBacks(graph);
+	const probability = branchProbabilities(graph.edges, loopBacks);
+	const iterationsOf = (edge: Edge) => (edge.data as EdgeData | undefined)?.iterations ?? DEFAULT_LOOP_ITERATIONS;
+	const bySource = new Map<string, Edge[]>();
+	for (const edge of graph.edges) bySource.set(edge.source, [...(bySource.get(edge.source) ?? []), edge]);
+
+	for (const { edge: loop, body } of loopBodies(graph.edges, loopBacks)) {
+		const stay = iterationsOf(loop) / (1 + iterationsOf(loop));
+		for (const id of body) {
+			const branches = (bySource.get(id) ?? []).filter((e) => !loopBacks.has(e.id));
+			const inside = branches.filter((e) => body.has(e.target));
+			const leaving = branches.filter((e) => !body.has(e.target));
+			const unset = branches.every((e) => (e.data as EdgeData | undefined)?.probability === undefined);
+			if (inside.length === 0 || leaving.length === 0 || !unset) continue;
+			for (const e of inside) probability.set(e.id, stay / inside.length);
+			for (const e of leaving) probability.set(e.id, (1 - stay) / leaving.length);
+		}
+	}
+
+	const table = new Map<string, { edge: Edge; p: number }[]>();
+	for (const [source, edges] of bySource) {
+		const loops = edges.filter((e) => loopBacks.has(e.id));
+		const forward = edges.filter((e) => !loopBacks.has(e.id));
+		if (forward.length === 0) {
+			table.set(source, loops.map((edge) => ({ edge, p: 1 / loops.length })));
+			continue;
+		}
+		const looped = loops.map((edge) => ({ edge, p: iterationsOf(edge) / (1 + iterationsOf(edge)) / loops.length }));
+		const rest = 1 - looped.reduce((sum, l) => sum + l.p, 0);
+		table.set(source, [...looped, ...forward.map((edge) => ({ edge, p: rest * (probability.get(edge.id) ?? 1) }))]);
+	}
+	return table;
+}
+
+/** Min-heap of events by time, then scheduling order */
+function createEventQueue<T>() {
+	const heap: { time: number; seq: number; event: T }[] = [];
+	let seq = 0;
+	const before = (a: number, b: number) =>
+		heap[a]!.time < heap[b]!.time || (heap[a]!.time === heap[b]!.time && heap[a]!.seq < heap[b]!.seq);
+	const swap = (a: number, b: number) => {
+		[heap[a], heap[b]] = [heap[b]!, heap[a]!];
+	};
+
+	return {
+		get size() {
+			return heap.length;
+		},
+		push(time: number, event: T) {
+			heap.push({ time, seq: seq++, event });
+			for (let i = heap.length - 1; i > 0 && before(i, (i - 1) >> 1); i = (i - 1) >> 1) swap(i, (i - 1) >> 1);
+		},
+		pop(): { time: number; event: T } {
+			const top = heap[0]!;
+			const last = heap.pop()!;
+			if (heap.length > 0) {
+				heap[0] = last;
+				for (let i = 0; ; ) {
+					const smallest = [2 * i + 1, 2 * i + 2].reduce((m, c) => (c < heap.length && before(c, m) ? c : m), i);
+					if (smallest === i) break;
+					swap(i, smallest);
+					i = smallest;
+				}
+			}
+			return top;
+		},
+	};
+}
+
+type SimEvent =
+	| { kind: "enter"; caseId: number; nodeId: string }
+	| { kind: "done"; caseId: number; nodeId: string };
+
+interface RunResult {
+	completed: number;
+	hours: number;
+	leadTimes: number[];
+	steps: Map<string, { served: number; busyArea: number; queueArea: number; maxQueue: number; waited: number }>;
+	moves: TokenMove[];
+	finished: Record<number, number>;
+	truncated: boolean;
+}
+
+/**
+ * Start event of the simulation: the first oval without incoming edges, else
+ * the first node without one
+ */
+function findStart(graph: { nodes: Node[]; edges: Edge[] }): Node | undefined {
+	const targets = new Set(graph.edges.filter((e) => e.source !== e.target).map((e) => e.target));
+	return (
+		graph.nodes.find((n) => n.type === "oval" && !targets.has(n.id)) ??
+		graph.nodes.find((n) => !targets.has(n.id)) ??
+		graph.nodes[0]
+	);
+}
+
+const isStep = (node: Node) => node.type !== "oval" && node.type !== "diamond";
+
+function simulateRun(
+	graph: { nodes: Node[]; edges: Edge[] },
+	routes: Map<string, { edge: Edge; p: number }[]>,
+	start: Node,
+	options: SimulationOptions,
+	random: () => number,
+	traced: number,
+): RunResult {
+	const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+	const steps = new Map(
+		graph.nodes.filter(isStep).map((n) => [n.id, { served: 0, busyArea: 0, queueArea: 0, maxQueue: 0, waited: 0 }]),
+	);
+	const busy = new Map<string, number>();
+	const queues = new Map<string, { caseId: number; since: number }[]>();
+	const lastChange = new Map<string, number>();
+	const arrivedAt = new Map<number, number>();
+	const events = createEventQueue<SimEvent>();
+	const arrivalHours = toHours(options.arrivalEvery);
+	const result: RunResult = {
+		completed: 0,
+		hours: 0,
+		leadTimes: [],
+		steps,
+		moves: [],
+		finished: {},
+		truncated: false,
+	};
+
+	// Capacity in use and queue length are integrated over time for the averages
+	const account = (nodeId: string, now: number) => {
+		const stats = steps.get(nodeId);
+		if (!stats) return;
+		const elapsed = now - (lastChange.get(nodeId) ?? 0);
+		stats.busyArea += (busy.get(nodeId) ?? 0) * elapsed;
+		stats.queueArea += (queues.get(nodeId)?.length ?? 0) * elapsed;
+		lastChange.set(nodeId, now);
+	};
+
+	const startWork = (nodeId: string, caseId: number, now: number) => {
+		const node = byId.get(nodeId)!;
+		const cycle = node.data.cycleTime as Duration | undefined;
+		const duration = isStep(node)
+			? sampleDuration(cycle ? toHours(cycle) : 0, node.data.distribution as DurationDistribution | undefined, random)
+			: 0;
+		busy.set(nodeId, (busy.get(nodeId) ?? 0) + 1);
+		const stats = steps.get(nodeId);
+		if (stats) stats.served++;
+		events.push(now + duration, { kind: "done", caseId, nodeId });
+	};
+
+	let arrival = 0;
+	for (let caseId = 0; caseId < options.cases; caseId++) {
+		arrival += caseId === 0 ? 0 : -Math.log(1 - random()) * arrivalHours;
+		arrivedAt.set(caseId, arrival);
+		events.push(arrival, { kind: "enter", caseId, nodeId: start.id });
+	}
+
+	let processed = 0;
+	while (events.size > 0) {
+		if (++processed > MAX_EVENTS) {
+			result.truncated = true;
+			break;
+		}
+		const { time, event } = events.pop();
+		result.hours = time;
+		const node = byId.get(event.nodeId)!;
+		const capacity = isStep(node) ? ((node.data.capacity as number | undefined) ?? 1) : Number.POSITIVE_INFINITY;
+		account(event.nodeId, time);
+
+		if (event.kind === "enter") {
+			if ((busy.get(event.nodeId) ?? 0) < capacity) {
+				startWork(event.nodeId, event.caseId, time);
+			} else {
+				const queue = queues.get(event.nodeId) ?? [];
+				queue.push({ caseId: event.caseId, since: time });
+				queues.set(event.nodeId, queue);
+				const stats = steps.get(event.nodeId);
+				if (stats) stats.maxQueue = Math.max(stats.maxQueue, queue.length);
+			}
+			continue;
+		}
+
+		// Work done: free the capacity for the next queued case, then move on
+		busy.set(event.nodeId, (busy.get(event.nodeId) ?? 1) - 1);
+		const next = queues.get(event.nodeId)?.shift();
+		if (next) {
+			const stats = steps.get(event.nodeId);
+			if (stats) stats.waited += time - next.since;
+			startWork(event.nodeId, next.caseId, time);
+		}
+
+		const choices = routes.get(event.nodeId) ?? [];
+		let pick = random() * choices.reduce((sum, c) => sum + c.p, 0);
+		const route = choices.find((c) => (pick -= c.p) < 0) ?? choices[choices.length - 1];
+		if (!route) {
+			result.completed++;
+			result.leadTimes.push(time - arrivedAt.get(event.caseId)!);
+			if (event.caseId < traced) result.finished[event.caseId] = time;
+			continue;
+		}
+		const wait = (route.edge.data as EdgeData | undefined)?.waitTime;
+		const end = time + (wait ? toHours(wait) : 0);
+		if (event.caseId < traced) result.moves.push({ caseId: event.caseId, edgeId: route.edge.id, start: time, end });
+		events.push(end, { kind: "enter", caseId: event.caseId, nodeId: route.edge.target });
+	}
+
+	for (const id of steps.keys()) account(id, result.hours);
+	return result;
+}
+
+/**
+ * Run the simulation `options.runs` times and average the results
+ */
+export function simulate(
+	graph: { nodes: Node[]; edges: Edge[] },
+	options: SimulationOptions = DEFAULT_SIMULATION_OPTIONS,
+): SimulationResult {
+	const byId = new Map(graph.nodes.map((n) => [n.id, n]));
+	const edges = graph.edges.filter((e) => byId.has(e.source) && byId.has(e.target));
+	const cleaned = { nodes: graph.nodes, edges };
+	const routes = routingTable(cleaned);
+	const start = findStart(cleaned);
+	const stepIds = graph.nodes.filter(isStep).map((n) => n.id);
+	const empty: SimulationResult = {
+		runs: 0,
+		completed: 0,
+		throughputPerDay: 0,
+		leadTime: null,
+		steps: {},
+		bottlenecks: [],
+		trace: { moves: [], finished: {}, hours: 0 },
+		truncated: false,
+	};
+	if (!start || options.runs < 1 || options.cases < 1) return empty;
+
+	const runs = Array.from({ length: options.runs }, (_, i) =>
+		simulateRun(cleaned, routes, start, options, createRandom(options.seed + i), i === 0 ? MAX_TRACED_CASES : 0),
+	);
+
+	const steps: Record<string, StepStats> = {};
+	for (const id of stepIds) {
+		const capacity = (byId.get(id)!.data.capacity as number | undefined) ?? 1;
+		const per = runs.map((run) => {
+			const stats = run.steps.get(id)!;
+			const hours = run.hours || 1;
+			return {
+				served: stats.served,
+				utilization: stats.busyArea / (capacity * hours),
+				avgQueue: stats.queueArea / hours,
+				maxQueue: stats.maxQueue,
+				avgWaitHours: stats.served > 0 ? stats.waited / stats.served : 0,
+			};
+		});
+		const mean = (pick: (s: StepStats) => number) => per.reduce((sum, s) => sum + pick(s), 0) / per.length;
+		steps[id] = {
+			served: mean((s) => s.served),
+			utilization: mean((s) => s.utilization),
+			avgQueue: mean((s) => s.avgQueue),
+			maxQueue: Math.max(...per.map((s) => s.maxQueue)),
+			avgWaitHours: mean((s) => s.avgWaitHours),
+		};
+	}
+
+	const leadTimes = runs.flatMap((run) => run.leadTimes).sort((a, b) => a - b);
+	const totalHours = runs.reduce((sum, run) => sum + run.hours, 0);
+	const completed = runs.reduce((sum, run) => sum + run.completed, 0);
+	const first = runs[0]!;
+	const tracedEnd = Math.max(0, ...Object.values(first.finished), ...first.moves.map((m) => m.end));
+
+	return {
+		runs: runs.length,
+		completed: completed / runs.length,
+		throughputPerDay: totalHours > 0 ? (completed / totalHours) * 24 : 0,
+		leadTime:
+			leadTimes.length > 0
+				? {
+						meanHours: leadTimes.reduce((sum, t) => sum + t, 0) / leadTimes.length,
+						p90Hours: leadTimes[Math.min(leadTimes.length - 1, Math.floor(leadTimes.length * 0.9))]!,
+					}
+				: null,
+		steps,
+		bottlenecks: stepIds
+			.filter((id) => steps[id]!.utilization >= BOTTLENECK_UTILIZATION || steps[id]!.avgQueue >= BOTTLENECK_QUEUE)
+			.sort((a, b) => steps[b]!.utilization - steps[a]!.utilization),
+		trace: { moves: first.moves, finished: first.finished, hours: tracedEnd },
+		truncated: runs.some((run) => run.truncated),
+	};
+}
@@ -0,0 +1,646 @@
+import { z } from "zod";
+import { DEFAULT_CURRENCY, parseCost, parseDuration } from "./metrics";
+
+/**
+ * Shared schema for the NDJSON stream between /api/generate-map and ChatInterface
+ *
+ * The model emits a mode line followed by graph operations: node / edges when
+ * creating a map, add_node / update_node / move_node / remove_node / add_edge /
+ * update_edge / remove_edge when editing one, plus an optional `lanes` line
+ * (swimlanes the nodes point at via data.laneId). `message` lines carry the natural
+ * language reply and may appear on their own (questions, clarifications).
+ * The server validates each line and forwards it as an SSE `data:` event,
+ * adding complete / repair / error events.
+ */
+
+export const NodeStatusSchema = z.enum([
+	"normal",
+	"bottleneck",
+	"issue",
+	"complete",
+]);
+
+export const NodeTypeSchema = z.enum(["default", "oval", "diamond", "subprocess"]);
+
+export const DurationUnitSchema = z.enum(["minutes", "hours", "days", "weeks"]);
+
+/** Time span - free text like "2 days" from the model is converted */
+export const DurationSchema = z.preprocess(
+	(value) => (typeof value === "string" ? (parseDuration(value) ?? value) : value),
+	z.object({ value: z.number().nonnegative(), unit: DurationUnitSchema }),
+);
+
+/** Amount and currency - a bare number or text like "$150" is converted */
+export const CostSchema = z.preprocess(
+	(value) =>
+		typeof value === "number"
+			? { amount: value, currency: DEFAULT_CURRENCY }
+			: typeof value === "string"
+				? (parseCost(value) ?? value)
+				: value,
+	z.object({ amount: z.number().nonnegative(), currency: z.string().length(3) }),
+);
+
+/** Share of runs from 0 to 1 - "70%" is converted */
+export const ProbabilitySchema = z.preprocess(
+	(value) =>
+		typeof value === "string" && /^\s*\d+(\.\d+)?\s*%\s*$/.test(value)
+			? Number.parseFloat(value) / 100
+			: value,
+	z.number().min(0).max(1),
+);
+
+export const PositionSchema = z.object({ x: z.number(), y: z.number() });
+
+export const ProcessNodeDataSchema = z.looseObject({
+	label: z.string(),
+	description: z.string().optional(),
+	status: NodeStatusSchema.optional(),
+	color: z.string().optional(),
+	issueDetails: z.string().optional(),
+	outputCount: z.number().int().min(1).optional(),
+	laneId: z.string().optional(),
+	mapRef: z.string().optional(), // Subprocess linked to another saved map
+	expanded: z.boolean().optional(),
+	cycleTime: DurationSchema.optional(),
+	sla: DurationSchema.optional(),
+	cost: CostSchema.optional(),
+	distribution: z
+		.looseObject({
+			kind: z.enum(["fixed", "uniform", "triangular", "exponential"]),
+			spread: z.number().min(0).max(1).optional(),
+		})
+		.optional(),
+	capacity: z.number().int().min(1).optional(),
+});
+
+export const ProcessNodeSchema = z
+	.looseObject({
+		id: z.string().min(1),
+		type: NodeTypeSchema.optional(),
+		position: PositionSchema,
+		data: ProcessNodeDataSchema,
+	})
+	.refine((node) => node.type !== "diamond" || node.data.outputCount, {
+		message: "diamond nodes require data.outputCount",
+		path: ["data", "outputCount"],
+	});
+
+export const ProcessEdgeSchema = z.looseObject({
+	id: z.string().min(1),
+	source: z.string().min(1),
+	target: z.string().min(1),
+	type: z.string().optional(),
+	sourceHandle: z.string().nullish(),
+	targetHandle: z.string().nullish(),
+	label: z.string().optional(),
+	markerEnd: z
+		.union([z.string(), z.looseObject({ type: z.string() })])
+		.optional(),
+	animated: z.boolean().optional(),
+	labelShowBg: z.boolean().optional(),
+	data: z
+		.looseObject({
+			waitTime: DurationSchema.optional(),
+			probability: ProbabilitySchema.optional(),
+			iterations: z.number().nonnegative().optional(),
+		})
+		.optional(),
+});
+
+export const LaneSchema = z.looseObject({
+	id: z.string().min(1),
+	label: z.string(),
+	color: z.string().optional(),
+	size: z.number().positive().optional(),
+});
+
+export const ModeMessageSchema = z.object({
+	type: z.literal("mode"),
+	data: z.enum(["create", "update"]),
+});
+
+export const NodeMessageSchema = z.object({
+	type: z.literal("node"),
+	data: ProcessNodeSchema,
+});
+
+export const RemoveNodeMessageSchema = z.object({
+	type: z.literal("remove_node"),
+	data: z.string().min(1),
+});
+
+export const EdgesMessageSchema = z.object({
+	type: z.literal("edges"),
+	data: z.array(ProcessEdgeSchema),
+});
+
+/*
+ * Patch operations - UPDATE mode streams small edits instead of resending
+ * whole nodes and the full edge list
+ */
+
+export const AddNodeMessageSchema = z.object({
+	type: z.literal("add_node"),
+	data: ProcessNodeSchema,
+});
+
+export const UpdateNodeMessageSchema = z.object({
+	type: z.literal("update_node"),
+	data: z.object({
+		id: z.string().min(1),
+		type: NodeTypeSchema.optional(),
+		data: ProcessNodeDataSchema.partial().optional(), // Shallow-merged into node.data
+	}),
+});
+
+export const MoveNodeMessageSchema = z.object({
+	type: z.literal("move_node"),
+	data: z.object({ id: z.string().min(1), position: PositionSchema }),
+});
+
+export const AddEdgeMessageSchema = z.object({
+	type: z.literal("add_edge"),
+	data: ProcessEdgeSchema,
+});
+
+export const UpdateEdgeMessageSchema = z.object({
+	type: z.literal("update_edge"),
+	data: ProcessEdgeSchema.partial().required({ id: true }), // Shallow-merged into the edge (and its data)
+});
+
+export const RemoveEdgeMessageSchema = z.object({
+	type: z.literal("remove_edge"),
+	data: z.string().min(1),
+});
+
+/** Replaces the swimlanes (an empty list removes them) */
+export const LanesMessageSchema = z.object({
+	type: z.literal("lanes"),
+	data: z.array(LaneSchema),
+});
+
+/** Natural-language reply shown in the chat (explanations, questions, answers) */
+export const AssistantMessageSchema = z.object({
+	type: z.literal("message"),
+	data: z.string(),
+});
+
+export const CompleteMessageSchema = z.object({
+	type: z.literal("complete"),
+});
+
+/** Sent before the server asks the model to fix rejected lines */
+export const RepairMessageSchema = z.object({
+	type: z.literal("repair"),
+	data: z.object({
+		attempt: z.number().int().min(1),
+		rejected: z.number().int(), // Lines being retried
+	}),
+});
+
+export const StreamErrorCodeSchema = z.enum([
+	"invalid_json", // Model output could not be parsed as JSON
+	"invalid_message", // JSON parsed but did not match the schema
+	"unknown_reference", // Edge or operation points at a node/edge ID that doesn't exist
+	"stream_failed", // Provider/stream failure - fatal, nothing more will arrive
+]);
+
+export const ErrorMessageSchema = z.object({
+	type: z.literal("error"),
+	code: StreamErrorCodeSchema,
+	message: z.string(),
+	line: z.number().int().optional(), // 1-based index of the model output line
+	raw: z.string().optional(), // Offending fragment (truncated)
+	issues: z.array(z.string()).optional(),
+});
+
+/** Messages that change the graph */
+export const GraphOperationSchema = z.discriminatedUnion("type", [
+	NodeMessageSchema,
+	RemoveNodeMessageSchema,
+	EdgesMessageSchema,
+	AddNodeMessageSchema,
+	UpdateNodeMessageSchema,
+	MoveNodeMessageSchema,
+	AddEdgeMessageSchema,
+	UpdateEdgeMessageSchema,
+	RemoveEdgeMessageSchema,
+	LanesMessageSchema,
+]);
+
+/** Messages the model is allowed to produce */
+export const ModelMessageSchema = z.discriminatedUnion("type", [
+	ModeMessageSchema,
+	AssistantMessageSchema,
+	...GraphOperationSchema.options,
+]);
+
+/** Every event the client can receive */
+export const StreamEventSchema = z.discriminatedUnion("type", [
+	ModeMessageSchema,
+	AssistantMessageSchema,
+	...GraphOperationSchema.options,
+	CompleteMessageSchema,
+	RepairMessageSchema,
+	ErrorMessageSchema,
+]);
+
+export type GraphOperation = z.infer<typeof GraphOperationSchema>;
+export type ModelMessage = z.infer<typeof ModelMessageSchema>;
+export type StreamEdge = z.infer<typeof ProcessEdgeSchema>;
+export type StreamEvent = z.infer<typeof StreamEventSchema>;
+export type StreamError = z.infer<typeof ErrorMessageSchema>;
+export type StreamErrorCode = z.infer<typeof StreamErrorCodeSchema>;
+
+const RAW_SNIPPET_LENGTH = 200;
+
+const GRAPH_OPERATION_TYPES = new Set<string>(
+	GraphOperationSchema.options.map((option) => option.shape.type.value),
+);
+
+/**
+ * True for events that change the graph (as opposed to mode/complete/repair/error)
+ */
+export function isGraphOperation(
+	event: StreamEvent | ModelMessage,
+): event is GraphOperation {
+	return GRAPH_OPERATION_TYPES.has(event.type);
+}
+
+/**
+ * Flatten zod issues into "path: message" strings
+ */
+export function formatIssues(error: z.ZodError): string[] {
+	return error.issues.map((issue) => {
+		const path = issue.path.join(".");
+		return path ? `${path}: ${issue.message}` : issue.message;
+	});
+}
+
+export function createStreamError(
+	code: StreamErrorCode,
+	message: string,
+	details: { line?: number; raw?: string; issues?: string[] } = {},
+): StreamError {
+	return {
+		type: "error",
+		code,
+		message,
+		...details,
+		raw: details.raw?.substring(0, RAW_SNIPPET_LENGTH),
+	};
+}
+
+/**
+ * Incrementally split streamed model text into top-level JSON object strings
+ * Tracks braces/brackets outside of string literals, so objects may span chunks
+ */
+export function createJsonObjectSplitter() {
+	let current = "";
+	let braceDepth = 0;
+	let bracketDepth = 0;
+	let inString = false;
+	let escapeNext = false;
+
+	const reset = () => {
+		current = "";
+		braceDepth = 0;
+		bracketDepth = 0;
+		inString = false;
+		escapeNext = false;
+	};
+
+	return {
+		/** Feed a chunk, returning every object completed by it */
+		push(chunk: string): string[] {
+			const completed: string[] = [];
+
+			for (const char of chunk) {
+				current += char;
+
+				// Track string boundaries (ignore braces inside strings)
+				if (char === '"' && !escapeNext) {
+					inString = !inString;
+				}
+				escapeNext = char === "\\" && !escapeNext;
+
+				if (inString) continue;
+				if (char === "{") {
+					// A new top-level object starts - drop any prose/code fences before it
+					if (braceDepth === 0 && bracketDepth === 0) current = "{";
+					braceDepth++;
+				}
+				if (char === "}") braceDepth--;
+				if (char === "[") bracketDepth++;
+				if (char === "]") bracketDepth--;
+
+				// Complete JSON object detected
+				if (
+					braceDepth === 0 &&
+					bracketDepth === 0 &&
+					current.trim().startsWith("{")
+				) {
+					completed.push(current.trim());
+					reset();
+				}
+			}
+
+			return completed;
+		},
+
+		/** Return whatever is left in the buffer (possibly truncated JSON) */
+		flush(): string {
+			const rest = current.trim();
+			reset();
+			return rest;
+		},
+	};
+}
+
+type EdgeEnds = Pick<StreamEdge, "id" | "source" | "target">;
+
+/**
+ * Fills in fields the model left out (e.g. positions of existing nodes)
+ * before a parsed line is checked against the protocol
+ */
+export type MessageHydrator = (json: unknown, mode: "create" | "update") => unknown;
+
+export interface StreamValidatorOptions {
+	// Only part of the graph was shown to the model: create mode (which replaces
+	// the whole graph) is turned into update mode
+	updateOnly?: boolean;
+}
+
+/**
+ * Validates model output line by line, tracking which node and edge IDs exist
+ * so that operations pointing at unknown elements are rejected
+ */
+export function createStreamValidator(
+	existingNodeIds: Iterable<string> = [],
+	existingEdges: Iterable<EdgeEnds> = [],
+	hydrate?: MessageHydrator,
+	{ updateOnly = false }: StreamValidatorOptions = {},
+) {
+	const existing = new Set(existingNodeIds);
+	const existingEdgeList = [...existingEdges];
+	let knownIds = new Set(existing);
+	let knownEdges = new Map(existingEdgeList.map((e) => [e.id, e]));
+	let mode: "create" | "update" = updateOnly ? "update" : "create";
+	let modeLocked = false;
+	let lineNumber = 0;
+
+	const isDangling = (e: EdgeEnds) =>
+		!knownIds.has(e.source) || !knownIds.has(e.target);
+
+	return {
+		get mode() {
+			return mode;
+		},
+
+		hasNode(id: string): boolean {
+			return knownIds.has(id);
+		},
+
+		/** Ignore further mode lines (repair rounds must not reset the graph) */
+		lockMode() {
+			modeLocked = true;
+		},
+
+		/**
+		 * Validate one raw JSON fragment from the model
+		 * Returns the message to forward (if any), errors to report and
+		 * any edges dropped for pointing at unknown nodes
+		 */
+		validate(raw: string): {
+			message?: ModelMessage;
+			errors: StreamError[];
+			dangling?: StreamEdge[];
+		} {
+			lineNumber++;
+			const line = lineNumber;
+
+			const unknownReference = (message: string) => ({
+				errors: [createStreamError("unknown_reference", message, { line, raw })],
+			});
+
+			let json: unknown;
+			try {
+				json = JSON.parse(raw);
+			} catch (e) {
+				return {
+					errors: [
+						createStreamError(
+							"invalid_json",
+							`Line ${line} is not valid JSON`,
+							{ line, raw, issues: [e instanceof Error ? e.message : String(e)] },
+						),
+					],
+				};
+			}
+
+			const result = ModelMessageSchema.safeParse(
+				hydrate ? hydrate(json, mode) : json,
+			);
+			if (!result.success) {
+				return {
+					errors: [
+						createStreamError(
+							"invalid_message",
+							`Line ${line} does not match the stream protocol`,
+							{ line, raw, issues: formatIssues(result.error) },
+						),
+					],
+				};
+			}
+
+			const message =
+				updateOnly && result.data.type === "mode"
+					? { type: "mode" as const, data: "update" as const }
+					: result.data;
+
+			switch (message.type) {
+				case "mode":
+					if (modeLocked) return { errors: [] };
+					mode = message.data;
+					// Create mode replaces the graph, so only streamed nodes count
+					if (mode === "create") {
+						knownIds = new Set();
+						knownEdges = new Map();
+					} else {
+						knownIds = new Set(existing);
+						knownEdges = new Map(existingEdgeList.map((e) => [e.id, e]));
+					}
+					return { message, errors: [] };
+
+				case "message":
+				case "lanes":
+					return { message, errors: [] };
+
+				case "node":
+				case "add_node":
+					knownIds.add(message.data.id);
+					return { message, errors: [] };
+
+				case "update_node":
+				case "move_node":
+					if (!knownIds.has(message.data.id)) {
+						return unknownReference(
+							`Line ${line} changes unknown node "${message.data.id}"`,
+						);
+					}
+					return { message, errors: [] };
+
+				case "remove_node":
+					if (!knownIds.has(message.data)) {
+						return unknownReference(
+							`Line ${line} removes unknown node "${message.data}"`,
+						);
+					}
+					knownIds.delete(message.data);
+					// Edges attached to the node go with it
+					for (const [id, e] of knownEdges) {
+						if (e.source === message.data || e.target === message.data) {
+							knownEdges.delete(id);
+						}
+					}
+					return { message, errors: [] };
+
+				case "add_edge":
+					if (isDangling(message.data)) {
+						const e = message.data;
+						return {
+							dangling: [e],
+							errors: [
+								createStreamError(
+									"unknown_reference",
+									`Line ${line}: edge references unknown nodes`,
+									{ line, raw, issues: [`${e.id}: ${e.source} -> ${e.target}`] },
+								),
+							],
+						};
+					}
+					knownEdges.set(message.data.id, message.data);
+					return { message, errors: [] };
+
+				case "update_edge": {
+					const current = knownEdges.get(message.data.id);
+					if (!current) {
+						return unknownReference(
+							`Line ${line} changes unknown edge "${message.data.id}"`,
+						);
+					}
+					const next = {
+						id: current.id,
+						source: message.data.source ?? current.source,
+						target: message.data.target ?? current.target,
+					};
+					if (isDangling(next)) {
+						return unknownReference(
+							`Line ${line} reconnects edge "${next.id}" to unknown nodes`,
+						);
+					}
+					knownEdges.set(next.id, next);
+					return { message, errors: [] };
+				}
+
+				case "remove_edge":
+					if (!knownEdges.delete(message.data)) {
+						return unknownReference(
+							`Line ${line} removes unknown edge "${message.data}"`,
+						);
+					}
+					return { message, errors: [] };
+
+				case "edges": {
+					const dangling = message.data.filter(isDangling);
+					// The edge list replaces every edge, so it becomes the known set
+					const validEdges = message.data.filter((e) => !dangling.includes(e));
+					// (clients keep the current edges when an update sends an empty list)
+					if (mode === "create" || message.data.length > 0) {
+						knownEdges = new Map(validEdges.map((e) => [e.id, e]));
+					}
+					if (dangling.length === 0) {
+						return { message, errors: [] };
+					}
+
+					// Forward the valid edges, report the dangling ones
+					return {
+						message: { ...message, data: validEdges },
+						dangling,
+						errors: [
+							createStreamError(
+								"unknown_reference",
+								`Line ${line}: ${dangling.length} edge(s) reference unknown nodes`,
+								{
+									line,
+									raw,
+									issues: dangling.map(
+										(e) => `${e.id}: ${e.source} -> ${e.target}`,
+									),
+								},
+							),
+						],
+					};
+				}
+			}
+		},
+	};
+}
+
+/**
+ * Parse and validate one SSE payload received by the client
+ */
+export function parseStreamEvent(
+	payload: string,
+): { success: true; event: StreamEvent } | { success: false; issues: string[] } {
+	let json: unknown;
+	try {
+		json = JSON.parse(payload);
+	} catch (e) {
+		return {
+			success: false,
+			issues: [e instanceof Error ? e.message : "Invalid JSON"],
+		};
+	}
+
+	const result = StreamEventSchema.safeParse(json);
+	return result.success
+		? { success: true, event: result.data }
+		: { success: false, issues: formatIssues(result.error) };
+}
+
+/**
+ * Read SSE `data:` payloads from a fetch response, one per event
+ */
+export async function* readStreamPayloads(
+	response: Response,
+): AsyncIterable<string> {
+	const reader = response.body?.getReader();
+	if (!reader) throw new Error("No response body");
+
+	const decoder = new TextDecoder();
+	let buffer = "";
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+
+		buffer += decoder.decode(value, { stream: true });
+		const lines = buffer.split("\n");
+		buffer = lines.pop() || ""; // Keep incomplete line in buffer
+
+		for (const line of lines) {
+			if (line.startsWith("data: ")) yield line.slice(6);
+		}
+	}
+
+	if (buffer.startsWith("data: ")) yield buffer.slice(6);
+}
+
+/**
+ * Encode an event as an SSE frame
+ */
+export function encodeStreamEvent(event: StreamEvent | ModelMessage): string {
+	return `data: ${JSON.stringify(event)}\n\n`;
+}
@@ -0,0 +1,99 @@
+import type { Edge, Node } from "@xyflow/react";
+import type { ProcessGraph } from "../types/process";
+import type { GraphState } from "./graphPatch";
+
+export const SUBPROCESS_TYPE = "subprocess";
+
+/**
+ * One level of drill-down: the subprocess that was opened and the level it was opened from
+ */
+export interface DrillFrame {
+	nodeId: string; // Subprocess node in the parent level
+	label: string; // Its label - the name of the level it opens
+	parentName: string;
+	parent: GraphState; // Parent level as it was when drilling in
+	// Set when the subprocess links another saved map: the map to reopen on the way back
+	parentMapId?: string;
+}
+
+export function isSubprocess(node: Pick<Node, "type">): boolean {
+	return node.type === SUBPROCESS_TYPE;
+}
+
+/**
+ * A step turned into a subprocess: linked to a saved map (its embedded contents
+ * dropped), or embedded (any link dropped - contents are built on first open)
+ */
+export function toSubprocess(node: Node, mapRef?: string): Node {
+	const { childGraph, mapRef: _, ...data } = node.data;
+	return {
+		...node,
+		type: SUBPROCESS_TYPE,
+		data: mapRef ? { ...data, mapRef } : { ...data, ...(childGraph ? { childGraph } : {}) },
+	};
+}
+
+/**
+ * Contents of a new subprocess: a Start -> End flow to build on
+ */
+export function emptySubprocessGraph(): ProcessGraph {
+	return {
+		nodes: [
+			{ id: "1", type: "oval", position: { x: 220, y: 0 }, data: { label: "Start" } },
+			{ id: "2", type: "oval", position: { x: 220, y: 105 }, data: { label: "End" } },
+		],
+		edges: [
+			{
+				id: "e1-2",
+				source: "1",
+				target: "2",
+				type: "straight",
+				markerEnd: { type: "arrowclosed" },
+			},
+		] as ProcessGraph["edges"],
+	};
+}
+
+/**
+ * Embedded contents of a subprocess node (a new Start -> End flow when it has none)
+ */
+export function childGraphOf(node: Node): GraphState {
+	const child = node.data.childGraph as ProcessGraph | undefined;
+	const graph = child ?? emptySubprocessGraph();
+	return {
+		nodes: graph.nodes as Node[],
+		edges: graph.edges as Edge[],
+		lanes: graph.lanes ?? [],
+	};
+}
+
+/**
+ * Store an edited child level back into its subprocess node
+ */
+export function withChildGraph(parent: GraphState, nodeId: string, child: GraphState): GraphState {
+	const childGraph = {
+		nodes: child.nodes,
+		edges: child.edges,
+		...(child.lanes?.length ? { lanes: child.lanes } : {}),
+	};
+	return {
+		...parent,
+		nodes: parent.nodes.map((n) =>
+			n.id === nodeId ? { ...n, data: { ...n.data, childGraph } } : n,
+		),
+	};
+}
+
+/**
+ * Top-level graph of the map being edited, with the open level folded back into
+ * its parents - stops at a linked map, which is saved on its own
+ */
+export function composeRoot(frames: DrillFrame[], level: GraphState): GraphState {
+	let graph = level;
+	for (let i = frames.length - 1; i >= 0; i--) {
+		const frame = frames[i] as DrillFrame;
+		if (frame.parentMapId !== undefined) break;
+		graph = withChildGraph(frame.parent, frame.nodeId, graph);
+	}
+	return graph;
+}
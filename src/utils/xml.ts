@@ -0,0 +1,9 @@
+/** Escape text for XML content and attribute values (BPMN, SVG export) */
+export function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
@@ -0,0 +1,28 @@
+/// <reference lib="webworker" />
+import type { Edge, Node } from "@xyflow/react";
+import { simulate, type SimulationOptions, type SimulationResult } from "../utils/simulation";
+
+/**
+ * Runs simulations off the main thread - served bundled at
+ * /workers/simulation.js (see src/index.ts)
+ */
+
+export interface SimulationRequest {
+	id: number;
+	graph: { nodes: Node[]; edges: Edge[] };
+	options: SimulationOptions;
+}
+
+export type SimulationResponse = { id: number; result: SimulationResult } | { id: number; error: string };
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+	const { id, graph, options } = event.data;
+	try {
+		self.postMessage({ id, result: simulate(graph, options) } satisfies SimulationResponse);
+	} catch (error) {
+		self.postMessage({
+			id,
+			error: error instanceof Error ? error.message : String(error),
+		} satisfies SimulationResponse);
+	}
+};
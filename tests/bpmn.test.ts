@@ -0,0 +1,230 @@
+import { describe, test, expect } from "bun:test";
+import { Position } from "@xyflow/react";
+import type { ProcessGraph } from "../src/types/process";
+import { exportBpmn, importBpmn } from "../src/utils/bpmn";
+import { escapeXml } from "../src/utils/xml";
+
+const graph: ProcessGraph = {
+	nodes: [
+		{ id: "1", type: "oval", position: { x: 0, y: 0 }, data: { label: "Start" } },
+		{
+			id: "2",
+			position: { x: 0, y: 100 },
+			data: { label: "Check stock", description: "Look up <SKU> & reserve" },
+		},
+		{ id: "3", type: "diamond", position: { x: 0, y: 200 }, data: { label: "In stock?" } },
+		{ id: "4", type: "oval", position: { x: 0, y: 400 }, data: { label: "End" } },
+	],
+	edges: [
+		{ id: "e1-2", source: "1", target: "2" },
+		{ id: "e2-3", source: "2", target: "3" },
+		{ id: "e3-4", source: "3", target: "4", label: "Yes" },
+	],
+};
+
+describe("BPMN export: elements", () => {
+	const xml = exportBpmn(graph, "Order fulfilment");
+
+	test("should map node types to BPMN elements", () => {
+		expect(xml).toContain('<bpmn:startEvent id="Node_1" name="Start">');
+		expect(xml).toContain('<bpmn:task id="Node_2" name="Check stock">');
+		expect(xml).toContain('<bpmn:exclusiveGateway id="Node_3" name="In stock?">');
+		expect(xml).toContain('<bpmn:endEvent id="Node_4" name="End">');
+	});
+
+	test("should write sequence flows with incoming/outgoing references", () => {
+		expect(xml).toContain('<bpmn:sequenceFlow id="Flow_e1-2" sourceRef="Node_1" targetRef="Node_2" />');
+		expect(xml).toContain("<bpmn:outgoing>Flow_e1-2</bpmn:outgoing>");
+		expect(xml).toContain("<bpmn:incoming>Flow_e1-2</bpmn:incoming>");
+	});
+
+	test("should turn decision branch labels into conditions", () => {
+		expect(xml).toContain('name="Yes" sourceRef="Node_3" targetRef="Node_4">');
+		expect(xml).toContain('<bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">Yes</bpmn:conditionExpression>');
+	});
+
+	test("should escape descriptions into documentation", () => {
+		expect(xml).toContain("<bpmn:documentation>Look up &lt;SKU&gt; &amp; reserve</bpmn:documentation>");
+		expect(escapeXml(`"a" & 'b'`)).toBe("&quot;a&quot; &amp; &apos;b&apos;");
+	});
+
+	test("should place shapes from node positions", () => {
+		// Start oval is 160x45 - the 36px event is centered on it
+		expect(xml).toContain(
+			'<bpmndi:BPMNShape id="Node_1_di" bpmnElement="Node_1"><dc:Bounds x="62" y="5" width="36" height="36" /></bpmndi:BPMNShape>',
+		);
+		expect(xml).toContain('<dc:Bounds x="0" y="100" width="150" height="50" />');
+		expect(xml).toContain('<bpmndi:BPMNEdge id="Flow_e1-2_di" bpmnElement="Flow_e1-2">');
+	});
+});
+
+describe("BPMN export: structure", () => {
+	test("should make IDs valid XML names without collisions", () => {
+		const xml = exportBpmn(
+			{
+				nodes: [
+					{ id: "a b", position: { x: 0, y: 0 }, data: { label: "One" } },
+					{ id: "a_b", position: { x: 0, y: 100 }, data: { label: "Two" } },
+				],
+				edges: [],
+			},
+			"Map",
+		);
+
+		expect(xml).toContain('id="Node_a_b" name="One"');
+		expect(xml).toContain('id="Node_a_b_2" name="Two"');
+	});
+
+	test("should wrap lanes in a pool with a lane set", () => {
+		const xml = exportBpmn(
+			{
+				...graph,
+				nodes: graph.nodes.map((n) => ({ ...n, data: { ...n.data, laneId: n.id === "2" ? "wh" : "cs" } })),
+				lanes: [
+					{ id: "cs", label: "Customer service" },
+					{ id: "wh", label: "Warehouse" },
+				],
+			},
+			"Order fulfilment",
+		);
+
+		expect(xml).toContain('<bpmn:participant id="Participant_1" name="Order fulfilment" processRef="Process_1" />');
+		expect(xml).toContain('<bpmn:lane id="Lane_wh" name="Warehouse">');
+		expect(xml).toContain("<bpmn:flowNodeRef>Node_2</bpmn:flowNodeRef>");
+		expect(xml).toContain('<bpmndi:BPMNPlane id="BPMNDiagram_Collaboration_1_plane" bpmnElement="Collaboration_1">');
+		expect(xml).toContain('bpmnElement="Lane_cs" isHorizontal="false"');
+	});
+
+	test("should nest embedded subprocesses and link saved maps as call activities", () => {
+		const xml = exportBpmn(
+			{
+				nodes: [
+					{
+						id: "1",
+						type: "subprocess",
+						position: { x: 0, y: 0 },
+						data: { label: "Pack", childGraph: { nodes: [graph.nodes[1]!], edges: [] } },
+					},
+					{ id: "2", type: "subprocess", position: { x: 0, y: 100 }, data: { label: "Bill", mapRef: "map_7" } },
+				],
+				edges: [],
+			},
+			"Map",
+		);
+
+		expect(xml).toContain('<bpmn:subProcess id="Node_1" name="Pack">');
+		expect(xml).toContain('<bpmn:task id="Node_1_Node_2" name="Check stock">');
+		expect(xml).toContain('<bpmn:callActivity id="Node_2" name="Bill" calledElement="map_7" />');
+		// The child level gets its own diagram
+		expect(xml).toContain('<bpmndi:BPMNPlane id="BPMNDiagram_Node_1_plane" bpmnElement="Node_1">');
+	});
+});
+
+// A modeler's file without diagram interchange
+const withoutDi = `<?xml version="1.0" encoding="UTF-8"?>
+<definitions xmlns="http://www.omg.org/spec/BPMN/20100524/MODEL">
+  <!-- Claims handling -->
+  <process id="claims" name="Claims &amp; refunds">
+    <startEvent id="start" />
+    <userTask id="review" name="Review claim">
+      <documentation><![CDATA[Check <receipts>]]></documentation>
+    </userTask>
+    <exclusiveGateway id="valid" name="Valid?" />
+    <parallelGateway id="split" />
+    <endEvent id="end" />
+    <boundaryEvent id="timer" attachedToRef="review" />
+    <textAnnotation id="note1" />
+    <textAnnotation id="note2" />
+    <sequenceFlow id="f1" sourceRef="start" targetRef="review" />
+    <sequenceFlow id="f2" sourceRef="review" targetRef="valid" />
+    <sequenceFlow id="f3" sourceRef="valid" targetRef="split" name="Yes" />
+    <sequenceFlow id="f4" sourceRef="valid" targetRef="end">
+      <conditionExpression>No</conditionExpression>
+    </sequenceFlow>
+    <sequenceFlow id="f5" sourceRef="split" targetRef="end" />
+    <sequenceFlow id="f6" sourceRef="timer" targetRef="end" />
+  </process>
+</definitions>`;
+
+describe("BPMN import", () => {
+	test("should map BPMN elements to node types", async () => {
+		const { name, graph } = await importBpmn(withoutDi);
+
+		expect(name).toBe("Claims & refunds");
+		expect(graph.nodes.map((n) => [n.id, n.type, n.data.label])).toEqual([
+			["start", "oval", "Start"],
+			["review", "default", "Review claim"],
+			["valid", "diamond", "Valid?"],
+			["split", "diamond", ""],
+			["end", "oval", "End"],
+		]);
+		expect(graph.nodes[1]?.data.description).toBe("Check <receipts>");
+	});
+
+	test("should route decision branches to the No/Yes handles", async () => {
+		const { graph } = await importBpmn(withoutDi);
+		const branches = graph.edges.filter((e) => e.source === "valid");
+
+		expect(graph.nodes[2]?.data.outputCount).toBe(2);
+		expect(branches.map((e) => [e.label, e.sourceHandle])).toEqual([
+			["No", "left"],
+			["Yes", "right"],
+		]);
+	});
+
+	test("should report unsupported elements and drop their flows", async () => {
+		const { graph, unsupported } = await importBpmn(withoutDi);
+
+		expect(unsupported).toEqual([
+			"parallelGateway (imported as a decision)",
+			"boundaryEvent",
+			"textAnnotation ×2",
+		]);
+		expect(graph.edges.map((e) => e.id)).not.toContain("f6");
+	});
+
+	test("should auto-layout files without diagram interchange", async () => {
+		const { graph } = await importBpmn(withoutDi);
+		const ys = graph.nodes.map((n) => n.position.y);
+
+		expect(new Set(ys).size).toBeGreaterThan(1);
+		expect(graph.nodes[0]?.targetPosition).toBe(Position.Top);
+	});
+
+	test("should round-trip an exported map with lanes and subprocesses", async () => {
+		const map: ProcessGraph = {
+			nodes: [
+				...graph.nodes.map((n) => ({ ...n, data: { ...n.data, laneId: "cs" } })),
+				{
+					id: "5",
+					type: "subprocess",
+					position: { x: 300, y: 100 },
+					data: { label: "Restock", laneId: "wh", childGraph: { nodes: [graph.nodes[1]!], edges: [] } },
+				},
+			],
+			edges: graph.edges,
+			lanes: [
+				{ id: "cs", label: "Customer service" },
+				{ id: "wh", label: "Warehouse" },
+			],
+		};
+		const { name, graph: imported } = await importBpmn(exportBpmn(map, "Order fulfilment"));
+
+		expect(name).toBe("Order fulfilment");
+		expect(imported.nodes.map((n) => n.type)).toEqual(["oval", "default", "diamond", "oval", "subprocess"]);
+		// Centered on the same spot as the exported shapes (within BPMNDI's whole pixels)
+		imported.nodes.forEach((node, i) => {
+			expect(Math.abs(node.position.x - (map.nodes[i]?.position.x ?? 0))).toBeLessThanOrEqual(1);
+			expect(Math.abs(node.position.y - (map.nodes[i]?.position.y ?? 0))).toBeLessThanOrEqual(1);
+		});
+		expect(imported.lanes?.map((l) => l.label)).toEqual(["Customer service", "Warehouse"]);
+		expect(imported.nodes[4]?.data.laneId).toBe("Lane_wh");
+		expect(imported.nodes[4]?.data.childGraph?.nodes.map((n) => n.data.label)).toEqual(["Check stock"]);
+		expect(imported.edges.find((e) => e.source === "Node_3")?.label).toBe("Yes");
+	});
+
+	test("should reject files that are not BPMN", async () => {
+		await expect(importBpmn("<html><body /></html>")).rejects.toThrow("Not a BPMN file");
+		await expect(importBpmn("<definitions><process>")).rejects.toThrow("is not closed");
+	});
+});
@@ -0,0 +1,107 @@
+import { describe, test, expect } from "bun:test";
+import {
+	createHistorySummarizer,
+	normalizeTurns,
+	prepareHistory,
+} from "../src/ai/conversation";
+import type { ChatTurn, CompleteOptions, LLMProvider } from "../src/ai/providers";
+
+const user = (content: string): ChatTurn => ({ role: "user", content });
+const assistant = (content: string): ChatTurn => ({ role: "assistant", content });
+
+// Six alternating turns: u0 a0 u1 a1 u2 a2
+const transcript = [0, 1, 2].flatMap((i) => [user(`u${i}`), assistant(`a${i}`)]);
+
+function countingProvider(reply: string | Error) {
+	const prompts: string[] = [];
+	const options: (CompleteOptions | undefined)[] = [];
+	const provider: LLMProvider = {
+		name: "fake",
+		model: "test",
+		configError: null,
+		async *streamChat() {},
+		async complete(prompt, completeOptions) {
+			prompts.push(prompt);
+			options.push(completeOptions);
+			if (reply instanceof Error) throw reply;
+			return reply;
+		},
+	};
+	return { provider, prompts, options };
+}
+
+describe("Conversation Memory: normalizeTurns", () => {
+	test("should merge consecutive turns and drop empty ones", () => {
+		expect(normalizeTurns([user("a"), user("b"), assistant("  "), assistant("c")])).toEqual([
+			user("a\n\nb"),
+			assistant("c"),
+		]);
+	});
+});
+
+describe("Conversation Memory: prepareHistory", () => {
+	const summarize = async (turns: ChatTurn[]) =>
+		turns.map((t) => t.content).join(",");
+
+	test("should replay short transcripts verbatim", async () => {
+		expect(await prepareHistory(transcript, { window: 10, summarize })).toEqual(
+			transcript,
+		);
+	});
+
+	test("should summarize turns outside the window", async () => {
+		const history = await prepareHistory(transcript, { window: 2, summarize });
+
+		expect(history).toHaveLength(4);
+		expect(history[0]?.content).toContain("u0,a0,u1,a1");
+		expect(history.slice(2)).toEqual([user("u2"), assistant("a2")]);
+	});
+
+	test("should start the window on a user turn", async () => {
+		const history = await prepareHistory(transcript, { window: 3, summarize });
+
+		// a1 would open the window, so it is summarized instead
+		expect(history[0]?.content).toContain("u0,a0,u1,a1");
+		expect(history[2]).toEqual(user("u2"));
+	});
+
+	test("should close a trailing user turn so roles keep alternating", async () => {
+		const history = await prepareHistory([user("u0"), assistant("a0"), user("u1")], {
+			window: 10,
+			summarize,
+		});
+
+		expect(history.map((t) => t.role)).toEqual(["user", "assistant", "user", "assistant"]);
+	});
+
+	test("should send no history when the window is 0", async () => {
+		expect(await prepareHistory(transcript, { window: 0, summarize })).toEqual([]);
+	});
+});
+
+describe("Conversation Memory: summarizer", () => {
+	test("should cache summaries of the same turns", async () => {
+		const { provider, prompts } = countingProvider("- made node 2 red");
+		const summarize = createHistorySummarizer(provider);
+
+		expect(await summarize(transcript)).toBe("- made node 2 red");
+		await summarize(transcript);
+		expect(prompts).toHaveLength(1);
+		expect(prompts[0]).toContain("User: u0");
+	});
+
+	test("should leave room for a multi-line summary", async () => {
+		const { provider, options } = countingProvider("- made node 2 red");
+		await createHistorySummarizer(provider)(transcript);
+
+		// Map naming gets 64 tokens; 8 bullet points need more
+		expect(options[0]?.maxTokens).toBeGreaterThanOrEqual(512);
+	});
+
+	test("should fall back to listing requests when the model fails", async () => {
+		const { provider } = countingProvider(new Error("offline"));
+		const summarize = createHistorySummarizer(provider);
+
+		expect(await summarize(transcript)).toBe("- u0\n- u1\n- u2");
+	});
+});
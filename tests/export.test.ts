@@ -0,0 +1,134 @@
+import { describe, test, expect } from "bun:test";
+import { MarkerType } from "@xyflow/react";
+import type { ProcessGraph } from "../src/types/process";
+import { legendKinds, pdfLayout, sceneToPdf } from "../src/utils/exportPdf";
+import { setPngDpi } from "../src/utils/exportPng";
+import { buildScene, parsePath, type SceneItem } from "../src/utils/exportScene";
+import { sceneToSvg } from "../src/utils/exportSvg";
+
+const graph: ProcessGraph = {
+	nodes: [
+		{ id: "1", type: "oval", position: { x: 0, y: 0 }, data: { label: "Start" } },
+		{ id: "2", position: { x: 0, y: 100 }, data: { label: "Check <stock>", status: "bottleneck" } },
+		{ id: "3", type: "diamond", position: { x: -5, y: 200 }, data: { label: "In stock?", outputCount: 2 } },
+		{ id: "4", type: "oval", position: { x: 200, y: 420 }, data: { label: "End" } },
+	],
+	edges: [
+		{ id: "e1-2", source: "1", target: "2", markerEnd: { type: MarkerType.ArrowClosed } },
+		{ id: "e2-3", source: "2", target: "3" },
+		{ id: "e3-4", source: "3", target: "4", label: "Yes", sourceHandle: "right" },
+		{ id: "e3-2", source: "3", target: "2", label: "No", sourceHandle: "left", type: "selfConnecting" },
+	],
+	lanes: [{ id: "ops", label: "Operations" }],
+};
+
+const ofKind = <K extends SceneItem["kind"]>(items: SceneItem[], kind: K) =>
+	items.filter((i): i is Extract<SceneItem, { kind: K }> => i.kind === kind);
+
+describe("Export scene", () => {
+	const scene = buildScene(graph);
+
+	test("should draw the diamond as a polygon at the node component's geometry", () => {
+		const [diamond] = ofKind(scene.items, "polygon").filter((p) => p.points.length === 4);
+		expect(diamond?.points).toEqual([
+			{ x: 75, y: 220 },
+			{ x: 135, y: 280 },
+			{ x: 75, y: 340 },
+			{ x: 15, y: 280 },
+		]);
+	});
+
+	test("should route a backward branch around the side of the nodes", () => {
+		const [, , , loop] = ofKind(scene.items, "path");
+		expect(loop?.segments[0]).toEqual({ op: "M", x: -5, y: 280 }); // Left corner of the diamond
+		expect(loop?.segments.some((s) => s.x < -70)).toBe(true);
+	});
+
+	test("should place edge labels above the nodes and include the whole graph", () => {
+		const texts = ofKind(scene.items, "text").map((t) => t.text);
+		expect(texts.slice(-2)).toEqual(["Yes", "No"]);
+		expect(texts).toContain("Operations");
+		expect(scene.x).toBeLessThan(-80);
+		expect(scene.y + scene.height).toBeGreaterThan(465);
+	});
+
+	test("should add an arrowhead only for edges with an end marker", () => {
+		const arrows = ofKind(scene.items, "polygon").filter((p) => p.points.length === 3);
+		expect(arrows).toHaveLength(1);
+		expect(arrows[0]?.points[0]).toEqual({ x: 75, y: 100 });
+	});
+
+	test("should convert quadratic path segments to cubic ones", () => {
+		expect(parsePath("M 0 0 Q 30 0 30 30")).toEqual([
+			{ op: "M", x: 0, y: 0 },
+			{ op: "C", x1: 20, y1: 0, x2: 30, y2: 10, x: 30, y: 30 },
+		]);
+	});
+});
+
+describe("SVG export", () => {
+	test("should write a standalone document with escaped text", () => {
+		const svg = sceneToSvg(buildScene(graph));
+		expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+		expect(svg).toContain("Check &lt;stock&gt;");
+		expect(svg).toContain('fill="#fef2f2" stroke="#ef4444"');
+	});
+
+	test("should leave out the background when transparent", () => {
+		const rects = (svg: string) => svg.match(/<rect /g)?.length;
+		const transparent = buildScene(graph, { transparent: true });
+		expect(transparent.background).toBeUndefined();
+		expect(rects(sceneToSvg(transparent))).toBe((rects(sceneToSvg(buildScene(graph))) ?? 0) - 1);
+	});
+});
+
+describe("PDF export", () => {
+	test("should write a valid document with a title and legend", () => {
+		const scene = buildScene(graph);
+		const pdf = new TextDecoder("latin1").decode(
+			sceneToPdf(scene, { title: "Orders", legend: legendKinds(graph) }),
+		);
+		expect(pdf).toStartWith("%PDF-1.4");
+		expect(pdf).toEndWith("%%EOF\n");
+		expect(pdf).toContain("/Title (Orders)");
+		expect(pdf).toContain("(Page 1 of 1) Tj");
+		expect(pdf).toContain("(Bottleneck) Tj");
+		expect(pdf).not.toContain("(Subprocess) Tj");
+
+		// The cross-reference table points at each object
+		const xref = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+		expect(pdf.slice(xref)).toStartWith("xref");
+		const firstOffset = Number(pdf.slice(xref).split("\n")[3]?.slice(0, 10));
+		expect(pdf.slice(firstOffset)).toStartWith("1 0 obj");
+	});
+
+	test("should split a map too large for one page across pages", () => {
+		const wide = { x: 0, y: 0, width: 6000, height: 400, items: [] };
+		const layout = pdfLayout(wide, "a4", false);
+		expect(layout.pageWidth).toBeGreaterThan(layout.pageHeight);
+		expect(layout.columns).toBeGreaterThan(1);
+		expect(layout.rows).toBe(1);
+
+		const pdf = new TextDecoder("latin1").decode(sceneToPdf(wide));
+		expect(pdf).toContain(`/Count ${layout.columns}`);
+	});
+});
+
+describe("PNG export", () => {
+	test("should record the DPI in a pHYs chunk", () => {
+		// Signature, IHDR and IEND of a 1x1 image (the chunk data isn't checked)
+		const png = new Uint8Array([
+			0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+			0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52, 0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0, 0, 0, 0, 0,
+			0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82,
+		]);
+		const once = setPngDpi(png, 300);
+		const twice = setPngDpi(once, 300);
+		expect(twice).toEqual(once);
+
+		const view = new DataView(once.buffer);
+		expect(new TextDecoder().decode(once.subarray(37, 41))).toBe("pHYs");
+		expect(view.getUint32(41)).toBe(11811); // 300 DPI in pixels per meter
+		expect(view.getUint32(50)).toBe(0x78a53f76); // CRC of the chunk
+	});
+});
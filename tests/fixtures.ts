@@ -0,0 +1,15 @@
+import type { Duration, ProcessEdge, ProcessNode } from "../src/types/process";
+
+/** Graph builders shared by the analysis tests - positions don't matter to any of them */
+
+/** Node labeled with its ID unless `data` says otherwise */
+export function node(id: string, type?: string, data: Partial<ProcessNode["data"]> = {}): ProcessNode {
+	return { id, type, position: { x: 0, y: 0 }, data: { label: id, ...data } };
+}
+
+/** Edge with the ID `e<source>-<target>` */
+export function edge(source: string, target: string, fields: Partial<Omit<ProcessEdge, "type">> & { type?: string } = {}): ProcessEdge {
+	return { id: `e${source}-${target}`, source, target, ...fields } as ProcessEdge;
+}
+
+export const hours = (value: number): Duration => ({ value, unit: "hours" });
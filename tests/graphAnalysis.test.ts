@@ -0,0 +1,125 @@
+import { describe, test, expect } from "bun:test";
+import type { Edge, Node } from "@xyflow/react";
+import type { ProcessGraph } from "../src/types/process";
+import { analyzeGraph, findingsByNode } from "../src/utils/graphAnalysis";
+import { applyLintFixes, lintGraph } from "../src/utils/lint";
+import { edge, node } from "./fixtures";
+
+const kinds = (graph: { nodes: Node[]; edges: Edge[] }) =>
+	analyzeGraph(graph).map((f) => `${f.kind}:${f.nodeIds.join(",")}`);
+
+describe("Graph analysis", () => {
+	test("should find nothing wrong with a complete flow", () => {
+		const graph = {
+			nodes: [node("start", "oval"), node("check", "diamond", { outputCount: 2 }), node("a"), node("b"), node("end", "oval")],
+			edges: [
+				edge("start", "check"),
+				edge("check", "a", { sourceHandle: "left" }),
+				edge("check", "b", { sourceHandle: "right" }),
+				edge("a", "end"),
+				edge("b", "check"), // Loop back with an exit through "a"
+			],
+		};
+		expect(analyzeGraph(graph)).toEqual([]);
+		expect(analyzeGraph({ nodes: [node("only")], edges: [] })).toEqual([]); // A new map
+	});
+
+	test("should report orphans, unreachable steps and dead ends", () => {
+		const graph = {
+			nodes: [
+				node("start", "oval"),
+				node("a"),
+				node("end", "oval"),
+				node("lonely"),
+				node("floating"), // No incoming edges, not a start
+				node("x"), // Closed loop nothing leads into...
+				node("y"), // ...that leads to the end
+			],
+			edges: [edge("start", "a"), edge("a", "end"), edge("floating", "a"), edge("start", "stub"), edge("x", "y"), edge("y", "x"), edge("y", "end")],
+		};
+		expect(kinds(graph)).toEqual(["orphan:lonely", "unreachable:floating", "unreachable:x", "unreachable:y"]);
+
+		const deadEnd = { nodes: [...graph.nodes.slice(0, 3), node("b")], edges: [edge("start", "a"), edge("a", "end"), edge("a", "b")] };
+		expect(kinds(deadEnd)).toEqual(["dead-end:b"]);
+	});
+
+	test("should report a missing end event once, at the steps the flow stops at", () => {
+		const graph = {
+			nodes: [node("start", "oval"), node("a"), node("b")],
+			edges: [edge("start", "a"), edge("start", "b")],
+		};
+		const findings = analyzeGraph(graph);
+		expect(findings.map((f) => f.kind)).toEqual(["missing-end"]);
+		expect(findings[0]?.message).toBe('No end event - the flow stops at "a", "b"');
+	});
+
+	test("should compare decision branches with the diamond's outputs", () => {
+		const graph = {
+			nodes: [
+				node("start", "oval"),
+				node("three", "diamond", { outputCount: 3 }),
+				node("two", "diamond", { outputCount: 2 }),
+				node("a"),
+				node("b"),
+				node("c"),
+				node("end", "oval"),
+			],
+			edges: [
+				edge("start", "three"),
+				edge("three", "two", { sourceHandle: "output-0" }),
+				edge("three", "a", { sourceHandle: "output-2" }),
+				edge("two", "a"), // No handle: takes a free output
+				edge("two", "b"),
+				edge("two", "c"),
+				edge("a", "end"),
+				edge("b", "end"),
+				edge("c", "end"),
+			],
+		};
+		expect(analyzeGraph(graph).map((f) => f.message)).toEqual([
+			'1 of 3 outputs of "three" is unused',
+			'"two" has 3 branches but 2 outputs',
+		]);
+	});
+
+	test("should report loops without an exit on every step in them", () => {
+		const graph = {
+			nodes: [node("start", "oval"), node("a"), node("b"), node("c"), node("end", "oval"), node("spin")],
+			edges: [
+				edge("start", "a"),
+				edge("a", "b"),
+				edge("b", "c"),
+				edge("c", "b"),
+				edge("start", "spin"),
+				edge("spin", "spin"), // Self-loop
+				edge("start", "end"),
+			],
+		};
+		expect(kinds(graph)).toEqual(["endless-loop:b,c", "endless-loop:spin"]);
+		const badges = findingsByNode(analyzeGraph(graph));
+		expect([...badges.keys()]).toEqual(["b", "c", "spin"]);
+	});
+
+	test("should reroute a decision's branches when its outputs are fitted to them", () => {
+		const graph = {
+			nodes: [node("start", "oval"), node("d", "diamond", { outputCount: 4 }), node("a"), node("b"), node("end", "oval")],
+			edges: [
+				edge("start", "d"),
+				edge("d", "a", { sourceHandle: "output-0", label: "Yes" }),
+				edge("d", "b", { sourceHandle: "output-3", label: "No" }),
+				edge("a", "end"),
+				edge("b", "end"),
+			],
+		} as ProcessGraph;
+		const issues = lintGraph(graph, ["unused-handles"]);
+		expect(issues.map((i) => i.fix?.label)).toEqual(["Set outputCount to 2"]);
+
+		const fixed = applyLintFixes(graph, issues);
+		expect(fixed.nodes.find((n) => n.id === "d")?.data.outputCount).toBe(2);
+		expect(fixed.edges.filter((e) => e.source === "d").map((e) => `${e.label}:${e.sourceHandle}`)).toEqual([
+			"Yes:right",
+			"No:left",
+		]);
+		expect(analyzeGraph(fixed)).toEqual([]);
+	});
+});
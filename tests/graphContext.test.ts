@@ -0,0 +1,234 @@
+import { describe, test, expect } from "bun:test";
+import {
+	compactGraph,
+	createGraphHydrator,
+	neighborhood,
+} from "../src/ai/graphContext";
+import type { ProcessGraph } from "../src/types/process";
+import { createStreamValidator } from "../src/utils/streamProtocol";
+
+const graph = {
+	nodes: [
+		{
+			id: "1",
+			type: "oval",
+			position: { x: 220, y: 0 },
+			measured: { width: 160, height: 45 },
+			data: { label: "Start" },
+		},
+		{
+			id: "2",
+			type: "default",
+			position: { x: 225, y: 105 },
+			style: { width: 200 },
+			data: { label: "Review", status: "bottleneck", description: "" },
+		},
+		{
+			id: "3",
+			type: "diamond",
+			position: { x: 220, y: 215 },
+			data: { label: "Approved?", outputCount: 2 },
+		},
+	],
+	edges: [
+		{ id: "e1-2", source: "1", target: "2", type: "straight", markerEnd: { type: "arrowclosed" } },
+		{
+			id: "e2-3",
+			source: "2",
+			target: "3",
+			type: "bezier",
+			label: "Next",
+			labelStyle: { fill: "#22c55e" },
+			markerEnd: { type: "arrowclosed" },
+		},
+	],
+} as ProcessGraph;
+
+/** A straight chain 1 -> 2 -> ... -> count */
+function chain(count: number): ProcessGraph {
+	const ids = Array.from({ length: count }, (_, i) => String(i + 1));
+	return {
+		nodes: ids.map((id, i) => ({
+			id,
+			position: { x: 0, y: i * 100 },
+			data: { label: `Step ${id}` },
+		})),
+		edges: ids.slice(1).map((id, i) => ({
+			id: `e${ids[i]}-${id}`,
+			source: ids[i] as string,
+			target: id,
+		})),
+	} as ProcessGraph;
+}
+
+describe("Graph Context: compactGraph", () => {
+	test("should drop positions, styles and markers", () => {
+		const context = compactGraph(graph);
+
+		expect(context).toEqual({
+			nodes: [
+				{ id: "1", type: "oval", label: "Start" },
+				{ id: "2", label: "Review", status: "bottleneck" },
+				{ id: "3", type: "diamond", label: "Approved?", outputCount: 2 },
+			],
+			edges: [
+				{ id: "e1-2", source: "1", target: "2" },
+				{ id: "e2-3", source: "2", target: "3", label: "Next" },
+			],
+		});
+		expect(JSON.stringify(context).length).toBeLessThan(JSON.stringify(graph).length / 2);
+	});
+
+	test("should send the whole graph below the focus threshold", () => {
+		const context = compactGraph(chain(10), { selectedNodeIds: ["5"], focusThreshold: 20 });
+
+		expect(context.nodes.length).toBe(10);
+		expect(context.focus).toBeUndefined();
+	});
+
+	test("should cut large graphs down to a window around the selection", () => {
+		const context = compactGraph(chain(30), { selectedNodeIds: ["10"], focusThreshold: 20 });
+
+		expect(context.nodes.map((n) => n.id)).toEqual(["8", "9", "10", "11", "12"]);
+		expect(context.edges.map((e) => e.id)).toEqual([
+			"e7-8",
+			"e8-9",
+			"e9-10",
+			"e10-11",
+			"e11-12",
+			"e12-13",
+		]);
+		expect(context.focus).toEqual({
+			selected: ["10"],
+			depth: 2,
+			outside: [
+				{ id: "7", label: "Step 7" },
+				{ id: "13", label: "Step 13" },
+			],
+			omittedNodes: 23,
+		});
+	});
+
+	test("should list lanes by ID and label", () => {
+		const context = compactGraph({
+			...graph,
+			lanes: [{ id: "ops", label: "Operations", color: "#e0f2fe", size: 300 }],
+		});
+
+		expect(context.lanes).toEqual([{ id: "ops", label: "Operations" }]);
+		expect(compactGraph(graph).lanes).toBeUndefined();
+	});
+
+	test("should not focus without a selection", () => {
+		expect(compactGraph(chain(30), { focusThreshold: 20 }).nodes.length).toBe(30);
+	});
+
+	test("should walk edges in both directions", () => {
+		const edges = [
+			{ source: "a", target: "b" },
+			{ source: "c", target: "b" },
+			{ source: "c", target: "d" },
+		];
+
+		expect([...neighborhood(edges, ["a"], 2)].sort()).toEqual(["a", "b", "c"]);
+	});
+});
+
+describe("Graph Context: createGraphHydrator", () => {
+	const hydrate = createGraphHydrator(graph, ["2"]);
+
+	test("should restore position, type and style of existing nodes", () => {
+		const line = hydrate(
+			{ type: "node", data: { id: "2", data: { label: "Review v2" } } },
+			"update",
+		);
+
+		expect(line).toEqual({
+			type: "node",
+			data: {
+				id: "2",
+				type: "default",
+				position: { x: 225, y: 105 },
+				style: { width: 200 },
+				data: { label: "Review v2" },
+			},
+		});
+	});
+
+	test("should keep fields the model did send", () => {
+		const line = hydrate(
+			{
+				type: "node",
+				data: { id: "1", type: "default", position: { x: 5, y: 5 }, data: { label: "Go" } },
+			},
+			"create",
+		) as { data: Record<string, unknown> };
+
+		expect(line.data.type).toBe("default");
+		expect(line.data.position).toEqual({ x: 5, y: 5 });
+	});
+
+	test("should place new nodes that come without a position", () => {
+		const place = createGraphHydrator(graph, ["2"]);
+		const first = place({ type: "add_node", data: { id: "9", data: { label: "A" } } }, "update");
+		const second = place({ type: "add_node", data: { id: "10", data: { label: "B" } } }, "update");
+
+		expect(first).toMatchObject({ data: { position: { x: 225, y: 335 } } });
+		expect(second).toMatchObject({ data: { position: { x: 225, y: 455 } } });
+		// Create mode replaces the graph, so placeholders start from the origin
+		expect(
+			place({ type: "node", data: { id: "11", data: { label: "C" } } }, "create"),
+		).toEqual({ type: "node", data: { id: "11", position: { x: 0, y: 0 }, data: { label: "C" } } });
+	});
+
+	test("should restore edge styling", () => {
+		const line = hydrate(
+			{ type: "edges", data: [{ id: "e2-3", source: "2", target: "3", label: "Go" }] },
+			"update",
+		);
+
+		expect(line).toEqual({
+			type: "edges",
+			data: [
+				{
+					id: "e2-3",
+					source: "2",
+					target: "3",
+					label: "Go",
+					type: "bezier",
+					labelStyle: { fill: "#22c55e" },
+					markerEnd: { type: "arrowclosed" },
+				},
+			],
+		});
+	});
+
+	test("should not carry old nodes and edges into a new map", () => {
+		// The old node "3" is a diamond - a new step reusing its ID is not
+		const validator = createStreamValidator(["1", "2", "3"], graph.edges, hydrate);
+		validator.validate('{"type":"mode","data":"create"}');
+		const { message, errors } = validator.validate(
+			'{"type":"node","data":{"id":"3","data":{"label":"Review Invoice"}}}',
+		);
+
+		expect(errors).toEqual([]);
+		expect(message).toEqual({
+			type: "node",
+			data: { id: "3", position: { x: 0, y: 0 }, data: { label: "Review Invoice" } },
+		});
+		expect(
+			hydrate({ type: "edges", data: [{ id: "e2-3", source: "2", target: "3" }] }, "create"),
+		).toEqual({ type: "edges", data: [{ id: "e2-3", source: "2", target: "3" }] });
+	});
+
+	test("should let positionless add_node lines pass validation", () => {
+		const validator = createStreamValidator(["1", "2", "3"], graph.edges, hydrate);
+		validator.validate('{"type":"mode","data":"update"}');
+		const { message, errors } = validator.validate(
+			'{"type":"add_node","data":{"id":"4","data":{"label":"Archive"}}}',
+		);
+
+		expect(errors).toEqual([]);
+		expect(message?.type).toBe("add_node");
+	});
+});
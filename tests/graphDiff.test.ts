@@ -0,0 +1,131 @@
+import { describe, test, expect } from "bun:test";
+import type { Edge, Node } from "@xyflow/react";
+import {
+	acceptChanges,
+	buildOverlay,
+	diffGraphs,
+	hasChanges,
+	summarizeDiff,
+} from "../src/utils/graphDiff";
+import type { GraphState } from "../src/utils/graphPatch";
+
+const base: GraphState = {
+	nodes: [
+		{ id: "1", position: { x: 0, y: 0 }, data: { label: "Start" } },
+		{ id: "2", position: { x: 0, y: 100 }, data: { label: "Process" } },
+		{ id: "3", position: { x: 0, y: 200 }, data: { label: "End" } },
+	] as Node[],
+	edges: [
+		{ id: "e1-2", source: "1", target: "2" },
+		{ id: "e2-3", source: "2", target: "3" },
+	] as Edge[],
+};
+
+// Node 2 recolored, node 3 removed, node 4 added and wired in
+const proposed: GraphState = {
+	nodes: [
+		base.nodes[0],
+		{ id: "2", position: { x: 0, y: 100 }, data: { label: "Process", color: "#ef4444" } },
+		{ id: "4", position: { x: 0, y: 200 }, data: { label: "Archive" } },
+	] as Node[],
+	edges: [base.edges[0], { id: "e2-4", source: "2", target: "4" }] as Edge[],
+};
+
+describe("Graph Diff: diffGraphs", () => {
+	test("should classify added, removed and modified elements", () => {
+		const diff = diffGraphs(base, proposed);
+
+		expect(Object.fromEntries(diff.nodes)).toEqual({
+			"2": "modified",
+			"4": "added",
+			"3": "removed",
+		});
+		expect(Object.fromEntries(diff.edges)).toEqual({
+			"e2-4": "added",
+			"e2-3": "removed",
+		});
+		expect(summarizeDiff(diff)).toEqual({ added: 1, removed: 1, modified: 1 });
+	});
+
+	test("should ignore selection state", () => {
+		const selected = {
+			...base,
+			nodes: base.nodes.map((n) => ({ ...n, selected: true })),
+		};
+
+		expect(diffGraphs(base, selected).nodes.size).toBe(0);
+	});
+
+	test("should tell whether a proposal changes anything", () => {
+		const repeated = { nodes: base.nodes.map((n) => ({ ...n })), edges: [...base.edges], lanes: [] };
+
+		expect(hasChanges(base, repeated)).toBe(false);
+		expect(hasChanges(base, proposed)).toBe(true);
+		expect(hasChanges(base, { ...repeated, lanes: [{ id: "ops", label: "Ops" }] })).toBe(true);
+	});
+});
+
+describe("Graph Diff: overlay", () => {
+	test("should keep removed elements visible with ghost classes", () => {
+		const overlay = buildOverlay(base, proposed, diffGraphs(base, proposed));
+
+		expect(overlay.nodes.map((n) => [n.id, n.className])).toEqual([
+			["1", undefined],
+			["2", "ghost-modified"],
+			["4", "ghost-added"],
+			["3", "ghost-removed"],
+		]);
+		expect(overlay.edges.map((e) => e.className)).toEqual([
+			undefined,
+			"ghost-added",
+			"ghost-removed",
+		]);
+	});
+});
+
+describe("Graph Diff: acceptChanges", () => {
+	test("should take the whole proposal without a selection", () => {
+		expect(acceptChanges(base, proposed)).toBe(proposed);
+	});
+
+	test("should only apply changes to the selected nodes", () => {
+		const result = acceptChanges(base, proposed, new Set(["2"]));
+
+		// Node 2 recolored; node 3 kept; node 4 not added
+		expect(result.nodes.map((n) => n.id)).toEqual(["1", "2", "3"]);
+		expect(result.nodes[1]?.data.color).toBe("#ef4444");
+		// e2-3 touches node 2 so its removal is taken; e2-4 has no target
+		expect(result.edges.map((e) => e.id)).toEqual(["e1-2"]);
+	});
+
+	test("should bring in edges of accepted new nodes", () => {
+		const result = acceptChanges(base, proposed, new Set(["4"]));
+
+		expect(result.nodes.map((n) => n.id)).toEqual(["1", "2", "3", "4"]);
+		expect(result.edges.map((e) => e.id)).toEqual(["e1-2", "e2-3", "e2-4"]);
+	});
+
+	test("should only take the new lanes the accepted nodes are in", () => {
+		const laned: GraphState = { ...base, lanes: [{ id: "sales", label: "Sales" }] };
+		const withLanes: GraphState = {
+			nodes: [
+				base.nodes[0],
+				{ ...base.nodes[1], data: { label: "Process", laneId: "ops" } },
+				{ ...base.nodes[2], data: { label: "End", laneId: "legal" } },
+			] as Node[],
+			edges: base.edges,
+			lanes: [
+				{ id: "sales", label: "Sales team" },
+				{ id: "ops", label: "Operations" },
+				{ id: "legal", label: "Legal" },
+			],
+		};
+
+		// Node 2 moves to Operations; renaming Sales and adding Legal are not taken
+		expect(acceptChanges(laned, withLanes, new Set(["2"])).lanes).toEqual([
+			{ id: "sales", label: "Sales" },
+			{ id: "ops", label: "Operations" },
+		]);
+		expect(acceptChanges(base, proposed, new Set(["2"])).lanes).toBeUndefined();
+	});
+});
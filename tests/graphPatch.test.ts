@@ -0,0 +1,174 @@
+import { describe, test, expect } from "bun:test";
+import type { Edge, Node } from "@xyflow/react";
+import { applyGraphOperation, type GraphState, streamBaseGraph } from "../src/utils/graphPatch";
+
+const graph: GraphState = {
+	nodes: [
+		{ id: "1", type: "oval", position: { x: 0, y: 0 }, data: { label: "Start" } },
+		{ id: "2", position: { x: 0, y: 100 }, data: { label: "Process", status: "normal" } },
+		{ id: "3", type: "oval", position: { x: 0, y: 200 }, data: { label: "End" } },
+	] as Node[],
+	edges: [
+		{ id: "e1-2", source: "1", target: "2", type: "straight" },
+		{ id: "e2-3", source: "2", target: "3", type: "straight", label: "done" },
+	] as Edge[],
+};
+
+describe("Graph Patch: node operations", () => {
+	test("update_node should merge data without touching other fields", () => {
+		const result = applyGraphOperation(graph, {
+			type: "update_node",
+			data: { id: "2", data: { color: "#ef4444" } },
+		});
+
+		expect(result.nodes[1]).toEqual({
+			id: "2",
+			position: { x: 0, y: 100 },
+			data: { label: "Process", status: "normal", color: "#ef4444" },
+		});
+		expect(result.edges).toBe(graph.edges);
+		// The input graph is not mutated
+		expect(graph.nodes[1]?.data.color).toBeUndefined();
+	});
+
+	test("update_node should change the node type when given", () => {
+		const result = applyGraphOperation(graph, {
+			type: "update_node",
+			data: { id: "2", type: "diamond", data: { outputCount: 2 } },
+		});
+
+		expect(result.nodes[1]?.type).toBe("diamond");
+		expect(result.nodes[1]?.data.outputCount).toBe(2);
+	});
+
+	test("move_node should only change the position", () => {
+		const result = applyGraphOperation(graph, {
+			type: "move_node",
+			data: { id: "3", position: { x: 50, y: 300 } },
+		});
+
+		expect(result.nodes[2]?.position).toEqual({ x: 50, y: 300 });
+		expect(result.nodes[2]?.data).toBe(graph.nodes[2]?.data);
+	});
+
+	test("add_node should append new nodes and replace existing IDs", () => {
+		const added = applyGraphOperation(graph, {
+			type: "add_node",
+			data: { id: "4", position: { x: 0, y: 300 }, data: { label: "Archive" } },
+		});
+		expect(added.nodes.map((n) => n.id)).toEqual(["1", "2", "3", "4"]);
+
+		const replaced = applyGraphOperation(graph, {
+			type: "add_node",
+			data: { id: "2", position: { x: 5, y: 5 }, data: { label: "Replaced" } },
+		});
+		expect(replaced.nodes.map((n) => n.id)).toEqual(["1", "2", "3"]);
+		expect(replaced.nodes[1]?.data.label).toBe("Replaced");
+	});
+
+	test("remove_node should drop the node and its edges", () => {
+		const result = applyGraphOperation(graph, { type: "remove_node", data: "2" });
+
+		expect(result.nodes.map((n) => n.id)).toEqual(["1", "3"]);
+		expect(result.edges).toEqual([]);
+	});
+});
+
+describe("Graph Patch: edge operations", () => {
+	test("add_edge should append and normalize the marker", () => {
+		const result = applyGraphOperation(graph, {
+			type: "add_edge",
+			data: { id: "e1-3", source: "1", target: "3", markerEnd: { type: "ArrowClosed" } },
+		});
+
+		expect(result.edges).toHaveLength(3);
+		expect(result.edges[2]?.markerEnd).toEqual({ type: "arrowclosed" });
+	});
+
+	test("update_edge should merge fields into the existing edge", () => {
+		const result = applyGraphOperation(graph, {
+			type: "update_edge",
+			data: { id: "e2-3", label: "Approved", animated: true },
+		});
+
+		expect(result.edges[1]).toEqual({
+			id: "e2-3",
+			source: "2",
+			target: "3",
+			type: "straight",
+			label: "Approved",
+			animated: true,
+		});
+	});
+
+	test("update_edge should merge data fields", () => {
+		const waited = applyGraphOperation(graph, {
+			type: "update_edge",
+			data: { id: "e2-3", data: { waitTime: { value: 1, unit: "days" } } },
+		});
+		const result = applyGraphOperation(waited, {
+			type: "update_edge",
+			data: { id: "e2-3", data: { note: "handoff" } },
+		});
+
+		expect(result.edges[1]?.data).toEqual({ waitTime: { value: 1, unit: "days" }, note: "handoff" });
+		expect(result.edges[1]?.label).toBe("done");
+	});
+
+	test("update_edge on an unknown edge should leave the graph unchanged", () => {
+		const result = applyGraphOperation(graph, {
+			type: "update_edge",
+			data: { id: "missing", label: "x" },
+		});
+
+		expect(result).toBe(graph);
+	});
+
+	test("remove_edge should only remove the given edge", () => {
+		const result = applyGraphOperation(graph, { type: "remove_edge", data: "e1-2" });
+
+		expect(result.edges.map((e) => e.id)).toEqual(["e2-3"]);
+		expect(result.nodes).toBe(graph.nodes);
+	});
+
+	test("edges should replace the whole edge list", () => {
+		const result = applyGraphOperation(graph, {
+			type: "edges",
+			data: [{ id: "e1-3", source: "1", target: "3" }],
+		});
+
+		expect(result.edges).toEqual([{ id: "e1-3", source: "1", target: "3" }]);
+	});
+});
+
+describe("Graph Patch: lanes", () => {
+	test("lanes should replace the swimlanes and keep them through other operations", () => {
+		const withLanes = applyGraphOperation(graph, {
+			type: "lanes",
+			data: [{ id: "sales", label: "Sales" }],
+		});
+		const result = applyGraphOperation(withLanes, { type: "remove_node", data: "2" });
+
+		expect(result.lanes).toEqual([{ id: "sales", label: "Sales" }]);
+		expect(result.nodes.map((n) => n.id)).toEqual(["1", "3"]);
+	});
+});
+
+describe("Graph Patch: streamed responses", () => {
+	test("operations before a mode line should patch the current graph", () => {
+		const stream = [
+			{ type: "update_node" as const, data: { id: "2", data: { color: "#ef4444" } } },
+			{ type: "remove_edge" as const, data: "e2-3" },
+		];
+		const result = stream.reduce(applyGraphOperation, streamBaseGraph(graph));
+
+		expect(result.nodes.map((n) => n.id)).toEqual(["1", "2", "3"]);
+		expect(result.nodes[1]?.data.color).toBe("#ef4444");
+		expect(result.edges.map((e) => e.id)).toEqual(["e1-2"]);
+	});
+
+	test("only a create mode line should start from an empty graph", () => {
+		expect(streamBaseGraph(graph, "update")).toBe(graph);
+		expect(streamBaseGraph(graph, "create")).toEqual({ nodes: [], edges: [], lanes: [] });
+	});
+});
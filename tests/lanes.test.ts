@@ -0,0 +1,157 @@
+import { describe, test, expect } from "bun:test";
+import type { Edge, Node } from "@xyflow/react";
+import { getLayoutedElements } from "../src/utils/autoLayout";
+import {
+	buildLaneNodes,
+	laneBands,
+	moveStepsWithLanes,
+	reorderLanes,
+	snapToLane,
+} from "../src/utils/lanes";
+import type { ProcessLane } from "../src/types/process";
+
+const lanes: ProcessLane[] = [
+	{ id: "sales", label: "Sales" },
+	{ id: "ops", label: "Operations", size: 300 },
+	{ id: "finance", label: "Finance" },
+];
+
+function step(id: string, x: number, y: number, laneId?: string): Node {
+	return {
+		id,
+		position: { x, y },
+		data: laneId ? { label: id, laneId } : { label: id },
+	};
+}
+
+describe("Swimlanes: bands", () => {
+	test("should stack lanes in order using their size", () => {
+		expect(laneBands(lanes).map(({ start, end }) => [start, end])).toEqual([
+			[0, 200],
+			[200, 500],
+			[500, 700],
+		]);
+	});
+
+	test("should build one background node per lane spanning every step", () => {
+		const laneNodes = buildLaneNodes(lanes, [step("a", 100, 50), step("b", 900, 420)], true);
+
+		expect(laneNodes.map((n) => n.id)).toEqual(["lane:sales", "lane:ops", "lane:finance"]);
+		// Rows start before the first step (padding + header) and end after the last one
+		expect(laneNodes[1]).toMatchObject({
+			type: "lane",
+			position: { x: 0, y: 200 },
+			width: 1110,
+			height: 300,
+			selectable: false,
+			data: { label: "Operations", laneId: "ops", horizontal: true },
+		});
+		expect(buildLaneNodes([], [step("a", 0, 0)], true)).toEqual([]);
+	});
+});
+
+describe("Swimlanes: editing", () => {
+	test("should assign a dropped step to the lane under its center", () => {
+		const snapped = snapToLane(step("a", 40, 230), lanes, true);
+
+		expect(snapped.data.laneId).toBe("ops");
+		expect(snapped.position).toEqual({ x: 40, y: 230 });
+	});
+
+	test("should pull a step that overhangs its lane back inside", () => {
+		// Center at 190 is still in Sales, but the bottom edge crosses into Operations
+		const snapped = snapToLane(step("a", 40, 165, "ops"), lanes, true);
+
+		expect(snapped.data.laneId).toBe("sales");
+		expect(snapped.position.y).toBe(140);
+	});
+
+	test("should drop the lane of a step moved outside every lane", () => {
+		const snapped = snapToLane(step("a", 40, 900, "sales"), lanes, true);
+
+		expect(snapped.data).toEqual({ label: "a" });
+	});
+
+	test("should reorder a lane to where its header was dropped", () => {
+		// Sales (200 high) dropped so its center lands inside Finance's band
+		expect(reorderLanes(lanes, "sales", 480).map((l) => l.id)).toEqual([
+			"ops",
+			"finance",
+			"sales",
+		]);
+		expect(reorderLanes(lanes, "finance", -50).map((l) => l.id)).toEqual([
+			"finance",
+			"sales",
+			"ops",
+		]);
+	});
+
+	test("should move steps along with their reordered lane", () => {
+		const reordered = reorderLanes(lanes, "sales", 480);
+		const moved = moveStepsWithLanes(
+			[step("a", 0, 75, "sales"), step("b", 0, 300, "ops"), step("c", 0, 900)],
+			lanes,
+			reordered,
+			true,
+		);
+
+		expect(moved.map((n) => n.position.y)).toEqual([575, 100, 900]);
+	});
+});
+
+describe("Swimlanes: layout", () => {
+	const nodes: Node[] = [
+		{ id: "1", type: "oval", position: { x: 0, y: 0 }, data: { label: "Start", laneId: "sales" } },
+		{ id: "2", type: "diamond", position: { x: 0, y: 0 }, data: { label: "Valid?", outputCount: 2, laneId: "sales" } },
+		{ id: "3", position: { x: 0, y: 0 }, data: { label: "Fix", laneId: "ops" } },
+		{ id: "4", position: { x: 0, y: 0 }, data: { label: "Invoice", laneId: "finance" } },
+		{ id: "5", position: { x: 0, y: 0 }, data: { label: "Archive", laneId: "ops" } },
+	];
+	const edges: Edge[] = [
+		{ id: "e1-2", source: "1", target: "2" },
+		{ id: "e2-3", source: "2", target: "3", sourceHandle: "left" },
+		{ id: "e2-4", source: "2", target: "4", sourceHandle: "right" },
+		{ id: "e4-5", source: "4", target: "5" },
+	];
+	const simpleLanes = lanes.map(({ id, label }) => ({ id, label }));
+
+	test("should center each step inside its lane across the flow", async () => {
+		const layouted = await getLayoutedElements(nodes, edges, "LR", undefined, simpleLanes);
+		const centerY = (id: string) => {
+			const node = layouted.nodes.find((n) => n.id === id) as Node;
+			const height = node.type === "oval" ? 45 : node.type === "diamond" ? 160 : 50;
+			return node.position.y + height / 2;
+		};
+
+		expect(centerY("1")).toBe(100);
+		expect(centerY("2")).toBe(100);
+		expect(centerY("3")).toBe(300);
+		expect(centerY("4")).toBe(500);
+		expect(centerY("5")).toBe(300);
+		expect(layouted.lanes?.map((l) => l.size)).toEqual([200, 200, 200]);
+	});
+
+	test("should keep the flow's levels along the main axis", async () => {
+		const plain = await getLayoutedElements(nodes, edges, "LR");
+		const laned = await getLayoutedElements(nodes, edges, "LR", undefined, simpleLanes);
+
+		expect(laned.nodes.map((n) => n.position.x)).toEqual(plain.nodes.map((n) => n.position.x));
+	});
+
+	test("should widen a lane that holds several steps of one level", async () => {
+		const parallel = nodes.map((n) => (n.id === "4" ? { ...n, data: { ...n.data, laneId: "ops" } } : n));
+		const layouted = await getLayoutedElements(parallel, edges, "TB", undefined, simpleLanes);
+		const byId = new Map(layouted.nodes.map((n) => [n.id, n]));
+
+		expect(layouted.lanes?.map((l) => l.size)).toEqual([200, 400, 200]);
+		// Two Operations steps side by side in the 200-600 column, the left branch first
+		expect(byId.get("3")?.position.x).toBe(225);
+		expect(byId.get("4")?.position.x).toBe(425);
+	});
+
+	test("should leave lanes alone when there are none", async () => {
+		const layouted = await getLayoutedElements(nodes, edges, "TB");
+
+		expect(layouted.lanes).toBeUndefined();
+	});
+});
@@ -1,6 +1,11 @@
 import { describe, test, expect } from "bun:test";
 import { TEST_NODES, TEST_EDGES } from "../src/utils/testData";
-import { getLayoutedElements } from "../src/utils/autoLayout";
+import { Position } from "@xyflow/react";
+import {
+	detectLayoutDirection,
+	getLayoutedElements,
+	rotateHandle,
+} from "../src/utils/autoLayout";
 
 /**
  * Layout verification tests
@@ -192,3 +197,60 @@ describe("Layout Math Verification", () => {
 		expect(allCorrect).toBe(true);
 	});
 });
+
+describe("Left-to-right layout", () => {
+	const mainFlowIds = ["1", "2", "3", "4", "5", "6", "7"];
+	const mainNodes = TEST_NODES.filter((n) => mainFlowIds.includes(n.id));
+	const mainEdges = TEST_EDGES.filter(
+		(e) => mainFlowIds.includes(e.source) && mainFlowIds.includes(e.target),
+	);
+
+	test("should run the spine along X and spread branches vertically", async () => {
+		const { nodes } = await getLayoutedElements(mainNodes, mainEdges, "LR");
+		const byId = new Map(nodes.map((n) => [n.id, n]));
+
+		// Levels advance by node width + gap: 160 (oval) + 60, 150 (rect) + 60, 160 (diamond) + 60
+		expect(byId.get("1")?.position.x).toBe(0);
+		expect(byId.get("2")?.position.x).toBe(220);
+		expect(byId.get("3")?.position.x).toBe(430);
+		expect(byId.get("4")?.position.x).toBe(650);
+		expect(byId.get("5")?.position.x).toBe(650);
+
+		// Visual centers on the cross axis: spine at 300, branches at 300 ± 200
+		const centerY = (id: string) => {
+			const node = byId.get(id);
+			return (node?.position.y ?? 0) + (NODE_HEIGHTS[node?.type || "default"] ?? 0) / 2;
+		};
+		expect(centerY("1")).toBe(300);
+		expect(centerY("3")).toBe(300);
+		expect(centerY("4")).toBe(100);
+		expect(centerY("5")).toBe(500);
+		expect(centerY("7")).toBe(500);
+	});
+
+	test("should stamp handle positions on the nodes", async () => {
+		const { nodes } = await getLayoutedElements(mainNodes, mainEdges, "LR");
+
+		expect(nodes.every((n) => n.sourcePosition === Position.Right)).toBe(true);
+		expect(nodes.every((n) => n.targetPosition === Position.Left)).toBe(true);
+		expect(detectLayoutDirection(nodes)).toBe("LR");
+		expect(detectLayoutDirection(mainNodes)).toBe("TB");
+	});
+
+	test("should lay an LR map back out top-to-bottom", async () => {
+		const { nodes: lr } = await getLayoutedElements(mainNodes, mainEdges, "LR");
+		const { nodes: tb } = await getLayoutedElements(mainNodes, mainEdges, "TB");
+		const { nodes: roundTrip } = await getLayoutedElements(lr, mainEdges, "TB");
+
+		// The e4-2 loop-back is still recognised from the LR positions
+		expect(roundTrip.map((n) => n.position)).toEqual(tb.map((n) => n.position));
+	});
+
+	test("should mirror handles across the diagonal", () => {
+		expect(rotateHandle(Position.Top, true)).toBe(Position.Left);
+		expect(rotateHandle(Position.Bottom, true)).toBe(Position.Right);
+		expect(rotateHandle(Position.Left, true)).toBe(Position.Top);
+		expect(rotateHandle(Position.Right, true)).toBe(Position.Bottom);
+		expect(rotateHandle(Position.Left, false)).toBe(Position.Left);
+	});
+});
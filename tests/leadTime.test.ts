@@ -0,0 +1,86 @@
+import { describe, test, expect } from "bun:test";
+import { analyzeLeadTime, findLoopBacks, hasTimings, pathLeadHours } from "../src/utils/leadTime";
+import { enumeratePaths } from "../src/utils/paths";
+import { edge, hours, node } from "./fixtures";
+
+// Start -> A (2h) -> OK? -70%-> B (1h) -> End
+//                        \-30%-> C (10h) -> End
+const branching = {
+	nodes: [
+		node("start", "oval"),
+		node("A", undefined, { cycleTime: hours(2) }),
+		node("ok", "diamond"),
+		node("B", undefined, { cycleTime: hours(1) }),
+		node("C", undefined, { cycleTime: hours(10) }),
+		node("end", "oval"),
+	],
+	edges: [
+		edge("start", "A"),
+		edge("A", "ok", { data: { waitTime: hours(4) } }),
+		edge("ok", "B", { data: { probability: 0.7 } }),
+		edge("ok", "C"),
+		edge("B", "end"),
+		edge("C", "end"),
+	],
+};
+
+describe("Lead time", () => {
+	test("should time every path and weight the expected lead time by branch probability", () => {
+		const result = analyzeLeadTime(branching);
+		expect(result.paths.map((p) => [p.path.nodeIds.join(" "), p.hours, p.probability])).toEqual([
+			["start A ok B end", 7, 0.7],
+			["start A ok C end", 16, expect.closeTo(0.3, 10)],
+		]);
+		expect(result.expectedHours).toBeCloseTo(9.7, 10);
+		expect(result.critical?.hours).toBe(16);
+		expect(result.shortest?.hours).toBe(7);
+		expect(result.untimedSteps).toEqual([]);
+		expect(hasTimings(branching)).toBe(true);
+	});
+
+	test("should count loop bodies at their expected iterations", () => {
+		// Start -> Review (3h) -> Complete? -> End, No -> Fix (1h) -(loop, 2 iterations, wait 1h)-> Review
+		const graph = {
+			nodes: [
+				node("start", "oval"),
+				node("review", undefined, { cycleTime: hours(3) }),
+				node("ok", "diamond"),
+				node("fix", undefined, { cycleTime: hours(1) }),
+				node("end", "oval"),
+			],
+			edges: [
+				edge("start", "review"),
+				edge("review", "ok"),
+				edge("ok", "end"),
+				edge("ok", "fix"),
+				edge("fix", "review", { data: { iterations: 2, waitTime: hours(1) }, type: "selfConnecting" }),
+			],
+		};
+		expect([...findLoopBacks(graph)]).toEqual(["efix-review"]);
+
+		const { paths, expectedHours } = analyzeLeadTime(graph);
+		// Review once (3h), then 2 more passes of Review, Fix and the 1h wait (10h)
+		expect(paths.map((p) => [p.path.nodeIds.join(" "), p.hours])).toEqual([["start review ok end", 13]]);
+		expect(expectedHours).toBe(13);
+	});
+
+	test("should find loops closed by plain edges and list untimed steps", () => {
+		const graph = {
+			nodes: [node("start", "oval"), node("a"), node("b", undefined, { cycleTime: hours(1) }), node("end", "oval")],
+			edges: [edge("start", "a"), edge("a", "b"), edge("b", "a"), edge("b", "end")],
+		};
+		expect([...findLoopBacks(graph)]).toEqual(["eb-a"]);
+		const result = analyzeLeadTime(graph);
+		expect(result.expectedHours).toBe(2); // b runs twice with the default of 1 iteration
+
+		// Without the exit the loop never ends
+		const endless = { nodes: graph.nodes.slice(0, 3), edges: graph.edges.slice(0, 3) };
+		expect(analyzeLeadTime(endless).expectedHours).toBeNull();
+		expect(result.untimedSteps).toEqual(["a"]);
+	});
+
+	test("should add up a listed path literally", () => {
+		const [path] = enumeratePaths(branching).paths;
+		expect(pathLeadHours(path!, branching)).toBe(7);
+	});
+});
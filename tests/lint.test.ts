@@ -0,0 +1,143 @@
+import { describe, test, expect } from "bun:test";
+import type { ProcessEdge, ProcessGraph } from "../src/types/process";
+import { applyLintFixes, LINT_RULE_SETS, lintGraph } from "../src/utils/lint";
+import { TEST_EDGES, TEST_NODES } from "../src/utils/testData";
+import { edge, node } from "./fixtures";
+
+// Edge drawn in a color, arrowhead included
+const colored = (stroke: string) =>
+	({ style: { stroke }, markerEnd: { type: "arrowclosed", color: stroke } }) as Partial<ProcessEdge>;
+
+const rulesOf = (graph: ProcessGraph, ruleIds?: string[]) =>
+	lintGraph(graph, ruleIds).map((i) => `${i.ruleId}:${i.edgeId ?? i.nodeId}`);
+
+describe("Process lint: rules", () => {
+	test("should pass a map that follows the standards", () => {
+		const graph: ProcessGraph = {
+			nodes: [
+				node("1", "oval", { label: "Start" }),
+				node("2", undefined, { label: "Review Application" }),
+				node("3", "diamond", { label: "Credit OK?", outputCount: 2 }),
+				node("4", undefined, { label: "Reject Request" }),
+				node("5", undefined, { label: "Approve Request" }),
+				node("6", "oval", { label: "End" }),
+			],
+			edges: [
+				edge("1", "2"),
+				edge("2", "3"),
+				edge("3", "4", { label: "No", ...colored("#ef4444") }),
+				edge("3", "5", { label: "Yes", ...colored("#22c55e") }),
+				edge("4", "6"),
+				edge("5", "6"),
+			],
+		};
+		expect(lintGraph(graph)).toEqual([]);
+	});
+
+	test("should flag labels without an action verb or outside 2-5 words", () => {
+		const graph: ProcessGraph = {
+			nodes: [
+				node("1", undefined, { label: "Application Review" }),
+				node("2", undefined, { label: "Prioritize Tickets" }), // -ize verbs count
+				node("3", undefined, { label: "Ship" }),
+				node("4", undefined, { label: "Send the signed contract back to the customer" }),
+				node("5", "oval", { label: "Done" }),
+			],
+			edges: [],
+		};
+		expect(rulesOf(graph, ["label-action-verb", "label-length"])).toEqual([
+			"label-action-verb:1",
+			"label-length:3",
+			"label-length:4",
+		]);
+	});
+
+	test("should flag diamonds without outputCount and ovals mid-flow", () => {
+		const graph: ProcessGraph = {
+			nodes: [
+				node("1", undefined, { label: "Submit Form" }),
+				node("2", "diamond", { label: "Valid?" }),
+				node("3", "oval", { label: "Wait" }),
+				node("4", "oval", { label: "End" }),
+			],
+			edges: [edge("1", "2"), edge("2", "3"), edge("2", "4"), edge("3", "4")],
+		};
+		const issues = lintGraph(graph);
+		expect(issues.map((i) => `${i.severity}:${i.ruleId}:${i.nodeId}`)).toEqual([
+			"error:diamond-output-count:2",
+			"warning:unreachable:1", // A step without incoming edges isn't a start
+			"warning:oval-terminators:3",
+		]);
+	});
+
+	test("should flag miscolored Yes/No branches and rainbow 3-way branches", () => {
+		const graph: ProcessGraph = {
+			nodes: [
+				node("1", "diamond", { label: "Credit OK?", outputCount: 2 }),
+				node("2", undefined, { label: "Reject Request" }),
+				node("3", undefined, { label: "Approve Request" }),
+				node("4", "diamond", { label: "Priority?", outputCount: 3 }),
+			],
+			edges: [
+				edge("1", "2", { label: "No" }), // Gray
+				edge("1", "3", { label: "Yes", labelStyle: { fill: "#22c55e" } }), // Label color counts
+				edge("4", "1", { label: "Low", ...colored("#64748b") }),
+				edge("4", "2", { label: "Medium", ...colored("#eab308") }),
+				edge("4", "3", { label: "High", ...colored("#ef4444") }),
+			],
+		};
+		expect(rulesOf(graph, ["decision-edge-colors", "no-rainbow-branches"])).toEqual([
+			"decision-edge-colors:e1-2",
+			"no-rainbow-branches:4",
+		]);
+	});
+
+	test("should only run the rules of the chosen rule set", () => {
+		const graph: ProcessGraph = { nodes: [node("1", undefined, { label: "Notification" }), node("2", "diamond", { label: "Route?" })], edges: [] };
+		expect(lintGraph(graph, LINT_RULE_SETS.structure.rules).map((i) => i.ruleId)).toEqual([
+			"diamond-output-count",
+			"orphan",
+			"orphan",
+		]);
+	});
+
+	test("should only flag the noun-phrase branch labels in the test map", () => {
+		const graph = { nodes: TEST_NODES, edges: TEST_EDGES } as ProcessGraph;
+		const issues = lintGraph(graph, LINT_RULE_SETS.standards.rules.filter((id) => id.startsWith("label-")));
+		expect(new Set(issues.map((i) => i.ruleId))).toEqual(new Set(["label-action-verb"]));
+		expect(issues.map((i) => i.nodeId)).toContain("9"); // "Low Priority"
+		expect(issues.some((i) => Number(i.nodeId) <= 7)).toBe(false); // Main flow follows the standards
+	});
+});
+
+describe("Process lint: quick fixes", () => {
+	test("should apply every mechanical fix and leave the rest", () => {
+		const graph: ProcessGraph = {
+			nodes: [
+				node("1", "oval", { label: "Start" }),
+				node("2", "diamond", { label: "Valid?" }),
+				node("3", "oval", { label: "Review" }),
+				node("4", undefined, { label: "Fix Errors" }),
+				node("5", "oval", { label: "End" }),
+			],
+			edges: [
+				edge("1", "2"),
+				edge("2", "3", { label: "Yes", ...colored("#ef4444") }),
+				edge("2", "4", { label: "No", ...colored("#ef4444") }),
+				edge("3", "5"),
+				edge("4", "2"),
+			],
+		};
+		const issues = lintGraph(graph);
+		const fixed = applyLintFixes(graph, issues);
+
+		expect(fixed.nodes.find((n) => n.id === "2")?.data.outputCount).toBe(2);
+		expect(fixed.nodes.find((n) => n.id === "3")?.type).toBe("default");
+		const yes = fixed.edges.find((e) => e.id === "e2-3");
+		expect(yes?.style?.stroke).toBe("#22c55e");
+		expect(yes?.markerEnd).toEqual({ type: "arrowclosed", color: "#22c55e" });
+		expect(yes?.labelStyle).toEqual({ fontWeight: 600, fill: "#22c55e" });
+		// "Review" is a one-word step once it's no longer an oval - not mechanical
+		expect(lintGraph(fixed).map((i) => i.ruleId)).toEqual(["label-length"]);
+	});
+});
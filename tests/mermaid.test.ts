@@ -0,0 +1,105 @@
+import { describe, test, expect } from "bun:test";
+import { Position } from "@xyflow/react";
+import type { ProcessGraph } from "../src/types/process";
+import { exportMermaid, importMermaid } from "../src/utils/mermaid";
+
+const graph: ProcessGraph = {
+	nodes: [
+		{ id: "1", type: "oval", position: { x: 0, y: 0 }, data: { label: "Start" } },
+		{ id: "2", position: { x: 0, y: 100 }, data: { label: "Check (stock)", status: "bottleneck" } },
+		{ id: "3", type: "diamond", position: { x: 0, y: 200 }, data: { label: "In stock?", outputCount: 2 } },
+		{ id: "4", type: "subprocess", position: { x: 0, y: 400 }, data: { label: "Ship", color: "#dbeafe" } },
+		{ id: "end", type: "oval", position: { x: 0, y: 500 }, data: { label: "End" } },
+	],
+	edges: [
+		{ id: "e1-2", source: "1", target: "2" },
+		{ id: "e2-3", source: "2", target: "3" },
+		{ id: "e3-4", source: "3", target: "4", label: "Yes", sourceHandle: "right" },
+		{ id: "e3-2", source: "3", target: "2", label: "No", sourceHandle: "left" },
+		{ id: "e4-end", source: "4", target: "end" },
+	],
+};
+
+describe("Mermaid export", () => {
+	const mermaid = exportMermaid(graph);
+
+	test("should write node shapes and quote labels with syntax characters", () => {
+		expect(mermaid).toStartWith("flowchart TD\n");
+		expect(mermaid).toContain("    1([Start])\n");
+		expect(mermaid).toContain('    2["Check (stock)"]\n');
+		expect(mermaid).toContain("    3{In stock?}\n");
+		expect(mermaid).toContain("    4[[Ship]]\n");
+	});
+
+	test("should write labeled edges and avoid reserved IDs", () => {
+		expect(mermaid).toContain("    3 -->|Yes| 4\n");
+		expect(mermaid).toContain("    4 --> n_end\n");
+		expect(mermaid).toContain("    n_end([End])\n");
+	});
+
+	test("should write statuses as classes and colors as styles", () => {
+		expect(mermaid).toContain("    classDef bottleneck fill:#fef2f2,stroke:#ef4444\n");
+		expect(mermaid).toContain("    class 2 bottleneck\n");
+		expect(mermaid).toContain("    style 4 fill:#dbeafe\n");
+	});
+
+	test("should follow a left-to-right layout", () => {
+		const horizontal = graph.nodes.map((n) => ({ ...n, targetPosition: Position.Left }));
+		expect(exportMermaid({ ...graph, nodes: horizontal })).toStartWith("flowchart LR\n");
+	});
+});
+
+describe("Mermaid import", () => {
+	test("should round-trip an exported map", async () => {
+		const { graph: imported } = await importMermaid(exportMermaid(graph));
+
+		expect(imported.nodes.map((n) => [n.type, n.data.label])).toEqual([
+			["oval", "Start"],
+			["default", "Check (stock)"],
+			["diamond", "In stock?"],
+			["subprocess", "Ship"],
+			["oval", "End"],
+		]);
+		expect(imported.nodes[1]?.data.status).toBe("bottleneck");
+		expect(imported.nodes[3]?.data.color).toBe("#dbeafe");
+		expect(imported.edges.filter((e) => e.source === "3").map((e) => [e.label, e.sourceHandle])).toEqual([
+			["No", "left"],
+			["Yes", "right"],
+		]);
+	});
+
+	test("should read chains, & groups, inline classes and -- label --> links", async () => {
+		const { name, graph: imported, unsupported } = await importMermaid(
+			[
+				"```mermaid",
+				"---",
+				"title: Refunds",
+				"---",
+				"graph LR",
+				"  %% Refund handling",
+				"  A([Start]) --> B[Review]:::issue --> C{OK?}",
+				"  C -- No --> A; C -->|Yes| D[Pay] & E[Notify]",
+				"  click A callback",
+				"```",
+			].join("\n"),
+		);
+
+		expect(name).toBe("Refunds");
+		expect(imported.nodes.map((n) => n.id)).toEqual(["A", "B", "C", "D", "E"]);
+		expect(imported.nodes[1]?.data.status).toBe("issue");
+		expect(imported.nodes[2]?.data.outputCount).toBe(3);
+		expect(imported.edges.map((e) => e.id)).toEqual(["eA-B", "eB-C", "eC-A", "eC-D", "eC-E"]);
+		expect(imported.nodes[0]?.targetPosition).toBe(Position.Left);
+		expect(unsupported).toEqual(["click"]);
+	});
+
+	test("should label nodes that are only referenced by their ID", async () => {
+		const { graph: imported } = await importMermaid("flowchart TD\n  a --> b\n  b[Done]");
+
+		expect(imported.nodes.map((n) => n.data.label)).toEqual(["a", "Done"]);
+	});
+
+	test("should reject text that isn't a flowchart", async () => {
+		await expect(importMermaid("sequenceDiagram\n  A->>B: hi")).rejects.toThrow("Not a Mermaid flowchart");
+	});
+});
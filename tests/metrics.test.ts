@@ -0,0 +1,59 @@
+import { describe, test, expect } from "bun:test";
+import type { Edge } from "@xyflow/react";
+import {
+	exceedsSla,
+	formatCost,
+	formatDuration,
+	parseCost,
+	parseDuration,
+	toHours,
+	withWaitLabels,
+} from "../src/utils/metrics";
+
+describe("Metrics: parsing", () => {
+	test("should read durations in common spellings", () => {
+		expect(parseDuration("2 days")).toEqual({ value: 2, unit: "days" });
+		expect(parseDuration("30 min")).toEqual({ value: 30, unit: "minutes" });
+		expect(parseDuration("1.5h")).toEqual({ value: 1.5, unit: "hours" });
+		expect(parseDuration(" 1 Week ")).toEqual({ value: 1, unit: "weeks" });
+		expect(parseDuration("a while")).toBeNull();
+		expect(parseDuration("2 fortnights")).toBeNull();
+	});
+
+	test("should read costs with symbols or currency codes", () => {
+		expect(parseCost("$150")).toEqual({ amount: 150, currency: "USD" });
+		expect(parseCost("1,200.50 eur")).toEqual({ amount: 1200.5, currency: "EUR" });
+		expect(parseCost("£20")).toEqual({ amount: 20, currency: "GBP" });
+		expect(parseCost("$20 EUR")).toBeNull();
+		expect(parseCost("cheap")).toBeNull();
+	});
+});
+
+describe("Metrics: display", () => {
+	test("should format durations and costs", () => {
+		expect(formatDuration({ value: 1, unit: "days" })).toBe("1 day");
+		expect(formatDuration({ value: 2.5, unit: "hours" })).toBe("2.5 hours");
+		expect(formatDuration({ value: 30, unit: "minutes" }, true)).toBe("30m");
+		expect(formatCost({ amount: 1500, currency: "USD" })).toBe("$1,500");
+		expect(formatCost({ amount: 5, currency: "XYZ1" })).toBe("5 XYZ1");
+	});
+
+	test("should compare cycle time to the SLA across units", () => {
+		expect(toHours({ value: 2, unit: "weeks" })).toBe(336);
+		expect(exceedsSla({ cycleTime: { value: 6, unit: "hours" }, sla: { value: 4, unit: "hours" } })).toBe(true);
+		expect(exceedsSla({ cycleTime: { value: 90, unit: "minutes" }, sla: { value: 1, unit: "days" } })).toBe(false);
+		expect(exceedsSla({ cycleTime: { value: 6, unit: "hours" } })).toBe(false);
+	});
+
+	test("should append wait times to edge labels", () => {
+		const edges: Edge[] = [
+			{ id: "a", source: "1", target: "2", label: "Yes", data: { waitTime: { value: 1, unit: "days" } } },
+			{ id: "b", source: "2", target: "3", data: { waitTime: { value: 4, unit: "hours" } } },
+			{ id: "c", source: "3", target: "4" },
+		];
+		const [yes, plain, untouched] = withWaitLabels(edges);
+		expect(yes?.label).toBe("Yes · wait 1d");
+		expect(plain?.label).toBe("Wait 4h");
+		expect(untouched).toBe(edges[2]);
+	});
+});
@@ -0,0 +1,94 @@
+import { describe, test, expect } from "bun:test";
+import type { ProcessGraph } from "../src/types/process";
+import { enumeratePaths, highlightPath, pathsToCsv, pathsToGherkin, pathTitle } from "../src/utils/paths";
+import { edge, node } from "./fixtures";
+
+// Start -> Review -> Complete? -Yes-> Approve -> End
+//                         \-No-> Request Docs -(loop back)-> Review
+const graph = {
+	nodes: [
+		node("1", "oval", { label: "Start" }),
+		node("2", undefined, { label: "Review Application" }),
+		node("3", "diamond", { label: "Complete?" }),
+		node("4", undefined, { label: "Request Documents" }),
+		node("5", undefined, { label: "Approve Application" }),
+		node("6", "oval", { label: "End" }),
+	],
+	edges: [
+		edge("1", "2"),
+		edge("2", "3"),
+		edge("3", "4", { label: "No" }),
+		edge("3", "5", { label: "Yes" }),
+		edge("4", "2", { label: "Resubmit", type: "selfConnecting" }),
+		edge("5", "6"),
+	],
+} as ProcessGraph;
+
+const labels = (path: { nodeIds: string[] }) => path.nodeIds.join(" ");
+
+describe("Path enumeration", () => {
+	test("should list every start-to-end path with the decisions taken", () => {
+		const { paths, truncated } = enumeratePaths(graph);
+		expect(truncated).toBe(false);
+		expect(paths.map(labels)).toEqual(["1 2 3 4 2 3 5 6", "1 2 3 5 6"]);
+		expect(paths[0]?.decisions.map((d) => d.branch)).toEqual(["No", "Yes"]);
+		expect(pathTitle(paths[1]!, graph)).toBe("Complete? Yes");
+	});
+
+	test("should bound loop-backs to the given number of passes", () => {
+		expect(enumeratePaths(graph, 0).paths.map(labels)).toEqual(["1 2 3 5 6"]);
+		expect(enumeratePaths(graph, 2).paths).toHaveLength(3);
+
+		// Edges back to a step already on the path count as loop-backs too
+		const plainLoop = { ...graph, edges: graph.edges.map((e) => ({ ...e, type: undefined })) };
+		expect(enumeratePaths(plainLoop, 1).paths).toHaveLength(2);
+	});
+
+	test("should stop at the path limit on exploding maps", () => {
+		// 10 two-way decisions in a row: 1024 paths
+		const nodes = [node("s", "oval", { label: "Start" }), ...Array.from({ length: 10 }, (_, i) => node(`d${i}`, "diamond", { label: `Q${i}?` }))];
+		const edges = nodes.slice(1).flatMap((n, i) => {
+			const prev = nodes[i]!.id;
+			return [{ ...edge(prev, n.id, { label: "Yes" }), id: `y${i}` }, { ...edge(prev, n.id, { label: "No" }), id: `n${i}` }];
+		});
+		const { paths, truncated } = enumeratePaths({ nodes, edges });
+		expect(truncated).toBe(true);
+		expect(paths).toHaveLength(200);
+	});
+
+	test("should pick out one path and dim the rest", () => {
+		const path = enumeratePaths(graph).paths[1]!;
+		const shown = highlightPath(graph, path);
+		expect(shown.nodes.filter((n) => n.style?.opacity).map((n) => n.id)).toEqual(["4"]);
+		expect(shown.edges.filter((e) => e.animated).map((e) => e.id)).toEqual(["e1-2", "e2-3", "e3-5", "e5-6"]);
+	});
+});
+
+describe("Path export", () => {
+	test("should write one CSV row per path", () => {
+		const { paths } = enumeratePaths(graph);
+		const csv = pathsToCsv(paths, graph).trim().split("\n");
+		expect(csv[0]).toBe("Path,Scenario,Steps,Decisions,Step count");
+		expect(csv[2]).toBe(
+			'Path 2,Complete? Yes,Start → Review Application → Complete? → Approve Application → End,Complete? = Yes,5',
+		);
+		expect(csv[1]).toStartWith('Path 1,"Complete? No, Complete? Yes",');
+	});
+
+	test("should write Gherkin scenarios with the answers at each decision", () => {
+		const { paths } = enumeratePaths(graph);
+		expect(pathsToGherkin([paths[1]!], graph, "Loan Approval")).toBe(
+			[
+				"Feature: Loan Approval",
+				"",
+				"  Scenario: Path 1 - Complete? Yes",
+				'    Given the process starts at "Start"',
+				'    When "Review Application" is done',
+				'    And "Complete?" is answered "Yes"',
+				'    And "Approve Application" is done',
+				'    Then the process ends at "End"',
+				"",
+			].join("\n"),
+		);
+	});
+});
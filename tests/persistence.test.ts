@@ -112,6 +112,35 @@ describe("Maps Persistence API", () => {
 			expect(updateData.map.nodeCount).toBe(2);
 		});
 
+		test("should store swimlanes with the map", async () => {
+			const lanes = [
+				{ id: "sales", label: "Sales" },
+				{ id: "ops", label: "Operations", size: 300 },
+			];
+			const createResponse = await fetch(`${API_URL}/api/maps`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					name: "Test Map - Lanes",
+					graph: {
+						nodes: [
+							{ id: "1", position: { x: 0, y: 0 }, data: { label: "Quote", laneId: "sales" } },
+						],
+						edges: [],
+						lanes,
+					},
+				}),
+			});
+			const createData = await createResponse.json();
+			createdMapIds.push(createData.map.id);
+
+			const response = await fetch(`${API_URL}/api/maps/${createData.map.id}`);
+			const data = await response.json();
+
+			expect(data.map.lanes).toEqual(lanes);
+			expect(data.map.nodes[0].data.laneId).toBe("sales");
+		});
+
 		test("should return 400 if name is missing", async () => {
 			const response = await fetch(`${API_URL}/api/maps`, {
 				method: "POST",
@@ -237,6 +266,151 @@ describe("Maps Persistence API", () => {
 	});
 });
 
+describe("Chat Transcript API", () => {
+	let mapId: string;
+
+	beforeAll(async () => {
+		const response = await fetch(`${API_URL}/api/maps`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({
+				name: "Test Map - Chat",
+				graph: {
+					nodes: [{ id: "1", position: { x: 0, y: 0 }, data: { label: "Start" } }],
+					edges: [],
+				},
+			}),
+		});
+		mapId = (await response.json()).map.id;
+	});
+
+	afterAll(async () => {
+		await fetch(`${API_URL}/api/maps/${mapId}`, { method: "DELETE" });
+	});
+
+	test("should append and return messages in order", async () => {
+		const messages = [
+			{ id: "m1", role: "user", content: "Make this red" },
+			{
+				id: "m2",
+				role: "assistant",
+				content: "I've updated the process map based on your description.",
+				operations: ["updated node 1 (color)"],
+			},
+		];
+		const appendResponse = await fetch(`${API_URL}/api/maps/${mapId}/messages`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ messages }),
+		});
+		expect(appendResponse.ok).toBe(true);
+
+		const response = await fetch(`${API_URL}/api/maps/${mapId}/messages`);
+		const data = await response.json();
+
+		expect(data.messages.map((m: { id: string }) => m.id)).toEqual(["m1", "m2"]);
+		expect(data.messages[0].operations).toBeUndefined();
+		expect(data.messages[1].operations).toEqual(["updated node 1 (color)"]);
+	});
+
+	test("should return 400 for malformed messages", async () => {
+		const response = await fetch(`${API_URL}/api/maps/${mapId}/messages`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ messages: [{ id: "m3", role: "system", content: "hi" }] }),
+		});
+
+		expect(response.status).toBe(400);
+	});
+
+	test("should return 404 for non-existent map", async () => {
+		const response = await fetch(`${API_URL}/api/maps/non_existent_id/messages`);
+		expect(response.status).toBe(404);
+	});
+});
+
+describe("Map Rendering API", () => {
+	let mapId: string;
+
+	beforeAll(async () => {
+		const response = await fetch(`${API_URL}/api/maps`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({
+				name: "Test Map - Render",
+				graph: {
+					nodes: [
+						{ id: "1", type: "oval", position: { x: 0, y: 0 }, data: { label: "Start" } },
+						{
+							id: "2",
+							position: { x: 0, y: 100 },
+							data: { label: "Pack <order>", status: "bottleneck" },
+						},
+					],
+					edges: [{ id: "e1-2", source: "1", target: "2", label: "Next" }],
+				},
+			}),
+		});
+		mapId = (await response.json()).map.id;
+	});
+
+	afterAll(async () => {
+		await fetch(`${API_URL}/api/maps/${mapId}`, { method: "DELETE" });
+	});
+
+	test("should render the map as SVG", async () => {
+		const response = await fetch(`${API_URL}/api/maps/${mapId}/render.svg?width=400`);
+		expect(response.ok).toBe(true);
+		expect(response.headers.get("content-type")).toStartWith("image/svg+xml");
+
+		const svg = await response.text();
+		expect(svg).toContain('width="400"');
+		expect(svg).toContain("Pack &lt;order&gt;");
+		expect(svg).toContain("Next");
+		expect(svg).toContain('stroke="#ef4444"');
+	});
+
+	test("should apply the theme and hide statuses", async () => {
+		const response = await fetch(
+			`${API_URL}/api/maps/${mapId}/render.svg?theme=dark&statuses=false`,
+		);
+		const svg = await response.text();
+		expect(svg).toContain('fill="#0a0a0a"');
+		expect(svg).not.toContain("#ef4444");
+	});
+
+	test("should render the map as PNG", async () => {
+		const response = await fetch(`${API_URL}/api/maps/${mapId}/render.png?width=300`);
+		expect(response.ok).toBe(true);
+		expect(response.headers.get("content-type")).toBe("image/png");
+
+		const png = new Uint8Array(await response.arrayBuffer());
+		expect([...png.subarray(1, 4)].map((c) => String.fromCharCode(c)).join("")).toBe("PNG");
+		expect(new DataView(png.buffer).getUint32(16)).toBe(300); // IHDR width
+	});
+
+	test("should return 400 for invalid query parameters", async () => {
+		const response = await fetch(`${API_URL}/api/maps/${mapId}/render.png?theme=sepia`);
+		expect(response.status).toBe(400);
+	});
+
+	test("should return 404 for non-existent map", async () => {
+		const response = await fetch(`${API_URL}/api/maps/non_existent_id/render.svg`);
+		expect(response.status).toBe(404);
+	});
+});
+
+describe("Simulation Worker", () => {
+	test("should serve the worker bundled for the browser", async () => {
+		const response = await fetch(`${API_URL}/workers/simulation.js`);
+		expect(response.status).toBe(200);
+		expect(response.headers.get("content-type")).toContain("text/javascript");
+		const code = await response.text();
+		expect(code).toContain("onmessage");
+		expect(code).not.toContain("import ");
+	});
+});
+
 describe("Maps Persistence - Edge Cases", () => {
 	test("should handle empty graph", async () => {
 		const response = await fetch(`${API_URL}/api/maps`, {
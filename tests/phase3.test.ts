@@ -1,35 +1,6 @@
 import { describe, test, expect } from "bun:test";
 import type { Node, Edge } from "@xyflow/react";
-
-/**
- * Merge updated nodes with existing nodes
- * Copy of the function from ChatInterface for testing
- */
-function mergeNodes(
-	existingNodes: Node[],
-	updatedNodes: Node[],
-	nodeIdsToRemove: Set<string>,
-): Node[] {
-	const updatedNodeMap = new Map(updatedNodes.map((n) => [n.id, n]));
-	const mergedNodes: Node[] = [];
-
-	for (const node of existingNodes) {
-		if (nodeIdsToRemove.has(node.id)) continue;
-		const updatedNode = updatedNodeMap.get(node.id);
-		if (updatedNode) {
-			mergedNodes.push(updatedNode);
-			updatedNodeMap.delete(node.id);
-		} else {
-			mergedNodes.push(node);
-		}
-	}
-
-	for (const node of updatedNodeMap.values()) {
-		mergedNodes.push(node);
-	}
-
-	return mergedNodes;
-}
+import { mergeNodes } from "../src/utils/graphPatch";
 
 describe("Phase 3: Fine-Grained Updates - mergeNodes", () => {
 	const existingNodes: Node[] = [
@@ -0,0 +1,197 @@
+import { describe, test, expect } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { compactGraph } from "../src/ai/graphContext";
+import { createProvider, resolveProviderConfig } from "../src/ai/providers";
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+	let text = "";
+	for await (const chunk of stream) text += chunk;
+	return text;
+}
+
+function parseLines(text: string) {
+	return text
+		.split("\n")
+		.filter((l) => l.trim())
+		.map((l) => JSON.parse(l));
+}
+
+describe("LLM Provider Configuration", () => {
+	test("should default to gemini with GOOGLE_API_KEY", () => {
+		const config = resolveProviderConfig({ GOOGLE_API_KEY: "g-key" });
+
+		expect(config.provider).toBe("gemini");
+		expect(config.model).toBe("gemini-flash-latest");
+		expect(config.apiKey).toBe("g-key");
+	});
+
+	test("should use provider-specific defaults and env overrides", () => {
+		const ollama = resolveProviderConfig({ LLM_PROVIDER: "ollama" });
+		expect(ollama.baseUrl).toBe("http://localhost:11434/v1");
+
+		const custom = resolveProviderConfig({
+			LLM_PROVIDER: "OpenAI",
+			LLM_MODEL: "local-model",
+			LLM_BASE_URL: "http://localhost:8080/v1/",
+			OPENAI_API_KEY: "o-key",
+		});
+		expect(custom.provider).toBe("openai");
+		expect(custom.model).toBe("local-model");
+		expect(custom.baseUrl).toBe("http://localhost:8080/v1");
+		expect(custom.apiKey).toBe("o-key");
+	});
+
+	test("should reject unknown providers", () => {
+		expect(() => resolveProviderConfig({ LLM_PROVIDER: "mystery" })).toThrow(
+			/Unknown LLM_PROVIDER/,
+		);
+	});
+
+	test("should report missing API keys as a config error", () => {
+		expect(createProvider(resolveProviderConfig({})).configError).toContain(
+			"GOOGLE_API_KEY",
+		);
+		expect(
+			createProvider(resolveProviderConfig({ LLM_PROVIDER: "anthropic" }))
+				.configError,
+		).toContain("ANTHROPIC_API_KEY");
+		// Local OpenAI-compatible servers don't need a key
+		expect(
+			createProvider(resolveProviderConfig({ LLM_PROVIDER: "ollama" }))
+				.configError,
+		).toBeNull();
+	});
+});
+
+describe("Fake Provider", () => {
+	const provider = createProvider(resolveProviderConfig({ LLM_PROVIDER: "fake" }));
+
+	test("should stream a create-mode process when there is no graph", async () => {
+		const text = await collect(
+			provider.streamChat({
+				system: "",
+				history: [],
+				message: "User Request: Create a simple process",
+			}),
+		);
+		const messages = parseLines(text);
+
+		expect(messages[0]).toEqual({ type: "mode", data: "create" });
+		expect(messages.filter((m) => m.type === "node").length).toBeGreaterThan(0);
+		expect(messages.at(-2)?.type).toBe("edges");
+		expect(messages.at(-1)?.type).toBe("message");
+	});
+
+	test("should patch selected nodes in update mode", async () => {
+		const graph = {
+			nodes: [
+				{ id: "1", position: { x: 0, y: 0 }, data: { label: "Start" } },
+				{ id: "2", position: { x: 0, y: 100 }, data: { label: "Process" } },
+			],
+			edges: [],
+		};
+		const message = [
+			"User Request: Make this node blue",
+			"",
+			"⭐ SELECTED NODES (user is referring to these): Process (IDs: 2)",
+			"",
+			`Current Graph Context: ${JSON.stringify(compactGraph(graph))}`,
+		].join("\n");
+
+		const messages = parseLines(
+			await collect(provider.streamChat({ system: "", history: [], message })),
+		);
+
+		expect(messages[0]).toEqual({ type: "mode", data: "update" });
+		expect(messages.length).toBe(3);
+		expect(messages[1].type).toBe("update_node");
+		expect(messages[1].data).toEqual({ id: "2", data: { color: "#3b82f6" } });
+		expect(messages[2].type).toBe("message");
+	});
+
+	test("should answer questions without touching the graph", async () => {
+		const graph = {
+			nodes: [{ id: "1", position: { x: 0, y: 0 }, data: { label: "Start" } }],
+			edges: [],
+		};
+		const message = `User Request: How many steps are there?\n\nCurrent Graph Context: ${JSON.stringify(compactGraph(graph))}`;
+		const messages = parseLines(
+			await collect(provider.streamChat({ system: "", history: [], message })),
+		);
+
+		expect(messages).toEqual([
+			{ type: "message", data: "This process has 1 steps: Start." },
+		]);
+	});
+
+	test("should stop streaming when the request is aborted", async () => {
+		const abort = new AbortController();
+		const chunks: string[] = [];
+		for await (const chunk of provider.streamChat({
+			system: "",
+			history: [],
+			message: "User Request: Create a simple process",
+			signal: abort.signal,
+		})) {
+			chunks.push(chunk);
+			abort.abort();
+		}
+
+		expect(chunks.length).toBe(1);
+	});
+
+	test("should replay a scripted response file", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "processxy-"));
+		const scriptPath = join(dir, "script.json");
+		writeFileSync(
+			scriptPath,
+			JSON.stringify([
+				{ match: "invoice", response: ['{"type":"mode","data":"create"}'] },
+				{ response: "fallback" },
+			]),
+		);
+		const scripted = createProvider(
+			resolveProviderConfig({ LLM_PROVIDER: "fake", LLM_FAKE_SCRIPT: scriptPath }),
+		);
+
+		const matched = await collect(
+			scripted.streamChat({ system: "", history: [], message: "Map INVOICE approval" }),
+		);
+		const fallback = await collect(
+			scripted.streamChat({ system: "", history: [], message: "anything else" }),
+		);
+
+		expect(matched).toBe('{"type":"mode","data":"create"}');
+		expect(fallback).toBe("fallback");
+	});
+});
+
+describe("Provider Requests", () => {
+	test("should pass the completion length cap to the API", async () => {
+		const bodies: Record<string, unknown>[] = [];
+		const server = Bun.serve({
+			port: 0,
+			async fetch(request) {
+				bodies.push(await request.json());
+				return Response.json({ content: [{ text: "Loan Approval" }] });
+			},
+		});
+		try {
+			const provider = createProvider(
+				resolveProviderConfig({
+					LLM_PROVIDER: "anthropic",
+					ANTHROPIC_API_KEY: "a-key",
+					LLM_BASE_URL: `http://localhost:${server.port}`,
+				}),
+			);
+
+			expect(await provider.complete("Name this map")).toBe("Loan Approval");
+			await provider.complete("Summarize", { maxTokens: 1024 });
+			expect(bodies.map((b) => b.max_tokens)).toEqual([64, 1024]);
+		} finally {
+			server.stop(true);
+		}
+	});
+});
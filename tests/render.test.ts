@@ -0,0 +1,90 @@
+import { describe, test, expect } from "bun:test";
+import { existsSync, readFileSync } from "node:fs";
+import { fontMeasure, rasterizeScene } from "../src/render/rasterize";
+import { encodePng } from "../src/render/renderMap";
+import { parseFont } from "../src/render/truetype";
+import type { Scene } from "../src/utils/exportScene";
+
+const FONT = "/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf";
+
+const pixel = (raster: { width: number; pixels: Uint8ClampedArray }, x: number, y: number) =>
+	[...raster.pixels.subarray((y * raster.width + x) * 4, (y * raster.width + x) * 4 + 4)];
+
+describe("Rasterizer", () => {
+	test("should fill shapes with anti-aliased edges", () => {
+		const scene: Scene = {
+			x: 0,
+			y: 0,
+			width: 20,
+			height: 20,
+			items: [{ kind: "rect", x: 4.5, y: 4, width: 10, height: 10, radius: 0, fill: "#ff0000" }],
+		};
+		const raster = rasterizeScene(scene);
+		expect(raster.width).toBe(20);
+		expect(pixel(raster, 8, 8)).toEqual([255, 0, 0, 255]);
+		expect(pixel(raster, 1, 1)).toEqual([0, 0, 0, 0]); // Transparent without a background
+		expect(pixel(raster, 4, 8)[3]).toBeCloseTo(128, -1); // Half-covered column
+	});
+
+	test("should stroke paths and blend over the background", () => {
+		const scene: Scene = {
+			x: 0,
+			y: 0,
+			width: 20,
+			height: 20,
+			background: "#ffffff",
+			items: [
+				{
+					kind: "path",
+					segments: [
+						{ op: "M", x: 2, y: 10 },
+						{ op: "L", x: 18, y: 10 },
+					],
+					stroke: "#000000",
+					strokeWidth: 2,
+				},
+			],
+		};
+		const raster = rasterizeScene(scene, { scale: 2 });
+		expect(raster.width).toBe(40);
+		expect(pixel(raster, 20, 19)).toEqual([0, 0, 0, 255]);
+		expect(pixel(raster, 20, 10)).toEqual([255, 255, 255, 255]);
+	});
+
+	test("should write a PNG with the raster's size", () => {
+		const png = encodePng({ width: 3, height: 2, pixels: new Uint8ClampedArray(24) });
+		const view = new DataView(png.buffer);
+		expect([...png.subarray(12, 16)].map((c) => String.fromCharCode(c)).join("")).toBe("IHDR");
+		expect(view.getUint32(16)).toBe(3);
+		expect(view.getUint32(20)).toBe(2);
+	});
+});
+
+describe.skipIf(!existsSync(FONT))("TrueType fonts", () => {
+	const font = parseFont(new Uint8Array(readFileSync(FONT)));
+
+	test("should read advances and outlines, including composite glyphs", () => {
+		expect(font.glyph(" ").contours).toHaveLength(0);
+		expect(font.glyph("o").contours).toHaveLength(2); // Outer and inner ring
+		expect(font.glyph("é").contours.length).toBeGreaterThan(1); // "e" plus the accent
+		expect(font.glyph("W").advance).toBeGreaterThan(font.glyph("i").advance);
+	});
+
+	test("should draw text and measure it with the font's metrics", () => {
+		const fonts = { regular: font, bold: font };
+		const measure = fontMeasure(fonts);
+		expect(measure("Hello", 20)).toBeCloseTo(measure("Hello", 10) * 2);
+
+		const scene: Scene = {
+			x: 0,
+			y: 0,
+			width: 60,
+			height: 30,
+			items: [{ kind: "text", x: 30, y: 20, text: "Hi", size: 16, color: "#000000", anchor: "middle" }],
+		};
+		const inked = (raster: { pixels: Uint8ClampedArray }) =>
+			raster.pixels.filter((alpha, i) => i % 4 === 3 && alpha > 0).length;
+		expect(inked(rasterizeScene(scene, { fonts }))).toBeGreaterThan(20);
+		expect(inked(rasterizeScene(scene))).toBe(0); // No fonts, no text
+	});
+});
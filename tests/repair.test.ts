@@ -0,0 +1,263 @@
+import { describe, test, expect } from "bun:test";
+import { compactGraph, DEFAULT_FOCUS_THRESHOLD } from "../src/ai/graphContext";
+import { buildRepairPrompt, runMapStream } from "../src/ai/mapStream";
+import type { ChatRequest, LLMProvider } from "../src/ai/providers";
+import type { StreamEvent } from "../src/utils/streamProtocol";
+
+/**
+ * Provider that answers each successive request with the next canned reply
+ */
+function scriptedProvider(replies: string[][]) {
+	const requests: ChatRequest[] = [];
+	const provider: LLMProvider = {
+		name: "fake",
+		model: "test",
+		configError: null,
+		async *streamChat(request) {
+			requests.push(request);
+			yield (replies[requests.length - 1] ?? []).join("\n");
+		},
+		async complete() {
+			return "";
+		},
+	};
+	return { provider, requests };
+}
+
+const node = (id: string, extra = "") =>
+	`{"type":"node","data":{"id":"${id}","position":{"x":0,"y":0},"data":{"label":"Step ${id}"${extra}}}}`;
+
+async function run(replies: string[][], existing: string[] = [], maxRepairAttempts = 1) {
+	const { provider, requests } = scriptedProvider(replies);
+	const events: StreamEvent[] = [];
+	await runMapStream({
+		provider,
+		system: "system",
+		message: "User Request: build it",
+		existingNodeIds: existing,
+		existingEdges: [],
+		maxRepairAttempts,
+		send: (event) => events.push(event),
+	});
+	return { events, requests };
+}
+
+describe("Repair Round-Trip", () => {
+	test("should not repair valid output", async () => {
+		const { events, requests } = await run([
+			['{"type":"mode","data":"create"}', node("1"), node("2")],
+		]);
+
+		expect(requests.length).toBe(1);
+		expect(events.map((e) => e.type)).toEqual(["mode", "node", "node"]);
+	});
+
+	test("should re-request rejected lines and stream the fixes", async () => {
+		const { events, requests } = await run([
+			[
+				'{"type":"mode","data":"create"}',
+				node("1"),
+				'{"type":"node","data":{"id":"2","data":{"label":"No position"}}}',
+				'{"type":"edges","data":[{"id":"e1-2","source":"1","target":"2"}]}',
+			],
+			[node("2")],
+		]);
+
+		expect(requests.length).toBe(2);
+		// The repair request carries the original exchange and the rejection reasons
+		expect(requests[1]?.history.map((t) => t.role)).toEqual(["user", "assistant"]);
+		expect(requests[1]?.message).toContain("data.position");
+		expect(requests[1]?.message).toContain("e1-2: 1 -> 2");
+
+		const types = events.map((e) => e.type);
+		expect(types).toEqual([
+			"mode",
+			"node",
+			"error",
+			"edges",
+			"error",
+			"repair",
+			"node",
+			"edges",
+		]);
+		// The held-back edge is released once its target node exists
+		const finalEdges = events.at(-1);
+		expect(finalEdges?.type === "edges" && finalEdges.data.map((e) => e.id)).toEqual([
+			"e1-2",
+		]);
+	});
+
+	test("should merge repaired edges into the accepted set", async () => {
+		const { events } = await run([
+			[
+				'{"type":"mode","data":"create"}',
+				node("1"),
+				node("2"),
+				node("3"),
+				'{"type":"edges","data":[{"id":"e1-2","source":"1","target":"2"},{"id":"e2-3","source":"2","target":"33"}]}',
+			],
+			['{"type":"edges","data":[{"id":"e2-3","source":"2","target":"3"}]}'],
+		]);
+
+		const finalEdges = events.at(-1);
+		expect(finalEdges?.type === "edges" && finalEdges.data).toEqual([
+			{ id: "e1-2", source: "1", target: "2" },
+			{ id: "e2-3", source: "2", target: "3" },
+		]);
+	});
+
+	test("should stop after the configured number of attempts", async () => {
+		const broken = ['{"type":"node",'];
+		const { events, requests } = await run([broken, broken, broken, broken], [], 2);
+
+		expect(requests.length).toBe(3);
+		expect(events.filter((e) => e.type === "repair").length).toBe(2);
+		expect(events.at(-1)?.type).toBe("error");
+	});
+
+	test("should skip repair when disabled", async () => {
+		const { requests } = await run([['{"type":"node",']], [], 0);
+		expect(requests.length).toBe(1);
+	});
+
+	test("should report edges that are still dangling after repair", async () => {
+		const { events } = await run(
+			[
+				[
+					'{"type":"mode","data":"update"}',
+					'{"type":"edges","data":[{"id":"e1-9","source":"1","target":"9"}]}',
+				],
+				[],
+			],
+			["1"],
+		);
+
+		const last = events.at(-1);
+		expect(last?.type === "error" && last.code).toBe("unknown_reference");
+		expect(last?.type === "error" && last.issues).toEqual(["e1-9: 1 -> 9"]);
+	});
+
+	test("should release held-back add_edge operations as add_edge", async () => {
+		const { events } = await run(
+			[
+				[
+					'{"type":"mode","data":"update"}',
+					'{"type":"add_edge","data":{"id":"e1-2","source":"1","target":"2"}}',
+				],
+				[node("2").replace('"node"', '"add_node"')],
+			],
+			["1"],
+		);
+
+		expect(events.map((e) => e.type)).toEqual([
+			"mode",
+			"error",
+			"repair",
+			"add_node",
+			"add_edge",
+		]);
+	});
+
+	test("should not forward message lines from a repair", async () => {
+		const { events } = await run([
+			[
+				'{"type":"mode","data":"create"}',
+				'{"type":"node","data":{"id":"1","data":{"label":"No position"}}}',
+				'{"type":"message","data":"Here is your process."}',
+			],
+			[node("1"), '{"type":"message","data":"Fixed it."}'],
+		]);
+
+		const replies = events.flatMap((e) => (e.type === "message" ? [e.data] : []));
+		expect(replies).toEqual(["Here is your process."]);
+	});
+
+	test("should ignore mode switches inside a repair", async () => {
+		const { events } = await run(
+			[
+				[
+					'{"type":"mode","data":"update"}',
+					'{"type":"edges","data":[{"id":"e1-2","source":"1","target":"2"}]}',
+				],
+				['{"type":"mode","data":"create"}', node("2")],
+			],
+			["1"],
+		);
+
+		expect(events.filter((e) => e.type === "mode").length).toBe(1);
+		const finalEdges = events.at(-1);
+		expect(finalEdges?.type === "edges" && finalEdges.data.length).toBe(1);
+	});
+
+	test("should stop streaming and skip repair once aborted", async () => {
+		const abort = new AbortController();
+		const { provider, requests } = scriptedProvider([
+			['{"type":"mode","data":"create"}', node("1"), '{"type":"node","data":{}}'],
+			[node("2")],
+		]);
+		const events: StreamEvent[] = [];
+		await runMapStream({
+			provider,
+			system: "system",
+			message: "User Request: build it",
+			existingNodeIds: [],
+			existingEdges: [],
+			maxRepairAttempts: 1,
+			signal: abort.signal,
+			send: (event) => {
+				events.push(event);
+				if (event.type === "mode") abort.abort();
+			},
+		});
+
+		// The whole reply arrives as one chunk, so it is still parsed - but never repaired
+		expect(requests.length).toBe(1);
+		expect(requests[0]?.signal).toBe(abort.signal);
+		expect(events.some((e) => e.type === "repair")).toBe(false);
+	});
+
+	test("should describe dangling edges in the repair prompt", () => {
+		const prompt = buildRepairPrompt([], [{ id: "e5", source: "a", target: "b" }]);
+
+		expect(prompt).toStartWith("REPAIR REQUEST");
+		expect(prompt).toContain("- e5: a -> b");
+		expect(prompt).not.toContain("Rejected lines:");
+	});
+});
+
+describe("Focused Requests", () => {
+	test("should announce update mode when the model leaves the mode line out", async () => {
+		// Larger than the focus threshold, so the model only sees the selection's neighborhood
+		const ids = Array.from({ length: DEFAULT_FOCUS_THRESHOLD + 20 }, (_, i) => `${i + 1}`);
+		const context = compactGraph(
+			{
+				nodes: ids.map((id) => ({ id, position: { x: 0, y: 0 }, data: { label: `Step ${id}` } })),
+				edges: ids.slice(1).map((id, i) => ({ id: `e${ids[i]}-${id}`, source: ids[i]!, target: id })),
+			},
+			{ selectedNodeIds: ["60"] },
+		);
+		expect(context.focus).toBeDefined();
+
+		const { provider } = scriptedProvider([
+			[
+				'{"type":"update_node","data":{"id":"60","data":{"color":"#ef4444"}}}',
+				'{"type":"mode","data":"create"}',
+			],
+		]);
+		const events: StreamEvent[] = [];
+		await runMapStream({
+			provider,
+			system: "system",
+			message: "User Request: make it red",
+			existingNodeIds: ids,
+			existingEdges: [],
+			updateOnly: Boolean(context.focus),
+			send: (event) => events.push(event),
+		});
+
+		expect(events).toEqual([
+			{ type: "mode", data: "update" },
+			{ type: "update_node", data: { id: "60", data: { color: "#ef4444" } } },
+		]);
+	});
+});
@@ -0,0 +1,106 @@
+import { describe, test, expect } from "bun:test";
+import { createRandom, routingTable, sampleDuration, simulate } from "../src/utils/simulation";
+import { edge, hours, node } from "./fixtures";
+
+const options = { arrivalEvery: { value: 1, unit: "hours" as const }, cases: 300, runs: 10, seed: 7 };
+
+// Start -> A -> End, a case every hour on average
+const line = (cycleHours: number, capacity?: number) => ({
+	nodes: [node("start", "oval"), node("A", undefined, { cycleTime: hours(cycleHours), capacity }), node("end", "oval")],
+	edges: [edge("start", "A"), edge("A", "end")],
+});
+
+describe("Process simulation", () => {
+	test("should report utilization and flag overloaded steps as bottlenecks", () => {
+		const relaxed = simulate(line(0.5), options);
+		expect(relaxed.completed).toBe(300);
+		expect(relaxed.steps.A!.served).toBe(300);
+		expect(relaxed.steps.A!.utilization).toBeGreaterThan(0.4);
+		expect(relaxed.steps.A!.utilization).toBeLessThan(0.6);
+		expect(relaxed.bottlenecks).toEqual([]);
+		expect(relaxed.throughputPerDay).toBeGreaterThan(18);
+
+		const overloaded = simulate(line(2), options);
+		expect(overloaded.steps.A!.utilization).toBeGreaterThan(0.95);
+		expect(overloaded.steps.A!.avgQueue).toBeGreaterThan(10);
+		expect(overloaded.bottlenecks).toEqual(["A"]);
+		expect(overloaded.leadTime!.meanHours).toBeGreaterThan(relaxed.leadTime!.meanHours);
+
+		// Two people at the step take the load off
+		expect(simulate(line(2, 3), options).steps.A!.utilization).toBeLessThan(0.8);
+	});
+
+	test("should route decision branches by probability", () => {
+		const graph = {
+			nodes: [
+				node("start", "oval"),
+				node("ok", "diamond"),
+				node("B", undefined, { cycleTime: hours(0.1) }),
+				node("C", undefined, { cycleTime: hours(0.1) }),
+				node("end", "oval"),
+			],
+			edges: [
+				edge("start", "ok"),
+				edge("ok", "B", { data: { probability: 0.8 } }),
+				edge("ok", "C"),
+				edge("B", "end"),
+				edge("C", "end"),
+			],
+		};
+		const result = simulate(graph, { ...options, runs: 20 });
+		expect(Object.keys(result.steps)).toEqual(["B", "C"]);
+		expect(result.steps.B!.served / 300).toBeCloseTo(0.8, 1);
+		expect(result.steps.C!.served / 300).toBeCloseTo(0.2, 1);
+	});
+
+	test("should repeat loops at their expected iterations", () => {
+		// Start -> Review -> Complete? -> End, No -> Fix -(loop, 2 iterations)-> Review
+		const graph = {
+			nodes: [
+				node("start", "oval"),
+				node("review", undefined, { cycleTime: hours(0.1) }),
+				node("ok", "diamond"),
+				node("fix", undefined, { cycleTime: hours(0.1) }),
+				node("end", "oval"),
+			],
+			edges: [
+				edge("start", "review"),
+				edge("review", "ok"),
+				edge("ok", "end"),
+				edge("ok", "fix"),
+				edge("fix", "review", { data: { iterations: 2 }, type: "selfConnecting" }),
+			],
+		};
+		const routes = routingTable(graph);
+		expect(routes.get("ok")!.map((r) => [r.edge.id, r.p])).toEqual([
+			["eok-end", expect.closeTo(1 / 3, 10)],
+			["eok-fix", expect.closeTo(2 / 3, 10)],
+		]);
+
+		const result = simulate(graph, { ...options, runs: 20 });
+		expect(result.completed).toBe(300);
+		expect(result.steps.review!.served / 300).toBeCloseTo(3, 0);
+		expect(result.steps.fix!.served / 300).toBeCloseTo(2, 0);
+	});
+
+	test("should be repeatable for a seed and trace the first cases", () => {
+		const graph = line(0.5);
+		const first = simulate(graph, options);
+		expect(simulate(graph, options)).toEqual(first);
+		expect(simulate(graph, { ...options, seed: 8 }).leadTime).not.toEqual(first.leadTime);
+
+		expect(first.trace.moves.filter((m) => m.caseId === 0)).toEqual([
+			{ caseId: 0, edgeId: "estart-A", start: 0, end: 0 },
+			{ caseId: 0, edgeId: "eA-end", start: 0.5, end: 0.5 },
+		]);
+		expect(Object.keys(first.trace.finished)).toHaveLength(25);
+
+		// Distributions stay around the cycle time
+		const random = createRandom(1);
+		const draws = Array.from({ length: 2000 }, () => sampleDuration(4, { kind: "triangular", spread: 0.5 }, random));
+		expect(Math.min(...draws)).toBeGreaterThanOrEqual(2);
+		expect(Math.max(...draws)).toBeLessThanOrEqual(6);
+		expect(draws.reduce((sum, d) => sum + d, 0) / draws.length).toBeCloseTo(4, 0);
+		expect(sampleDuration(4, undefined, random)).toBe(4);
+	});
+});
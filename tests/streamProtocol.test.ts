@@ -0,0 +1,251 @@
+import { describe, test, expect } from "bun:test";
+import {
+	createJsonObjectSplitter,
+	createStreamValidator,
+	parseStreamEvent,
+} from "../src/utils/streamProtocol";
+
+const node = (id: string, extra: Record<string, unknown> = {}) =>
+	JSON.stringify({
+		type: "node",
+		data: { id, position: { x: 0, y: 0 }, data: { label: `Node ${id}` }, ...extra },
+	});
+
+describe("Stream Protocol: JSON object splitter", () => {
+	test("should join objects split across chunks", () => {
+		const splitter = createJsonObjectSplitter();
+		const line = '{"type":"node","data":{"id":"1","data":{"label":"a } b"}}}';
+
+		expect(splitter.push(line.slice(0, 20))).toEqual([]);
+		expect(splitter.push(`${line.slice(20)}\n{"type":"mode"`)).toEqual([line]);
+		expect(splitter.push(',"data":"update"}')).toEqual([
+			'{"type":"mode","data":"update"}',
+		]);
+	});
+
+	test("should drop prose and code fences around objects", () => {
+		const splitter = createJsonObjectSplitter();
+		const objects = splitter.push(
+			'Sure! Here you go:\n```json\n{"type":"mode","data":"create"}\n```',
+		);
+
+		expect(objects).toEqual(['{"type":"mode","data":"create"}']);
+		expect(splitter.flush()).toBe("```");
+	});
+
+	test("should return truncated objects on flush", () => {
+		const splitter = createJsonObjectSplitter();
+		splitter.push('{"type":"node","data":{"id":"1"');
+
+		expect(splitter.flush()).toBe('{"type":"node","data":{"id":"1"');
+		expect(splitter.flush()).toBe("");
+	});
+});
+
+describe("Stream Protocol: validator", () => {
+	test("should accept well-formed messages", () => {
+		const validator = createStreamValidator();
+
+		expect(validator.validate('{"type":"mode","data":"create"}').errors).toEqual([]);
+		expect(validator.validate(node("1")).message?.type).toBe("node");
+		expect(validator.validate(node("2")).errors).toEqual([]);
+		const { message, errors } = validator.validate(
+			'{"type":"edges","data":[{"id":"e1-2","source":"1","target":"2","style":{"stroke":"#000"}}]}',
+		);
+		expect(errors).toEqual([]);
+		// Unknown edge properties are preserved
+		expect(message).toEqual({
+			type: "edges",
+			data: [{ id: "e1-2", source: "1", target: "2", style: { stroke: "#000" } }],
+		});
+	});
+
+	test("should report invalid JSON with its line number", () => {
+		const validator = createStreamValidator();
+		validator.validate('{"type":"mode","data":"create"}');
+		const { message, errors } = validator.validate('{"type":"node",}');
+
+		expect(message).toBeUndefined();
+		expect(errors[0]?.code).toBe("invalid_json");
+		expect(errors[0]?.line).toBe(2);
+	});
+
+	test("should reject nodes without a position", () => {
+		const validator = createStreamValidator();
+		const { errors } = validator.validate(
+			'{"type":"node","data":{"id":"1","data":{"label":"Start"}}}',
+		);
+
+		expect(errors[0]?.code).toBe("invalid_message");
+		expect(errors[0]?.issues?.[0]).toStartWith("data.position");
+	});
+
+	test("should reject diamonds without outputCount", () => {
+		const validator = createStreamValidator();
+		const { errors } = validator.validate(node("3", { type: "diamond" }));
+
+		expect(errors[0]?.code).toBe("invalid_message");
+		expect(errors[0]?.issues).toContain(
+			"data.data.outputCount: diamond nodes require data.outputCount",
+		);
+	});
+
+	test("should drop edges that reference unknown nodes", () => {
+		const validator = createStreamValidator(["1", "2"]);
+		validator.validate('{"type":"mode","data":"update"}');
+		const { message, errors } = validator.validate(
+			'{"type":"edges","data":[{"id":"ok","source":"1","target":"2"},{"id":"bad","source":"2","target":"9"}]}',
+		);
+
+		expect(message?.type === "edges" && message.data.map((e) => e.id)).toEqual(["ok"]);
+		expect(errors[0]?.code).toBe("unknown_reference");
+		expect(errors[0]?.issues).toEqual(["bad: 2 -> 9"]);
+	});
+
+	test("should forget existing nodes in create mode", () => {
+		const validator = createStreamValidator(["old"]);
+		validator.validate('{"type":"mode","data":"create"}');
+
+		expect(validator.validate('{"type":"remove_node","data":"old"}').errors[0]?.code).toBe(
+			"unknown_reference",
+		);
+	});
+});
+
+describe("Stream Protocol: patch operations", () => {
+	const existingEdges = [{ id: "e1-2", source: "1", target: "2" }];
+	const updateValidator = () => {
+		const validator = createStreamValidator(["1", "2"], existingEdges);
+		validator.validate('{"type":"mode","data":"update"}');
+		return validator;
+	};
+
+	test("should accept lanes and moving a node to another lane", () => {
+		const validator = updateValidator();
+		const lanes = validator.validate(
+			'{"type":"lanes","data":[{"id":"sales","label":"Sales"},{"id":"ops","label":"Ops"}]}',
+		);
+		const move = validator.validate(
+			'{"type":"update_node","data":{"id":"2","data":{"laneId":"ops"}}}',
+		);
+
+		expect(lanes.errors).toEqual([]);
+		expect(lanes.message?.type).toBe("lanes");
+		expect(move.errors).toEqual([]);
+		expect(validator.validate('{"type":"lanes","data":[{"label":"No ID"}]}').errors[0]?.code).toBe(
+			"invalid_message",
+		);
+	});
+
+	test("should turn create mode into update mode when limited to updates", () => {
+		const validator = createStreamValidator(["1", "2"], existingEdges, undefined, { updateOnly: true });
+		const { message, errors } = validator.validate('{"type":"mode","data":"create"}');
+
+		expect(errors).toEqual([]);
+		expect(message).toEqual({ type: "mode", data: "update" });
+		expect(validator.mode).toBe("update");
+		// Existing nodes are still known - nothing was replaced
+		expect(validator.validate('{"type":"update_node","data":{"id":"2","data":{"label":"x"}}}').errors).toEqual(
+			[],
+		);
+	});
+
+	test("should accept partial node updates", () => {
+		const { message, errors } = updateValidator().validate(
+			'{"type":"update_node","data":{"id":"2","data":{"color":"#ef4444"}}}',
+		);
+
+		expect(errors).toEqual([]);
+		expect(message).toEqual({
+			type: "update_node",
+			data: { id: "2", data: { color: "#ef4444" } },
+		});
+	});
+
+	test("should convert free-text metrics and reject bad units", () => {
+		const validator = updateValidator();
+		const node = validator.validate(
+			'{"type":"update_node","data":{"id":"2","data":{"cycleTime":"2 days","cost":150}}}',
+		);
+		const edge = validator.validate(
+			'{"type":"update_edge","data":{"id":"e1-2","data":{"waitTime":{"value":4,"unit":"hours"},"probability":"70%"}}}',
+		);
+
+		expect(node.errors).toEqual([]);
+		expect(node.message?.data).toEqual({
+			id: "2",
+			data: { cycleTime: { value: 2, unit: "days" }, cost: { amount: 150, currency: "USD" } },
+		});
+		expect(edge.errors).toEqual([]);
+		expect(edge.message?.type === "update_edge" && edge.message.data.data?.probability).toBe(0.7);
+		expect(
+			validator.validate('{"type":"update_node","data":{"id":"2","data":{"sla":"soon"}}}').errors[0]?.code,
+		).toBe("invalid_message");
+		expect(
+			validator.validate(
+				'{"type":"update_node","data":{"id":"2","data":{"capacity":3,"distribution":{"kind":"uniform","spread":0.5}}}}',
+			).errors,
+		).toEqual([]);
+		expect(
+			validator.validate('{"type":"update_node","data":{"id":"2","data":{"capacity":0}}}').errors[0]?.code,
+		).toBe("invalid_message");
+	});
+
+	test("should reject operations on unknown nodes and edges", () => {
+		const validator = updateValidator();
+		const lines = [
+			'{"type":"update_node","data":{"id":"9","data":{"label":"x"}}}',
+			'{"type":"move_node","data":{"id":"9","position":{"x":0,"y":0}}}',
+			'{"type":"update_edge","data":{"id":"e9","label":"x"}}',
+			'{"type":"remove_edge","data":"e9"}',
+		];
+
+		for (const line of lines) {
+			expect(validator.validate(line).errors[0]?.code).toBe("unknown_reference");
+		}
+	});
+
+	test("should hold back add_edge with an unknown endpoint", () => {
+		const { message, dangling, errors } = updateValidator().validate(
+			'{"type":"add_edge","data":{"id":"e2-9","source":"2","target":"9"}}',
+		);
+
+		expect(message).toBeUndefined();
+		expect(dangling?.map((e) => e.id)).toEqual(["e2-9"]);
+		expect(errors[0]?.code).toBe("unknown_reference");
+	});
+
+	test("should forget edges attached to removed nodes", () => {
+		const validator = updateValidator();
+		validator.validate('{"type":"remove_node","data":"2"}');
+
+		expect(validator.validate('{"type":"remove_edge","data":"e1-2"}').errors[0]?.code).toBe(
+			"unknown_reference",
+		);
+	});
+
+	test("should reject edges reconnected to unknown nodes", () => {
+		const { errors } = updateValidator().validate(
+			'{"type":"update_edge","data":{"id":"e1-2","target":"9"}}',
+		);
+
+		expect(errors[0]?.code).toBe("unknown_reference");
+	});
+});
+
+describe("Stream Protocol: client events", () => {
+	test("should parse server events", () => {
+		const complete = parseStreamEvent('{"type":"complete"}');
+		expect(complete.success && complete.event.type).toBe("complete");
+
+		const error = parseStreamEvent(
+			'{"type":"error","code":"invalid_json","message":"Line 2 is not valid JSON","line":2}',
+		);
+		expect(error.success && error.event.type === "error" && error.event.line).toBe(2);
+	});
+
+	test("should reject unknown event types", () => {
+		const result = parseStreamEvent('{"type":"explode"}');
+		expect(result.success).toBe(false);
+	});
+});
@@ -0,0 +1,145 @@
+import { describe, test, expect } from "bun:test";
+import type { Edge, Node } from "@xyflow/react";
+import { compactGraph, createGraphHydrator } from "../src/ai/graphContext";
+import type { ProcessGraph } from "../src/types/process";
+import type { GraphState } from "../src/utils/graphPatch";
+import { createStreamValidator } from "../src/utils/streamProtocol";
+import {
+	childGraphOf,
+	composeRoot,
+	type DrillFrame,
+	toSubprocess,
+	withChildGraph,
+} from "../src/utils/subprocess";
+
+const child: GraphState = {
+	nodes: [
+		{ id: "c1", type: "oval", position: { x: 0, y: 0 }, data: { label: "Start" } },
+		{ id: "c2", position: { x: 0, y: 100 }, data: { label: "Pick items" } },
+	] as Node[],
+	edges: [{ id: "ec1-c2", source: "c1", target: "c2" }] as Edge[],
+};
+
+const parent: GraphState = {
+	nodes: [
+		{ id: "1", type: "oval", position: { x: 0, y: 0 }, data: { label: "Start" } },
+		{
+			id: "2",
+			type: "subprocess",
+			position: { x: 0, y: 100 },
+			data: { label: "Fulfil order", childGraph: child },
+		},
+	] as Node[],
+	edges: [{ id: "e1-2", source: "1", target: "2" }] as Edge[],
+};
+
+describe("Subprocess: child graphs", () => {
+	test("should open the embedded contents of a subprocess", () => {
+		expect(childGraphOf(parent.nodes[1] as Node)).toEqual({ ...child, lanes: [] });
+	});
+
+	test("should start an empty subprocess with Start -> End", () => {
+		const level = childGraphOf({ id: "9", position: { x: 0, y: 0 }, data: { label: "New" } });
+
+		expect(level.nodes.map((n) => n.data.label)).toEqual(["Start", "End"]);
+		expect(level.edges.map((e) => [e.source, e.target])).toEqual([["1", "2"]]);
+	});
+
+	test("should switch a subprocess between embedded and linked", () => {
+		const linked = toSubprocess(parent.nodes[1] as Node, "map_42");
+		expect(linked.data).toEqual({ label: "Fulfil order", mapRef: "map_42" });
+
+		const embedded = toSubprocess(linked);
+		expect(embedded.type).toBe("subprocess");
+		expect(embedded.data).toEqual({ label: "Fulfil order" });
+		expect(toSubprocess(parent.nodes[1] as Node).data.childGraph).toBe(child);
+	});
+
+	test("should write an edited level back into its node only", () => {
+		const edited = { ...child, nodes: [...child.nodes, { id: "c3", position: { x: 0, y: 200 }, data: { label: "Ship" } }] };
+		const result = withChildGraph(parent, "2", edited);
+
+		expect((result.nodes[1]?.data.childGraph as ProcessGraph).nodes.length).toBe(3);
+		expect(result.nodes[0]).toBe(parent.nodes[0] as Node);
+		expect(result.edges).toBe(parent.edges);
+	});
+});
+
+describe("Subprocess: drill-down", () => {
+	const frame: DrillFrame = {
+		nodeId: "2",
+		label: "Fulfil order",
+		parentName: "Order to cash",
+		parent,
+	};
+	const grandchild: GraphState = {
+		nodes: [{ id: "g1", position: { x: 0, y: 0 }, data: { label: "Scan" } }] as Node[],
+		edges: [],
+	};
+	const nested: GraphState = {
+		...child,
+		nodes: [
+			...child.nodes,
+			{ id: "c3", type: "subprocess", position: { x: 0, y: 200 }, data: { label: "Pack" } },
+		] as Node[],
+	};
+	const innerFrame: DrillFrame = {
+		nodeId: "c3",
+		label: "Pack",
+		parentName: "Fulfil order",
+		parent: nested,
+	};
+
+	test("should fold open levels back into the top-level graph", () => {
+		const root = composeRoot([frame, innerFrame], grandchild);
+		const level1 = root.nodes[1]?.data.childGraph as ProcessGraph;
+		const level2 = level1.nodes[2]?.data.childGraph as ProcessGraph;
+
+		expect(root.nodes.map((n) => n.id)).toEqual(["1", "2"]);
+		expect(level2.nodes.map((n) => n.id)).toEqual(["g1"]);
+	});
+
+	test("should stop at a linked map, which is saved on its own", () => {
+		const root = composeRoot([{ ...frame, parentMapId: "map_1" }, innerFrame], grandchild);
+
+		// The linked map's own top level, not the map it was opened from
+		expect(root.nodes.map((n) => n.id)).toEqual(["c1", "c2", "c3"]);
+	});
+
+	test("should return the open level unchanged at the top", () => {
+		expect(composeRoot([], parent)).toBe(parent);
+	});
+});
+
+describe("Subprocess: AI context", () => {
+	test("should list the size of a subprocess instead of its contents", () => {
+		const context = compactGraph(parent as ProcessGraph);
+
+		expect(context.nodes[1]).toEqual({
+			id: "2",
+			type: "subprocess",
+			label: "Fulfil order",
+			childSteps: 2,
+		});
+	});
+
+	test("should keep the contents when the model resends a subprocess node", () => {
+		const hydrate = createGraphHydrator(parent as ProcessGraph);
+		const line = hydrate(
+			{ type: "add_node", data: { id: "2", type: "subprocess", data: { label: "Fulfilment" } } },
+			"update",
+		) as { data: { data: Record<string, unknown> } };
+
+		expect(line.data.data).toEqual({ label: "Fulfilment", childGraph: child });
+	});
+
+	test("should accept subprocess nodes from the model", () => {
+		const validator = createStreamValidator();
+		validator.validate('{"type":"mode","data":"create"}');
+		const { errors } = validator.validate(
+			'{"type":"node","data":{"id":"5","type":"subprocess","position":{"x":0,"y":0},"data":{"label":"Billing"}}}',
+		);
+
+		expect(errors).toEqual([]);
+	});
+});